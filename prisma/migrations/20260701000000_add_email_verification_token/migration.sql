@@ -0,0 +1,4 @@
+-- Single-use email verification token (SHA-256 hash) for password registrations.
+ALTER TABLE "user_credentials"
+  ADD COLUMN "email_verify_token" TEXT,
+  ADD COLUMN "email_verify_token_expiry" TIMESTAMP(3);
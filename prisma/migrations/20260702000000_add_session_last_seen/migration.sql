@@ -0,0 +1,2 @@
+-- Last-seen timestamp per session, for the device list and least-recently-used eviction.
+ALTER TABLE "sessions" ADD COLUMN "last_seen_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
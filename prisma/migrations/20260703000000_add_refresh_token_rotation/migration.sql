@@ -0,0 +1,25 @@
+-- Refresh-token rotation: a family ID per session plus the hashes of already-rotated tokens (reuse detection).
+ALTER TABLE "sessions" ADD COLUMN "family_id" TEXT;
+UPDATE "sessions" SET "family_id" = "id" WHERE "family_id" IS NULL;
+ALTER TABLE "sessions" ALTER COLUMN "family_id" SET NOT NULL;
+
+CREATE INDEX "sessions_family_id_idx" ON "sessions"("family_id");
+
+CREATE TABLE "rotated_refresh_tokens" (
+    "id" TEXT NOT NULL,
+    "token_hash" TEXT NOT NULL,
+    "family_id" TEXT NOT NULL,
+    "session_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "rotated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "rotated_refresh_tokens_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "rotated_refresh_tokens_token_hash_key" ON "rotated_refresh_tokens"("token_hash");
+CREATE INDEX "rotated_refresh_tokens_family_id_idx" ON "rotated_refresh_tokens"("family_id");
+CREATE INDEX "rotated_refresh_tokens_expires_at_idx" ON "rotated_refresh_tokens"("expires_at");
+
+ALTER TABLE "rotated_refresh_tokens" ADD CONSTRAINT "rotated_refresh_tokens_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "rotated_refresh_tokens" ADD CONSTRAINT "rotated_refresh_tokens_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
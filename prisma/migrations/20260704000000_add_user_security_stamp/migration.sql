@@ -0,0 +1,4 @@
+-- Per-user security stamp: access tokens issued before it are rejected.
+-- Existing users start at the epoch so tokens issued before this deploy stay valid.
+ALTER TABLE "users" ADD COLUMN "security_stamp" TIMESTAMP(3) NOT NULL DEFAULT '1970-01-01 00:00:00';
+ALTER TABLE "users" ALTER COLUMN "security_stamp" SET DEFAULT CURRENT_TIMESTAMP;
@@ -0,0 +1,18 @@
+-- Login history: one row per sign-in attempt, used for the user-facing history and new-device alerts.
+CREATE TABLE "login_events" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "success" BOOLEAN NOT NULL,
+    "method" TEXT NOT NULL,
+    "failure_reason" TEXT,
+    "ip_address" TEXT,
+    "user_agent" TEXT,
+    "device_fingerprint" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "login_events_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "login_events_user_id_created_at_idx" ON "login_events"("user_id", "created_at");
+
+ALTER TABLE "login_events" ADD CONSTRAINT "login_events_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
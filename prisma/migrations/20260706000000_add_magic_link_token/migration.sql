@@ -0,0 +1,4 @@
+-- Single-use passwordless login token (SHA-256 hash) for magic-link sign-in.
+ALTER TABLE "user_credentials"
+  ADD COLUMN "magic_link_token" TEXT,
+  ADD COLUMN "magic_link_token_expiry" TIMESTAMP(3);
@@ -0,0 +1,35 @@
+-- Named permissions: role-to-permission mapping (seeded with the defaults) and per-user grants.
+CREATE TABLE "role_permissions" (
+    "role" "UserRole" NOT NULL,
+    "permission" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "role_permissions_pkey" PRIMARY KEY ("role","permission")
+);
+
+CREATE TABLE "user_permission_grants" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "permission" TEXT NOT NULL,
+    "granted_by_id" TEXT,
+    "reason" TEXT,
+    "expires_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "user_permission_grants_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "user_permission_grants_user_id_permission_key" ON "user_permission_grants"("user_id", "permission");
+
+ALTER TABLE "user_permission_grants" ADD CONSTRAINT "user_permission_grants_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Defaults: ADMIN holds every permission in src/config/permissions.ts, SUPPORT the ticket permissions.
+INSERT INTO "role_permissions" ("role", "permission") VALUES
+    ('ADMIN', 'users.role.change'),
+    ('ADMIN', 'permissions.manage'),
+    ('ADMIN', 'accounts.breach'),
+    ('ADMIN', 'payouts.approve'),
+    ('ADMIN', 'support.tickets.read'),
+    ('ADMIN', 'support.tickets.manage'),
+    ('SUPPORT', 'support.tickets.read'),
+    ('SUPPORT', 'support.tickets.manage');
@@ -0,0 +1,4 @@
+-- Read-only "view as user" sessions for support staff.
+INSERT INTO "role_permissions" ("role", "permission") VALUES
+    ('ADMIN', 'users.impersonate'),
+    ('SUPPORT', 'users.impersonate');
@@ -0,0 +1,8 @@
+-- Correlate audit entries with the request (X-Request-ID) that produced them.
+ALTER TABLE "audit_logs" ADD COLUMN "request_id" TEXT;
+
+CREATE INDEX "audit_logs_request_id_idx" ON "audit_logs"("request_id");
+
+-- Reading the audit log is admin-only.
+INSERT INTO "role_permissions" ("role", "permission") VALUES
+    ('ADMIN', 'audit.read');
@@ -0,0 +1,8 @@
+-- Tamper-evident hash chain over audit entries. Existing rows get a sequence
+-- number but no hash; the chain starts with the first entry written after this
+-- migration.
+ALTER TABLE "audit_logs" ADD COLUMN "sequence" SERIAL NOT NULL,
+ADD COLUMN "hash" TEXT,
+ADD COLUMN "prev_hash" TEXT;
+
+CREATE UNIQUE INDEX "audit_logs_sequence_key" ON "audit_logs"("sequence");
@@ -0,0 +1,4 @@
+-- Staff account operations (block, reactivate, manual upgrade, balance
+-- adjustment) are admin-only. Manual breaches keep using accounts.breach.
+INSERT INTO "role_permissions" ("role", "permission") VALUES
+    ('ADMIN', 'accounts.manage');
@@ -0,0 +1,7 @@
+-- Staff notes and the account timeline. Support reads accounts and writes
+-- notes alongside admins; changing someone else's note needs accounts.manage.
+INSERT INTO "role_permissions" ("role", "permission") VALUES
+    ('ADMIN', 'accounts.read'),
+    ('SUPPORT', 'accounts.read'),
+    ('ADMIN', 'accounts.notes.write'),
+    ('SUPPORT', 'accounts.notes.write');
@@ -0,0 +1,5 @@
+-- Staff 360° user overview (profile, sessions, login history, KYC, accounts,
+-- payouts, tickets, affiliate status, journal activity).
+INSERT INTO "role_permissions" ("role", "permission") VALUES
+    ('ADMIN', 'users.read'),
+    ('SUPPORT', 'users.read');
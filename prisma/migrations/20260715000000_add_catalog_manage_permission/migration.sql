@@ -0,0 +1,4 @@
+-- Editing the plan catalog (account types and their challenge rules) changes
+-- pricing and payout terms, so it is admin-only.
+INSERT INTO "role_permissions" ("role", "permission") VALUES
+    ('ADMIN', 'catalog.manage');
@@ -0,0 +1,5 @@
+-- A reviewer claims a pending payout while their decision is pushed to YPF.
+-- The claim gets its own columns so reviewed_by / reviewed_at only ever
+-- describe a decision that was made.
+ALTER TABLE "payouts" ADD COLUMN "review_claimed_by" TEXT,
+ADD COLUMN "review_claimed_at" TIMESTAMP(3);
@@ -1,7 +1,9 @@
+import { EventEmitter } from 'events';
 import jwt from 'jsonwebtoken';
 import { UserRole } from '@prisma/client';
-import { authenticate } from '../auth';
-import { UnauthorizedError, InvalidTokenError } from '../../../utils/errors';
+import { authenticate, forbidDuringImpersonation, requirePermission } from '../auth';
+import { config } from '../../../config';
+import { UnauthorizedError, InvalidTokenError, ForbiddenError } from '../../../utils/errors';
 import type { Request, Response, NextFunction } from 'express';
 
 // =============================================================================
@@ -9,9 +11,23 @@ import type { Request, Response, NextFunction } from 'express';
 // =============================================================================
 
 const mockFindSessionById = jest.fn();
+const mockTouchSession = jest.fn();
+const mockFindSecurityStamp = jest.fn();
 
 jest.mock('../../../repositories/auth.repository', () => ({
   findSessionById: (...args: unknown[]) => mockFindSessionById(...args),
+  touchSession: (...args: unknown[]) => mockTouchSession(...args),
+  findSecurityStamp: (...args: unknown[]) => mockFindSecurityStamp(...args),
+}));
+
+const mockHasPermission = jest.fn();
+jest.mock('../../../services/permission.service', () => ({
+  hasPermission: (...args: unknown[]) => mockHasPermission(...args),
+}));
+
+const mockRecordImpersonatedRequest = jest.fn();
+jest.mock('../../../services/impersonation.service', () => ({
+  recordImpersonatedRequest: (...args: unknown[]) => mockRecordImpersonatedRequest(...args),
 }));
 
 jest.mock('../../../utils/logger', () => ({
@@ -47,15 +63,18 @@ const runMiddleware = async (token: string | null) => {
 
 beforeEach(() => {
   jest.clearAllMocks();
+  mockTouchSession.mockResolvedValue(undefined);
+  // Stamp well before any token minted in these tests.
+  mockFindSecurityStamp.mockResolvedValue(new Date('2020-01-01T00:00:00Z'));
 });
 
 // =============================================================================
 // authenticate — session enforcement
 // =============================================================================
 
-describe('authenticate (single-session enforcement)', () => {
+describe('authenticate (session enforcement)', () => {
   it('passes when the JWT is valid and its session exists for the same user', async () => {
-    mockFindSessionById.mockResolvedValue({ id: 'session-1', userId: 'user-1' });
+    mockFindSessionById.mockResolvedValue({ id: 'session-1', userId: 'user-1', lastSeenAt: new Date() });
 
     const { req, next } = await runMiddleware(makeToken());
 
@@ -64,10 +83,26 @@ describe('authenticate (single-session enforcement)', () => {
       id: 'user-1',
       email: 'trader@example.com',
       role: UserRole.TRADER,
+      sessionId: 'session-1',
     });
+    // Seen moments ago — no last-seen write.
+    expect(mockTouchSession).not.toHaveBeenCalled();
   });
 
-  it('401s when the session has been evicted (another browser logged in)', async () => {
+  it('bumps last-seen when the session has not been seen recently', async () => {
+    mockFindSessionById.mockResolvedValue({
+      id: 'session-1',
+      userId: 'user-1',
+      lastSeenAt: new Date(Date.now() - 60 * 60 * 1000),
+    });
+
+    const { next } = await runMiddleware(makeToken());
+
+    expect(next).toHaveBeenCalledWith();
+    expect(mockTouchSession).toHaveBeenCalledWith('session-1', expect.any(Date));
+  });
+
+  it('401s when the session has been revoked (logout, session limit, or "log out everywhere")', async () => {
     mockFindSessionById.mockResolvedValue(null);
 
     const { next } = await runMiddleware(makeToken());
@@ -109,3 +144,285 @@ describe('authenticate (single-session enforcement)', () => {
     expect(mockFindSessionById).not.toHaveBeenCalled();
   });
 });
+
+// =============================================================================
+// authenticate — security stamp
+// =============================================================================
+
+describe('authenticate (security stamp)', () => {
+  beforeEach(() => {
+    mockFindSessionById.mockResolvedValue({ id: 'session-1', userId: 'user-1', lastSeenAt: new Date() });
+  });
+
+  it('401s when the token was issued before the last password / role / status change', async () => {
+    const token = makeToken();
+    mockFindSecurityStamp.mockResolvedValue(new Date(Date.now() + 60 * 1000));
+
+    const { req, next } = await runMiddleware(token);
+
+    const err = next.mock.calls[0]![0];
+    expect(err).toBeInstanceOf(UnauthorizedError);
+    expect(err.message).toBe('Token has been revoked. Please sign in again.');
+    expect(req.user).toBeUndefined();
+  });
+
+  it('accepts a token issued in the same second the stamp was bumped', async () => {
+    mockFindSecurityStamp.mockResolvedValue(new Date());
+
+    const { next } = await runMiddleware(makeToken());
+
+    expect(next).toHaveBeenCalledWith();
+  });
+
+  it('401s when the user no longer exists', async () => {
+    mockFindSecurityStamp.mockResolvedValue(null);
+
+    const { next } = await runMiddleware(makeToken());
+
+    expect(next.mock.calls[0]![0]).toBeInstanceOf(UnauthorizedError);
+  });
+});
+
+// =============================================================================
+// authenticate — cookie transport
+// =============================================================================
+
+describe('authenticate (cookie transport)', () => {
+  const setCookieMode = (enabled: boolean) => {
+    (config.security.cookies as { enabled: boolean }).enabled = enabled;
+  };
+
+  const runWithCookies = async (
+    method: string,
+    cookies: Record<string, string>,
+    headers: Record<string, string> = {}
+  ) => {
+    const req = { method, headers, cookies } as unknown as Request;
+    const next: NextFunction = jest.fn();
+    await authenticate(req, {} as Response, next);
+    return { req, next: next as jest.Mock };
+  };
+
+  beforeEach(() => {
+    setCookieMode(true);
+    mockFindSessionById.mockResolvedValue({ id: 'session-1', userId: 'user-1', lastSeenAt: new Date() });
+  });
+
+  afterEach(() => {
+    setCookieMode(false);
+  });
+
+  it('accepts the access cookie on a safe request without a CSRF token', async () => {
+    const { req, next } = await runWithCookies('GET', { df_access: makeToken() });
+
+    expect(next).toHaveBeenCalledWith();
+    expect(req.user?.id).toBe('user-1');
+  });
+
+  it('accepts a cookie-authenticated write when the CSRF header matches', async () => {
+    const { next } = await runWithCookies(
+      'POST',
+      { df_access: makeToken(), df_csrf: 'csrf-abc' },
+      { 'x-csrf-token': 'csrf-abc' }
+    );
+
+    expect(next).toHaveBeenCalledWith();
+  });
+
+  it('403s a cookie-authenticated write without a CSRF header', async () => {
+    const { req, next } = await runWithCookies('POST', { df_access: makeToken(), df_csrf: 'csrf-abc' });
+
+    expect(next.mock.calls[0]![0]).toBeInstanceOf(ForbiddenError);
+    expect(req.user).toBeUndefined();
+  });
+
+  it('403s a cookie-authenticated write with a mismatched CSRF header', async () => {
+    const { next } = await runWithCookies(
+      'DELETE',
+      { df_access: makeToken(), df_csrf: 'csrf-abc' },
+      { 'x-csrf-token': 'csrf-xyz' }
+    );
+
+    expect(next.mock.calls[0]![0]).toBeInstanceOf(ForbiddenError);
+  });
+
+  it('prefers the Bearer header and skips CSRF for it', async () => {
+    const { next } = await runWithCookies(
+      'POST',
+      { df_access: 'stale-cookie' },
+      { authorization: `Bearer ${makeToken()}` }
+    );
+
+    expect(next).toHaveBeenCalledWith();
+  });
+
+  it('ignores auth cookies when cookie transport is disabled', async () => {
+    setCookieMode(false);
+
+    const { next } = await runWithCookies('GET', { df_access: makeToken() });
+
+    const err = next.mock.calls[0]![0];
+    expect(err).toBeInstanceOf(UnauthorizedError);
+    expect(err.message).toBe('Missing or malformed Authorization header');
+  });
+});
+
+// =============================================================================
+// authenticate — impersonation
+// =============================================================================
+
+describe('authenticate (impersonation)', () => {
+  const impersonationToken = () =>
+    jwt.sign(
+      {
+        sub: 'trader-1',
+        email: 'trader@example.com',
+        role: UserRole.TRADER,
+        type: 'access',
+        sid: 'staff-session',
+        act: { sub: 'staff-1' },
+      },
+      process.env['JWT_SECRET'] as string,
+      { expiresIn: '15m', jwtid: 'imp-1' }
+    );
+
+  const runImpersonated = async (method: string) => {
+    const req = {
+      method,
+      originalUrl: '/v1/payouts',
+      headers: { authorization: `Bearer ${impersonationToken()}` },
+    } as unknown as Request;
+    const res = Object.assign(new EventEmitter(), { statusCode: 200 }) as unknown as Response;
+    const next: NextFunction = jest.fn();
+    await authenticate(req, res, next);
+    return { req, res, next: next as jest.Mock };
+  };
+
+  beforeEach(() => {
+    mockFindSessionById.mockResolvedValue({
+      id: 'staff-session',
+      userId: 'staff-1',
+      lastSeenAt: new Date(),
+    });
+  });
+
+  it('acts as the trader on the staff member’s session', async () => {
+    const { req, next } = await runImpersonated('GET');
+
+    expect(next).toHaveBeenCalledWith();
+    expect(req.user).toMatchObject({ id: 'trader-1', impersonatorId: 'staff-1', sessionId: 'staff-session' });
+    expect(mockFindSecurityStamp).toHaveBeenCalledWith('trader-1');
+    expect(mockFindSecurityStamp).toHaveBeenCalledWith('staff-1');
+  });
+
+  it('records each impersonated request once the response is sent', async () => {
+    const { res } = await runImpersonated('GET');
+
+    (res as unknown as EventEmitter).emit('finish');
+
+    expect(mockRecordImpersonatedRequest).toHaveBeenCalledWith(
+      expect.objectContaining({
+        staffId: 'staff-1',
+        userId: 'trader-1',
+        impersonationId: 'imp-1',
+        method: 'GET',
+        path: '/v1/payouts',
+        statusCode: 200,
+      })
+    );
+  });
+
+  it('refuses writes', async () => {
+    const { req, next } = await runImpersonated('POST');
+
+    const err = next.mock.calls[0]![0];
+    expect(err).toBeInstanceOf(ForbiddenError);
+    expect(err.message).toBe('Impersonation sessions are read-only');
+    expect(req.user).toBeUndefined();
+  });
+
+  it('401s once the staff member’s session is gone', async () => {
+    mockFindSessionById.mockResolvedValue(null);
+
+    const { next } = await runImpersonated('GET');
+
+    expect(next.mock.calls[0]![0]).toBeInstanceOf(UnauthorizedError);
+  });
+
+  it('401s when the staff member’s stamp was bumped (e.g. demoted)', async () => {
+    mockFindSecurityStamp.mockImplementation(async (userId: string) =>
+      userId === 'staff-1' ? new Date(Date.now() + 60 * 1000) : new Date('2020-01-01T00:00:00Z')
+    );
+
+    const { next } = await runImpersonated('GET');
+
+    expect(next.mock.calls[0]![0]).toBeInstanceOf(UnauthorizedError);
+  });
+});
+
+// =============================================================================
+// forbidDuringImpersonation
+// =============================================================================
+
+describe('forbidDuringImpersonation', () => {
+  const trader = { id: 'trader-1', email: 't@x.com', role: UserRole.TRADER, sessionId: 's-1' };
+
+  const runGuard = (user: Request['user']) => {
+    const next: NextFunction = jest.fn();
+    forbidDuringImpersonation({ user } as unknown as Request, {} as Response, next);
+    return next as jest.Mock;
+  };
+
+  it('passes for the trader’s own session', () => {
+    expect(runGuard(trader)).toHaveBeenCalledWith();
+  });
+
+  it('403s when a staff member is impersonating', () => {
+    const next = runGuard({ ...trader, impersonatorId: 'staff-1' });
+
+    const err = next.mock.calls[0]![0];
+    expect(err).toBeInstanceOf(ForbiddenError);
+    expect(err.message).toBe('This action is not available while impersonating a user');
+  });
+});
+
+// =============================================================================
+// requirePermission
+// =============================================================================
+
+describe('requirePermission', () => {
+  const runGuard = async (user: Request['user']) => {
+    const req = { user, path: '/v1/users/u-2/role' } as unknown as Request;
+    const next: NextFunction = jest.fn();
+    await requirePermission('users.role.change')(req, {} as Response, next);
+    return next as jest.Mock;
+  };
+
+  const admin = { id: 'admin-1', email: 'a@x.com', role: UserRole.ADMIN, sessionId: 's-1' };
+
+  it('passes when the user holds the permission', async () => {
+    mockHasPermission.mockResolvedValue(true);
+
+    const next = await runGuard(admin);
+
+    expect(next).toHaveBeenCalledWith();
+    expect(mockHasPermission).toHaveBeenCalledWith(admin, 'users.role.change');
+  });
+
+  it('403s when the user lacks the permission', async () => {
+    mockHasPermission.mockResolvedValue(false);
+
+    const next = await runGuard(admin);
+
+    const err = next.mock.calls[0]![0];
+    expect(err).toBeInstanceOf(ForbiddenError);
+    expect(err.message).toBe('This action requires the users.role.change permission');
+  });
+
+  it('401s without an authenticated user', async () => {
+    const next = await runGuard(undefined);
+
+    expect(next.mock.calls[0]![0]).toBeInstanceOf(UnauthorizedError);
+    expect(mockHasPermission).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,96 @@
+import { requireCaptcha } from '../captcha';
+import { CaptchaError } from '../../../utils/errors';
+import type { Request, Response, NextFunction } from 'express';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+
+const mockConfig = {
+  isProduction: false,
+  captcha: {
+    provider: 'test',
+    testToken: 'captcha-test-pass',
+    routes: ['register', 'support-ticket'],
+  },
+};
+jest.mock('../../../config/index', () => ({
+  get config() {
+    return mockConfig;
+  },
+}));
+
+jest.mock('../../../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const run = async (
+  middleware: ReturnType<typeof requireCaptcha>,
+  req: { headers?: Record<string, string>; body?: Record<string, unknown>; user?: unknown }
+) => {
+  const request = { headers: {}, body: {}, ip: '203.0.113.7', ...req } as unknown as Request;
+  const next: NextFunction = jest.fn();
+  await middleware(request, {} as Response, next);
+  return { req: request, next: next as jest.Mock };
+};
+
+// =============================================================================
+// requireCaptcha
+// =============================================================================
+
+describe('requireCaptcha', () => {
+  it('passes a valid token from the X-Captcha-Token header', async () => {
+    const { next } = await run(requireCaptcha('register'), {
+      headers: { 'x-captcha-token': 'captcha-test-pass' },
+    });
+
+    expect(next).toHaveBeenCalledWith();
+  });
+
+  it('accepts the token in the body and strips it from the form data', async () => {
+    const { req, next } = await run(requireCaptcha('register'), {
+      body: { email: 'sam@example.com', captchaToken: 'captcha-test-pass' },
+    });
+
+    expect(next).toHaveBeenCalledWith();
+    expect(req.body).toEqual({ email: 'sam@example.com' });
+  });
+
+  it('rejects a missing token', async () => {
+    const { next } = await run(requireCaptcha('register'), {});
+
+    const error = next.mock.calls[0][0];
+    expect(error).toBeInstanceOf(CaptchaError);
+    expect(error).toMatchObject({ code: 'CAPTCHA_FAILED', statusCode: 403 });
+  });
+
+  it('rejects a token the provider does not accept', async () => {
+    const { next } = await run(requireCaptcha('register'), {
+      headers: { 'x-captcha-token': 'scripted' },
+    });
+
+    expect(next.mock.calls[0][0]).toBeInstanceOf(CaptchaError);
+  });
+
+  it('skips routes that are not listed in CAPTCHA_ROUTES', async () => {
+    const { next } = await run(requireCaptcha('affiliate-apply'), {});
+
+    expect(next).toHaveBeenCalledWith();
+  });
+
+  it('lets signed-in users through only when asked to', async () => {
+    const user = { id: 'user-1' };
+
+    const skipped = await run(requireCaptcha('support-ticket', { skipAuthenticated: true }), {
+      user,
+    });
+    const enforced = await run(requireCaptcha('register'), { user });
+
+    expect(skipped.next).toHaveBeenCalledWith();
+    expect(enforced.next.mock.calls[0][0]).toBeInstanceOf(CaptchaError);
+  });
+});
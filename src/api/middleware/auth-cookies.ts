@@ -0,0 +1,168 @@
+import { randomBytes, timingSafeEqual } from 'crypto';
+import type { CookieOptions, Request, Response } from 'express';
+import jwt from 'jsonwebtoken';
+import { config } from '../../config/index.js';
+import { ForbiddenError } from '../../utils/errors.js';
+
+// =============================================================================
+// Cookie Token Transport + CSRF
+// =============================================================================
+// Opt-in alternative to handing tokens to JavaScript. A client that sends
+// `X-Auth-Transport: cookie` when signing in gets:
+//   - df_access  — httpOnly access token (sent on every API request)
+//   - df_refresh — httpOnly refresh token, scoped to /v1/auth
+//   - df_csrf    — readable CSRF token (double-submit)
+// and the response body carries only `csrfToken`. Cookie-authenticated
+// state-changing requests must echo df_csrf in the X-CSRF-Token header; Bearer
+// requests can't be forged cross-site and are unaffected.
+//
+// Disabled unless AUTH_COOKIES_ENABLED=true — cookies are ignored entirely.
+// =============================================================================
+
+export const ACCESS_TOKEN_COOKIE = 'df_access';
+export const REFRESH_TOKEN_COOKIE = 'df_refresh';
+export const CSRF_COOKIE = 'df_csrf';
+export const CSRF_HEADER = 'x-csrf-token';
+export const TRANSPORT_HEADER = 'x-auth-transport';
+
+const REFRESH_COOKIE_PATH = '/v1/auth';
+/** Methods that must not change state — exempt from CSRF checks. */
+export const SAFE_METHODS: ReadonlySet<string> = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+export interface IssuedTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
+/** Body fields that replace the tokens in cookie mode. */
+export interface CookieTokenResult {
+  csrfToken: string;
+}
+
+const cookieOptions = (): CookieOptions => ({
+  secure: config.security.cookies.secure,
+  sameSite: config.security.cookies.sameSite,
+  ...(config.security.cookies.domain && { domain: config.security.cookies.domain }),
+});
+
+/** Cookie expiry = the JWT's own `exp`. */
+const expiryOf = (token: string): Date | undefined => {
+  const exp = (jwt.decode(token) as { exp?: number } | null)?.exp;
+  return exp ? new Date(exp * 1000) : undefined;
+};
+
+const readCookie = (req: Request, name: string): string | undefined => {
+  if (!config.security.cookies.enabled) return undefined;
+  const value = (req.cookies as Record<string, unknown> | undefined)?.[name];
+  return typeof value === 'string' && value.length > 0 ? value : undefined;
+};
+
+/**
+ * Whether the client asked for cookie transport (and the server allows it).
+ */
+export const wantsCookieTransport = (req: Request): boolean =>
+  config.security.cookies.enabled && req.headers[TRANSPORT_HEADER] === 'cookie';
+
+/**
+ * Whether an authenticated request carried its access token in the cookie
+ * (no Bearer header) — tokens reissued to it belong in cookies too.
+ */
+export const authenticatedViaCookie = (req: Request): boolean =>
+  config.security.cookies.enabled && !req.headers['authorization']?.startsWith('Bearer ');
+
+/**
+ * Set the access, refresh and CSRF cookies. Returns the CSRF token.
+ */
+export const setAuthCookies = (res: Response, tokens: IssuedTokens): string => {
+  const csrfToken = randomBytes(32).toString('base64url');
+  const base = cookieOptions();
+  const accessExpires = expiryOf(tokens.accessToken);
+  const refreshExpires = expiryOf(tokens.refreshToken);
+
+  res.cookie(ACCESS_TOKEN_COOKIE, tokens.accessToken, {
+    ...base,
+    httpOnly: true,
+    path: '/',
+    ...(accessExpires && { expires: accessExpires }),
+  });
+  res.cookie(REFRESH_TOKEN_COOKIE, tokens.refreshToken, {
+    ...base,
+    httpOnly: true,
+    path: REFRESH_COOKIE_PATH,
+    ...(refreshExpires && { expires: refreshExpires }),
+  });
+  res.cookie(CSRF_COOKIE, csrfToken, {
+    ...base,
+    httpOnly: false,
+    path: '/',
+    ...(refreshExpires && { expires: refreshExpires }),
+  });
+
+  return csrfToken;
+};
+
+export const clearAuthCookies = (res: Response): void => {
+  if (!config.security.cookies.enabled) return;
+  const base = cookieOptions();
+  res.clearCookie(ACCESS_TOKEN_COOKIE, { ...base, path: '/' });
+  res.clearCookie(REFRESH_TOKEN_COOKIE, { ...base, path: REFRESH_COOKIE_PATH });
+  res.clearCookie(CSRF_COOKIE, { ...base, path: '/' });
+};
+
+/**
+ * The token fields of an auth response. In cookie mode (requested by the
+ * client, or `cookieMode` when the request itself came in on cookies) the
+ * tokens are set as cookies and only the CSRF token is returned.
+ */
+export const issueTokens = (
+  req: Request,
+  res: Response,
+  tokens: IssuedTokens,
+  cookieMode = wantsCookieTransport(req)
+): IssuedTokens | CookieTokenResult => {
+  if (!cookieMode) {
+    return { accessToken: tokens.accessToken, refreshToken: tokens.refreshToken };
+  }
+  return { csrfToken: setAuthCookies(res, tokens) };
+};
+
+/**
+ * Double-submit check: the X-CSRF-Token header must match the CSRF cookie.
+ */
+export const verifyCsrf = (req: Request): void => {
+  const cookie = readCookie(req, CSRF_COOKIE);
+  const header = req.headers[CSRF_HEADER];
+
+  if (
+    !cookie ||
+    typeof header !== 'string' ||
+    header.length !== cookie.length ||
+    !timingSafeEqual(Buffer.from(header), Buffer.from(cookie))
+  ) {
+    throw new ForbiddenError('Missing or invalid CSRF token');
+  }
+};
+
+/**
+ * The access token from the access cookie, or undefined. Unsafe methods must
+ * pass the CSRF check.
+ */
+export const readAccessTokenCookie = (req: Request): string | undefined => {
+  const token = readCookie(req, ACCESS_TOKEN_COOKIE);
+  if (token && !SAFE_METHODS.has(req.method)) {
+    verifyCsrf(req);
+  }
+  return token;
+};
+
+/**
+ * The refresh token from the refresh cookie, or undefined. Only ever read on
+ * POSTs, so always CSRF-checked.
+ */
+export const readRefreshTokenCookie = (req: Request): string | undefined => {
+  const token = readCookie(req, REFRESH_TOKEN_COOKIE);
+  if (token) {
+    verifyCsrf(req);
+  }
+  return token;
+};
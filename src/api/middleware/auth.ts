@@ -1,10 +1,15 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { UserRole } from '@prisma/client';
-import { config } from '../../config/index.js';
 import { UnauthorizedError, ForbiddenError, TokenExpiredError, InvalidTokenError } from '../../utils/errors.js';
 import { logger } from '../../utils/logger.js';
-import { findSessionById } from '../../repositories/auth.repository.js';
+import { verifyJwt } from '../../utils/jwt-keys.js';
+import { findSessionById, touchSession } from '../../repositories/auth.repository.js';
+import { getSecurityStamp } from '../../services/security-stamp.service.js';
+import { hasPermission } from '../../services/permission.service.js';
+import { recordImpersonatedRequest } from '../../services/impersonation.service.js';
+import type { Permission } from '../../config/permissions.js';
+import { readAccessTokenCookie, SAFE_METHODS } from './auth-cookies.js';
 
 // =============================================================================
 // Express Request Type Augmentation
@@ -18,6 +23,10 @@ declare global {
         id: string;
         email: string;
         role: UserRole;
+        /** The Session row this request's token is bound to. */
+        sessionId: string;
+        /** Set when support staff are viewing as this user (read-only). */
+        impersonatorId?: string | undefined;
       };
     }
   }
@@ -33,8 +42,12 @@ export interface JwtPayload {
   role: UserRole;
   type: 'access' | 'refresh';
   /** Session ID — identifies the Session row this token was issued for.
-   *  Used by `authenticate` to enforce single-session-per-user. */
+   *  Used by `authenticate` to reject tokens whose session was revoked. */
   sid: string;
+  /** Actor claim (RFC 8693) — present on impersonation tokens, naming the
+   *  staff member acting as `sub`. `sid` is then the staff member's session. */
+  act?: { sub: string };
+  jti?: string;
   iat?: number;
   exp?: number;
 }
@@ -43,34 +56,58 @@ export interface JwtPayload {
 // Authenticate Middleware
 // =============================================================================
 
+/** `lastSeenAt` is written at most this often per session. */
+const LAST_SEEN_THROTTLE_MS = 5 * 60 * 1000;
+
 /**
- * Verifies the Bearer token from the Authorization header and attaches
- * the decoded user payload to `req.user`.
+ * The access token for this request: the Bearer header if present, otherwise
+ * the access cookie (cookie mode only — CSRF-checked on unsafe methods).
+ */
+const extractAccessToken = (req: Request): string | undefined => {
+  const authHeader = req.headers['authorization'];
+  if (authHeader?.startsWith('Bearer ')) {
+    return authHeader.slice(7); // strip "Bearer "
+  }
+  return readAccessTokenCookie(req);
+};
+
+/**
+ * Verifies the access token — a Bearer header or, in cookie mode, the
+ * httpOnly access cookie — and attaches the decoded user payload to `req.user`.
  *
  * Also confirms the token's session (`sid`) still exists in the database.
- * This enforces single-session-per-user: when a user logs in elsewhere,
- * the prior session is deleted and the old token's next request 401s.
+ * This is the single enforcement point for session revocation: logout, the
+ * per-role session limit, "log out everywhere else" and password resets all
+ * delete Session rows, and the old token's next request 401s.
+ *
+ * Finally, tokens issued before the user's security stamp (last password,
+ * role or status change) are rejected, so a reset immediately locks out any
+ * access token an attacker may hold. The stamp is Redis-cached.
+ *
+ * Impersonation tokens (`act` claim) are bound to the staff member's session,
+ * checked against both users' stamps, refused on anything but safe methods,
+ * and every request they make is written to the audit log.
  *
  * Throws:
  * - `UnauthorizedError` if no token is provided or the session was invalidated
+ * - `ForbiddenError` if a cookie-authenticated write has no valid CSRF token,
+ *   or an impersonation token attempts a write
  * - `TokenExpiredError` if the token has expired
  * - `InvalidTokenError` if the token is malformed or invalid
  */
 export const authenticate = async (
   req: Request,
-  _res: Response,
+  res: Response,
   next: NextFunction
 ): Promise<void> => {
   try {
-    const authHeader = req.headers['authorization'];
+    const token = extractAccessToken(req);
 
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    if (!token) {
       throw new UnauthorizedError('Missing or malformed Authorization header');
     }
 
-    const token = authHeader.slice(7); // strip "Bearer "
-
-    const decoded = jwt.verify(token, config.jwt.secret) as JwtPayload;
+    const decoded = verifyJwt<JwtPayload>(token);
 
     // Only accept access tokens (not refresh tokens)
     if (decoded.type !== 'access') {
@@ -81,19 +118,60 @@ export const authenticate = async (
       throw new InvalidTokenError('Access token is missing a session identifier');
     }
 
-    // Enforce single-session-per-user: the session row must still exist.
-    // If a newer login on another browser deleted this session, fail here.
+    const impersonatorId = decoded.act?.sub;
+
+    // The session row must still exist. If it was revoked (logout, evicted by
+    // the session limit, "log out everywhere else"), fail here.
     const session = await findSessionById(decoded.sid);
-    if (!session || session.userId !== decoded.sub) {
+    if (!session || session.userId !== (impersonatorId ?? decoded.sub)) {
       throw new UnauthorizedError('Session has been invalidated');
     }
 
+    // Reject tokens minted before the last password / role / status change —
+    // of the user, and of the staff member when impersonating.
+    for (const userId of impersonatorId ? [decoded.sub, impersonatorId] : [decoded.sub]) {
+      const securityStamp = await getSecurityStamp(userId);
+      if (securityStamp === null || (decoded.iat ?? 0) < securityStamp) {
+        throw new UnauthorizedError('Token has been revoked. Please sign in again.');
+      }
+    }
+
+    if (impersonatorId && !SAFE_METHODS.has(req.method)) {
+      throw new ForbiddenError('Impersonation sessions are read-only');
+    }
+
+    // Feed the device list's "last seen". Throttled and fire-and-forget — a
+    // failed write must never fail the request.
+    const staleBefore = new Date(Date.now() - LAST_SEEN_THROTTLE_MS);
+    if (session.lastSeenAt < staleBefore) {
+      touchSession(session.id, staleBefore).catch((err: unknown) => {
+        logger.debug({ err, sessionId: session.id }, 'Failed to update session last-seen');
+      });
+    }
+
     req.user = {
       id: decoded.sub,
       email: decoded.email,
       role: decoded.role,
+      sessionId: session.id,
+      ...(impersonatorId && { impersonatorId }),
     };
 
+    if (impersonatorId) {
+      res.on('finish', () => {
+        void recordImpersonatedRequest({
+          staffId: impersonatorId,
+          userId: decoded.sub,
+          impersonationId: decoded.jti,
+          method: req.method,
+          path: req.originalUrl,
+          statusCode: res.statusCode,
+          ipAddress: req.ip ?? undefined,
+          userAgent: req.headers['user-agent'] ?? undefined,
+        });
+      });
+    }
+
     next();
   } catch (error) {
     if (error instanceof jwt.TokenExpiredError) {
@@ -117,6 +195,8 @@ export const authenticate = async (
  * Like `authenticate`, but does NOT throw when no token is present.
  * If a valid token exists, `req.user` is populated; otherwise it stays undefined.
  * Useful for routes that work for both authenticated and anonymous users.
+ * Impersonation tokens are not bound to the user's own session, so they are
+ * treated as anonymous here.
  */
 export const optionalAuthenticate = async (
   req: Request,
@@ -124,24 +204,29 @@ export const optionalAuthenticate = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    const authHeader = req.headers['authorization'];
+    const token = extractAccessToken(req);
 
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    if (!token) {
       next();
       return;
     }
 
-    const token = authHeader.slice(7);
-
-    const decoded = jwt.verify(token, config.jwt.secret) as JwtPayload;
+    const decoded = verifyJwt<JwtPayload>(token);
 
     if (decoded.type === 'access' && decoded.sid) {
       const session = await findSessionById(decoded.sid);
-      if (session && session.userId === decoded.sub) {
+      const securityStamp = session ? await getSecurityStamp(decoded.sub) : null;
+      if (
+        session &&
+        session.userId === decoded.sub &&
+        securityStamp !== null &&
+        (decoded.iat ?? 0) >= securityStamp
+      ) {
         req.user = {
           id: decoded.sub,
           email: decoded.email,
           role: decoded.role,
+          sessionId: session.id,
         };
       }
     }
@@ -154,6 +239,32 @@ export const optionalAuthenticate = async (
   }
 };
 
+// =============================================================================
+// Impersonation Guard Middleware
+// =============================================================================
+
+/**
+ * Refuses the request when a staff member is impersonating the user. For safe
+ * (GET) routes that mint credentials usable outside this API — the read-only
+ * check in `authenticate` only looks at the HTTP method.
+ * Must be used **after** `authenticate`.
+ *
+ * @example
+ *   router.get('/iframe-url', forbidDuringImpersonation, handler);
+ */
+export const forbidDuringImpersonation = (
+  req: Request,
+  _res: Response,
+  next: NextFunction
+): void => {
+  if (req.user?.impersonatorId) {
+    next(new ForbiddenError('This action is not available while impersonating a user'));
+    return;
+  }
+
+  next();
+};
+
 // =============================================================================
 // Role Guard Middleware
 // =============================================================================
@@ -194,3 +305,44 @@ export const requireRole = (...roles: UserRole[]) => {
     next();
   };
 };
+
+// =============================================================================
+// Permission Guard Middleware
+// =============================================================================
+
+/**
+ * Returns middleware that checks whether the user holds `permission` — through
+ * their role's `role_permissions` rows or a per-user grant.
+ * Must be used **after** `authenticate`.
+ *
+ * @example
+ *   router.patch('/:id/role', requirePermission('users.role.change'), handler);
+ */
+export const requirePermission = (permission: Permission) => {
+  return async (req: Request, _res: Response, next: NextFunction): Promise<void> => {
+    if (!req.user) {
+      next(new UnauthorizedError('Authentication required'));
+      return;
+    }
+
+    try {
+      if (!(await hasPermission(req.user, permission))) {
+        logger.warn(
+          {
+            userId: req.user.id,
+            userRole: req.user.role,
+            requiredPermission: permission,
+            path: req.path,
+          },
+          'Access denied: missing permission'
+        );
+        next(new ForbiddenError(`This action requires the ${permission} permission`));
+        return;
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
@@ -0,0 +1,77 @@
+import { Request, Response, NextFunction } from 'express';
+import { config } from '../../config/index.js';
+import { getCaptchaProvider } from '../../providers/captcha/index.js';
+import { CaptchaError } from '../../utils/errors.js';
+import { logger } from '../../utils/logger.js';
+
+// =============================================================================
+// CAPTCHA Middleware
+// =============================================================================
+// Bot protection for public forms, on top of IP rate limiting. The frontend
+// sends the widget's response token in an `X-Captcha-Token` header (or a
+// `captchaToken` body field). Whether a form is protected is configured per
+// route key in CAPTCHA_ROUTES; with CAPTCHA_PROVIDER=none nothing is checked.
+// =============================================================================
+
+export type CaptchaRoute = 'register' | 'password-forgot' | 'support-ticket' | 'affiliate-apply';
+
+export interface CaptchaOptions {
+  /**
+   * Let signed-in users through without a token. Needs an auth middleware
+   * (e.g. `optionalAuthenticate`) to run first so `req.user` is populated.
+   */
+  skipAuthenticated?: boolean | undefined;
+}
+
+const readToken = (req: Request): string | undefined => {
+  const header = req.headers['x-captcha-token'];
+  if (typeof header === 'string' && header) return header;
+
+  const body = req.body as Record<string, unknown> | undefined;
+  const fromBody = body?.['captchaToken'];
+  return typeof fromBody === 'string' && fromBody ? fromBody : undefined;
+};
+
+/**
+ * Require a valid CAPTCHA token for the `route` form. Responds with
+ * 403 CAPTCHA_FAILED when the token is missing or rejected.
+ */
+export const requireCaptcha = (route: CaptchaRoute, options: CaptchaOptions = {}) => {
+  return async (req: Request, _res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const provider = getCaptchaProvider();
+      if (!provider || !config.captcha.routes.includes(route)) {
+        next();
+        return;
+      }
+
+      if (options.skipAuthenticated && req.user) {
+        next();
+        return;
+      }
+
+      const token = readToken(req);
+      // Keep the token out of the form data the route validates and stores.
+      if (req.body && typeof req.body === 'object') {
+        delete (req.body as Record<string, unknown>)['captchaToken'];
+      }
+
+      if (!token) {
+        throw new CaptchaError('CAPTCHA verification required');
+      }
+
+      const result = await provider.verify(token, req.ip);
+      if (!result.success) {
+        logger.warn(
+          { route, provider: provider.name, errorCodes: result.errorCodes, ip: req.ip },
+          'CAPTCHA verification failed'
+        );
+        throw new CaptchaError();
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
@@ -6,3 +6,5 @@ export * from './error-handler.js';
 export * from './request-id.js';
 export * from './rate-limiter.js';
 export * from './auth.js';
+export * from './auth-cookies.js';
+export * from './captcha.js';
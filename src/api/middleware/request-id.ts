@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import { v4 as uuidv4 } from 'uuid';
+import type { AuditRequestContext } from '../../services/audit.service.js';
 
 // =============================================================================
 // Request ID Middleware
@@ -26,3 +27,12 @@ export const requestIdMiddleware = (
   
   next();
 };
+
+/**
+ * IP, user agent and request ID of the current request, for audit entries.
+ */
+export const auditContext = (req: Request): AuditRequestContext => ({
+  ipAddress: req.ip ?? undefined,
+  userAgent: req.headers['user-agent'] ?? undefined,
+  requestId: req.requestId,
+});
@@ -11,12 +11,24 @@ import jwt from 'jsonwebtoken';
 
 const JWT_SECRET = 'testsecret';
 jest.mock('../../../../config/index', () => ({
-  config: { jwt: { secret: JWT_SECRET }, isProduction: false },
+  config: {
+    jwt: { secret: JWT_SECRET, signingKeys: [], acceptLegacySecret: true },
+    redis: { url: undefined },
+    security: { cookies: { enabled: false } },
+    captcha: { provider: 'none', routes: [] },
+    isProduction: false,
+  },
 }));
 
 const mockFindSessionById = jest.fn();
 jest.mock('../../../../repositories/auth.repository', () => ({
   findSessionById: (...args: unknown[]) => mockFindSessionById(...args),
+  findSecurityStamp: jest.fn().mockResolvedValue(new Date(0)),
+}));
+
+// Pulled in by the auth middleware (requirePermission); unused on these routes.
+jest.mock('../../../../services/permission.service', () => ({
+  hasPermission: jest.fn(),
 }));
 
 const mockSubmit = jest.fn();
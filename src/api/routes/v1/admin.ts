@@ -0,0 +1,984 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { ChallengePhase } from '@prisma/client';
+import { authenticate, requirePermission } from '../../middleware/auth.js';
+import { auditContext } from '../../middleware/request-id.js';
+import {
+  accountOperationsService,
+  accountTimelineService,
+  accountTypeService,
+  adminNoteService,
+  auditService,
+  payoutService,
+  userOverviewService,
+} from '../../../services/index.js';
+import { ValidationError } from '../../../utils/errors.js';
+
+// =============================================================================
+// Admin Routes
+// =============================================================================
+// Back-office endpoints. Every route requires authentication; each one is
+// additionally guarded by the permission it needs.
+// =============================================================================
+
+const router = Router();
+
+router.use(authenticate);
+
+// =============================================================================
+// Validation Schemas
+// =============================================================================
+
+const auditLogFilterFields = {
+  entity: z.string().min(1).max(100).optional(),
+  entityId: z.string().min(1).max(100).optional(),
+  actorId: z.string().uuid().optional(),
+  action: z.string().min(1).max(100).optional(),
+  requestId: z.string().min(1).max(200).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+};
+
+const dateRangeIsOrdered = (q: { from?: Date | undefined; to?: Date | undefined }): boolean =>
+  !q.from || !q.to || q.from < q.to;
+
+const dateRangeMessage = { message: '`from` must be before `to`', path: ['from'] };
+
+const auditLogQuerySchema = z
+  .object({
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(200).default(50),
+    ...auditLogFilterFields,
+  })
+  .refine(dateRangeIsOrdered, dateRangeMessage);
+
+const auditLogExportSchema = z
+  .object(auditLogFilterFields)
+  .refine(dateRangeIsOrdered, dateRangeMessage);
+
+const reasonField = z.string().trim().min(3, 'A reason is required').max(1000);
+
+const accountOperationSchema = z.object({ reason: reasonField });
+
+const reactivateAccountSchema = z.object({
+  reason: reasonField,
+  balanceSource: z.enum(['initial', 'last']).optional(),
+});
+
+const breachAccountSchema = z.object({
+  reason: reasonField,
+  ruleName: z.string().trim().min(1).max(100).optional(),
+});
+
+const balanceAdjustmentSchema = z.object({
+  reason: reasonField,
+  amount: z
+    .number()
+    .finite()
+    .refine((amount) => amount !== 0, 'Amount must not be zero'),
+});
+
+const payoutQueueQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+const approvePayoutSchema = z.object({
+  note: z.string().trim().max(2000).optional(),
+});
+
+const rejectPayoutSchema = z.object({
+  reason: z.string().trim().min(3, 'A reason is required').max(1000),
+  note: z.string().trim().max(2000).optional(),
+});
+
+const createNoteSchema = z.object({
+  note: z.string().trim().min(1, 'Note is required').max(10000),
+  isPrivate: z.boolean().optional(),
+});
+
+const updateNoteSchema = z
+  .object({
+    note: z.string().trim().min(1, 'Note is required').max(10000).optional(),
+    isPrivate: z.boolean().optional(),
+  })
+  .refine((body) => body.note !== undefined || body.isPrivate !== undefined, {
+    message: 'Nothing to update',
+  });
+
+const timelineQuerySchema = z.object({
+  before: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+const money = z.number().finite().min(0);
+const percentage = z.number().min(0).max(100);
+
+const accountTypeFields = z.object({
+  displayName: z.string().trim().min(1).max(100),
+  description: z.string().trim().max(2000).nullable(),
+  price: money,
+  resetPrice: money,
+  profitSplit: z.number().int().min(1).max(100),
+  minPayoutAmount: money,
+  payoutFrequency: z.string().trim().min(1).max(50),
+  payoutCycleCap: z.number().finite().positive().nullable(),
+  isActive: z.boolean(),
+  sortOrder: z.number().int().min(0),
+  ypfProgramId: z.string().trim().min(1).max(100).nullable(),
+});
+
+const challengeRuleFields = {
+  profitTarget: percentage,
+  maxDailyLoss: percentage,
+  maxTotalDrawdown: percentage,
+  drawdownType: z.enum(['static', 'trailing']),
+  minTradingDays: z.number().int().min(0),
+  maxTradingDays: z.number().int().min(1).nullable().optional(),
+  consistencyRule: z.boolean().optional(),
+  maxSingleDayProfit: percentage.nullable().optional(),
+  maxPositionSize: z.number().int().min(1).nullable().optional(),
+  maxOpenPositions: z.number().int().min(1).nullable().optional(),
+  newsRestriction: z.boolean().optional(),
+  weekendRestriction: z.boolean().optional(),
+};
+
+const drawdownLimitsAreOrdered = (r: { maxDailyLoss: number; maxTotalDrawdown: number }): boolean =>
+  r.maxDailyLoss <= r.maxTotalDrawdown;
+
+const drawdownLimitsMessage = {
+  message: '`maxDailyLoss` cannot exceed `maxTotalDrawdown`',
+  path: ['maxDailyLoss'],
+};
+
+const tradingDaysAreOrdered = (r: {
+  minTradingDays: number;
+  maxTradingDays?: number | null | undefined;
+}): boolean => (r.maxTradingDays ?? r.minTradingDays) >= r.minTradingDays;
+
+const tradingDaysMessage = {
+  message: '`maxTradingDays` must be at least `minTradingDays`',
+  path: ['maxTradingDays'],
+};
+
+const challengeRuleSchema = z
+  .object(challengeRuleFields)
+  .refine(drawdownLimitsAreOrdered, drawdownLimitsMessage)
+  .refine(tradingDaysAreOrdered, tradingDaysMessage);
+
+const createAccountTypeSchema = accountTypeFields
+  .partial({
+    description: true,
+    payoutCycleCap: true,
+    isActive: true,
+    sortOrder: true,
+    ypfProgramId: true,
+  })
+  .extend({
+    // Checkout provisioning looks types up by this name, e.g. STANDARD_50K.
+    name: z
+      .string()
+      .trim()
+      .regex(/^[A-Z0-9_]+$/, 'Use upper-case letters, digits and underscores')
+      .max(50),
+    accountSize: z.number().finite().positive(),
+    rules: z
+      .array(
+        z
+          .object({ phase: z.nativeEnum(ChallengePhase), ...challengeRuleFields })
+          .refine(drawdownLimitsAreOrdered, drawdownLimitsMessage)
+          .refine(tradingDaysAreOrdered, tradingDaysMessage)
+      )
+      .refine((rules) => new Set(rules.map((r) => r.phase)).size === rules.length, {
+        message: 'Each phase can only have one rule',
+      })
+      .optional(),
+  });
+
+const updateAccountTypeSchema = accountTypeFields
+  .partial()
+  .refine((body) => Object.keys(body).length > 0, { message: 'Nothing to update' });
+
+// =============================================================================
+// Validation Middleware
+// =============================================================================
+
+const validateBody = <T extends z.ZodSchema>(schema: T) => {
+  return (req: Request, _res: Response, next: NextFunction): void => {
+    const result = schema.safeParse(req.body);
+    if (!result.success) {
+      const errors = result.error.errors.map((err) => ({
+        field: err.path.join('.'),
+        message: err.message,
+      }));
+      next(new ValidationError('Validation failed', { errors }));
+      return;
+    }
+    req.body = result.data;
+    next();
+  };
+};
+
+const validateQuery = <T extends z.ZodSchema>(schema: T) => {
+  return (req: Request, _res: Response, next: NextFunction): void => {
+    const result = schema.safeParse(req.query);
+    if (!result.success) {
+      const errors = result.error.errors.map((err) => ({
+        field: err.path.join('.'),
+        message: err.message,
+      }));
+      next(new ValidationError('Invalid query parameters', { errors }));
+      return;
+    }
+    req.query = result.data as typeof req.query;
+    next();
+  };
+};
+
+const parsePhase = (req: Request): ChallengePhase => {
+  const result = z.nativeEnum(ChallengePhase).safeParse(req.params['phase']);
+  if (!result.success) {
+    throw new ValidationError('Validation failed', {
+      errors: [
+        {
+          field: 'phase',
+          message: `Phase must be one of ${Object.values(ChallengePhase).join(', ')}`,
+        },
+      ],
+    });
+  }
+  return result.data;
+};
+
+// =============================================================================
+// Routes
+// =============================================================================
+
+/**
+ * GET /admin/audit-logs
+ * Query the audit log, newest first. Filter by entity (and entityId), actor,
+ * action, request ID and a `from` (inclusive) / `to` (exclusive) date range.
+ * Requires audit.read.
+ */
+router.get(
+  '/audit-logs',
+  requirePermission('audit.read'),
+  validateQuery(auditLogQuerySchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { page, limit, ...filters } = req.query as unknown as z.infer<
+        typeof auditLogQuerySchema
+      >;
+
+      const result = await auditService.listAuditLogs(filters, { page, limit });
+
+      res.json({
+        success: true,
+        ...result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /admin/audit-logs/export
+ * Download matching entries in chain order with their hashes and the chain
+ * anchors, for disputes and compliance reviews. Same filters as the list,
+ * no pagination. Requires audit.read; the export itself is audited.
+ */
+router.get(
+  '/audit-logs/export',
+  requirePermission('audit.read'),
+  validateQuery(auditLogExportSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        next(new ValidationError('User context missing'));
+        return;
+      }
+
+      const filters = req.query as unknown as z.infer<typeof auditLogExportSchema>;
+      const result = await auditService.exportAuditLogs(filters, req.user.id, auditContext(req));
+
+      res.attachment(`audit-logs-${result.exportedAt.toISOString()}.json`);
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// =============================================================================
+// Users
+// =============================================================================
+
+/**
+ * GET /admin/users/:id/overview
+ * Everything staff need about one user in one call: profile, sessions, login
+ * history, live KYC, accounts (live-refreshed), payouts, tickets, affiliate
+ * status and journal activity. Sections load concurrently under their own
+ * timeouts; each reports `status: ok | timeout | error`. Requires users.read.
+ */
+router.get(
+  '/users/:id/overview',
+  requirePermission('users.read'),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const overview = await userOverviewService.getUserOverview(req.params['id'] as string);
+
+      res.json({
+        success: true,
+        data: overview,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// =============================================================================
+// Account Operations
+// =============================================================================
+// Staff actions on a trader's account, applied on the trading platform and
+// reconciled immediately. Every one requires a reason and is audited.
+
+/**
+ * POST /admin/accounts/:id/block
+ * Block (permanently disable) the account on the platform. Requires accounts.manage.
+ */
+router.post(
+  '/accounts/:id/block',
+  requirePermission('accounts.manage'),
+  validateBody(accountOperationSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        next(new ValidationError('User context missing'));
+        return;
+      }
+
+      const { reason } = req.body as z.infer<typeof accountOperationSchema>;
+      const account = await accountOperationsService.blockAccount(
+        req.params['id'] as string,
+        { actorId: req.user.id, reason },
+        auditContext(req)
+      );
+
+      res.json({
+        success: true,
+        data: account,
+        message: 'Account blocked',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /admin/accounts/:id/reactivate
+ * Reactivate a breached account, optionally from its initial balance.
+ * Requires accounts.manage.
+ */
+router.post(
+  '/accounts/:id/reactivate',
+  requirePermission('accounts.manage'),
+  validateBody(reactivateAccountSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        next(new ValidationError('User context missing'));
+        return;
+      }
+
+      const { reason, balanceSource } = req.body as z.infer<typeof reactivateAccountSchema>;
+      const account = await accountOperationsService.reactivateAccount(
+        req.params['id'] as string,
+        { actorId: req.user.id, reason, balanceSource },
+        auditContext(req)
+      );
+
+      res.json({
+        success: true,
+        data: account,
+        message: 'Account reactivated',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /admin/accounts/:id/breach
+ * Manually breach the account (fails its challenge). Requires accounts.breach.
+ */
+router.post(
+  '/accounts/:id/breach',
+  requirePermission('accounts.breach'),
+  validateBody(breachAccountSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        next(new ValidationError('User context missing'));
+        return;
+      }
+
+      const { reason, ruleName } = req.body as z.infer<typeof breachAccountSchema>;
+      const account = await accountOperationsService.breachAccount(
+        req.params['id'] as string,
+        { actorId: req.user.id, reason, ruleName },
+        auditContext(req)
+      );
+
+      res.json({
+        success: true,
+        data: account,
+        message: 'Account breached',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /admin/accounts/:id/upgrade
+ * Force an upgrade to the next program. Requires accounts.manage.
+ */
+router.post(
+  '/accounts/:id/upgrade',
+  requirePermission('accounts.manage'),
+  validateBody(accountOperationSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        next(new ValidationError('User context missing'));
+        return;
+      }
+
+      const { reason } = req.body as z.infer<typeof accountOperationSchema>;
+      const account = await accountOperationsService.upgradeAccount(
+        req.params['id'] as string,
+        { actorId: req.user.id, reason },
+        auditContext(req)
+      );
+
+      res.json({
+        success: true,
+        data: account,
+        message: 'Account upgraded',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /admin/accounts/:id/balance-adjustment
+ * Adjust the account balance by a signed, non-zero amount. Requires accounts.manage.
+ */
+router.post(
+  '/accounts/:id/balance-adjustment',
+  requirePermission('accounts.manage'),
+  validateBody(balanceAdjustmentSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        next(new ValidationError('User context missing'));
+        return;
+      }
+
+      const { reason, amount } = req.body as z.infer<typeof balanceAdjustmentSchema>;
+      const account = await accountOperationsService.adjustBalance(
+        req.params['id'] as string,
+        { actorId: req.user.id, reason, amount },
+        auditContext(req)
+      );
+
+      res.json({
+        success: true,
+        data: account,
+        message: 'Account balance adjusted',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// =============================================================================
+// Account Notes & Timeline
+// =============================================================================
+
+/**
+ * GET /admin/accounts/:id/notes
+ * Staff notes on the account, newest first. Requires accounts.read.
+ */
+router.get(
+  '/accounts/:id/notes',
+  requirePermission('accounts.read'),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const notes = await adminNoteService.listNotes(req.params['id'] as string);
+
+      res.json({
+        success: true,
+        data: notes,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /admin/accounts/:id/notes
+ * Add a note. Notes are internal to staff unless `isPrivate` is false.
+ * Requires accounts.notes.write.
+ */
+router.post(
+  '/accounts/:id/notes',
+  requirePermission('accounts.notes.write'),
+  validateBody(createNoteSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        next(new ValidationError('User context missing'));
+        return;
+      }
+
+      const input = req.body as z.infer<typeof createNoteSchema>;
+      const note = await adminNoteService.createNote(
+        req.params['id'] as string,
+        req.user.id,
+        input,
+        auditContext(req)
+      );
+
+      res.status(201).json({
+        success: true,
+        data: note,
+        message: 'Note added',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * PATCH /admin/accounts/:id/notes/:noteId
+ * Edit a note's text or visibility. Requires accounts.notes.write, plus
+ * accounts.manage for someone else's note.
+ */
+router.patch(
+  '/accounts/:id/notes/:noteId',
+  requirePermission('accounts.notes.write'),
+  validateBody(updateNoteSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        next(new ValidationError('User context missing'));
+        return;
+      }
+
+      const input = req.body as z.infer<typeof updateNoteSchema>;
+      const note = await adminNoteService.updateNote(
+        req.params['id'] as string,
+        req.params['noteId'] as string,
+        req.user,
+        input,
+        auditContext(req)
+      );
+
+      res.json({
+        success: true,
+        data: note,
+        message: 'Note updated',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /admin/accounts/:id/notes/:noteId
+ * Delete a note. Requires accounts.notes.write, plus accounts.manage for
+ * someone else's note.
+ */
+router.delete(
+  '/accounts/:id/notes/:noteId',
+  requirePermission('accounts.notes.write'),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        next(new ValidationError('User context missing'));
+        return;
+      }
+
+      await adminNoteService.deleteNote(
+        req.params['id'] as string,
+        req.params['noteId'] as string,
+        req.user,
+        auditContext(req)
+      );
+
+      res.json({
+        success: true,
+        message: 'Note deleted',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /admin/accounts/:id/timeline
+ * Everything that happened to the account — notes, challenge transitions,
+ * rule violations, payouts, resets, staff operations and related support
+ * tickets — newest first. Page back by passing the last event's
+ * `occurredAt` as `before`. Requires accounts.read.
+ */
+router.get(
+  '/accounts/:id/timeline',
+  requirePermission('accounts.read'),
+  validateQuery(timelineQuerySchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const options = req.query as unknown as z.infer<typeof timelineQuerySchema>;
+
+      const result = await accountTimelineService.getAccountTimeline(
+        req.params['id'] as string,
+        options
+      );
+
+      res.json({
+        success: true,
+        ...result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// =============================================================================
+// Plan Catalog
+// =============================================================================
+// Account types and their per-phase challenge rules. Changes apply to new
+// purchases and challenges; the public catalog is GET /v1/plans.
+
+/**
+ * GET /admin/account-types
+ * Every account type, inactive ones included. Requires catalog.manage.
+ */
+router.get(
+  '/account-types',
+  requirePermission('catalog.manage'),
+  async (_req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const types = await accountTypeService.listAccountTypes();
+
+      res.json({
+        success: true,
+        data: types,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /admin/account-types/:id
+ * Requires catalog.manage.
+ */
+router.get(
+  '/account-types/:id',
+  requirePermission('catalog.manage'),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const type = await accountTypeService.getAccountType(req.params['id'] as string);
+
+      res.json({
+        success: true,
+        data: type,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /admin/account-types
+ * Create an account type, optionally with its phase rules. Requires catalog.manage.
+ */
+router.post(
+  '/account-types',
+  requirePermission('catalog.manage'),
+  validateBody(createAccountTypeSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        next(new ValidationError('User context missing'));
+        return;
+      }
+
+      const input = req.body as z.infer<typeof createAccountTypeSchema>;
+      const type = await accountTypeService.createAccountType(
+        input,
+        req.user.id,
+        auditContext(req)
+      );
+
+      res.status(201).json({
+        success: true,
+        data: type,
+        message: 'Account type created',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * PATCH /admin/account-types/:id
+ * Update pricing, payout terms, visibility or order. Deactivating fails with
+ * 409 while the type has active accounts. Requires catalog.manage.
+ */
+router.patch(
+  '/account-types/:id',
+  requirePermission('catalog.manage'),
+  validateBody(updateAccountTypeSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        next(new ValidationError('User context missing'));
+        return;
+      }
+
+      const input = req.body as z.infer<typeof updateAccountTypeSchema>;
+      const type = await accountTypeService.updateAccountType(
+        req.params['id'] as string,
+        input,
+        req.user.id,
+        auditContext(req)
+      );
+
+      res.json({
+        success: true,
+        data: type,
+        message: 'Account type updated',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /admin/account-types/:id
+ * Delete an account type no account has used; otherwise 409 (deactivate it
+ * instead). Requires catalog.manage.
+ */
+router.delete(
+  '/account-types/:id',
+  requirePermission('catalog.manage'),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        next(new ValidationError('User context missing'));
+        return;
+      }
+
+      await accountTypeService.deleteAccountType(
+        req.params['id'] as string,
+        req.user.id,
+        auditContext(req)
+      );
+
+      res.json({
+        success: true,
+        message: 'Account type deleted',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * PUT /admin/account-types/:id/rules/:phase
+ * Create or replace the challenge rule for a phase (PHASE_1, PHASE_2, FUNDED).
+ * Requires catalog.manage.
+ */
+router.put(
+  '/account-types/:id/rules/:phase',
+  requirePermission('catalog.manage'),
+  validateBody(challengeRuleSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        next(new ValidationError('User context missing'));
+        return;
+      }
+
+      const rule = req.body as z.infer<typeof challengeRuleSchema>;
+      const type = await accountTypeService.setChallengeRule(
+        req.params['id'] as string,
+        parsePhase(req),
+        rule,
+        req.user.id,
+        auditContext(req)
+      );
+
+      res.json({
+        success: true,
+        data: type,
+        message: 'Challenge rule saved',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /admin/account-types/:id/rules/:phase
+ * Remove the challenge rule for a phase; 409 while the type has active
+ * accounts. Requires catalog.manage.
+ */
+router.delete(
+  '/account-types/:id/rules/:phase',
+  requirePermission('catalog.manage'),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        next(new ValidationError('User context missing'));
+        return;
+      }
+
+      const type = await accountTypeService.deleteChallengeRule(
+        req.params['id'] as string,
+        parsePhase(req),
+        req.user.id,
+        auditContext(req)
+      );
+
+      res.json({
+        success: true,
+        data: type,
+        message: 'Challenge rule deleted',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// =============================================================================
+// Payout Review
+// =============================================================================
+
+/**
+ * GET /admin/payouts
+ * Pending payouts, oldest first, with account, trader, KYC status and live
+ * eligibility. Requires payouts.approve.
+ */
+router.get(
+  '/payouts',
+  requirePermission('payouts.approve'),
+  validateQuery(payoutQueueQuerySchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const pagination = req.query as unknown as z.infer<typeof payoutQueueQuerySchema>;
+
+      const result = await payoutService.listPayoutReviewQueue(pagination);
+
+      res.json({
+        success: true,
+        ...result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /admin/payouts/:id/approve
+ * Approve a pending payout on the platform and notify the trader.
+ * Requires payouts.approve.
+ */
+router.post(
+  '/payouts/:id/approve',
+  requirePermission('payouts.approve'),
+  validateBody(approvePayoutSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        next(new ValidationError('User context missing'));
+        return;
+      }
+
+      const { note } = req.body as z.infer<typeof approvePayoutSchema>;
+      const payout = await payoutService.approvePayout(
+        req.params['id'] as string,
+        { reviewerId: req.user.id, note },
+        auditContext(req)
+      );
+
+      res.json({
+        success: true,
+        data: payout,
+        message: 'Payout approved',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /admin/payouts/:id/reject
+ * Reject a pending payout on the platform with a reason the trader sees.
+ * Requires payouts.approve.
+ */
+router.post(
+  '/payouts/:id/reject',
+  requirePermission('payouts.approve'),
+  validateBody(rejectPayoutSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        next(new ValidationError('User context missing'));
+        return;
+      }
+
+      const { reason, note } = req.body as z.infer<typeof rejectPayoutSchema>;
+      const payout = await payoutService.rejectPayout(
+        req.params['id'] as string,
+        { reviewerId: req.user.id, reason, note },
+        auditContext(req)
+      );
+
+      res.json({
+        success: true,
+        data: payout,
+        message: 'Payout rejected',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
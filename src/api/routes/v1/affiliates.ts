@@ -2,6 +2,7 @@ import { Router, Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
 import { affiliateService } from '../../../services/index.js';
 import { authenticate } from '../../middleware/auth.js';
+import { requireCaptcha } from '../../middleware/captcha.js';
 import { ValidationError } from '../../../utils/errors.js';
 import { logger } from '../../../utils/logger.js';
 
@@ -92,6 +93,7 @@ const validateBody = <T extends z.ZodSchema>(schema: T) => {
 router.post(
   '/apply',
   authenticate,
+  requireCaptcha('affiliate-apply'),
   validateBody(applySchema),
   async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
@@ -1,8 +1,21 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
-import { authService } from '../../../services/index.js';
+import {
+  authService,
+  loginHistoryService,
+  mfaService,
+  webauthnService,
+} from '../../../services/index.js';
 import { authenticate } from '../../middleware/auth.js';
+import {
+  authenticatedViaCookie,
+  clearAuthCookies,
+  issueTokens,
+  readRefreshTokenCookie,
+  wantsCookieTransport,
+} from '../../middleware/auth-cookies.js';
 import { authRateLimiter } from '../../middleware/rate-limiter.js';
+import { requireCaptcha } from '../../middleware/captcha.js';
 import { ValidationError } from '../../../utils/errors.js';
 import { logger } from '../../../utils/logger.js';
 
@@ -39,6 +52,11 @@ const registerSchema = z.object({
     .string()
     .min(1, 'Last name is required')
     .max(100, 'Last name must be at most 100 characters'),
+  country: z
+    .string()
+    .regex(/^[A-Za-z]{2}$/, 'Country must be an ISO 3166-1 alpha-2 code')
+    .transform((v) => v.toUpperCase())
+    .optional(),
 });
 
 const loginSchema = z.object({
@@ -50,12 +68,26 @@ const googleAuthSchema = z.object({
   idToken: z.string().min(1, 'Google ID token is required'),
 });
 
+const oauthCredentialSchema = z
+  .object({
+    idToken: z.string().min(1).max(8192).optional(),
+    code: z.string().min(1).max(512).optional(),
+    codeVerifier: z.string().min(43).max(128).optional(),
+    // Apple shares the name only with the frontend, on first sign-in.
+    firstName: z.string().trim().max(100).optional(),
+    lastName: z.string().trim().max(100).optional(),
+  })
+  .refine((data) => data.idToken || data.code, {
+    message: 'An ID token or authorization code is required',
+  });
+
+// In cookie mode the refresh token comes from the httpOnly cookie instead.
 const refreshSchema = z.object({
-  refreshToken: z.string().min(1, 'Refresh token is required'),
+  refreshToken: z.string().min(1, 'Refresh token is required').optional(),
 });
 
 const logoutSchema = z.object({
-  refreshToken: z.string().min(1, 'Refresh token is required'),
+  refreshToken: z.string().min(1, 'Refresh token is required').optional(),
 });
 
 const forgotPasswordSchema = z.object({
@@ -67,6 +99,92 @@ const resetPasswordSchema = z.object({
   newPassword: passwordSchema,
 });
 
+const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, 'Current password is required'),
+  newPassword: passwordSchema,
+});
+
+const setPasswordSchema = z.object({
+  newPassword: passwordSchema,
+});
+
+const mfaCodeSchema = z.object({
+  code: z.string().trim().min(6, 'Verification code is required').max(32),
+});
+
+const mfaVerifySchema = z.object({
+  mfaToken: z.string().min(1, 'MFA token is required'),
+  code: z.string().trim().min(6, 'Verification code is required').max(32),
+});
+
+const verifyEmailSchema = z.object({
+  token: z.string().min(1, 'Verification token is required').max(512),
+});
+
+const magicLinkRequestSchema = z.object({
+  email: z.string().email('Invalid email address').max(255),
+});
+
+const magicLinkVerifySchema = z.object({
+  token: z.string().min(1, 'Sign-in token is required').max(512),
+});
+
+// WebAuthn responses as serialized by the browser (binary fields base64url).
+const base64UrlSchema = z
+  .string()
+  .min(1)
+  .max(16384)
+  .regex(/^[A-Za-z0-9_-]+={0,2}$/, 'Expected a base64url value');
+
+const webauthnAssertionSchema = z.object({
+  id: base64UrlSchema,
+  type: z.literal('public-key'),
+  response: z.object({
+    clientDataJSON: base64UrlSchema,
+    authenticatorData: base64UrlSchema,
+    signature: base64UrlSchema,
+    userHandle: z.string().max(512).nullable().optional(),
+  }),
+});
+
+const webauthnLoginSchema = z.object({
+  challengeId: z.string().uuid('Invalid challenge ID'),
+  credential: webauthnAssertionSchema,
+});
+
+// Step-up for passkey changes: a second factor, or the password when there is none.
+const webauthnStepUpSchema = z.object({
+  code: z.string().trim().min(6, 'Verification code is required').max(32).optional(),
+  passkey: webauthnLoginSchema.optional(),
+  currentPassword: z.string().min(1, 'Current password is required').optional(),
+});
+
+const webauthnRegisterSchema = webauthnStepUpSchema.extend({
+  name: z.string().trim().max(64).optional(),
+  credential: z.object({
+    id: base64UrlSchema,
+    type: z.literal('public-key'),
+    response: z.object({
+      clientDataJSON: base64UrlSchema,
+      attestationObject: base64UrlSchema,
+      transports: z.array(z.string().max(32)).max(10).optional(),
+    }),
+  }),
+});
+
+const webauthnMfaOptionsSchema = z.object({
+  mfaToken: z.string().min(1, 'MFA token is required'),
+});
+
+const webauthnMfaVerifySchema = webauthnLoginSchema.extend({
+  mfaToken: z.string().min(1, 'MFA token is required'),
+});
+
+const loginHistoryQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
 // =============================================================================
 // Validation Middleware
 // =============================================================================
@@ -87,6 +205,22 @@ const validateBody = <T extends z.ZodSchema>(schema: T) => {
   };
 };
 
+const validateQuery = <T extends z.ZodSchema>(schema: T) => {
+  return (req: Request, _res: Response, next: NextFunction): void => {
+    const result = schema.safeParse(req.query);
+    if (!result.success) {
+      const errors = result.error.errors.map((err) => ({
+        field: err.path.join('.'),
+        message: err.message,
+      }));
+      next(new ValidationError('Invalid query parameters', { errors }));
+      return;
+    }
+    req.query = result.data as typeof req.query;
+    next();
+  };
+};
+
 // =============================================================================
 // Routes
 // =============================================================================
@@ -99,16 +233,20 @@ const validateBody = <T extends z.ZodSchema>(schema: T) => {
 router.post(
   '/register',
   authRateLimiter,
+  requireCaptcha('register'),
   validateBody(registerSchema),
   async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
-      const { email, password, firstName, lastName } = req.body as z.infer<typeof registerSchema>;
+      const { email, password, firstName, lastName, country } = req.body as z.infer<
+        typeof registerSchema
+      >;
 
       const result = await authService.register({
         email,
         password,
         firstName,
         lastName,
+        country,
         ipAddress: req.ip ?? undefined,
         userAgent: req.headers['user-agent'] ?? undefined,
       });
@@ -122,8 +260,7 @@ router.post(
         success: true,
         data: {
           user: result.user,
-          accessToken: result.tokens.accessToken,
-          refreshToken: result.tokens.refreshToken,
+          ...issueTokens(req, res, result.tokens),
         },
         message: 'Registration successful',
       });
@@ -136,7 +273,9 @@ router.post(
 /**
  * POST /auth/login
  * Authenticate with email & password.
- * Returns the user profile and JWT token pair.
+ * Returns the user profile and JWT token pair — or, when the user has a second
+ * factor (authenticator app or passkey), `{ mfaRequired: true, mfaToken,
+ * methods }` to complete at /auth/mfa/verify or /auth/webauthn/mfa/verify.
  */
 router.post(
   '/login',
@@ -153,6 +292,15 @@ router.post(
         userAgent: req.headers['user-agent'] ?? undefined,
       });
 
+      if (authService.isMfaChallenge(result)) {
+        res.json({
+          success: true,
+          data: result,
+          message: 'Two-factor authentication required',
+        });
+        return;
+      }
+
       logger.info(
         { userId: result.user.id, ip: req.ip },
         'User logged in via API'
@@ -162,8 +310,78 @@ router.post(
         success: true,
         data: {
           user: result.user,
-          accessToken: result.tokens.accessToken,
-          refreshToken: result.tokens.refreshToken,
+          ...issueTokens(req, res, result.tokens),
+        },
+        message: 'Login successful',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /auth/magic-link
+ * Email a one-time passwordless sign-in link. Always returns 200 with the same
+ * message regardless of whether the email maps to a user.
+ */
+router.post(
+  '/magic-link',
+  authRateLimiter,
+  validateBody(magicLinkRequestSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { email } = req.body as z.infer<typeof magicLinkRequestSchema>;
+
+      await authService.requestMagicLink({ email });
+
+      logger.info({ email, ip: req.ip }, 'Magic link requested');
+
+      res.json({
+        success: true,
+        message: 'If an account exists for that email, you will receive a sign-in link shortly.',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /auth/magic-link/verify
+ * Sign in with the token from a magic-link email. Responds like /auth/login,
+ * including the MFA challenge for users with two-factor enabled.
+ */
+router.post(
+  '/magic-link/verify',
+  authRateLimiter,
+  validateBody(magicLinkVerifySchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { token } = req.body as z.infer<typeof magicLinkVerifySchema>;
+
+      const result = await authService.verifyMagicLink({
+        token,
+        ipAddress: req.ip ?? undefined,
+        userAgent: req.headers['user-agent'] ?? undefined,
+      });
+
+      if (authService.isMfaChallenge(result)) {
+        res.json({
+          success: true,
+          data: result,
+          message: 'Two-factor authentication required',
+        });
+        return;
+      }
+
+      logger.info({ userId: result.user.id, ip: req.ip }, 'Magic link login via API');
+
+      res.json({
+        success: true,
+        data: {
+          user: result.user,
+          ...issueTokens(req, res, result.tokens),
         },
         message: 'Login successful',
       });
@@ -177,7 +395,7 @@ router.post(
  * POST /auth/google
  * Authenticate or register via Google SSO.
  * Accepts a Google ID token obtained on the frontend via Google Identity Services.
- * Returns the user profile and JWT token pair.
+ * Returns the user profile and JWT token pair (or an MFA challenge, as for login).
  */
 router.post(
   '/google',
@@ -193,6 +411,15 @@ router.post(
         userAgent: req.headers['user-agent'] ?? undefined,
       });
 
+      if (authService.isMfaChallenge(result)) {
+        res.json({
+          success: true,
+          data: result,
+          message: 'Two-factor authentication required',
+        });
+        return;
+      }
+
       logger.info(
         { userId: result.user.id, ip: req.ip },
         'User authenticated via Google SSO'
@@ -202,8 +429,7 @@ router.post(
         success: true,
         data: {
           user: result.user,
-          accessToken: result.tokens.accessToken,
-          refreshToken: result.tokens.refreshToken,
+          ...issueTokens(req, res, result.tokens),
         },
         message: 'Google authentication successful',
       });
@@ -213,24 +439,85 @@ router.post(
   }
 );
 
+/**
+ * POST /auth/oauth/:provider
+ * Authenticate or register via any supported identity provider (google,
+ * apple, discord). Google and Apple take an `idToken`; Discord takes the OAuth2
+ * authorization `code` (plus `codeVerifier` when PKCE was used). Responds like
+ * /auth/google.
+ */
+router.post(
+  '/oauth/:provider',
+  authRateLimiter,
+  validateBody(oauthCredentialSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const provider = req.params['provider'] as string;
+      const credential = req.body as z.infer<typeof oauthCredentialSchema>;
+
+      const result = await authService.oauthLogin({
+        provider,
+        credential,
+        ipAddress: req.ip ?? undefined,
+        userAgent: req.headers['user-agent'] ?? undefined,
+      });
+
+      if (authService.isMfaChallenge(result)) {
+        res.json({
+          success: true,
+          data: result,
+          message: 'Two-factor authentication required',
+        });
+        return;
+      }
+
+      logger.info({ userId: result.user.id, provider, ip: req.ip }, 'User authenticated via OAuth');
+
+      res.json({
+        success: true,
+        data: {
+          user: result.user,
+          ...issueTokens(req, res, result.tokens),
+        },
+        message: 'Authentication successful',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 /**
  * POST /auth/refresh
- * Issue a new access token using a valid refresh token.
- * The refresh token itself is NOT rotated — it stays valid until expiry or logout.
+ * Exchange a valid refresh token for a new access token and a new refresh
+ * token. The presented refresh token is rotated out; replaying it later
+ * revokes the whole session family.
+ *
+ * Cookie mode: with no `refreshToken` in the body, the refresh cookie is used
+ * (X-CSRF-Token required) and the rotated tokens are set as cookies again.
  */
 router.post(
   '/refresh',
   validateBody(refreshSchema),
   async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
-      const { refreshToken } = req.body as z.infer<typeof refreshSchema>;
+      const body = req.body as z.infer<typeof refreshSchema>;
+      const cookieToken = body.refreshToken ? undefined : readRefreshTokenCookie(req);
+      const refreshToken = body.refreshToken ?? cookieToken;
 
-      const result = await authService.refreshAccessToken(refreshToken);
+      if (!refreshToken) {
+        throw new ValidationError('Refresh token is required');
+      }
+
+      const result = await authService.refreshAccessToken(refreshToken, {
+        ipAddress: req.ip ?? undefined,
+        userAgent: req.headers['user-agent'] ?? undefined,
+      });
 
       res.json({
         success: true,
         data: {
-          accessToken: result.accessToken,
+          ...issueTokens(req, res, result, cookieToken !== undefined || wantsCookieTransport(req)),
           user: result.user,
         },
         message: 'Token refreshed',
@@ -243,7 +530,8 @@ router.post(
 
 /**
  * POST /auth/logout
- * Invalidate the session associated with the given refresh token.
+ * Invalidate the session associated with the given refresh token (body, or
+ * the refresh cookie in cookie mode) and clear any auth cookies.
  * Requires authentication.
  */
 router.post(
@@ -252,9 +540,15 @@ router.post(
   validateBody(logoutSchema),
   async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
-      const { refreshToken } = req.body as z.infer<typeof logoutSchema>;
+      const body = req.body as z.infer<typeof logoutSchema>;
+      const refreshToken = body.refreshToken ?? readRefreshTokenCookie(req);
+
+      if (!refreshToken) {
+        throw new ValidationError('Refresh token is required');
+      }
 
       await authService.logout(refreshToken);
+      clearAuthCookies(res);
 
       logger.info({ userId: req.user?.id }, 'User logged out via API');
 
@@ -276,6 +570,7 @@ router.post(
 router.post(
   '/password/forgot',
   authRateLimiter,
+  requireCaptcha('password-forgot'),
   validateBody(forgotPasswordSchema),
   async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
@@ -323,6 +618,809 @@ router.post(
   }
 );
 
+/**
+ * POST /auth/email/verify
+ * Verify the user's email address using the token from the emailed link.
+ * Public — the token itself is the proof, so the link works from any device.
+ */
+router.post(
+  '/email/verify',
+  authRateLimiter,
+  validateBody(verifyEmailSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { token } = req.body as z.infer<typeof verifyEmailSchema>;
+
+      const user = await authService.verifyEmail({ token });
+
+      res.json({
+        success: true,
+        data: { user },
+        message: 'Email verified successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /auth/email/verify/resend
+ * Send a fresh verification link to the authenticated user.
+ * Any previously issued link stops working.
+ */
+router.post(
+  '/email/verify/resend',
+  authenticate,
+  authRateLimiter,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        next(new ValidationError('User context missing'));
+        return;
+      }
+
+      await authService.resendEmailVerification(userId);
+
+      res.json({
+        success: true,
+        message: 'Verification email sent',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /auth/password/change
+ * Change the password (current password required). Every other session is
+ * signed out; the caller's session stays valid but its old tokens do not —
+ * replacements come back like login's (cookies in cookie mode).
+ */
+router.post(
+  '/password/change',
+  authenticate,
+  authRateLimiter,
+  validateBody(changePasswordSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        next(new ValidationError('User context missing'));
+        return;
+      }
+
+      const { currentPassword, newPassword } = req.body as z.infer<typeof changePasswordSchema>;
+
+      const result = await authService.changePassword({
+        userId: req.user.id,
+        currentSessionId: req.user.sessionId,
+        currentPassword,
+        newPassword,
+      });
+
+      res.json({
+        success: true,
+        data: {
+          revokedSessions: result.revokedSessions,
+          ...issueTokens(
+            req,
+            res,
+            result.tokens,
+            authenticatedViaCookie(req) || wantsCookieTransport(req)
+          ),
+        },
+        message: 'Password changed successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /auth/password/set
+ * Add a first password to an account created via Google SSO. Replaces the
+ * caller's tokens like /password/change.
+ */
+router.post(
+  '/password/set',
+  authenticate,
+  authRateLimiter,
+  validateBody(setPasswordSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        next(new ValidationError('User context missing'));
+        return;
+      }
+
+      const { newPassword } = req.body as z.infer<typeof setPasswordSchema>;
+
+      const tokens = await authService.setPassword({
+        userId: req.user.id,
+        currentSessionId: req.user.sessionId,
+        newPassword,
+      });
+
+      res.json({
+        success: true,
+        data: issueTokens(
+          req,
+          res,
+          tokens,
+          authenticatedViaCookie(req) || wantsCookieTransport(req)
+        ),
+        message: 'Password set successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// =============================================================================
+// Sessions (devices)
+// =============================================================================
+
+/**
+ * GET /auth/sessions
+ * List the user's active sessions (device, IP, user agent, last seen).
+ * The session making the request is flagged `current: true`.
+ */
+router.get(
+  '/sessions',
+  authenticate,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        next(new ValidationError('User context missing'));
+        return;
+      }
+
+      const sessions = await authService.listSessions(req.user.id, req.user.sessionId);
+
+      res.json({
+        success: true,
+        data: { sessions },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /auth/sessions
+ * "Log out everywhere else" — revoke every session except the current one.
+ */
+router.delete(
+  '/sessions',
+  authenticate,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        next(new ValidationError('User context missing'));
+        return;
+      }
+
+      const revoked = await authService.revokeOtherSessions(req.user.id, req.user.sessionId);
+
+      res.json({
+        success: true,
+        data: { revoked },
+        message: 'Logged out of all other sessions',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /auth/sessions/:id
+ * Revoke one of the user's sessions (revoking the current one logs out).
+ */
+router.delete(
+  '/sessions/:id',
+  authenticate,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        next(new ValidationError('User context missing'));
+        return;
+      }
+
+      const sessionId = req.params['id'] as string;
+      await authService.revokeSession(req.user.id, sessionId);
+
+      res.json({
+        success: true,
+        message: 'Session revoked',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// =============================================================================
+// Sign-In Methods (linked accounts)
+// =============================================================================
+
+/**
+ * GET /auth/sign-in-methods
+ * Whether the user has a password, which providers are linked, and how many
+ * passkeys they have.
+ */
+router.get(
+  '/sign-in-methods',
+  authenticate,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        next(new ValidationError('User context missing'));
+        return;
+      }
+
+      const methods = await authService.listSignInMethods(userId);
+
+      res.json({
+        success: true,
+        data: methods,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /auth/oauth/:provider/link
+ * Link another provider to the signed-in account. Same body as
+ * POST /auth/oauth/:provider.
+ */
+router.post(
+  '/oauth/:provider/link',
+  authenticate,
+  authRateLimiter,
+  validateBody(oauthCredentialSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        next(new ValidationError('User context missing'));
+        return;
+      }
+
+      const credential = req.body as z.infer<typeof oauthCredentialSchema>;
+      const account = await authService.linkOAuthProvider({
+        userId,
+        provider: req.params['provider'] as string,
+        credential,
+        ipAddress: req.ip ?? undefined,
+        userAgent: req.headers['user-agent'] ?? undefined,
+      });
+
+      res.status(201).json({
+        success: true,
+        data: { account },
+        message: 'Account linked',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /auth/oauth/:provider
+ * Unlink a provider. Refused when it is the account's only sign-in method.
+ */
+router.delete(
+  '/oauth/:provider',
+  authenticate,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        next(new ValidationError('User context missing'));
+        return;
+      }
+
+      await authService.unlinkOAuthProvider({
+        userId,
+        provider: req.params['provider'] as string,
+        ipAddress: req.ip ?? undefined,
+        userAgent: req.headers['user-agent'] ?? undefined,
+      });
+
+      res.json({
+        success: true,
+        message: 'Account unlinked',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// =============================================================================
+// Login History
+// =============================================================================
+
+/**
+ * GET /auth/login-history
+ * The user's sign-in attempts (successful and failed), newest first.
+ */
+router.get(
+  '/login-history',
+  authenticate,
+  validateQuery(loginHistoryQuerySchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        next(new ValidationError('User context missing'));
+        return;
+      }
+
+      const { page, limit } = req.query as unknown as z.infer<typeof loginHistoryQuerySchema>;
+
+      const result = await loginHistoryService.getLoginHistory(req.user.id, { page, limit });
+
+      res.json({
+        success: true,
+        ...result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// =============================================================================
+// Two-Factor Authentication (TOTP)
+// =============================================================================
+
+/**
+ * POST /auth/mfa/verify
+ * Second step of login: exchange the `mfaToken` from /auth/login (or
+ * /auth/google) plus a TOTP or backup code for the user profile and tokens.
+ */
+router.post(
+  '/mfa/verify',
+  authRateLimiter,
+  validateBody(mfaVerifySchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { mfaToken, code } = req.body as z.infer<typeof mfaVerifySchema>;
+
+      const result = await authService.completeMfaLogin({
+        mfaToken,
+        code,
+        ipAddress: req.ip ?? undefined,
+        userAgent: req.headers['user-agent'] ?? undefined,
+      });
+
+      logger.info(
+        { userId: result.user.id, ip: req.ip },
+        'User completed two-factor login via API'
+      );
+
+      res.json({
+        success: true,
+        data: {
+          user: result.user,
+          ...issueTokens(req, res, result.tokens),
+        },
+        message: 'Login successful',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /auth/mfa/enroll
+ * Start TOTP enrollment. Returns the secret and an otpauth:// URI for the
+ * authenticator app. MFA stays off until /auth/mfa/confirm succeeds.
+ */
+router.post(
+  '/mfa/enroll',
+  authenticate,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        next(new ValidationError('User context missing'));
+        return;
+      }
+
+      const enrollment = await mfaService.enrollMfa(userId);
+
+      res.json({
+        success: true,
+        data: enrollment,
+        message: 'Scan the code with your authenticator app, then confirm',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /auth/mfa/confirm
+ * Finish enrollment with a code from the authenticator app.
+ * Returns one-time backup codes — shown once, never retrievable again.
+ */
+router.post(
+  '/mfa/confirm',
+  authenticate,
+  authRateLimiter,
+  validateBody(mfaCodeSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        next(new ValidationError('User context missing'));
+        return;
+      }
+
+      const { code } = req.body as z.infer<typeof mfaCodeSchema>;
+      const result = await mfaService.confirmMfa(userId, code);
+
+      res.json({
+        success: true,
+        data: result,
+        message: 'Two-factor authentication enabled',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /auth/mfa/disable
+ * Turn MFA off. Requires a current TOTP code or a backup code.
+ */
+router.post(
+  '/mfa/disable',
+  authenticate,
+  authRateLimiter,
+  validateBody(mfaCodeSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        next(new ValidationError('User context missing'));
+        return;
+      }
+
+      const { code } = req.body as z.infer<typeof mfaCodeSchema>;
+      await mfaService.disableMfa(userId, code);
+
+      res.json({
+        success: true,
+        message: 'Two-factor authentication disabled',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /auth/mfa/backup-codes
+ * Replace all backup codes with a fresh set. Requires a current TOTP code.
+ */
+router.post(
+  '/mfa/backup-codes',
+  authenticate,
+  authRateLimiter,
+  validateBody(mfaCodeSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        next(new ValidationError('User context missing'));
+        return;
+      }
+
+      const { code } = req.body as z.infer<typeof mfaCodeSchema>;
+      const result = await mfaService.regenerateBackupCodes(userId, code);
+
+      res.json({
+        success: true,
+        data: result,
+        message: 'Backup codes regenerated',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// =============================================================================
+// Passkeys (WebAuthn)
+// =============================================================================
+
+/**
+ * POST /auth/webauthn/register/options
+ * Start registering a passkey: options for navigator.credentials.create().
+ */
+router.post(
+  '/webauthn/register/options',
+  authenticate,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        next(new ValidationError('User context missing'));
+        return;
+      }
+
+      const options = await webauthnService.getRegistrationOptions(userId);
+
+      res.json({
+        success: true,
+        data: { options },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /auth/webauthn/step-up/options
+ * Options for confirming a passkey change with one of the user's existing
+ * passkeys. Send the assertion back as `passkey: { challengeId, credential }`.
+ */
+router.post(
+  '/webauthn/step-up/options',
+  authenticate,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        next(new ValidationError('User context missing'));
+        return;
+      }
+
+      const result = await webauthnService.getAuthenticationOptions(userId);
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /auth/webauthn/register/verify
+ * Finish registering a passkey with the browser's attestation response.
+ * Users with a second factor confirm with `code` or `passkey`; others with
+ * `currentPassword`, unless they signed in a few minutes ago.
+ */
+router.post(
+  '/webauthn/register/verify',
+  authenticate,
+  validateBody(webauthnRegisterSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        next(new ValidationError('User context missing'));
+        return;
+      }
+
+      const { credential, name, ...stepUp } = req.body as z.infer<typeof webauthnRegisterSchema>;
+      const passkey = await webauthnService.verifyRegistration(req.user.id, {
+        sessionId: req.user.sessionId,
+        credential,
+        name,
+        stepUp,
+      });
+
+      res.status(201).json({
+        success: true,
+        data: { passkey },
+        message: 'Passkey registered',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /auth/webauthn/login/options
+ * Start a passkey sign-in: options for navigator.credentials.get() plus the
+ * `challengeId` to send back with the assertion.
+ */
+router.post(
+  '/webauthn/login/options',
+  authRateLimiter,
+  async (_req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const result = await authService.getPasskeyLoginOptions();
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /auth/webauthn/login/verify
+ * Sign in with a passkey. Responds like /auth/login; a verified passkey is
+ * never followed by a TOTP challenge.
+ */
+router.post(
+  '/webauthn/login/verify',
+  authRateLimiter,
+  validateBody(webauthnLoginSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { challengeId, credential } = req.body as z.infer<typeof webauthnLoginSchema>;
+
+      const result = await authService.loginWithPasskey({
+        challengeId,
+        credential,
+        ipAddress: req.ip ?? undefined,
+        userAgent: req.headers['user-agent'] ?? undefined,
+      });
+
+      logger.info({ userId: result.user.id, ip: req.ip }, 'Passkey login via API');
+
+      res.json({
+        success: true,
+        data: {
+          user: result.user,
+          ...issueTokens(req, res, result.tokens),
+        },
+        message: 'Login successful',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /auth/webauthn/mfa/options
+ * Use a passkey instead of a TOTP code for the second login step: options
+ * limited to the passkeys of the user behind `mfaToken`.
+ */
+router.post(
+  '/webauthn/mfa/options',
+  authRateLimiter,
+  validateBody(webauthnMfaOptionsSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { mfaToken } = req.body as z.infer<typeof webauthnMfaOptionsSchema>;
+
+      const result = await authService.getMfaPasskeyOptions(mfaToken);
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /auth/webauthn/mfa/verify
+ * Second step of login with a passkey assertion. Responds like /auth/mfa/verify.
+ */
+router.post(
+  '/webauthn/mfa/verify',
+  authRateLimiter,
+  validateBody(webauthnMfaVerifySchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { mfaToken, challengeId, credential } = req.body as z.infer<
+        typeof webauthnMfaVerifySchema
+      >;
+
+      const result = await authService.completeMfaLoginWithPasskey({
+        mfaToken,
+        challengeId,
+        credential,
+        ipAddress: req.ip ?? undefined,
+        userAgent: req.headers['user-agent'] ?? undefined,
+      });
+
+      logger.info({ userId: result.user.id, ip: req.ip }, 'User completed passkey MFA login');
+
+      res.json({
+        success: true,
+        data: {
+          user: result.user,
+          ...issueTokens(req, res, result.tokens),
+        },
+        message: 'Login successful',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /auth/webauthn/credentials
+ * List the user's registered passkeys.
+ */
+router.get(
+  '/webauthn/credentials',
+  authenticate,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        next(new ValidationError('User context missing'));
+        return;
+      }
+
+      const passkeys = await webauthnService.listPasskeys(userId);
+
+      res.json({
+        success: true,
+        data: { passkeys },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /auth/webauthn/credentials/:id
+ * Remove one of the user's passkeys. Removing the last second factor takes
+ * the same step-up as registering one.
+ */
+router.delete(
+  '/webauthn/credentials/:id',
+  authenticate,
+  validateBody(webauthnStepUpSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        next(new ValidationError('User context missing'));
+        return;
+      }
+
+      await webauthnService.deletePasskey(
+        req.user.id,
+        req.user.sessionId,
+        req.params['id'] as string,
+        req.body as z.infer<typeof webauthnStepUpSchema>
+      );
+
+      res.json({
+        success: true,
+        message: 'Passkey removed',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 /**
  * GET /auth/me
  * Get the currently authenticated user's profile.
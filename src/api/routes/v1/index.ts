@@ -9,6 +9,8 @@ import payoutsRoutes from './payouts.js';
 import journalRoutes from './journal.js';
 import kycRoutes from './kyc.js';
 import webhooksRoutes from './webhooks.js';
+import adminRoutes from './admin.js';
+import plansRoutes from './plans.js';
 
 // =============================================================================
 // V1 API Routes
@@ -18,7 +20,6 @@ const router = Router();
 
 // TODO: Import and mount route modules as they are implemented
 // import challengesRoutes from './challenges.js';
-// import adminRoutes from './admin.js';
 
 // Mounted routes
 router.use('/auth', authRoutes);
@@ -31,9 +32,10 @@ router.use('/payouts', payoutsRoutes);
 router.use('/journal', journalRoutes);
 router.use('/kyc', kycRoutes);
 router.use('/webhooks', webhooksRoutes);
+router.use('/admin', adminRoutes);
+router.use('/plans', plansRoutes);
 
 // router.use('/challenges', challengesRoutes);
-// router.use('/admin', adminRoutes);
 
 // Placeholder route
 router.get('/', (_req, res) => {
@@ -52,6 +54,8 @@ router.get('/', (_req, res) => {
       support: '/v1/support/tickets',
       affiliates: '/v1/affiliates/apply',
       webhooks: '/v1/webhooks/ypf',
+      admin: '/v1/admin',
+      plans: '/v1/plans',
     },
   });
 });
@@ -1,6 +1,7 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
 import { authenticate } from '../../middleware/auth.js';
+import { auditContext } from '../../middleware/request-id.js';
 import { payoutService } from '../../../services/index.js';
 import { ValidationError } from '../../../utils/errors.js';
 
@@ -110,12 +111,15 @@ router.post(
   async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
       const body = req.body as z.infer<typeof requestPayoutSchema>;
-      const payout = await payoutService.requestPayout({
-        userId: req.user!.id,
-        accountId: body.accountId,
-        amount: body.amount,
-        payoutDetails: body.payoutDetails,
-      });
+      const payout = await payoutService.requestPayout(
+        {
+          userId: req.user!.id,
+          accountId: body.accountId,
+          amount: body.amount,
+          payoutDetails: body.payoutDetails,
+        },
+        auditContext(req)
+      );
       res.status(201).json({
         success: true,
         data: payout,
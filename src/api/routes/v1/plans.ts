@@ -0,0 +1,30 @@
+// =============================================================================
+// Plan Routes — /v1/plans
+// =============================================================================
+// The public plan catalog (active account types and their challenge rules)
+// for the marketing site. No authentication; staff edit it under
+// /v1/admin/account-types.
+// =============================================================================
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { accountTypeService } from '../../../services/index.js';
+
+const router = Router();
+
+/**
+ * GET /v1/plans
+ * Active plans in display order, with pricing, payout terms and per-phase
+ * rules.
+ */
+router.get('/', async (_req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const plans = await accountTypeService.listPlans();
+
+    res.set('Cache-Control', 'public, max-age=300');
+    res.json({ success: true, data: plans });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -1,8 +1,11 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
 import { TicketPriority, TicketStatus } from '@prisma/client';
-import { supportTicketService } from '../../../services/index.js';
-import { ValidationError } from '../../../utils/errors.js';
+import { permissionService, supportTicketService } from '../../../services/index.js';
+import { authenticate, optionalAuthenticate, requirePermission } from '../../middleware/auth.js';
+import { requireCaptcha } from '../../middleware/captcha.js';
+import { auditContext } from '../../middleware/request-id.js';
+import { ForbiddenError, ValidationError } from '../../../utils/errors.js';
 import { logger } from '../../../utils/logger.js';
 
 // =============================================================================
@@ -15,9 +18,8 @@ const router = Router();
 // Validation Schemas
 // =============================================================================
 
+// Signed-in submitters are identified by their token, never the body.
 const createTicketSchema = z.object({
-  // For authenticated users (optional - will be set from auth middleware if available)
-  creatorId: z.string().uuid().optional(),
   // For anonymous users
   email: z.string().email('Invalid email address').optional(),
   name: z.string().min(2, 'Name must be at least 2 characters').max(100).optional(),
@@ -28,13 +30,17 @@ const createTicketSchema = z.object({
   priority: z.nativeEnum(TicketPriority).optional(),
   relatedEntity: z.string().max(50).optional(),
   relatedEntityId: z.string().uuid().optional(),
-}).refine(
-  (data) => data.creatorId || (data.email && data.name),
-  {
-    message: 'Either creatorId or both email and name are required',
-    path: ['email', 'name'],
-  }
-);
+});
+
+const anonymousTicketSchema = createTicketSchema.extend({
+  email: z
+    .string({ required_error: 'Email is required when not signed in' })
+    .email('Invalid email address'),
+  name: z
+    .string({ required_error: 'Name is required when not signed in' })
+    .min(2, 'Name must be at least 2 characters')
+    .max(100),
+});
 
 const updateTicketSchema = z.object({
   assigneeId: z.string().uuid().nullable().optional(),
@@ -106,25 +112,23 @@ const validateQuery = <T extends z.ZodSchema>(schema: T) => {
 /**
  * POST /support/tickets
  * Create a new support ticket
- * Public endpoint - supports both authenticated and anonymous submissions
+ * Public endpoint - supports both authenticated and anonymous submissions.
+ * Anonymous submissions must pass a CAPTCHA and give an email and name.
  */
 router.post(
   '/tickets',
-  validateBody(createTicketSchema),
+  optionalAuthenticate,
+  requireCaptcha('support-ticket', { skipAuthenticated: true }),
+  (req: Request, res: Response, next: NextFunction): void =>
+    validateBody(req.user ? createTicketSchema : anonymousTicketSchema)(req, res, next),
   async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
       const ticketData = req.body as z.infer<typeof createTicketSchema>;
 
-      // TODO: If auth middleware adds user to request, use their ID
-      // const userId = req.user?.id;
-      // if (userId) {
-      //   ticketData.creatorId = userId;
-      // }
-
       const ticket = await supportTicketService.createTicket({
         subject: ticketData.subject,
         description: ticketData.description,
-        creatorId: ticketData.creatorId,
+        creatorId: req.user?.id,
         email: ticketData.email,
         name: ticketData.name,
         priority: ticketData.priority,
@@ -155,10 +159,12 @@ router.post(
 /**
  * GET /support/tickets
  * List all tickets with optional filtering
- * TODO: Add authentication - only support/admin roles should access this
+ * Requires support.tickets.read.
  */
 router.get(
   '/tickets',
+  authenticate,
+  requirePermission('support.tickets.read'),
   validateQuery(paginationSchema.merge(filtersSchema)),
   async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
@@ -187,10 +193,12 @@ router.get(
 /**
  * GET /support/tickets/stats
  * Get ticket statistics
- * TODO: Add authentication - only support/admin roles should access this
+ * Requires support.tickets.read.
  */
 router.get(
   '/tickets/stats',
+  authenticate,
+  requirePermission('support.tickets.read'),
   async (_req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
       const stats = await supportTicketService.getStatistics();
@@ -208,10 +216,12 @@ router.get(
 /**
  * GET /support/tickets/queue
  * Get unassigned tickets (support queue)
- * TODO: Add authentication - only support/admin roles should access this
+ * Requires support.tickets.read.
  */
 router.get(
   '/tickets/queue',
+  authenticate,
+  requirePermission('support.tickets.read'),
   validateQuery(paginationSchema),
   async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
@@ -254,19 +264,19 @@ router.get(
 /**
  * PATCH /support/tickets/:id
  * Update a ticket (status, priority, assignment)
- * TODO: Add authentication - only support/admin roles should access this
+ * Requires support.tickets.manage.
  */
 router.patch(
   '/tickets/:id',
+  authenticate,
+  requirePermission('support.tickets.manage'),
   validateBody(updateTicketSchema),
   async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
       const id = req.params['id'] as string;
       const updates = req.body as z.infer<typeof updateTicketSchema>;
 
-      // TODO: Get user ID from auth middleware
-      // const updatedBy = req.user?.id;
-      const updatedBy = undefined;
+      const updatedBy = req.user?.id;
 
       const ticket = await supportTicketService.updateTicket(id, updates, updatedBy);
 
@@ -293,21 +303,26 @@ router.patch(
 /**
  * POST /support/tickets/:id/assign
  * Assign a ticket to a support agent
- * TODO: Add authentication - only support/admin roles should access this
+ * Requires support.tickets.manage.
  */
 router.post(
   '/tickets/:id/assign',
+  authenticate,
+  requirePermission('support.tickets.manage'),
   validateBody(z.object({ assigneeId: z.string().uuid() })),
   async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
       const id = req.params['id'] as string;
       const { assigneeId } = req.body;
 
-      // TODO: Get user ID from auth middleware
-      // const assignedBy = req.user?.id;
-      const assignedBy = undefined;
+      const assignedBy = req.user?.id;
 
-      const ticket = await supportTicketService.assignTicket(id, assigneeId, assignedBy);
+      const ticket = await supportTicketService.assignTicket(
+        id,
+        assigneeId,
+        assignedBy,
+        auditContext(req)
+      );
 
       res.json({
         success: true,
@@ -323,17 +338,17 @@ router.post(
 /**
  * POST /support/tickets/:id/resolve
  * Mark a ticket as resolved
- * TODO: Add authentication - only support/admin roles should access this
+ * Requires support.tickets.manage.
  */
 router.post(
   '/tickets/:id/resolve',
+  authenticate,
+  requirePermission('support.tickets.manage'),
   async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
       const id = req.params['id'] as string;
 
-      // TODO: Get user ID from auth middleware
-      // const resolvedBy = req.user?.id;
-      const resolvedBy = undefined;
+      const resolvedBy = req.user?.id;
 
       const ticket = await supportTicketService.resolveTicket(id, resolvedBy);
 
@@ -351,17 +366,17 @@ router.post(
 /**
  * POST /support/tickets/:id/close
  * Close a ticket
- * TODO: Add authentication - only support/admin roles should access this
+ * Requires support.tickets.manage.
  */
 router.post(
   '/tickets/:id/close',
+  authenticate,
+  requirePermission('support.tickets.manage'),
   async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
       const id = req.params['id'] as string;
 
-      // TODO: Get user ID from auth middleware
-      // const closedBy = req.user?.id;
-      const closedBy = undefined;
+      const closedBy = req.user?.id;
 
       const ticket = await supportTicketService.closeTicket(id, closedBy);
 
@@ -378,17 +393,28 @@ router.post(
 
 /**
  * GET /support/tickets/user/:userId
- * Get tickets for a specific user
- * TODO: Add authentication - users should only see their own tickets
+ * Get tickets for a specific user.
+ * Users can list their own tickets; anyone else needs support.tickets.read.
  */
 router.get(
   '/tickets/user/:userId',
+  authenticate,
   validateQuery(paginationSchema),
   async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
       const userId = req.params['userId'] as string;
       const pagination = req.query as unknown as z.infer<typeof paginationSchema>;
 
+      if (!req.user) {
+        throw new ValidationError('User context missing');
+      }
+      if (
+        req.user.id !== userId &&
+        !(await permissionService.hasPermission(req.user, 'support.tickets.read'))
+      ) {
+        throw new ForbiddenError('You can only view your own tickets');
+      }
+
       const result = await supportTicketService.getUserTickets(userId, pagination);
 
       res.json({
@@ -7,7 +7,7 @@
 
 import { Router, Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
-import { authenticate } from '../../middleware/auth.js';
+import { authenticate, forbidDuringImpersonation } from '../../middleware/auth.js';
 import * as tradingService from '../../../services/trading.service.js';
 import { ValidationError } from '../../../utils/errors.js';
 
@@ -194,6 +194,7 @@ router.post(
         accountId,
         req.user!.id,
         'reset',
+        req.ip ?? undefined,
       );
       res.json({ success: true, data: result });
     } catch (error) {
@@ -216,6 +217,7 @@ router.post(
         accountId,
         req.user!.id,
         'activation',
+        req.ip ?? undefined,
       );
       res.json({ success: true, data: result });
     } catch (error) {
@@ -242,10 +244,12 @@ router.get(
 
 /**
  * GET /v1/trading/iframe-url
- * **LIVE** — iFrame embed URL from provider.
+ * **LIVE** — iFrame embed URL from provider. The URL carries a live trading
+ * token, so it is never handed to a staff member impersonating the trader.
  */
 router.get(
   '/iframe-url',
+  forbidDuringImpersonation,
   validateQuery(iframeQuerySchema),
   async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
@@ -1,9 +1,15 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
 import { UserRole, UserStatus } from '@prisma/client';
-import { userService } from '../../../services/index.js';
-import { authenticate, requireRole } from '../../middleware/auth.js';
-import { ValidationError } from '../../../utils/errors.js';
+import {
+  authService,
+  impersonationService,
+  permissionService,
+  userService,
+} from '../../../services/index.js';
+import { authenticate, requirePermission, requireRole } from '../../middleware/auth.js';
+import { auditContext } from '../../middleware/request-id.js';
+import { ForbiddenError, ValidationError } from '../../../utils/errors.js';
 import { logger } from '../../../utils/logger.js';
 
 // =============================================================================
@@ -71,6 +77,16 @@ const changeStatusSchema = z.object({
   status: z.nativeEnum(UserStatus),
 });
 
+const impersonateSchema = z.object({
+  reason: z.string().trim().min(5, 'Please give a reason').max(500),
+});
+
+const grantPermissionSchema = z.object({
+  permission: z.string().min(1).max(100),
+  expiresAt: z.coerce.date().optional(),
+  reason: z.string().trim().max(500).optional(),
+});
+
 // =============================================================================
 // Validation Middleware
 // =============================================================================
@@ -199,7 +215,8 @@ router.get(
  * PATCH /users/:id
  * Update a user.
  * - Non-admins can only update their own profile (firstName, lastName, phone).
- * - Admins can update any user, including role and status.
+ * - Admins can update any user, including status — and role, with the
+ *   users.role.change permission.
  */
 router.patch(
   '/:id',
@@ -228,7 +245,23 @@ router.patch(
           return;
         }
 
-        user = await userService.adminUpdate(targetId, parsed.data, requesterId);
+        if (
+          parsed.data.role !== undefined &&
+          !(await permissionService.hasPermission(
+            { id: requesterId, role: requesterRole },
+            'users.role.change'
+          ))
+        ) {
+          next(new ForbiddenError('This action requires the users.role.change permission'));
+          return;
+        }
+
+        user = await userService.adminUpdate(
+          targetId,
+          parsed.data,
+          requesterId,
+          auditContext(req)
+        );
 
         logger.info(
           { targetId, updates: Object.keys(parsed.data), adminId: requesterId },
@@ -267,11 +300,11 @@ router.patch(
 
 /**
  * PATCH /users/:id/role
- * Change a user's role (admin only).
+ * Change a user's role. Requires users.role.change.
  */
 router.patch(
   '/:id/role',
-  requireRole(UserRole.ADMIN),
+  requirePermission('users.role.change'),
   validateBody(changeRoleSchema),
   async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
@@ -284,7 +317,12 @@ router.patch(
         return;
       }
 
-      const user = await userService.changeUserRole(targetId, role, adminId);
+      const user = await userService.changeUserRole(
+        targetId,
+        role,
+        adminId,
+        auditContext(req)
+      );
 
       logger.info(
         { targetId, newRole: role, adminId },
@@ -321,7 +359,12 @@ router.patch(
         return;
       }
 
-      const user = await userService.changeUserStatus(targetId, status, adminId);
+      const user = await userService.changeUserStatus(
+        targetId,
+        status,
+        adminId,
+        auditContext(req)
+      );
 
       logger.info(
         { targetId, newStatus: status, adminId },
@@ -356,7 +399,7 @@ router.delete(
         return;
       }
 
-      await userService.deleteUser(targetId, adminId);
+      await userService.deleteUser(targetId, adminId, auditContext(req));
 
       logger.info({ targetId, adminId }, 'User deleted via API');
 
@@ -370,6 +413,78 @@ router.delete(
   }
 );
 
+// =============================================================================
+// Credential Recovery Routes (admin)
+// =============================================================================
+
+/**
+ * POST /users/:id/unlock
+ * Clear a lockout caused by repeated failed sign-ins (admin only). Audited.
+ */
+router.post(
+  '/:id/unlock',
+  requireRole(UserRole.ADMIN),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const targetId = req.params['id'] as string;
+      const adminId = req.user?.id;
+
+      if (!adminId) {
+        next(new ValidationError('User context missing'));
+        return;
+      }
+
+      await authService.unlockAccount(targetId, {
+        adminId,
+        ipAddress: req.ip ?? undefined,
+        userAgent: req.headers['user-agent'] ?? undefined,
+      });
+
+      res.json({
+        success: true,
+        message: 'User account unlocked',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /users/:id/force-password-reset
+ * Invalidate the user's password, sessions and access tokens and email them a
+ * reset link (admin only). Audited.
+ */
+router.post(
+  '/:id/force-password-reset',
+  requireRole(UserRole.ADMIN),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const targetId = req.params['id'] as string;
+      const adminId = req.user?.id;
+
+      if (!adminId) {
+        next(new ValidationError('User context missing'));
+        return;
+      }
+
+      const revokedSessions = await authService.forcePasswordReset(targetId, {
+        adminId,
+        ipAddress: req.ip ?? undefined,
+        userAgent: req.headers['user-agent'] ?? undefined,
+      });
+
+      res.json({
+        success: true,
+        data: { revokedSessions },
+        message: 'Password reset forced; the user has been emailed a reset link',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 // =============================================================================
 // Platform User Routes — /users/:id/platform
 // =============================================================================
@@ -452,7 +567,7 @@ router.delete(
         return;
       }
 
-      await userService.unlinkPlatformUser(targetId, adminId);
+      await userService.unlinkPlatformUser(targetId, adminId, auditContext(req));
 
       res.json({
         success: true,
@@ -464,4 +579,152 @@ router.delete(
   }
 );
 
+// =============================================================================
+// Impersonation (support)
+// =============================================================================
+
+/**
+ * POST /users/:id/impersonate
+ * Mint a read-only access token that views the API as this trader, bound to
+ * the caller's session and valid for IMPERSONATION_TTL_MINUTES. No refresh
+ * token is issued. Requires users.impersonate. Audited, as is every request
+ * made with the token.
+ */
+router.post(
+  '/:id/impersonate',
+  requirePermission('users.impersonate'),
+  validateBody(impersonateSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const targetId = req.params['id'] as string;
+      const { reason } = req.body as z.infer<typeof impersonateSchema>;
+
+      if (!req.user) {
+        next(new ValidationError('User context missing'));
+        return;
+      }
+
+      const result = await impersonationService.startImpersonation(targetId, {
+        staffId: req.user.id,
+        sessionId: req.user.sessionId,
+        reason,
+        ipAddress: req.ip ?? undefined,
+        userAgent: req.headers['user-agent'] ?? undefined,
+      });
+
+      logger.info({ targetId, staffId: req.user.id }, 'Impersonation started via API');
+
+      res.status(201).json({
+        success: true,
+        data: result,
+        message: 'Impersonation session started (read-only)',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// =============================================================================
+// Permission Grant Routes
+// =============================================================================
+
+/**
+ * GET /users/:id/permissions
+ * The user's role permissions and active per-user grants.
+ * Requires permissions.manage.
+ */
+router.get(
+  '/:id/permissions',
+  requirePermission('permissions.manage'),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const targetId = req.params['id'] as string;
+
+      const permissions = await permissionService.listUserPermissions(targetId);
+
+      res.json({
+        success: true,
+        data: permissions,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /users/:id/permissions
+ * Grant a permission to the user on top of their role, optionally until
+ * `expiresAt`. Requires permissions.manage and the permission itself. Audited.
+ */
+router.post(
+  '/:id/permissions',
+  requirePermission('permissions.manage'),
+  validateBody(grantPermissionSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const targetId = req.params['id'] as string;
+      const { permission, expiresAt, reason } = req.body as z.infer<typeof grantPermissionSchema>;
+
+      if (!req.user) {
+        next(new ValidationError('User context missing'));
+        return;
+      }
+
+      const grant = await permissionService.grantPermission(
+        targetId,
+        permission,
+        { expiresAt, reason },
+        {
+          admin: req.user,
+          ipAddress: req.ip ?? undefined,
+          userAgent: req.headers['user-agent'] ?? undefined,
+        }
+      );
+
+      res.status(201).json({
+        success: true,
+        data: grant,
+        message: `Granted ${permission}`,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /users/:id/permissions/:permission
+ * Revoke a per-user grant. Requires permissions.manage. Audited.
+ */
+router.delete(
+  '/:id/permissions/:permission',
+  requirePermission('permissions.manage'),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const targetId = req.params['id'] as string;
+      const permission = req.params['permission'] as string;
+
+      if (!req.user) {
+        next(new ValidationError('User context missing'));
+        return;
+      }
+
+      await permissionService.revokePermission(targetId, permission, {
+        admin: req.user,
+        ipAddress: req.ip ?? undefined,
+        userAgent: req.headers['user-agent'] ?? undefined,
+      });
+
+      res.json({
+        success: true,
+        message: `Revoked ${permission}`,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 export default router;
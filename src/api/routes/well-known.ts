@@ -0,0 +1,20 @@
+import { Router, Request, Response } from 'express';
+import { getJwks } from '../../utils/jwt-keys.js';
+
+// =============================================================================
+// Well-Known Routes
+// =============================================================================
+
+const router = Router();
+
+/**
+ * GET /.well-known/jwks.json
+ * Public keys our tokens are signed with, for services that verify them
+ * without holding a secret. Empty while tokens are still HS256-signed.
+ */
+router.get('/.well-known/jwks.json', (_req: Request, res: Response) => {
+  res.set('Cache-Control', 'public, max-age=300');
+  res.status(200).json(getJwks());
+});
+
+export default router;
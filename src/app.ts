@@ -1,5 +1,6 @@
 import express, { Application } from 'express';
 import cors from 'cors';
+import cookieParser from 'cookie-parser';
 import helmet from 'helmet';
 import morgan from 'morgan';
 
@@ -12,6 +13,7 @@ import {
   rateLimiter,
 } from './api/middleware/index.js';
 import healthRoutes from './api/routes/health.js';
+import wellKnownRoutes from './api/routes/well-known.js';
 import v1Routes from './api/routes/v1/index.js';
 
 // =============================================================================
@@ -44,7 +46,14 @@ export const createApp = (): Application => {
       origin: config.cors.origin === '*' ? true : config.cors.origin.split(','),
       credentials: true,
       methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-      allowedHeaders: ['Content-Type', 'Authorization', 'X-Request-ID'],
+      allowedHeaders: [
+        'Content-Type',
+        'Authorization',
+        'X-Request-ID',
+        'X-CSRF-Token',
+        'X-Auth-Transport',
+        'X-Captcha-Token',
+      ],
     })
   );
 
@@ -62,6 +71,9 @@ export const createApp = (): Application => {
   app.use(express.json({ limit: '10mb' }));
   app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
+  // Cookies (auth cookie transport — see middleware/auth-cookies.ts)
+  app.use(cookieParser());
+
   // Request logging
   if (config.isDevelopment) {
     app.use(morgan('dev'));
@@ -97,6 +109,9 @@ export const createApp = (): Application => {
   // Health checks (no prefix)
   app.use(healthRoutes);
 
+  // Public discovery documents (JWKS)
+  app.use(wellKnownRoutes);
+
   // API v1 routes
   app.use('/v1', v1Routes);
 
@@ -8,6 +8,23 @@ dotenv.config();
 // Environment Schema
 // =============================================================================
 
+/**
+ * One entry of JWT_SIGNING_KEYS. Keys with a private key can sign; retired
+ * keys may carry only the public half. `activeFrom` lets a new key be published
+ * in the JWKS before it starts signing; `expiresAt` is when it stops verifying.
+ */
+const jwtSigningKeySchema = z
+  .object({
+    kid: z.string().min(1),
+    privateKey: z.string().optional(),
+    publicKey: z.string().optional(),
+    activeFrom: z.string().datetime({ offset: true }).optional(),
+    expiresAt: z.string().datetime({ offset: true }).optional(),
+  })
+  .refine((key) => key.privateKey || key.publicKey, {
+    message: 'Each signing key needs a privateKey or publicKey',
+  });
+
 const envSchema = z.object({
   // App
   NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
@@ -24,6 +41,28 @@ const envSchema = z.object({
   JWT_SECRET: z.string().min(32),
   JWT_EXPIRES_IN: z.string().default('7d'),
   JWT_REFRESH_EXPIRES_IN: z.string().default('30d'),
+  // Asymmetric signing keys (RS256 / ES256), as a JSON array of
+  // { kid, privateKey | publicKey, activeFrom?, expiresAt? } with PEM keys.
+  // Unset = tokens are signed with JWT_SECRET (HS256) as before. Once keys are
+  // configured, kid-less HS256 tokens keep verifying until
+  // JWT_ACCEPT_LEGACY_SECRET=false — flip it after the refresh TTL has passed.
+  JWT_SIGNING_KEYS: z
+    .string()
+    .optional()
+    .transform((value, ctx): unknown => {
+      if (!value) return [];
+      try {
+        return JSON.parse(value);
+      } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Must be a JSON array' });
+        return z.NEVER;
+      }
+    })
+    .pipe(z.array(jwtSigningKeySchema)),
+  JWT_ACCEPT_LEGACY_SECRET: z
+    .string()
+    .default('true')
+    .transform((v) => v === 'true'),
 
   // Trading Platform (YPF = YourPropFirm Client API v1, management plane)
   TRADING_PLATFORM: z.enum(['ypf']).default('ypf'),
@@ -99,6 +138,17 @@ const envSchema = z.object({
   GOOGLE_CLIENT_SECRET: z.string().optional(),
   GOOGLE_CALLBACK_URL: z.string().url().optional(),
 
+  // Sign in with Apple. Comma-separated list of accepted ID-token audiences —
+  // the web Services ID and, if we ship one, the iOS bundle ID. Unset = disabled.
+  APPLE_CLIENT_ID: z.string().optional(),
+
+  // Discord OAuth2 (authorization-code flow; needs the `identify email` scopes).
+  // The redirect URI must exactly match the one the frontend authorized with.
+  // Unset client ID = disabled.
+  DISCORD_CLIENT_ID: z.string().optional(),
+  DISCORD_CLIENT_SECRET: z.string().optional(),
+  DISCORD_REDIRECT_URI: z.string().url().optional(),
+
   // AWS (for S3, SES, etc.)
   AWS_REGION: z.string().default('us-east-1'),
   AWS_ACCESS_KEY_ID: z.string().optional(),
@@ -113,6 +163,65 @@ const envSchema = z.object({
   RATE_LIMIT_WINDOW_MS: z.string().default('900000').transform(Number), // 15 minutes
   RATE_LIMIT_MAX_REQUESTS: z.string().default('100').transform(Number),
 
+  // Password policy. PASSWORD_MIN_SCORE is the minimum strength score (0–4)
+  // a new password must reach. BREACHED_PASSWORDS_PATH is a directory of
+  // SHA-1 prefix files (`ABCDE.txt` → `SUFFIX:COUNT` lines, as served by the
+  // Pwned Passwords range API); passwords found there are refused.
+  PASSWORD_MIN_SCORE: z
+    .string()
+    .default('3')
+    .transform(Number)
+    .pipe(z.number().int().min(0).max(4)),
+  BREACHED_PASSWORDS_PATH: z.string().default('data/breached-passwords'),
+
+  // Concurrent sessions (devices) allowed per role, as ROLE:count pairs. On
+  // login past the limit the least-recently-seen session is evicted. Roles not
+  // listed fall back to SESSION_LIMIT_DEFAULT.
+  SESSION_LIMITS: z.string().default('TRADER:5,SUPPORT:3,ADMIN:2'),
+  SESSION_LIMIT_DEFAULT: z.string().default('5').transform(Number),
+
+  // Lifetime of a read-only "view as user" token minted for support staff.
+  IMPERSONATION_TTL_MINUTES: z
+    .string()
+    .default('15')
+    .transform(Number)
+    .pipe(z.number().int().min(1).max(60)),
+
+  // Cookie token transport (opt-in per client with `X-Auth-Transport: cookie`).
+  // Tokens go in httpOnly cookies instead of the response body, and
+  // cookie-authenticated state-changing requests must echo the CSRF cookie in
+  // an X-CSRF-Token header. Set AUTH_COOKIE_DOMAIN (e.g. .dynastyfuturesdyn.com)
+  // when the API and frontend live on different subdomains.
+  AUTH_COOKIES_ENABLED: z
+    .string()
+    .default('false')
+    .transform((v) => v === 'true'),
+  AUTH_COOKIE_DOMAIN: z.string().optional(),
+  AUTH_COOKIE_SAMESITE: z.enum(['strict', 'lax', 'none']).default('lax'),
+
+  // Restricted jurisdictions, as comma-separated ISO 3166-1 alpha-2 codes.
+  // RESTRICTED_COUNTRIES (e.g. sanctioned countries) applies to every feature;
+  // the per-feature lists add to it. Both the user's declared country and the
+  // country of their IP are checked; IPs are resolved offline against
+  // GEOIP_DATABASE_PATH (a MaxMind GeoLite2/GeoIP2 Country .mmdb file).
+  RESTRICTED_COUNTRIES: z.string().default(''),
+  RESTRICTED_COUNTRIES_REGISTER: z.string().default(''),
+  RESTRICTED_COUNTRIES_LOGIN: z.string().default(''),
+  RESTRICTED_COUNTRIES_PURCHASE: z.string().default(''),
+  RESTRICTED_COUNTRIES_PAYOUT: z.string().default(''),
+  GEOIP_DATABASE_PATH: z.string().default('data/GeoLite2-Country.mmdb'),
+
+  // Bot protection on public forms. CAPTCHA_PROVIDER=none turns it off;
+  // `test` accepts only CAPTCHA_TEST_TOKEN and is meant for local development
+  // and automated tests. CAPTCHA_ROUTES is a comma-separated list of the
+  // protected forms (register, password-forgot, support-ticket, affiliate-apply).
+  CAPTCHA_PROVIDER: z.enum(['none', 'hcaptcha', 'turnstile', 'test']).default('none'),
+  CAPTCHA_SECRET_KEY: z.string().optional(),
+  CAPTCHA_TEST_TOKEN: z.string().default('captcha-test-pass'),
+  CAPTCHA_ROUTES: z
+    .string()
+    .default('register,password-forgot,support-ticket,affiliate-apply'),
+
   // Logging
   LOG_LEVEL: z.enum(['fatal', 'error', 'warn', 'info', 'debug', 'trace']).default('info'),
 
@@ -121,6 +230,14 @@ const envSchema = z.object({
 
   // Frontend URL (for password reset emails, etc.)
   FRONTEND_URL: z.string().url(),
+
+  // WebAuthn / passkeys. The relying-party ID must be the frontend's domain (or
+  // a parent of it) — it defaults to FRONTEND_URL's hostname. WEBAUTHN_ORIGINS is
+  // a comma-separated list of origins allowed to run ceremonies and defaults to
+  // FRONTEND_URL's origin.
+  WEBAUTHN_RP_ID: z.string().optional(),
+  WEBAUTHN_RP_NAME: z.string().default('Dynasty Futures'),
+  WEBAUTHN_ORIGINS: z.string().optional(),
 });
 
 // =============================================================================
@@ -145,6 +262,19 @@ const parseEnv = (): z.infer<typeof envSchema> => {
 
 const env = parseEnv();
 
+const countryList = (...lists: string[]): string[] => [
+  ...new Set(
+    lists
+      .flatMap((list) => list.split(','))
+      .map((code) => code.trim().toUpperCase())
+      .filter(Boolean)
+  ),
+];
+
+// scheme://host[:port] and bare host of the frontend URL.
+const frontendOrigin = /^[a-z][a-z0-9+.-]*:\/\/[^/?#]+/i.exec(env.FRONTEND_URL)?.[0] ?? env.FRONTEND_URL;
+const frontendHostname = frontendOrigin.replace(/^[^:]+:\/\//, '').replace(/:\d+$/, '');
+
 export const config = {
   // App
   env: env.NODE_ENV,
@@ -169,6 +299,8 @@ export const config = {
     secret: env.JWT_SECRET,
     expiresIn: env.JWT_EXPIRES_IN,
     refreshExpiresIn: env.JWT_REFRESH_EXPIRES_IN,
+    signingKeys: env.JWT_SIGNING_KEYS,
+    acceptLegacySecret: env.JWT_ACCEPT_LEGACY_SECRET,
   },
 
   // Trading Platform
@@ -208,6 +340,21 @@ export const config = {
     callbackUrl: env.GOOGLE_CALLBACK_URL,
   },
 
+  // Sign in with Apple
+  apple: {
+    clientIds: (env.APPLE_CLIENT_ID ?? '')
+      .split(',')
+      .map((s) => s.trim())
+      .filter(Boolean),
+  },
+
+  // Discord OAuth
+  discord: {
+    clientId: env.DISCORD_CLIENT_ID,
+    clientSecret: env.DISCORD_CLIENT_SECRET,
+    redirectUri: env.DISCORD_REDIRECT_URI,
+  },
+
   // AWS
   aws: {
     region: env.AWS_REGION,
@@ -230,6 +377,48 @@ export const config = {
       windowMs: env.RATE_LIMIT_WINDOW_MS,
       maxRequests: env.RATE_LIMIT_MAX_REQUESTS,
     },
+    sessions: {
+      limits: Object.fromEntries(
+        env.SESSION_LIMITS.split(',')
+          .map((pair) => pair.split(':').map((s) => s.trim()))
+          .filter(([role, count]) => role && Number(count) > 0)
+          .map(([role, count]) => [role as string, Number(count)])
+      ) as Record<string, number>,
+      defaultLimit: env.SESSION_LIMIT_DEFAULT,
+    },
+    passwordPolicy: {
+      minScore: env.PASSWORD_MIN_SCORE,
+      breachedPasswordsPath: env.BREACHED_PASSWORDS_PATH,
+    },
+    impersonationTtlMinutes: env.IMPERSONATION_TTL_MINUTES,
+    cookies: {
+      enabled: env.AUTH_COOKIES_ENABLED,
+      domain: env.AUTH_COOKIE_DOMAIN,
+      sameSite: env.AUTH_COOKIE_SAMESITE,
+      // SameSite=None is only honoured on Secure cookies.
+      secure: env.NODE_ENV === 'production' || env.AUTH_COOKIE_SAMESITE === 'none',
+    },
+  },
+
+  // Restricted jurisdictions
+  jurisdiction: {
+    restrictedCountries: {
+      register: countryList(env.RESTRICTED_COUNTRIES, env.RESTRICTED_COUNTRIES_REGISTER),
+      login: countryList(env.RESTRICTED_COUNTRIES, env.RESTRICTED_COUNTRIES_LOGIN),
+      purchase: countryList(env.RESTRICTED_COUNTRIES, env.RESTRICTED_COUNTRIES_PURCHASE),
+      payout: countryList(env.RESTRICTED_COUNTRIES, env.RESTRICTED_COUNTRIES_PAYOUT),
+    },
+    geoipDatabasePath: env.GEOIP_DATABASE_PATH,
+  },
+
+  // CAPTCHA
+  captcha: {
+    provider: env.CAPTCHA_PROVIDER,
+    secretKey: env.CAPTCHA_SECRET_KEY,
+    testToken: env.CAPTCHA_TEST_TOKEN,
+    routes: env.CAPTCHA_ROUTES.split(',')
+      .map((s) => s.trim())
+      .filter(Boolean),
   },
 
   // Logging
@@ -244,6 +433,16 @@ export const config = {
 
   // Frontend
   frontendUrl: env.FRONTEND_URL,
+
+  // WebAuthn / passkeys
+  webauthn: {
+    rpId: env.WEBAUTHN_RP_ID ?? frontendHostname,
+    rpName: env.WEBAUTHN_RP_NAME,
+    origins: (env.WEBAUTHN_ORIGINS ?? frontendOrigin)
+      .split(',')
+      .map((s) => s.trim().replace(/\/$/, ''))
+      .filter(Boolean),
+  },
 } as const;
 
 export type Config = typeof config;
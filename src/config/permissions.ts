@@ -0,0 +1,33 @@
+// =============================================================================
+// Permission Catalog
+// =============================================================================
+// Every permission `requirePermission` can check. Which roles hold which
+// permissions lives in the `role_permissions` table (seeded by the
+// add_permissions migration and later ones: ADMIN holds all of them, SUPPORT
+// the ticket permissions, impersonation, users.read, accounts.read and account
+// notes). Individual users can additionally be granted permissions.
+//
+// Adding a permission = add it here + a migration inserting role_permissions
+// rows for the roles that should hold it.
+// =============================================================================
+
+export const PERMISSIONS = [
+  'users.role.change',
+  'users.impersonate',
+  'users.read',
+  'permissions.manage',
+  'audit.read',
+  'accounts.read',
+  'accounts.manage',
+  'accounts.notes.write',
+  'accounts.breach',
+  'payouts.approve',
+  'catalog.manage',
+  'support.tickets.read',
+  'support.tickets.manage',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+export const isPermission = (value: string): value is Permission =>
+  (PERMISSIONS as readonly string[]).includes(value);
@@ -0,0 +1,134 @@
+// ── Mocks ──────────────────────────────────────────────────────────────────
+
+const mockConfig = {
+  isProduction: false,
+  captcha: { provider: 'hcaptcha', secretKey: 'captcha-secret' as string | undefined, testToken: 'pass' },
+};
+jest.mock('../../../config/index', () => ({
+  get config() {
+    return mockConfig;
+  },
+}));
+
+jest.mock('../../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+import { HCaptchaProvider } from '../hcaptcha.provider';
+import { TurnstileProvider } from '../turnstile.provider';
+import { TestCaptchaProvider } from '../test.provider';
+import { getCaptchaProvider } from '../index';
+import { ServiceUnavailableError } from '../../../utils/errors';
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+const mockFetch = jest.fn();
+globalThis.fetch = mockFetch as unknown as typeof fetch;
+
+const jsonResponse = (status: number, body: unknown) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  json: async () => body,
+});
+
+beforeEach(() => {
+  mockFetch.mockReset();
+  mockConfig.isProduction = false;
+  mockConfig.captcha.secretKey = 'captcha-secret';
+});
+
+// ── Registry ───────────────────────────────────────────────────────────────
+
+describe('getCaptchaProvider', () => {
+  it('returns the configured provider', () => {
+    expect(getCaptchaProvider()?.name).toBe('hcaptcha');
+  });
+});
+
+// ── Siteverify providers ───────────────────────────────────────────────────
+
+describe('HCaptchaProvider', () => {
+  it('posts the secret, token and client IP to siteverify', async () => {
+    mockFetch.mockResolvedValue(jsonResponse(200, { success: true }));
+
+    const result = await new HCaptchaProvider().verify('widget-token', '203.0.113.7');
+
+    expect(result).toEqual({ success: true, errorCodes: [] });
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toBe('https://api.hcaptcha.com/siteverify');
+    expect(Object.fromEntries(new URLSearchParams(init.body))).toEqual({
+      secret: 'captcha-secret',
+      response: 'widget-token',
+      remoteip: '203.0.113.7',
+    });
+  });
+
+  it('returns the provider error codes for a rejected token', async () => {
+    mockFetch.mockResolvedValue(
+      jsonResponse(200, { success: false, 'error-codes': ['invalid-input-response'] })
+    );
+
+    await expect(new HCaptchaProvider().verify('bad-token')).resolves.toEqual({
+      success: false,
+      errorCodes: ['invalid-input-response'],
+    });
+  });
+
+  it('refuses to verify without a secret key', async () => {
+    mockConfig.captcha.secretKey = undefined;
+
+    await expect(new HCaptchaProvider().verify('widget-token')).rejects.toThrow(
+      'hCaptcha is not configured'
+    );
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
+
+describe('TurnstileProvider', () => {
+  it('verifies against Cloudflare', async () => {
+    mockFetch.mockResolvedValue(jsonResponse(200, { success: true }));
+
+    await expect(new TurnstileProvider().verify('widget-token')).resolves.toEqual({
+      success: true,
+      errorCodes: [],
+    });
+    expect(mockFetch.mock.calls[0][0]).toBe(
+      'https://challenges.cloudflare.com/turnstile/v0/siteverify'
+    );
+  });
+
+  it('fails closed when siteverify is unreachable', async () => {
+    mockFetch.mockRejectedValue(new Error('ETIMEDOUT'));
+
+    await expect(new TurnstileProvider().verify('widget-token')).rejects.toBeInstanceOf(
+      ServiceUnavailableError
+    );
+  });
+});
+
+// ── Test provider ──────────────────────────────────────────────────────────
+
+describe('TestCaptchaProvider', () => {
+  it('accepts only the configured test token', async () => {
+    const provider = new TestCaptchaProvider();
+
+    await expect(provider.verify('pass')).resolves.toEqual({ success: true, errorCodes: [] });
+    await expect(provider.verify('anything-else')).resolves.toEqual(
+      expect.objectContaining({ success: false })
+    );
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('is disabled in production', async () => {
+    mockConfig.isProduction = true;
+
+    await expect(new TestCaptchaProvider().verify('pass')).rejects.toBeInstanceOf(
+      ServiceUnavailableError
+    );
+  });
+});
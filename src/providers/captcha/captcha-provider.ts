@@ -0,0 +1,27 @@
+// =============================================================================
+// CAPTCHA Provider Interface
+// =============================================================================
+// Every bot-protection service implements this interface. The `requireCaptcha`
+// middleware only ever sees a CaptchaVerification — how a provider checks the
+// token the frontend widget produced stays inside the provider.
+//
+// A token that doesn't verify is a normal result (`success: false`); providers
+// throw ServiceUnavailableError when they aren't configured or can't be
+// reached.
+// =============================================================================
+
+/** Matches CAPTCHA_PROVIDER (minus `none`). */
+export type CaptchaProviderName = 'hcaptcha' | 'turnstile' | 'test';
+
+export interface CaptchaVerification {
+  success: boolean;
+  /** Provider error codes, e.g. `invalid-input-response`, `timeout-or-duplicate`. */
+  errorCodes: string[];
+}
+
+export interface CaptchaProvider {
+  readonly name: CaptchaProviderName;
+
+  isConfigured(): boolean;
+  verify(token: string, remoteIp?: string): Promise<CaptchaVerification>;
+}
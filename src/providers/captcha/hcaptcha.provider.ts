@@ -0,0 +1,31 @@
+// =============================================================================
+// hCaptcha Provider
+// =============================================================================
+
+import { config } from '../../config/index.js';
+import { ServiceUnavailableError } from '../../utils/errors.js';
+import type { CaptchaProvider, CaptchaVerification } from './captcha-provider.js';
+import { siteverify } from './siteverify.js';
+
+const HCAPTCHA_VERIFY_URL = 'https://api.hcaptcha.com/siteverify';
+
+export class HCaptchaProvider implements CaptchaProvider {
+  readonly name = 'hcaptcha' as const;
+
+  isConfigured(): boolean {
+    return Boolean(config.captcha.secretKey);
+  }
+
+  async verify(token: string, remoteIp?: string): Promise<CaptchaVerification> {
+    if (!this.isConfigured()) {
+      throw new ServiceUnavailableError('hCaptcha is not configured');
+    }
+    return siteverify(
+      this.name,
+      HCAPTCHA_VERIFY_URL,
+      config.captcha.secretKey as string,
+      token,
+      remoteIp
+    );
+  }
+}
@@ -0,0 +1,45 @@
+// =============================================================================
+// CAPTCHA Provider Factory
+// =============================================================================
+// Returns the CaptchaProvider selected by CAPTCHA_PROVIDER, or null when bot
+// protection is turned off. This is the only place where concrete CAPTCHA
+// provider classes are imported.
+// =============================================================================
+
+import { config } from '../../config/index.js';
+import type { CaptchaProvider } from './captcha-provider.js';
+import { HCaptchaProvider } from './hcaptcha.provider.js';
+import { TurnstileProvider } from './turnstile.provider.js';
+import { TestCaptchaProvider } from './test.provider.js';
+
+let _cached: CaptchaProvider | null = null;
+
+export function getCaptchaProvider(): CaptchaProvider | null {
+  if (_cached) return _cached;
+
+  const provider = config.captcha.provider;
+
+  switch (provider) {
+    case 'none':
+      return null;
+    case 'hcaptcha':
+      _cached = new HCaptchaProvider();
+      break;
+    case 'turnstile':
+      _cached = new TurnstileProvider();
+      break;
+    case 'test':
+      _cached = new TestCaptchaProvider();
+      break;
+    default:
+      throw new Error(`Unknown CAPTCHA provider: ${provider as string}`);
+  }
+
+  return _cached;
+}
+
+export type {
+  CaptchaProvider,
+  CaptchaProviderName,
+  CaptchaVerification,
+} from './captcha-provider.js';
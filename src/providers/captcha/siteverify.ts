@@ -0,0 +1,52 @@
+// =============================================================================
+// Siteverify Client
+// =============================================================================
+// hCaptcha and Cloudflare Turnstile share the same server-side API: POST the
+// secret, the widget's response token and (optionally) the client IP as a form
+// to a `siteverify` endpoint and read `{ success, error-codes }` back.
+// =============================================================================
+
+import { logger } from '../../utils/logger.js';
+import { ServiceUnavailableError } from '../../utils/errors.js';
+import type { CaptchaVerification } from './captcha-provider.js';
+
+const REQUEST_TIMEOUT_MS = 10_000;
+
+interface SiteverifyResponse {
+  success: boolean;
+  'error-codes'?: string[];
+  hostname?: string;
+}
+
+export async function siteverify(
+  provider: string,
+  url: string,
+  secret: string,
+  token: string,
+  remoteIp?: string
+): Promise<CaptchaVerification> {
+  const form = new URLSearchParams({ secret, response: token });
+  if (remoteIp) form.set('remoteip', remoteIp);
+
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+    },
+    body: form.toString(),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  }).catch((err: unknown) => {
+    logger.error({ err, provider }, 'captcha: siteverify request failed');
+    throw new ServiceUnavailableError('CAPTCHA verification is temporarily unavailable');
+  });
+
+  const body = (await res.json().catch(() => null)) as SiteverifyResponse | null;
+
+  if (!res.ok || !body) {
+    logger.error({ status: res.status, provider }, 'captcha: siteverify returned an error');
+    throw new ServiceUnavailableError('CAPTCHA verification is temporarily unavailable');
+  }
+
+  return { success: body.success === true, errorCodes: body['error-codes'] ?? [] };
+}
@@ -0,0 +1,28 @@
+// =============================================================================
+// Test CAPTCHA Provider
+// =============================================================================
+// Local stand-in for development and automated tests: no network, and the only
+// token that passes is CAPTCHA_TEST_TOKEN. Refused in production so a
+// misconfigured deploy can't ship with a known bypass token.
+// =============================================================================
+
+import { config } from '../../config/index.js';
+import { ServiceUnavailableError } from '../../utils/errors.js';
+import type { CaptchaProvider, CaptchaVerification } from './captcha-provider.js';
+
+export class TestCaptchaProvider implements CaptchaProvider {
+  readonly name = 'test' as const;
+
+  isConfigured(): boolean {
+    return !config.isProduction;
+  }
+
+  async verify(token: string): Promise<CaptchaVerification> {
+    if (!this.isConfigured()) {
+      throw new ServiceUnavailableError('The test CAPTCHA provider is disabled in production');
+    }
+    return token === config.captcha.testToken
+      ? { success: true, errorCodes: [] }
+      : { success: false, errorCodes: ['invalid-input-response'] };
+  }
+}
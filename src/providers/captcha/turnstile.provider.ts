@@ -0,0 +1,31 @@
+// =============================================================================
+// Cloudflare Turnstile Provider
+// =============================================================================
+
+import { config } from '../../config/index.js';
+import { ServiceUnavailableError } from '../../utils/errors.js';
+import type { CaptchaProvider, CaptchaVerification } from './captcha-provider.js';
+import { siteverify } from './siteverify.js';
+
+const TURNSTILE_VERIFY_URL = 'https://challenges.cloudflare.com/turnstile/v0/siteverify';
+
+export class TurnstileProvider implements CaptchaProvider {
+  readonly name = 'turnstile' as const;
+
+  isConfigured(): boolean {
+    return Boolean(config.captcha.secretKey);
+  }
+
+  async verify(token: string, remoteIp?: string): Promise<CaptchaVerification> {
+    if (!this.isConfigured()) {
+      throw new ServiceUnavailableError('Turnstile is not configured');
+    }
+    return siteverify(
+      this.name,
+      TURNSTILE_VERIFY_URL,
+      config.captcha.secretKey as string,
+      token,
+      remoteIp
+    );
+  }
+}
@@ -0,0 +1,227 @@
+// ── Mocks ──────────────────────────────────────────────────────────────────
+
+jest.mock('../../../config/index', () => ({
+  config: {
+    google: { clientId: undefined },
+    apple: { clientIds: ['com.dynastyfutures.web'] },
+    discord: {
+      clientId: 'discord-client',
+      clientSecret: 'discord-secret',
+      redirectUri: 'https://app.example.com/oauth/discord',
+    },
+  },
+}));
+
+jest.mock('../../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+import { generateKeyPairSync } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { AppleIdentityProvider } from '../apple.provider';
+import { DiscordIdentityProvider } from '../discord.provider';
+import { getIdentityProvider } from '../index';
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+const mockFetch = jest.fn();
+globalThis.fetch = mockFetch as unknown as typeof fetch;
+
+const jsonResponse = (status: number, body: unknown) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  json: async () => body,
+});
+
+beforeEach(() => {
+  mockFetch.mockReset();
+});
+
+// ── Registry ───────────────────────────────────────────────────────────────
+
+describe('getIdentityProvider', () => {
+  it('rejects unknown providers', () => {
+    expect(() => getIdentityProvider('myspace')).toThrow('Unknown sign-in provider: myspace');
+  });
+
+  it('refuses to verify with an unconfigured provider', async () => {
+    await expect(getIdentityProvider('google').verify({ idToken: 'x' })).rejects.toThrow(
+      'Google sign-in is not configured'
+    );
+  });
+});
+
+// ── Apple ──────────────────────────────────────────────────────────────────
+
+describe('AppleIdentityProvider', () => {
+  const { publicKey, privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const jwks = { keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'apple-key-1', alg: 'RS256' }] };
+
+  const appleToken = (claims: Record<string, unknown> = {}, kid = 'apple-key-1'): string =>
+    jwt.sign(
+      { sub: 'apple-sub', email: 'relay@privaterelay.appleid.com', email_verified: 'true', ...claims },
+      privateKey,
+      {
+        algorithm: 'RS256',
+        keyid: kid,
+        issuer: 'https://appleid.apple.com',
+        audience: 'com.dynastyfutures.web',
+        expiresIn: '5m',
+      }
+    );
+
+  it('verifies a token against Apple’s published keys', async () => {
+    mockFetch.mockResolvedValue(jsonResponse(200, jwks));
+
+    const identity = await new AppleIdentityProvider().verify({
+      idToken: appleToken(),
+      firstName: ' Sam ',
+      lastName: 'Tester',
+    });
+
+    expect(identity).toEqual({
+      providerId: 'apple-sub',
+      email: 'relay@privaterelay.appleid.com',
+      emailVerified: true,
+      firstName: 'Sam',
+      lastName: 'Tester',
+    });
+    expect(mockFetch).toHaveBeenCalledWith('https://appleid.apple.com/auth/keys', expect.anything());
+  });
+
+  it('caches the key set between verifications', async () => {
+    mockFetch.mockResolvedValue(jsonResponse(200, jwks));
+    const provider = new AppleIdentityProvider();
+
+    await provider.verify({ idToken: appleToken() });
+    await provider.verify({ idToken: appleToken() });
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects tokens for another audience', async () => {
+    mockFetch.mockResolvedValue(jsonResponse(200, jwks));
+    const token = jwt.sign({ sub: 'apple-sub', email: 'a@b.c' }, privateKey, {
+      algorithm: 'RS256',
+      keyid: 'apple-key-1',
+      issuer: 'https://appleid.apple.com',
+      audience: 'com.someone.else',
+    });
+
+    await expect(new AppleIdentityProvider().verify({ idToken: token })).rejects.toThrow(
+      'Invalid Apple ID token'
+    );
+  });
+
+  it('rejects tokens signed with an unknown key', async () => {
+    mockFetch.mockResolvedValue(jsonResponse(200, jwks));
+
+    await expect(
+      new AppleIdentityProvider().verify({ idToken: appleToken({}, 'rotated-away') })
+    ).rejects.toThrow('Invalid Apple ID token');
+  });
+
+  it('refetches keys for unknown key IDs at most once a minute', async () => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+    try {
+      mockFetch.mockResolvedValue(jsonResponse(200, jwks));
+      const provider = new AppleIdentityProvider();
+      const forged = appleToken({}, 'made-up');
+
+      for (let i = 0; i < 3; i++) {
+        await expect(provider.verify({ idToken: forged })).rejects.toThrow(
+          'Invalid Apple ID token'
+        );
+      }
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      jest.advanceTimersByTime(60_000);
+      await expect(provider.verify({ idToken: forged })).rejects.toThrow('Invalid Apple ID token');
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
+
+// ── Discord ────────────────────────────────────────────────────────────────
+
+describe('DiscordIdentityProvider', () => {
+  const tokenResponse = { access_token: 'discord-access', token_type: 'Bearer', scope: 'identify email' };
+  const profile = {
+    id: '80351110224678912',
+    username: 'nelly',
+    global_name: 'Nelly',
+    email: 'nelly@example.com',
+    verified: true,
+  };
+
+  it('exchanges the code and maps the profile', async () => {
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse(200, tokenResponse))
+      .mockResolvedValueOnce(jsonResponse(200, profile));
+
+    const identity = await new DiscordIdentityProvider().verify({
+      code: 'auth-code',
+      codeVerifier: 'v'.repeat(43),
+    });
+
+    expect(identity).toEqual({
+      providerId: '80351110224678912',
+      email: 'nelly@example.com',
+      emailVerified: true,
+      firstName: 'Nelly',
+      lastName: '',
+    });
+
+    const [url, init] = mockFetch.mock.calls[0] as [string, { body: string }];
+    expect(url).toBe('https://discord.com/api/v10/oauth2/token');
+    const form = new URLSearchParams(init.body);
+    expect(form.get('code')).toBe('auth-code');
+    expect(form.get('redirect_uri')).toBe('https://app.example.com/oauth/discord');
+    expect(form.get('code_verifier')).toBe('v'.repeat(43));
+
+    expect(mockFetch.mock.calls[1]?.[1]).toMatchObject({
+      headers: { Authorization: 'Bearer discord-access' },
+    });
+  });
+
+  it('reports Discord being unreachable as a service outage', async () => {
+    mockFetch.mockRejectedValueOnce(new Error('The operation was aborted due to timeout'));
+
+    await expect(new DiscordIdentityProvider().verify({ code: 'auth-code' })).rejects.toThrow(
+      'Discord sign-in is temporarily unavailable'
+    );
+  });
+
+  it('rejects an invalid code', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse(400, { error: 'invalid_grant' }));
+
+    await expect(new DiscordIdentityProvider().verify({ code: 'bad' })).rejects.toThrow(
+      'Invalid Discord authorization code'
+    );
+  });
+
+  it('requires the email scope', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse(200, { ...tokenResponse, scope: 'identify' }));
+
+    await expect(new DiscordIdentityProvider().verify({ code: 'auth-code' })).rejects.toThrow(
+      'Discord sign-in requires the email scope'
+    );
+  });
+
+  it('reports an unverified Discord email as such', async () => {
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse(200, tokenResponse))
+      .mockResolvedValueOnce(jsonResponse(200, { ...profile, verified: false }));
+
+    await expect(new DiscordIdentityProvider().verify({ code: 'auth-code' })).resolves.toMatchObject({
+      emailVerified: false,
+    });
+  });
+});
@@ -0,0 +1,140 @@
+// =============================================================================
+// Apple Identity Provider (Sign in with Apple)
+// =============================================================================
+// Verifies Apple-issued ID tokens (RS256) against Apple's published JWKS. The
+// key set is cached in memory and refetched when a token names a key we
+// haven't seen (Apple rotates keys without notice) — at most once a minute, so
+// forged tokens with made-up key IDs can't make us call Apple per request.
+//
+// Users may hide their address behind a private relay
+// (…@privaterelay.appleid.com) — that is still a verified, deliverable email.
+// =============================================================================
+
+import { createPublicKey, type JsonWebKey, type KeyObject } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { config } from '../../config/index.js';
+import { logger } from '../../utils/logger.js';
+import { AuthenticationError, ServiceUnavailableError } from '../../utils/errors.js';
+import type {
+  IdentityCredential,
+  IdentityProvider,
+  VerifiedIdentity,
+} from './identity-provider.js';
+
+const APPLE_ISSUER = 'https://appleid.apple.com';
+const APPLE_KEYS_URL = 'https://appleid.apple.com/auth/keys';
+const KEYS_TTL_MS = 60 * 60 * 1000;
+const KEYS_MIN_REFRESH_INTERVAL_MS = 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10_000;
+
+interface AppleIdTokenClaims {
+  sub: string;
+  email?: string;
+  /** Apple sends booleans as either true or "true". */
+  email_verified?: boolean | string;
+}
+
+export class AppleIdentityProvider implements IdentityProvider {
+  readonly name = 'apple' as const;
+  readonly displayName = 'Apple';
+
+  private keys = new Map<string, KeyObject>();
+  private keysFetchedAt = 0;
+  private keysRequestedAt = 0;
+  private pendingRefresh: Promise<void> | null = null;
+
+  isConfigured(): boolean {
+    return config.apple.clientIds.length > 0;
+  }
+
+  async verify(credential: IdentityCredential): Promise<VerifiedIdentity> {
+    if (!this.isConfigured()) {
+      throw new ServiceUnavailableError('Apple sign-in is not configured');
+    }
+    if (!credential.idToken) {
+      throw new AuthenticationError('Apple ID token is required');
+    }
+
+    const decoded = jwt.decode(credential.idToken, { complete: true });
+    const kid = decoded?.header.kid;
+    if (!kid) {
+      throw new AuthenticationError('Invalid Apple ID token');
+    }
+
+    const key = await this.getKey(kid);
+    if (!key) {
+      throw new AuthenticationError('Invalid Apple ID token');
+    }
+
+    let claims: AppleIdTokenClaims;
+    try {
+      claims = jwt.verify(credential.idToken, key, {
+        algorithms: ['RS256'],
+        issuer: APPLE_ISSUER,
+        audience: config.apple.clientIds as [string, ...string[]],
+      }) as AppleIdTokenClaims;
+    } catch {
+      throw new AuthenticationError('Invalid Apple ID token');
+    }
+
+    if (!claims.email) {
+      throw new AuthenticationError('Apple token does not contain an email');
+    }
+
+    return {
+      providerId: claims.sub,
+      email: claims.email,
+      emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+      firstName: credential.firstName?.trim() ?? '',
+      lastName: credential.lastName?.trim() ?? '',
+    };
+  }
+
+  private async getKey(kid: string): Promise<KeyObject | null> {
+    const stale = Date.now() - this.keysFetchedAt > KEYS_TTL_MS;
+    if (stale || !this.keys.has(kid)) {
+      await this.refreshKeys();
+    }
+    return this.keys.get(kid) ?? null;
+  }
+
+  /**
+   * Refetch the key set, unless one was requested within the last minute.
+   * Concurrent callers share one request.
+   */
+  private async refreshKeys(): Promise<void> {
+    if (this.pendingRefresh) return this.pendingRefresh;
+    if (Date.now() - this.keysRequestedAt < KEYS_MIN_REFRESH_INTERVAL_MS) return;
+
+    this.keysRequestedAt = Date.now();
+    this.pendingRefresh = this.fetchKeys().finally(() => {
+      this.pendingRefresh = null;
+    });
+    return this.pendingRefresh;
+  }
+
+  private async fetchKeys(): Promise<void> {
+    try {
+      const res = await fetch(APPLE_KEYS_URL, {
+        headers: { Accept: 'application/json' },
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      if (!res.ok) {
+        throw new Error(`HTTP ${res.status}`);
+      }
+
+      const body = (await res.json()) as { keys?: Array<JsonWebKey & { kid?: string }> };
+      const keys = new Map<string, KeyObject>();
+      for (const jwk of body.keys ?? []) {
+        if (jwk.kid) keys.set(jwk.kid, createPublicKey({ key: jwk, format: 'jwk' }));
+      }
+
+      this.keys = keys;
+      this.keysFetchedAt = Date.now();
+    } catch (err) {
+      // Keep serving the previous key set; a token signed with an unknown key
+      // simply fails to verify.
+      logger.error({ err }, 'Failed to fetch Apple sign-in keys');
+    }
+  }
+}
@@ -0,0 +1,130 @@
+// =============================================================================
+// Discord Identity Provider
+// =============================================================================
+// Discord has no ID tokens, so this runs the server side of the OAuth2
+// authorization-code flow: exchange the code the frontend received (scopes
+// `identify email`) for an access token, then read `/users/@me`. The Discord
+// access token is used once and not stored.
+// =============================================================================
+
+import { config } from '../../config/index.js';
+import { logger } from '../../utils/logger.js';
+import { AuthenticationError, ServiceUnavailableError } from '../../utils/errors.js';
+import type {
+  IdentityCredential,
+  IdentityProvider,
+  VerifiedIdentity,
+} from './identity-provider.js';
+
+const DISCORD_API_URL = 'https://discord.com/api/v10';
+const REQUEST_TIMEOUT_MS = 10_000;
+
+// ── Discord raw response shapes (subset — only fields we map) ───────────────
+
+interface DiscordTokenResponse {
+  access_token: string;
+  token_type: string;
+  scope: string;
+}
+
+interface DiscordUserResponse {
+  id: string;
+  username: string;
+  global_name?: string | null;
+  email?: string | null;
+  verified?: boolean;
+}
+
+/** Discord unreachable or timed out — not the user's fault, so not a 401. */
+const unavailable = (err: unknown, step: string): never => {
+  logger.error({ err, step }, 'discord: request failed');
+  throw new ServiceUnavailableError('Discord sign-in is temporarily unavailable');
+};
+
+export class DiscordIdentityProvider implements IdentityProvider {
+  readonly name = 'discord' as const;
+  readonly displayName = 'Discord';
+
+  isConfigured(): boolean {
+    return Boolean(
+      config.discord.clientId && config.discord.clientSecret && config.discord.redirectUri
+    );
+  }
+
+  async verify(credential: IdentityCredential): Promise<VerifiedIdentity> {
+    if (!this.isConfigured()) {
+      throw new ServiceUnavailableError('Discord sign-in is not configured');
+    }
+    if (!credential.code) {
+      throw new AuthenticationError('Discord authorization code is required');
+    }
+
+    const accessToken = await this.exchangeCode(credential.code, credential.codeVerifier);
+    const profile = await this.fetchProfile(accessToken);
+
+    if (!profile.email) {
+      throw new AuthenticationError('Discord account does not share an email address');
+    }
+
+    return {
+      providerId: profile.id,
+      email: profile.email,
+      emailVerified: profile.verified === true,
+      // Discord has display names, not first/last names.
+      firstName: profile.global_name || profile.username,
+      lastName: '',
+    };
+  }
+
+  private async exchangeCode(code: string, codeVerifier?: string): Promise<string> {
+    const form = new URLSearchParams({
+      client_id: config.discord.clientId as string,
+      client_secret: config.discord.clientSecret as string,
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: config.discord.redirectUri as string,
+    });
+    if (codeVerifier) form.set('code_verifier', codeVerifier);
+
+    const res = await fetch(`${DISCORD_API_URL}/oauth2/token`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Accept: 'application/json',
+      },
+      body: form.toString(),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    }).catch((err: unknown) => unavailable(err, 'code exchange'));
+
+    const body = (await res.json().catch(() => null)) as
+      | (Partial<DiscordTokenResponse> & { error?: string })
+      | null;
+
+    if (!res.ok || !body?.access_token) {
+      logger.warn({ status: res.status, error: body?.error }, 'discord: code exchange failed');
+      throw new AuthenticationError('Invalid Discord authorization code');
+    }
+
+    if (!body.scope?.split(' ').includes('email')) {
+      throw new AuthenticationError('Discord sign-in requires the email scope');
+    }
+
+    return body.access_token;
+  }
+
+  private async fetchProfile(accessToken: string): Promise<DiscordUserResponse> {
+    const res = await fetch(`${DISCORD_API_URL}/users/@me`, {
+      headers: { Authorization: `Bearer ${accessToken}`, Accept: 'application/json' },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    }).catch((err: unknown) => unavailable(err, 'profile lookup'));
+
+    if (!res.ok) {
+      logger.warn({ status: res.status }, 'discord: profile lookup failed');
+      throw new AuthenticationError('Could not read your Discord profile');
+    }
+
+    return (await res
+      .json()
+      .catch((err: unknown) => unavailable(err, 'profile lookup'))) as DiscordUserResponse;
+  }
+}
@@ -0,0 +1,62 @@
+// =============================================================================
+// Google Identity Provider
+// =============================================================================
+// Verifies ID tokens issued to our client by Google Identity Services.
+// =============================================================================
+
+import { OAuth2Client } from 'google-auth-library';
+import { config } from '../../config/index.js';
+import { AuthenticationError, ServiceUnavailableError } from '../../utils/errors.js';
+import type {
+  IdentityCredential,
+  IdentityProvider,
+  VerifiedIdentity,
+} from './identity-provider.js';
+
+export class GoogleIdentityProvider implements IdentityProvider {
+  readonly name = 'google' as const;
+  readonly displayName = 'Google';
+
+  private client: OAuth2Client | null = null;
+
+  isConfigured(): boolean {
+    return Boolean(config.google.clientId);
+  }
+
+  async verify(credential: IdentityCredential): Promise<VerifiedIdentity> {
+    const clientId = config.google.clientId;
+    if (!clientId) {
+      throw new ServiceUnavailableError('Google sign-in is not configured');
+    }
+    if (!credential.idToken) {
+      throw new AuthenticationError('Google ID token is required');
+    }
+
+    if (!this.client) {
+      this.client = new OAuth2Client(clientId);
+    }
+
+    let payload;
+    try {
+      const ticket = await this.client.verifyIdToken({
+        idToken: credential.idToken,
+        audience: clientId,
+      });
+      payload = ticket.getPayload();
+    } catch {
+      throw new AuthenticationError('Invalid Google ID token');
+    }
+
+    if (!payload || !payload.email) {
+      throw new AuthenticationError('Google token does not contain an email');
+    }
+
+    return {
+      providerId: payload.sub,
+      email: payload.email,
+      emailVerified: payload.email_verified !== false,
+      firstName: payload.given_name || payload.name?.split(' ')[0] || '',
+      lastName: payload.family_name || payload.name?.split(' ').slice(1).join(' ') || '',
+    };
+  }
+}
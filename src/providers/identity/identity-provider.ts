@@ -0,0 +1,51 @@
+// =============================================================================
+// Identity Provider Interface
+// =============================================================================
+// Every "Sign in with X" provider implements this interface. The auth service
+// only ever sees a VerifiedIdentity — how a provider proves it (an ID token
+// checked against published keys, an authorization code exchanged server-side)
+// stays inside the provider.
+//
+// Providers throw AuthenticationError for a credential that doesn't verify and
+// ServiceUnavailableError when they aren't configured.
+// =============================================================================
+
+/** Stored in `OAuthAccount.provider`. */
+export type IdentityProviderName = 'google' | 'apple' | 'discord';
+
+/**
+ * What the frontend hands us after the provider's sign-in UI. Which fields a
+ * provider needs depends on its flow.
+ */
+export interface IdentityCredential {
+  /** OpenID Connect ID token (Google, Apple). */
+  idToken?: string | undefined;
+  /** OAuth2 authorization code (Discord). */
+  code?: string | undefined;
+  /** PKCE verifier matching the code challenge the frontend sent. */
+  codeVerifier?: string | undefined;
+  /**
+   * Apple only shares the user's name with the frontend, once, on first
+   * authorization — it is never in the ID token.
+   */
+  firstName?: string | undefined;
+  lastName?: string | undefined;
+}
+
+export interface VerifiedIdentity {
+  /** Stable, provider-issued subject ID. */
+  providerId: string;
+  email: string;
+  emailVerified: boolean;
+  firstName: string;
+  lastName: string;
+}
+
+export interface IdentityProvider {
+  readonly name: IdentityProviderName;
+  /** Human-readable name for messages ("Sign in with …"). */
+  readonly displayName: string;
+
+  isConfigured(): boolean;
+  verify(credential: IdentityCredential): Promise<VerifiedIdentity>;
+}
@@ -0,0 +1,53 @@
+// =============================================================================
+// Identity Provider Registry
+// =============================================================================
+// Maps an `OAuthAccount.provider` name to its IdentityProvider. This is the
+// only place where concrete identity-provider classes are imported. Adding a
+// provider = implement the interface + register it here.
+// =============================================================================
+
+import { BadRequestError } from '../../utils/errors.js';
+import type { IdentityProvider, IdentityProviderName } from './identity-provider.js';
+import { GoogleIdentityProvider } from './google.provider.js';
+import { AppleIdentityProvider } from './apple.provider.js';
+import { DiscordIdentityProvider } from './discord.provider.js';
+
+export const IDENTITY_PROVIDER_NAMES: readonly IdentityProviderName[] = [
+  'google',
+  'apple',
+  'discord',
+];
+
+let _providers: Map<IdentityProviderName, IdentityProvider> | null = null;
+
+const getProviders = (): Map<IdentityProviderName, IdentityProvider> => {
+  if (!_providers) {
+    _providers = new Map<IdentityProviderName, IdentityProvider>([
+      ['google', new GoogleIdentityProvider()],
+      ['apple', new AppleIdentityProvider()],
+      ['discord', new DiscordIdentityProvider()],
+    ]);
+  }
+  return _providers;
+};
+
+export const isIdentityProviderName = (name: string): name is IdentityProviderName =>
+  (IDENTITY_PROVIDER_NAMES as readonly string[]).includes(name);
+
+/**
+ * Look up a provider by name. Throws BadRequestError for names we don't know.
+ */
+export function getIdentityProvider(name: string): IdentityProvider {
+  const provider = isIdentityProviderName(name) ? getProviders().get(name) : undefined;
+  if (!provider) {
+    throw new BadRequestError(`Unknown sign-in provider: ${name}`);
+  }
+  return provider;
+}
+
+export type {
+  IdentityProvider,
+  IdentityProviderName,
+  IdentityCredential,
+  VerifiedIdentity,
+} from './identity-provider.js';
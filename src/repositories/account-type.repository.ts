@@ -0,0 +1,180 @@
+import { AccountStatus, ChallengePhase, Prisma } from '@prisma/client';
+import { prisma } from '../utils/database.js';
+
+// =============================================================================
+// Account Type Repository
+// =============================================================================
+// The plan catalog: account types (size, pricing, payout terms) and their
+// per-phase challenge rules. Rules are keyed by (accountTypeId, phase).
+// =============================================================================
+
+/** Statuses of accounts still being traded — the same set the YPF poller tracks. */
+export const LIVE_ACCOUNT_STATUSES: AccountStatus[] = [
+  AccountStatus.EVALUATION,
+  AccountStatus.PHASE_2,
+  AccountStatus.PASSED,
+  AccountStatus.FUNDED,
+];
+
+const withRules = {
+  challengeRules: { orderBy: { phase: 'asc' } },
+} as const satisfies Prisma.AccountTypeInclude;
+
+export type AccountTypeWithRules = Prisma.AccountTypeGetPayload<{ include: typeof withRules }>;
+
+export interface AccountTypeData {
+  displayName?: string | undefined;
+  description?: string | null | undefined;
+  price?: number | undefined;
+  resetPrice?: number | undefined;
+  profitSplit?: number | undefined;
+  minPayoutAmount?: number | undefined;
+  payoutFrequency?: string | undefined;
+  payoutCycleCap?: number | null | undefined;
+  isActive?: boolean | undefined;
+  sortOrder?: number | undefined;
+  ypfProgramId?: string | null | undefined;
+}
+
+export interface CreateAccountTypeData extends AccountTypeData {
+  name: string;
+  displayName: string;
+  accountSize: number;
+  price: number;
+  resetPrice: number;
+  profitSplit: number;
+  minPayoutAmount: number;
+  payoutFrequency: string;
+}
+
+export interface ChallengeRuleData {
+  profitTarget: number;
+  maxDailyLoss: number;
+  maxTotalDrawdown: number;
+  drawdownType: string;
+  minTradingDays: number;
+  maxTradingDays?: number | null | undefined;
+  consistencyRule?: boolean | undefined;
+  maxSingleDayProfit?: number | null | undefined;
+  maxPositionSize?: number | null | undefined;
+  maxOpenPositions?: number | null | undefined;
+  newsRestriction?: boolean | undefined;
+  weekendRestriction?: boolean | undefined;
+}
+
+/**
+ * Drop `undefined` fields: optional input fields mean "leave unchanged", which
+ * Prisma's types (under exactOptionalPropertyTypes) only accept as absent keys.
+ */
+const definedOnly = <T extends object>(data: T): { [K in keyof T]?: Exclude<T[K], undefined> } =>
+  Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined)) as {
+    [K in keyof T]?: Exclude<T[K], undefined>;
+  };
+
+/**
+ * Account types with their rules, by sortOrder. Inactive types only when asked.
+ */
+export const findAccountTypes = async (
+  includeInactive = false
+): Promise<AccountTypeWithRules[]> => {
+  return prisma.accountType.findMany({
+    where: includeInactive ? {} : { isActive: true },
+    include: withRules,
+    orderBy: [{ sortOrder: 'asc' }, { accountSize: 'asc' }],
+  });
+};
+
+export const findAccountTypeById = async (id: string): Promise<AccountTypeWithRules | null> => {
+  return prisma.accountType.findUnique({ where: { id }, include: withRules });
+};
+
+export const findAccountTypeByName = async (name: string): Promise<{ id: string } | null> => {
+  return prisma.accountType.findUnique({ where: { name }, select: { id: true } });
+};
+
+/**
+ * Create an account type together with its phase rules.
+ */
+export const createAccountType = async (
+  data: CreateAccountTypeData,
+  rules: ({ phase: ChallengePhase } & ChallengeRuleData)[] = []
+): Promise<AccountTypeWithRules> => {
+  return prisma.accountType.create({
+    data: {
+      ...(definedOnly(data) as Prisma.AccountTypeCreateWithoutChallengeRulesInput),
+      challengeRules: {
+        create: rules.map(
+          (rule) => definedOnly(rule) as Prisma.ChallengeRuleCreateWithoutAccountTypeInput
+        ),
+      },
+    },
+    include: withRules,
+  });
+};
+
+export const updateAccountType = async (
+  id: string,
+  data: AccountTypeData
+): Promise<AccountTypeWithRules> => {
+  return prisma.accountType.update({
+    where: { id },
+    data: definedOnly(data),
+    include: withRules,
+  });
+};
+
+/**
+ * Delete an account type and its rules. Callers must make sure no account
+ * references it.
+ */
+export const deleteAccountType = async (id: string): Promise<void> => {
+  await prisma.$transaction([
+    prisma.challengeRule.deleteMany({ where: { accountTypeId: id } }),
+    prisma.accountType.delete({ where: { id } }),
+  ]);
+};
+
+/**
+ * How many accounts use the type: all of them, and those still being traded.
+ */
+export const countAccountsByType = async (
+  accountTypeId: string
+): Promise<{ total: number; live: number }> => {
+  const [total, live] = await Promise.all([
+    prisma.account.count({ where: { accountTypeId } }),
+    prisma.account.count({
+      where: { accountTypeId, deletedAt: null, status: { in: LIVE_ACCOUNT_STATUSES } },
+    }),
+  ]);
+  return { total, live };
+};
+
+export const upsertChallengeRule = async (
+  accountTypeId: string,
+  phase: ChallengePhase,
+  data: ChallengeRuleData
+): Promise<void> => {
+  await prisma.challengeRule.upsert({
+    where: { accountTypeId_phase: { accountTypeId, phase } },
+    create: {
+      accountTypeId,
+      phase,
+      ...(definedOnly(data) as Omit<
+        Prisma.ChallengeRuleUncheckedCreateInput,
+        'accountTypeId' | 'phase'
+      >),
+    },
+    update: definedOnly(data),
+  });
+};
+
+/**
+ * Delete the rule for a phase. Returns false if there was none.
+ */
+export const deleteChallengeRule = async (
+  accountTypeId: string,
+  phase: ChallengePhase
+): Promise<boolean> => {
+  const { count } = await prisma.challengeRule.deleteMany({ where: { accountTypeId, phase } });
+  return count > 0;
+};
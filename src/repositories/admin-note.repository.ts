@@ -0,0 +1,63 @@
+import { AdminNote } from '@prisma/client';
+import { prisma } from '../utils/database.js';
+
+// =============================================================================
+// Admin Note Repository
+// =============================================================================
+// Staff notes on a trading account. `isPrivate` (the default) marks a note as
+// internal to staff; a non-private note may be shared with the trader.
+// =============================================================================
+
+export interface CreateAdminNoteData {
+  accountId: string;
+  authorId: string;
+  note: string;
+  isPrivate?: boolean | undefined;
+}
+
+export interface UpdateAdminNoteData {
+  note?: string | undefined;
+  isPrivate?: boolean | undefined;
+}
+
+/**
+ * All notes on an account, newest first.
+ */
+export const findNotesByAccount = async (accountId: string): Promise<AdminNote[]> => {
+  return prisma.adminNote.findMany({
+    where: { accountId },
+    orderBy: { createdAt: 'desc' },
+  });
+};
+
+/**
+ * A note by ID, or null if none.
+ */
+export const findNoteById = async (id: string): Promise<AdminNote | null> => {
+  return prisma.adminNote.findUnique({ where: { id } });
+};
+
+export const createNote = async (data: CreateAdminNoteData): Promise<AdminNote> => {
+  return prisma.adminNote.create({
+    data: {
+      accountId: data.accountId,
+      authorId: data.authorId,
+      note: data.note,
+      ...(data.isPrivate !== undefined && { isPrivate: data.isPrivate }),
+    },
+  });
+};
+
+export const updateNote = async (id: string, data: UpdateAdminNoteData): Promise<AdminNote> => {
+  return prisma.adminNote.update({
+    where: { id },
+    data: {
+      ...(data.note !== undefined && { note: data.note }),
+      ...(data.isPrivate !== undefined && { isPrivate: data.isPrivate }),
+    },
+  });
+};
+
+export const deleteNote = async (id: string): Promise<void> => {
+  await prisma.adminNote.delete({ where: { id } });
+};
@@ -0,0 +1,209 @@
+import { AuditLog, Prisma } from '@prisma/client';
+import { prisma } from '../utils/database.js';
+import { computeAuditHash, GENESIS_HASH } from '../utils/audit-chain.js';
+
+// =============================================================================
+// Audit Repository
+// =============================================================================
+// Append-only: entries are created and queried, never updated or deleted.
+// Every append extends the hash chain (src/utils/audit-chain.ts). Appends are
+// serialized with a transaction-scoped advisory lock so two writers can never
+// link to the same previous entry.
+// =============================================================================
+
+// Arbitrary, but must be the same everywhere the chain is appended to.
+const AUDIT_CHAIN_LOCK = 7_341_205_001;
+
+/** The `tx` handed to a `$transaction` callback. */
+export type AuditClient = Prisma.TransactionClient;
+
+export interface CreateAuditLogData {
+  userId: string | null;
+  action: string;
+  entity: string;
+  entityId?: string | null | undefined;
+  oldValues?: Prisma.InputJsonValue | undefined;
+  newValues?: Prisma.InputJsonValue | undefined;
+  ipAddress?: string | null | undefined;
+  userAgent?: string | null | undefined;
+  requestId?: string | null | undefined;
+  metadata?: Prisma.InputJsonValue | undefined;
+}
+
+export interface AuditLogFilters {
+  entity?: string | undefined;
+  entityId?: string | undefined;
+  actorId?: string | undefined;
+  action?: string | undefined;
+  requestId?: string | undefined;
+  from?: Date | undefined;
+  to?: Date | undefined;
+}
+
+export interface AuditLogPagination {
+  page: number;
+  limit: number;
+}
+
+export interface PaginatedAuditLogs {
+  data: AuditLog[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+    hasMore: boolean;
+  };
+}
+
+const appendAuditLog = async (
+  tx: AuditClient,
+  data: CreateAuditLogData
+): Promise<AuditLog> => {
+  // Held until the surrounding transaction commits or rolls back.
+  await tx.$executeRaw`SELECT pg_advisory_xact_lock(${AUDIT_CHAIN_LOCK}::bigint)`;
+
+  const previous = await tx.auditLog.findFirst({
+    where: { hash: { not: null } },
+    orderBy: { sequence: 'desc' },
+    select: { hash: true },
+  });
+  const prevHash = previous?.hash ?? GENESIS_HASH;
+
+  const content = {
+    userId: data.userId,
+    action: data.action,
+    entity: data.entity,
+    entityId: data.entityId ?? null,
+    oldValues: data.oldValues ?? null,
+    newValues: data.newValues ?? null,
+    ipAddress: data.ipAddress ?? null,
+    userAgent: data.userAgent ?? null,
+    requestId: data.requestId ?? null,
+    metadata: data.metadata ?? null,
+    createdAt: new Date(),
+  };
+
+  return tx.auditLog.create({
+    data: {
+      userId: content.userId,
+      action: content.action,
+      entity: content.entity,
+      entityId: content.entityId,
+      ipAddress: content.ipAddress,
+      userAgent: content.userAgent,
+      requestId: content.requestId,
+      ...(data.oldValues !== undefined && { oldValues: data.oldValues }),
+      ...(data.newValues !== undefined && { newValues: data.newValues }),
+      ...(data.metadata !== undefined && { metadata: data.metadata }),
+      createdAt: content.createdAt,
+      prevHash,
+      hash: computeAuditHash(prevHash, content),
+    },
+  });
+};
+
+/**
+ * Append an entry to the chain. Pass `tx` to write inside a caller's
+ * transaction; otherwise the append gets a transaction of its own.
+ */
+export const createAuditLog = async (
+  data: CreateAuditLogData,
+  tx?: AuditClient
+): Promise<AuditLog> => {
+  if (tx) return appendAuditLog(tx, data);
+  return prisma.$transaction((ownTx) => appendAuditLog(ownTx, data));
+};
+
+/**
+ * Up to `limit` entries after `afterSequence`, in chain order.
+ */
+export const findAuditLogsAfter = async (
+  afterSequence: number,
+  limit: number
+): Promise<AuditLog[]> => {
+  return prisma.auditLog.findMany({
+    where: { sequence: { gt: afterSequence } },
+    orderBy: { sequence: 'asc' },
+    take: limit,
+  });
+};
+
+/**
+ * The first or latest chained entry.
+ */
+export const findChainEnd = async (end: 'first' | 'last'): Promise<AuditLog | null> => {
+  return prisma.auditLog.findFirst({
+    where: { hash: { not: null } },
+    orderBy: { sequence: end === 'first' ? 'asc' : 'desc' },
+  });
+};
+
+const buildWhere = (filters: AuditLogFilters): Prisma.AuditLogWhereInput => {
+  const where: Prisma.AuditLogWhereInput = {};
+
+  if (filters.entity) where.entity = filters.entity;
+  if (filters.entityId) where.entityId = filters.entityId;
+  if (filters.actorId) where.userId = filters.actorId;
+  if (filters.action) where.action = filters.action;
+  if (filters.requestId) where.requestId = filters.requestId;
+
+  if (filters.from || filters.to) {
+    where.createdAt = {
+      ...(filters.from && { gte: filters.from }),
+      ...(filters.to && { lt: filters.to }),
+    };
+  }
+
+  return where;
+};
+
+/**
+ * Entries matching every given filter, newest first. `from` is inclusive,
+ * `to` exclusive.
+ */
+export const findAuditLogs = async (
+  filters: AuditLogFilters = {},
+  pagination: AuditLogPagination = { page: 1, limit: 50 }
+): Promise<PaginatedAuditLogs> => {
+  const { page, limit } = pagination;
+  const skip = (page - 1) * limit;
+  const where = buildWhere(filters);
+
+  const [entries, total] = await Promise.all([
+    prisma.auditLog.findMany({
+      where,
+      skip,
+      take: limit,
+      orderBy: { sequence: 'desc' },
+    }),
+    prisma.auditLog.count({ where }),
+  ]);
+
+  const totalPages = Math.ceil(total / limit);
+
+  return {
+    data: entries,
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages,
+      hasMore: page < totalPages,
+    },
+  };
+};
+
+/**
+ * Entries matching every given filter in chain order, at most `limit`.
+ */
+export const findAuditLogsForExport = async (
+  filters: AuditLogFilters,
+  limit: number
+): Promise<AuditLog[]> => {
+  return prisma.auditLog.findMany({
+    where: buildWhere(filters),
+    orderBy: { sequence: 'asc' },
+    take: limit,
+  });
+};
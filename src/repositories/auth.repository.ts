@@ -1,11 +1,25 @@
-import { Prisma, User, UserCredential, OAuthAccount, Session, UserRole, UserStatus } from '@prisma/client';
+import {
+  Prisma,
+  User,
+  UserCredential,
+  OAuthAccount,
+  Session,
+  RotatedRefreshToken,
+  LoginEvent,
+  WebAuthnCredential,
+  UserRole,
+  UserStatus,
+} from '@prisma/client';
 import { prisma } from '../utils/database.js';
+import type { PaginatedResult } from './user.repository.js';
+import { createAuditLog } from './audit.repository.js';
 
 // =============================================================================
 // Auth Repository
 // =============================================================================
 // Data-access layer for authentication-related tables:
-//   users, user_credentials, oauth_accounts, sessions
+//   users, user_credentials, oauth_accounts, sessions, login_events,
+//   webauthn_credentials
 // =============================================================================
 
 // ---------------------------------------------------------------------------
@@ -13,7 +27,7 @@ import { prisma } from '../utils/database.js';
 // ---------------------------------------------------------------------------
 
 /** Fields returned when fetching a user (no sensitive credential data). */
-export type SafeUser = Omit<User, 'deletedAt'>;
+export type SafeUser = Omit<User, 'deletedAt' | 'securityStamp'>;
 
 /** User with credentials attached (for login verification). */
 export type UserWithCredentials = User & {
@@ -29,6 +43,7 @@ export interface CreateUserData {
   email: string;
   firstName: string;
   lastName: string;
+  country?: string | null | undefined;
   role?: UserRole;
   status?: UserStatus;
   emailVerified?: boolean;
@@ -151,6 +166,7 @@ export const createUserWithPassword = async (
         email: data.email.toLowerCase(),
         firstName: data.firstName,
         lastName: data.lastName,
+        country: data.country ?? null,
         role: data.role ?? UserRole.TRADER,
         status: data.status ?? UserStatus.PENDING_VERIFICATION,
         emailVerified: data.emailVerified ?? false,
@@ -303,6 +319,47 @@ export const linkOAuthAccount = async (
   });
 };
 
+/**
+ * All providers linked to a user, oldest first.
+ */
+export const findOAuthAccountsByUserId = async (userId: string): Promise<OAuthAccount[]> => {
+  return prisma.oAuthAccount.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'asc' },
+  });
+};
+
+/**
+ * Unlink a provider from a user. Returns false if it wasn't linked.
+ */
+export const deleteOAuthAccount = async (userId: string, provider: string): Promise<boolean> => {
+  const { count } = await prisma.oAuthAccount.deleteMany({ where: { userId, provider } });
+  return count > 0;
+};
+
+export interface LoginMethods {
+  hasPassword: boolean;
+  oauthProviders: string[];
+  passkeys: number;
+}
+
+/**
+ * The ways a user can currently sign in (used to stop them removing the last).
+ */
+export const findLoginMethods = async (userId: string): Promise<LoginMethods> => {
+  const [credentials, oauthAccounts, passkeys] = await Promise.all([
+    prisma.userCredential.findUnique({ where: { userId }, select: { passwordHash: true } }),
+    prisma.oAuthAccount.findMany({ where: { userId }, select: { provider: true } }),
+    prisma.webAuthnCredential.count({ where: { userId } }),
+  ]);
+
+  return {
+    hasPassword: Boolean(credentials?.passwordHash),
+    oauthProviders: oauthAccounts.map((a) => a.provider),
+    passkeys,
+  };
+};
+
 // =============================================================================
 // Session Management
 // =============================================================================
@@ -371,6 +428,145 @@ export const deleteAllUserSessions = async (userId: string): Promise<number> =>
   return result.count;
 };
 
+/**
+ * List a user's unexpired sessions, most recently seen first.
+ */
+export const findActiveUserSessions = async (userId: string): Promise<Session[]> => {
+  return prisma.session.findMany({
+    where: { userId, expiresAt: { gt: new Date() } },
+    orderBy: { lastSeenAt: 'desc' },
+  });
+};
+
+/**
+ * Delete one of a user's sessions. Scoped by userId so a caller can never
+ * revoke someone else's session. Returns false if nothing matched.
+ */
+export const deleteUserSession = async (userId: string, sessionId: string): Promise<boolean> => {
+  const result = await prisma.session.deleteMany({
+    where: { id: sessionId, userId },
+  });
+  return result.count > 0;
+};
+
+/**
+ * Delete every session for a user except `keepSessionId` ("log out everywhere else").
+ */
+export const deleteOtherUserSessions = async (
+  userId: string,
+  keepSessionId: string
+): Promise<number> => {
+  const result = await prisma.session.deleteMany({
+    where: { userId, id: { not: keepSessionId } },
+  });
+  return result.count;
+};
+
+/**
+ * Trim a user's sessions down to the `keep` most recently seen, dropping
+ * expired rows first. Returns how many were deleted.
+ */
+export const pruneUserSessions = async (userId: string, keep: number): Promise<number> => {
+  const expired = await prisma.session.deleteMany({
+    where: { userId, expiresAt: { lte: new Date() } },
+  });
+
+  const stale = await prisma.session.findMany({
+    where: { userId },
+    orderBy: { lastSeenAt: 'desc' },
+    skip: keep,
+    select: { id: true },
+  });
+
+  if (stale.length === 0) return expired.count;
+
+  const evicted = await prisma.session.deleteMany({
+    where: { id: { in: stale.map((row) => row.id) } },
+  });
+  return expired.count + evicted.count;
+};
+
+/**
+ * Bump a session's last-seen timestamp — but only if it is older than
+ * `staleBefore`, so hot request paths write at most once per interval.
+ */
+export const touchSession = async (id: string, staleBefore: Date): Promise<void> => {
+  await prisma.session.updateMany({
+    where: { id, lastSeenAt: { lt: staleBefore } },
+    data: { lastSeenAt: new Date() },
+  });
+};
+
+// ---------------------------------------------------------------------------
+// Refresh-token rotation
+// ---------------------------------------------------------------------------
+
+export interface RotateRefreshTokenData {
+  sessionId: string;
+  userId: string;
+  familyId: string;
+  oldToken: string;
+  oldTokenHash: string;
+  oldExpiresAt: Date;
+  newToken: string;
+  newExpiresAt: Date;
+}
+
+/**
+ * Swap a session's refresh token for a new one and remember the old token's
+ * hash. Conditional on the session still holding `oldToken`, so of two
+ * concurrent rotations only one wins. Returns false for the loser.
+ */
+export const rotateSessionRefreshToken = async (
+  data: RotateRefreshTokenData
+): Promise<boolean> => {
+  return prisma.$transaction(async (tx) => {
+    const updated = await tx.session.updateMany({
+      where: { id: data.sessionId, token: data.oldToken },
+      data: {
+        token: data.newToken,
+        expiresAt: data.newExpiresAt,
+        lastSeenAt: new Date(),
+      },
+    });
+
+    if (updated.count === 0) return false;
+
+    await tx.rotatedRefreshToken.create({
+      data: {
+        tokenHash: data.oldTokenHash,
+        familyId: data.familyId,
+        sessionId: data.sessionId,
+        userId: data.userId,
+        expiresAt: data.oldExpiresAt,
+      },
+    });
+
+    return true;
+  });
+};
+
+/**
+ * Look up an already-rotated refresh token by its SHA-256 hash.
+ */
+export const findRotatedRefreshToken = async (
+  tokenHash: string
+): Promise<RotatedRefreshToken | null> => {
+  return prisma.rotatedRefreshToken.findUnique({
+    where: { tokenHash },
+  });
+};
+
+/**
+ * Revoke every session in a refresh-token family (reuse detected).
+ */
+export const deleteSessionFamily = async (familyId: string): Promise<number> => {
+  const result = await prisma.session.deleteMany({
+    where: { familyId },
+  });
+  return result.count;
+};
+
 /**
  * Delete expired sessions (cleanup job).
  */
@@ -506,15 +702,545 @@ export const consumePasswordReset = async (
   userId: string,
   newPasswordHash: string
 ): Promise<void> => {
+  const now = new Date();
+  await prisma.$transaction([
+    prisma.userCredential.update({
+      where: { userId },
+      data: {
+        passwordHash: newPasswordHash,
+        resetToken: null,
+        resetTokenExpiry: null,
+        failedAttempts: 0,
+        lockedUntil: null,
+        passwordChangedAt: now,
+      },
+    }),
+    prisma.user.update({
+      where: { id: userId },
+      data: { securityStamp: now },
+    }),
+  ]);
+};
+
+/**
+ * Admin-forced reset: drop the current password (so it can no longer be used),
+ * clear failed-attempts/lock state, store a fresh reset token hash, and bump
+ * the security stamp — all in one txn. The user regains access only through
+ * the emailed reset link (or an OAuth provider they already linked).
+ */
+export const forcePasswordReset = async (
+  userId: string,
+  tokenHash: string,
+  expiresAt: Date
+): Promise<void> => {
+  const now = new Date();
+  await prisma.$transaction([
+    prisma.userCredential.upsert({
+      where: { userId },
+      create: {
+        userId,
+        passwordHash: null,
+        resetToken: tokenHash,
+        resetTokenExpiry: expiresAt,
+      },
+      update: {
+        passwordHash: null,
+        resetToken: tokenHash,
+        resetTokenExpiry: expiresAt,
+        failedAttempts: 0,
+        lockedUntil: null,
+      },
+    }),
+    prisma.user.update({
+      where: { id: userId },
+      data: { securityStamp: now },
+    }),
+  ]);
+};
+
+/**
+ * Store a new password hash and stamp `passwordChangedAt` (and the user's
+ * security stamp). Upserts so an OAuth-only user without a credentials row
+ * can set their first password.
+ */
+export const updatePasswordHash = async (
+  userId: string,
+  newPasswordHash: string
+): Promise<void> => {
+  const now = new Date();
+  await prisma.$transaction([
+    prisma.userCredential.upsert({
+      where: { userId },
+      create: {
+        userId,
+        passwordHash: newPasswordHash,
+        passwordChangedAt: now,
+      },
+      update: {
+        passwordHash: newPasswordHash,
+        passwordChangedAt: now,
+      },
+    }),
+    prisma.user.update({
+      where: { id: userId },
+      data: { securityStamp: now },
+    }),
+  ]);
+};
+
+/**
+ * Read a user's security stamp (null if the user doesn't exist).
+ */
+export const findSecurityStamp = async (userId: string): Promise<Date | null> => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { securityStamp: true },
+  });
+  return user?.securityStamp ?? null;
+};
+
+// =============================================================================
+// Email Verification
+// =============================================================================
+
+/**
+ * Persist an email verification token hash + expiry against a user's
+ * credentials. Replaces any previously issued token, so only the most recent
+ * link works. Upserts for the same reason as `setPasswordResetToken`.
+ */
+export const setEmailVerificationToken = async (
+  userId: string,
+  tokenHash: string,
+  expiresAt: Date
+): Promise<void> => {
+  await prisma.userCredential.upsert({
+    where: { userId },
+    create: {
+      userId,
+      passwordHash: null,
+      emailVerifyToken: tokenHash,
+      emailVerifyTokenExpiry: expiresAt,
+    },
+    update: {
+      emailVerifyToken: tokenHash,
+      emailVerifyTokenExpiry: expiresAt,
+    },
+  });
+};
+
+/**
+ * Find a user by the SHA-256 hash of an email verification token.
+ * Returns null if no credentials row carries that hash.
+ */
+export const findUserByEmailVerificationTokenHash = async (
+  tokenHash: string
+): Promise<UserWithCredentialsByResetToken | null> => {
+  const credential = await prisma.userCredential.findFirst({
+    where: { emailVerifyToken: tokenHash },
+    include: { user: true },
+  });
+
+  if (!credential) return null;
+
+  const { user, ...credentials } = credential;
+  return { ...user, credentials };
+};
+
+/**
+ * Consume an email verification: clear the token, mark the email verified and
+ * promote PENDING_VERIFICATION users to ACTIVE — all in one txn. Users in any
+ * other status (e.g. SUSPENDED) keep it.
+ */
+export const consumeEmailVerification = async (userId: string): Promise<SafeUser> => {
+  return prisma.$transaction(async (tx) => {
+    await tx.userCredential.update({
+      where: { userId },
+      data: {
+        emailVerifyToken: null,
+        emailVerifyTokenExpiry: null,
+      },
+    });
+
+    await tx.user.updateMany({
+      where: { id: userId, status: UserStatus.PENDING_VERIFICATION },
+      data: { status: UserStatus.ACTIVE },
+    });
+
+    return tx.user.update({
+      where: { id: userId },
+      data: {
+        emailVerified: true,
+        emailVerifiedAt: new Date(),
+      },
+      select: safeUserSelect,
+    }) as Promise<SafeUser>;
+  });
+};
+
+// =============================================================================
+// Magic-Link Login
+// =============================================================================
+
+/**
+ * Persist a magic-link token hash + expiry against a user's credentials.
+ * Replaces any previously issued link. Upserts for the same reason as
+ * `setPasswordResetToken`.
+ */
+export const setMagicLinkToken = async (
+  userId: string,
+  tokenHash: string,
+  expiresAt: Date
+): Promise<void> => {
+  await prisma.userCredential.upsert({
+    where: { userId },
+    create: {
+      userId,
+      passwordHash: null,
+      magicLinkToken: tokenHash,
+      magicLinkTokenExpiry: expiresAt,
+    },
+    update: {
+      magicLinkToken: tokenHash,
+      magicLinkTokenExpiry: expiresAt,
+    },
+  });
+};
+
+/**
+ * Find a user by the SHA-256 hash of a magic-link token.
+ * Returns null if no credentials row carries that hash.
+ */
+export const findUserByMagicLinkTokenHash = async (
+  tokenHash: string
+): Promise<UserWithCredentialsByResetToken | null> => {
+  const credential = await prisma.userCredential.findFirst({
+    where: { magicLinkToken: tokenHash },
+    include: { user: true },
+  });
+
+  if (!credential) return null;
+
+  const { user, ...credentials } = credential;
+  return { ...user, credentials };
+};
+
+/**
+ * Clear a magic-link token, but only if it is still the one presented. Returns
+ * false when another request already spent it, so two clicks racing on the
+ * same link can't both sign in.
+ */
+export const consumeMagicLinkToken = async (
+  userId: string,
+  tokenHash: string
+): Promise<boolean> => {
+  const { count } = await prisma.userCredential.updateMany({
+    where: { userId, magicLinkToken: tokenHash },
+    data: {
+      magicLinkToken: null,
+      magicLinkTokenExpiry: null,
+    },
+  });
+  return count === 1;
+};
+
+// =============================================================================
+// MFA (TOTP)
+// =============================================================================
+
+/**
+ * Stash a freshly generated TOTP secret while enrollment is pending. MFA stays
+ * disabled until the user proves possession via `enableMfa`. Upserts so
+ * OAuth-only users (no credentials row yet) can enroll too.
+ */
+export const setPendingMfaSecret = async (userId: string, secret: string): Promise<void> => {
+  await prisma.userCredential.upsert({
+    where: { userId },
+    create: {
+      userId,
+      passwordHash: null,
+      mfaEnabled: false,
+      mfaSecret: secret,
+      mfaBackupCodes: [],
+    },
+    update: {
+      mfaEnabled: false,
+      mfaSecret: secret,
+      mfaBackupCodes: [],
+    },
+  });
+};
+
+/**
+ * Turn MFA on and store the (hashed) backup codes.
+ */
+export const enableMfa = async (userId: string, backupCodeHashes: string[]): Promise<void> => {
   await prisma.userCredential.update({
     where: { userId },
     data: {
-      passwordHash: newPasswordHash,
-      resetToken: null,
-      resetTokenExpiry: null,
-      failedAttempts: 0,
-      lockedUntil: null,
-      passwordChangedAt: new Date(),
+      mfaEnabled: true,
+      mfaBackupCodes: backupCodeHashes,
+    },
+  });
+};
+
+/**
+ * Replace the full set of (hashed) backup codes.
+ */
+export const replaceMfaBackupCodes = async (
+  userId: string,
+  backupCodeHashes: string[]
+): Promise<void> => {
+  await prisma.userCredential.update({
+    where: { userId },
+    data: { mfaBackupCodes: backupCodeHashes },
+  });
+};
+
+/**
+ * Turn MFA off and wipe the secret + backup codes.
+ */
+export const disableMfa = async (userId: string): Promise<void> => {
+  await prisma.userCredential.update({
+    where: { userId },
+    data: {
+      mfaEnabled: false,
+      mfaSecret: null,
+      mfaBackupCodes: [],
+    },
+  });
+};
+
+/**
+ * Atomically remove a single backup code hash. Returns true only if the hash
+ * was present — a single UPDATE, so two concurrent requests can't both spend
+ * the same code.
+ */
+export const consumeMfaBackupCode = async (
+  userId: string,
+  codeHash: string
+): Promise<boolean> => {
+  const updated = await prisma.$executeRaw`
+    UPDATE "user_credentials"
+    SET "mfa_backup_codes" = array_remove("mfa_backup_codes", ${codeHash}),
+        "updated_at" = NOW()
+    WHERE "user_id" = ${userId}
+      AND ${codeHash} = ANY("mfa_backup_codes")
+  `;
+  return updated > 0;
+};
+
+// =============================================================================
+// WebAuthn Credentials (passkeys)
+// =============================================================================
+
+export interface CreateWebAuthnCredentialData {
+  userId: string;
+  credentialId: string;
+  publicKey: Buffer;
+  algorithm: number;
+  signCount: number;
+  transports: string[];
+  name: string;
+  backedUp: boolean;
+}
+
+/**
+ * All passkeys registered by a user, oldest first.
+ */
+export const findWebAuthnCredentialsByUserId = async (
+  userId: string
+): Promise<WebAuthnCredential[]> => {
+  return prisma.webAuthnCredential.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'asc' },
+  });
+};
+
+/**
+ * Look up a passkey by the credential ID the browser reports.
+ */
+export const findWebAuthnCredentialByCredentialId = async (
+  credentialId: string
+): Promise<WebAuthnCredential | null> => {
+  return prisma.webAuthnCredential.findUnique({ where: { credentialId } });
+};
+
+/**
+ * Store a new passkey. A passkey is a second factor, so this also makes sure
+ * the user has a credentials row (OAuth-only users may not) to hold the
+ * failed-attempt counter that second-factor sign-in locks out on.
+ */
+export const createWebAuthnCredential = async (
+  data: CreateWebAuthnCredentialData
+): Promise<WebAuthnCredential> => {
+  return prisma.$transaction(async (tx) => {
+    await tx.userCredential.upsert({
+      where: { userId: data.userId },
+      create: { userId: data.userId, passwordHash: null, mfaBackupCodes: [] },
+      update: {},
+    });
+
+    return tx.webAuthnCredential.create({
+      data: {
+        userId: data.userId,
+        credentialId: data.credentialId,
+        publicKey: new Uint8Array(data.publicKey),
+        algorithm: data.algorithm,
+        signCount: BigInt(data.signCount),
+        transports: data.transports,
+        name: data.name,
+        backedUp: data.backedUp,
+      },
+    });
+  });
+};
+
+export const countWebAuthnCredentials = async (userId: string): Promise<number> => {
+  return prisma.webAuthnCredential.count({ where: { userId } });
+};
+
+/**
+ * Store the authenticator's new signature counter after a successful assertion.
+ */
+export const recordWebAuthnCredentialUse = async (
+  id: string,
+  signCount: number,
+  backedUp: boolean
+): Promise<void> => {
+  await prisma.webAuthnCredential.update({
+    where: { id },
+    data: { signCount: BigInt(signCount), backedUp, lastUsedAt: new Date() },
+  });
+};
+
+/**
+ * Remove one of the user's passkeys. Returns false if it doesn't exist or
+ * belongs to someone else.
+ */
+export const deleteWebAuthnCredential = async (userId: string, id: string): Promise<boolean> => {
+  const { count } = await prisma.webAuthnCredential.deleteMany({ where: { id, userId } });
+  return count === 1;
+};
+
+// =============================================================================
+// Security Events
+// =============================================================================
+
+export interface SecurityEventData {
+  userId: string;
+  /** e.g. REFRESH_TOKEN_REUSE */
+  action: string;
+  entity: string;
+  entityId?: string | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  metadata?: Prisma.InputJsonValue;
+}
+
+/**
+ * Record a security-relevant event against the user in the audit log.
+ */
+export const recordSecurityEvent = async (data: SecurityEventData): Promise<void> => {
+  await createAuditLog({
+    userId: data.userId,
+    action: data.action,
+    entity: data.entity,
+    entityId: data.entityId,
+    ipAddress: data.ipAddress,
+    userAgent: data.userAgent,
+    metadata: data.metadata,
+  });
+};
+
+// =============================================================================
+// Login History
+// =============================================================================
+
+export interface CreateLoginEventData {
+  userId: string;
+  success: boolean;
+  method: string;
+  failureReason?: string | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  deviceFingerprint?: string | null;
+}
+
+export const createLoginEvent = async (data: CreateLoginEventData): Promise<LoginEvent> => {
+  return prisma.loginEvent.create({
+    data: {
+      userId: data.userId,
+      success: data.success,
+      method: data.method,
+      failureReason: data.failureReason ?? null,
+      ipAddress: data.ipAddress ?? null,
+      userAgent: data.userAgent ?? null,
+      deviceFingerprint: data.deviceFingerprint ?? null,
     },
   });
 };
+
+export interface KnownLoginSources {
+  /** The user has signed in successfully at least once before. */
+  hasHistory: boolean;
+  knownDevice: boolean;
+  knownIp: boolean;
+}
+
+/**
+ * Check a device fingerprint / IP against the user's previous successful
+ * logins. A null fingerprint or IP never counts as known.
+ */
+export const findKnownLoginSources = async (
+  userId: string,
+  deviceFingerprint: string | null,
+  ipAddress: string | null
+): Promise<KnownLoginSources> => {
+  const where: Prisma.LoginEventWhereInput = { userId, success: true };
+
+  const [prior, device, ip] = await Promise.all([
+    prisma.loginEvent.findFirst({ where, select: { id: true } }),
+    deviceFingerprint
+      ? prisma.loginEvent.findFirst({ where: { ...where, deviceFingerprint }, select: { id: true } })
+      : null,
+    ipAddress
+      ? prisma.loginEvent.findFirst({ where: { ...where, ipAddress }, select: { id: true } })
+      : null,
+  ]);
+
+  return { hasHistory: prior !== null, knownDevice: device !== null, knownIp: ip !== null };
+};
+
+/**
+ * A user's login events, newest first.
+ */
+export const findLoginEvents = async (
+  userId: string,
+  pagination: { page: number; limit: number } = { page: 1, limit: 20 }
+): Promise<PaginatedResult<LoginEvent>> => {
+  const { page, limit } = pagination;
+  const skip = (page - 1) * limit;
+
+  const [events, total] = await Promise.all([
+    prisma.loginEvent.findMany({
+      where: { userId },
+      skip,
+      take: limit,
+      orderBy: { createdAt: 'desc' },
+    }),
+    prisma.loginEvent.count({ where: { userId } }),
+  ]);
+
+  const totalPages = Math.ceil(total / limit);
+
+  return {
+    data: events,
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages,
+      hasMore: page < totalPages,
+    },
+  };
+};
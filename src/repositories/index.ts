@@ -4,3 +4,7 @@
 
 export * from './support-ticket.repository.js';
 export * as journalRepository from './journal.repository.js';
+export * as permissionRepository from './permission.repository.js';
+export * as auditRepository from './audit.repository.js';
+export * as adminNoteRepository from './admin-note.repository.js';
+export * as accountTypeRepository from './account-type.repository.js';
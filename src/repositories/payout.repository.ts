@@ -1,12 +1,14 @@
 import { Payout, PayoutMethod, PayoutStatus, Prisma } from '@prisma/client';
 import { prisma } from '../utils/database.js';
+import type { PaginatedResult } from './user.repository.js';
 
 // =============================================================================
 // Payout Repository
 // =============================================================================
 // The payout request itself lives on YPF (created + approved/rejected in their
-// CRM). We persist a mirror row so the trader can see history without a live
-// call, and the YPF poller reconciles state changes back into it.
+// CRM or through our admin review queue). We persist a mirror row so the trader
+// can see history without a live call, and the YPF poller reconciles state
+// changes back into it.
 // =============================================================================
 
 export interface CreatePayoutData {
@@ -31,6 +33,30 @@ export type PayoutWithAccount = Prisma.PayoutGetPayload<{
   include: typeof payoutWithAccount;
 }>;
 
+/** What a reviewer needs alongside the payout: the account and the trader. */
+const payoutForReview = {
+  account: {
+    include: {
+      accountType: true,
+      user: {
+        select: {
+          id: true,
+          email: true,
+          firstName: true,
+          lastName: true,
+          country: true,
+          kycStatus: true,
+          platformUserId: true,
+        },
+      },
+    },
+  },
+} satisfies Prisma.PayoutInclude;
+
+export type PayoutForReview = Prisma.PayoutGetPayload<{
+  include: typeof payoutForReview;
+}>;
+
 export const createPayout = async (data: CreatePayoutData): Promise<Payout> => {
   return prisma.payout.create({
     data: {
@@ -127,3 +153,120 @@ export const updatePayoutFromPlatform = async (
     },
   });
 };
+
+// ── Review queue ─────────────────────────────────────────────────────────────
+
+/** Payouts awaiting a decision, oldest first. */
+export const findPendingPayouts = async (pagination: {
+  page: number;
+  limit: number;
+}): Promise<PaginatedResult<PayoutForReview>> => {
+  const { page, limit } = pagination;
+  const where: Prisma.PayoutWhereInput = { status: PayoutStatus.PENDING };
+
+  const [payouts, total] = await Promise.all([
+    prisma.payout.findMany({
+      where,
+      include: payoutForReview,
+      orderBy: { requestedAt: 'asc' },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.payout.count({ where }),
+  ]);
+
+  const totalPages = Math.ceil(total / limit);
+
+  return {
+    data: payouts,
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages,
+      hasMore: page < totalPages,
+    },
+  };
+};
+
+export const findPayoutForReview = async (
+  id: string
+): Promise<PayoutForReview | null> => {
+  return prisma.payout.findUnique({
+    where: { id },
+    include: payoutForReview,
+  });
+};
+
+/**
+ * A claim older than this is treated as abandoned (the reviewer's request died
+ * mid-flight) and can be taken over.
+ */
+const REVIEW_CLAIM_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Claim a PENDING payout for one reviewer before their decision is pushed to
+ * YPF, so two reviewers can't both send one. Returns whether the claim was won.
+ */
+export const claimPayoutForReview = async (id: string, reviewerId: string): Promise<boolean> => {
+  const now = new Date();
+  const { count } = await prisma.payout.updateMany({
+    where: {
+      id,
+      status: PayoutStatus.PENDING,
+      OR: [
+        { reviewClaimedBy: null },
+        { reviewClaimedAt: { lt: new Date(now.getTime() - REVIEW_CLAIM_TTL_MS) } },
+      ],
+    },
+    data: { reviewClaimedBy: reviewerId, reviewClaimedAt: now },
+  });
+  return count > 0;
+};
+
+/** Give up a claim after YPF refused the decision. */
+export const releasePayoutReviewClaim = async (id: string, reviewerId: string): Promise<void> => {
+  await prisma.payout.updateMany({
+    where: { id, status: PayoutStatus.PENDING, reviewClaimedBy: reviewerId },
+    data: { reviewClaimedBy: null, reviewClaimedAt: null },
+  });
+};
+
+export interface RecordPayoutReviewData {
+  status: typeof PayoutStatus.APPROVED | typeof PayoutStatus.REJECTED;
+  reviewedBy: string;
+  reviewNote?: string | undefined;
+  rejectionReason?: string | undefined;
+}
+
+/**
+ * Record a decision YPF accepted on a payout claimed by `reviewedBy`. The
+ * poller may already have mirrored that decision (or moved past it), in which
+ * case only the review is stored; the status never goes backwards. Releases
+ * the claim. Returns false if the claim was lost.
+ */
+export const recordPayoutReview = async (
+  id: string,
+  data: RecordPayoutReviewData
+): Promise<boolean> => {
+  const review = {
+    reviewedBy: data.reviewedBy,
+    reviewedAt: new Date(),
+    reviewNote: data.reviewNote ?? null,
+    ...(data.rejectionReason && { rejectionReason: data.rejectionReason }),
+    reviewClaimedBy: null,
+    reviewClaimedAt: null,
+  };
+
+  const decided = await prisma.payout.updateMany({
+    where: { id, reviewClaimedBy: data.reviewedBy, status: PayoutStatus.PENDING },
+    data: { ...review, status: data.status },
+  });
+  if (decided.count > 0) return true;
+
+  const annotated = await prisma.payout.updateMany({
+    where: { id, reviewClaimedBy: data.reviewedBy },
+    data: review,
+  });
+  return annotated.count > 0;
+};
@@ -0,0 +1,68 @@
+import { UserPermissionGrant, UserRole } from '@prisma/client';
+import { prisma } from '../utils/database.js';
+
+// =============================================================================
+// Permission Repository
+// =============================================================================
+// Role → permission rows and per-user grants. Permission names are validated
+// against the catalog (src/config/permissions.ts) by the service, not here.
+// =============================================================================
+
+/**
+ * Permission names mapped to a role.
+ */
+export const findRolePermissions = async (role: UserRole): Promise<string[]> => {
+  const rows = await prisma.rolePermission.findMany({
+    where: { role },
+    select: { permission: true },
+  });
+  return rows.map((row) => row.permission);
+};
+
+/**
+ * A user's grants that have not expired as of `now`.
+ */
+export const findActiveUserGrants = async (
+  userId: string,
+  now: Date = new Date()
+): Promise<UserPermissionGrant[]> => {
+  return prisma.userPermissionGrant.findMany({
+    where: { userId, OR: [{ expiresAt: null }, { expiresAt: { gt: now } }] },
+    orderBy: { createdAt: 'asc' },
+  });
+};
+
+export interface UpsertUserGrantData {
+  userId: string;
+  permission: string;
+  grantedById: string;
+  reason?: string | null | undefined;
+  expiresAt?: Date | null | undefined;
+}
+
+/**
+ * Grant a permission to a user. Re-granting replaces the previous grant's
+ * expiry, reason and grantor.
+ */
+export const upsertUserGrant = async (data: UpsertUserGrantData): Promise<UserPermissionGrant> => {
+  const fields = {
+    grantedById: data.grantedById,
+    reason: data.reason ?? null,
+    expiresAt: data.expiresAt ?? null,
+  };
+  return prisma.userPermissionGrant.upsert({
+    where: { userId_permission: { userId: data.userId, permission: data.permission } },
+    create: { userId: data.userId, permission: data.permission, ...fields },
+    update: fields,
+  });
+};
+
+/**
+ * Remove a user's grant. Returns false if there was none.
+ */
+export const deleteUserGrant = async (userId: string, permission: string): Promise<boolean> => {
+  const { count } = await prisma.userPermissionGrant.deleteMany({
+    where: { userId, permission },
+  });
+  return count === 1;
+};
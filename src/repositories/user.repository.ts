@@ -235,6 +235,10 @@ export const adminUpdateUser = async (
     if (data.timezone !== undefined) updateData.timezone = data.timezone;
     if (data.role !== undefined) updateData.role = data.role;
     if (data.status !== undefined) updateData.status = data.status;
+    // Role/status changes revoke previously issued access tokens.
+    if (data.role !== undefined || data.status !== undefined) {
+      updateData.securityStamp = new Date();
+    }
     if (data.emailVerified !== undefined) {
       updateData.emailVerified = data.emailVerified;
       if (data.emailVerified) {
@@ -265,7 +269,7 @@ export const softDeleteUser = async (id: string): Promise<SafeUser | null> => {
   try {
     return await prisma.user.update({
       where: { id, deletedAt: null },
-      data: { deletedAt: new Date() },
+      data: { deletedAt: new Date(), securityStamp: new Date() },
       select: safeUserSelect,
     }) as SafeUser;
   } catch (error) {
@@ -0,0 +1,157 @@
+import { AccountStatus } from '@prisma/client';
+import {
+  adjustBalance,
+  blockAccount,
+  breachAccount,
+  reactivateAccount,
+} from '../account-operations.service';
+import { NotFoundError, PlatformError } from '../../utils/errors';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+
+const mockAccountFindUnique = jest.fn();
+
+jest.mock('../../utils/database', () => ({
+  prisma: {
+    account: {
+      findUnique: (...args: unknown[]) => mockAccountFindUnique(...args),
+    },
+  },
+}));
+
+const mockBlockAccount = jest.fn();
+const mockReactivateAccount = jest.fn();
+const mockManualBreachAccount = jest.fn();
+const mockUpdateAccountBalance = jest.fn();
+
+jest.mock('../../providers/index', () => ({
+  getTradingPlatformProvider: () => ({
+    blockAccount: (...args: unknown[]) => mockBlockAccount(...args),
+    reactivateAccount: (...args: unknown[]) => mockReactivateAccount(...args),
+    manualBreachAccount: (...args: unknown[]) => mockManualBreachAccount(...args),
+    updateAccountBalance: (...args: unknown[]) => mockUpdateAccountBalance(...args),
+  }),
+}));
+
+const mockSyncAccountFromYPF = jest.fn();
+jest.mock('../ypf-sync.service', () => ({
+  syncAccountFromYPF: (...args: unknown[]) => mockSyncAccountFromYPF(...args),
+}));
+
+const mockReactivateChallenge = jest.fn();
+jest.mock('../challenge-transition.service', () => ({
+  reactivateChallenge: (...args: unknown[]) => mockReactivateChallenge(...args),
+}));
+
+const mockRecordAudit = jest.fn();
+jest.mock('../audit.service', () => ({
+  recordAudit: (...args: unknown[]) => mockRecordAudit(...args),
+}));
+
+jest.mock('../../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+const account = (overrides: Record<string, unknown> = {}) => ({
+  id: 'acc-1',
+  userId: 'user-1',
+  status: AccountStatus.EVALUATION,
+  currentBalance: 50000,
+  platformUserId: 'p-usr-1',
+  platformAccountId: 'p-acc-1',
+  deletedAt: null,
+  ...overrides,
+});
+
+const input = { actorId: 'admin-1', reason: 'Confirmed chargeback' };
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockSyncAccountFromYPF.mockResolvedValue(undefined);
+});
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('account operations', () => {
+  it('calls the platform, syncs immediately and audits actor, reason and state change', async () => {
+    mockAccountFindUnique
+      .mockResolvedValueOnce(account())
+      .mockResolvedValueOnce(account({ currentBalance: 50250 }));
+
+    const result = await adjustBalance('acc-1', { ...input, amount: 250 }, { requestId: 'req-1' });
+
+    expect(mockUpdateAccountBalance).toHaveBeenCalledWith('p-usr-1', 'p-acc-1', 250);
+    expect(mockSyncAccountFromYPF).toHaveBeenCalledWith({ localAccountId: 'acc-1' });
+    expect(mockUpdateAccountBalance.mock.invocationCallOrder[0]).toBeLessThan(
+      mockSyncAccountFromYPF.mock.invocationCallOrder[0]!
+    );
+    expect(mockRecordAudit).toHaveBeenCalledWith(
+      expect.objectContaining({
+        actorId: 'admin-1',
+        action: 'ACCOUNT_BALANCE_ADJUSTED',
+        entity: 'Account',
+        entityId: 'acc-1',
+        oldValues: { status: AccountStatus.EVALUATION, currentBalance: 50000 },
+        newValues: expect.objectContaining({ currentBalance: 50250 }),
+        metadata: { reason: 'Confirmed chargeback', amount: 250 },
+      }),
+      { requestId: 'req-1' }
+    );
+    expect(result?.currentBalance).toBe(50250);
+  });
+
+  it('passes the reason and a default rule name to a manual breach', async () => {
+    mockAccountFindUnique.mockResolvedValue(account());
+
+    await breachAccount('acc-1', input);
+
+    expect(mockManualBreachAccount).toHaveBeenCalledWith(
+      'p-usr-1',
+      'p-acc-1',
+      'Manual breach',
+      'Confirmed chargeback'
+    );
+  });
+
+  it('reopens a locally failed challenge before syncing a reactivation', async () => {
+    mockAccountFindUnique.mockResolvedValue(account({ status: AccountStatus.FAILED }));
+
+    await reactivateAccount('acc-1', { ...input, balanceSource: 'initial' });
+
+    expect(mockReactivateAccount).toHaveBeenCalledWith('p-usr-1', 'p-acc-1', 'initial');
+    expect(mockReactivateChallenge).toHaveBeenCalledWith('acc-1');
+    expect(mockReactivateChallenge.mock.invocationCallOrder[0]).toBeLessThan(
+      mockSyncAccountFromYPF.mock.invocationCallOrder[0]!
+    );
+  });
+
+  it('still audits when the post-operation sync fails', async () => {
+    mockAccountFindUnique.mockResolvedValue(account());
+    mockSyncAccountFromYPF.mockRejectedValue(new Error('YPF timeout'));
+
+    await expect(blockAccount('acc-1', input)).resolves.toBeDefined();
+    expect(mockRecordAudit).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'ACCOUNT_BLOCKED' }),
+      {}
+    );
+  });
+
+  it('refuses unknown and unlinked accounts without calling the platform', async () => {
+    mockAccountFindUnique.mockResolvedValueOnce(null);
+    await expect(blockAccount('missing', input)).rejects.toBeInstanceOf(NotFoundError);
+
+    mockAccountFindUnique.mockResolvedValueOnce(account({ platformAccountId: null }));
+    await expect(blockAccount('acc-1', input)).rejects.toBeInstanceOf(PlatformError);
+
+    expect(mockBlockAccount).not.toHaveBeenCalled();
+    expect(mockRecordAudit).not.toHaveBeenCalled();
+  });
+});
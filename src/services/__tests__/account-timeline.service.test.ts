@@ -0,0 +1,181 @@
+import { ChallengePhase, ChallengeStatus, PayoutStatus } from '@prisma/client';
+import { getAccountTimeline } from '../account-timeline.service';
+import { NotFoundError } from '../../utils/errors';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+
+const mockAccountFindUnique = jest.fn();
+const mockPayoutFindMany = jest.fn();
+const mockNoteFindMany = jest.fn();
+const mockChallengeFindMany = jest.fn();
+const mockViolationFindMany = jest.fn();
+const mockAuditFindMany = jest.fn();
+const mockTicketFindMany = jest.fn();
+
+jest.mock('../../utils/database', () => ({
+  prisma: {
+    account: { findUnique: (...args: unknown[]) => mockAccountFindUnique(...args) },
+    payout: { findMany: (...args: unknown[]) => mockPayoutFindMany(...args) },
+    adminNote: { findMany: (...args: unknown[]) => mockNoteFindMany(...args) },
+    challenge: { findMany: (...args: unknown[]) => mockChallengeFindMany(...args) },
+    ruleViolation: { findMany: (...args: unknown[]) => mockViolationFindMany(...args) },
+    auditLog: { findMany: (...args: unknown[]) => mockAuditFindMany(...args) },
+    supportTicket: { findMany: (...args: unknown[]) => mockTicketFindMany(...args) },
+  },
+}));
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+const at = (day: number): Date => new Date(`2026-10-${String(day).padStart(2, '0')}T12:00:00Z`);
+
+const payout = {
+  id: 'payout-1',
+  amount: { toString: () => '1000' },
+  currency: 'USD',
+  method: 'RISE',
+  status: PayoutStatus.REJECTED,
+  requestedAt: at(6),
+  reviewedAt: at(7),
+  reviewedBy: 'staff-1',
+  reviewNote: null,
+  rejectionReason: 'Consistency rule',
+  processedAt: null,
+  failedAt: null,
+};
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockAccountFindUnique.mockResolvedValue({ id: 'acc-1' });
+  mockPayoutFindMany.mockResolvedValue([payout]);
+  mockNoteFindMany.mockResolvedValue([
+    { id: 'note-1', authorId: 'staff-1', note: 'Called trader', isPrivate: true, createdAt: at(8) },
+  ]);
+  mockChallengeFindMany.mockResolvedValue([
+    {
+      id: 'ch-1',
+      phase: ChallengePhase.PHASE_1,
+      status: ChallengeStatus.FAILED,
+      startedAt: at(1),
+      completedAt: at(3),
+    },
+  ]);
+  mockViolationFindMany.mockResolvedValue([
+    {
+      id: 'v-1',
+      type: 'DAILY_LOSS_LIMIT',
+      severity: 'CRITICAL',
+      description: 'Daily loss limit exceeded',
+      causedFailure: true,
+      triggeredValue: null,
+      thresholdValue: null,
+      createdAt: at(3),
+    },
+  ]);
+  mockAuditFindMany.mockResolvedValue([
+    { id: 'audit-1', action: 'CHALLENGE_FAILED', userId: null, createdAt: at(3) },
+    { id: 'audit-2', action: 'ACCOUNT_REACTIVATED', userId: 'staff-1', createdAt: at(4) },
+  ]);
+  mockTicketFindMany.mockResolvedValue([
+    {
+      id: 'ticket-1',
+      subject: 'Why was my payout rejected?',
+      creatorId: 'user-1',
+      status: 'OPEN',
+      priority: 'MEDIUM',
+      relatedEntity: 'Payout',
+      relatedEntityId: 'payout-1',
+      createdAt: at(9),
+    },
+  ]);
+});
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('getAccountTimeline', () => {
+  it('merges every source into one feed, newest first', async () => {
+    const { data, hasMore } = await getAccountTimeline('acc-1', { limit: 50 });
+
+    expect(data.map((e) => [e.type, e.sourceId])).toEqual([
+      ['support_ticket', 'ticket-1'],
+      ['note', 'note-1'],
+      ['payout', 'payout-1'],
+      ['payout', 'payout-1'],
+      ['reset', 'audit-2'],
+      ['rule_violation', 'v-1'],
+      ['challenge', 'audit-1'],
+      ['challenge', 'ch-1'],
+    ]);
+    expect(data[2]).toMatchObject({
+      summary: 'Payout of 1000 USD rejected',
+      actorId: 'staff-1',
+    });
+    expect(hasMore).toBe(false);
+  });
+
+  it("includes tickets referencing the account's payouts", async () => {
+    await getAccountTimeline('acc-1', { limit: 50 });
+
+    expect(mockTicketFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { relatedEntityId: { in: ['acc-1', 'payout-1'] } },
+      })
+    );
+  });
+
+  it('shows no decision for a payout a reviewer has only claimed', async () => {
+    mockPayoutFindMany.mockResolvedValue([
+      {
+        ...payout,
+        status: PayoutStatus.PENDING,
+        reviewedAt: null,
+        reviewedBy: null,
+        rejectionReason: null,
+        reviewClaimedBy: 'staff-1',
+        reviewClaimedAt: at(7),
+      },
+    ]);
+
+    const { data } = await getAccountTimeline('acc-1', { limit: 50 });
+
+    expect(data.filter((e) => e.type === 'payout').map((e) => e.summary)).toEqual([
+      'Payout of 1000 USD requested',
+    ]);
+  });
+
+  it('pages backwards from `before`', async () => {
+    for (const mock of [
+      mockNoteFindMany,
+      mockViolationFindMany,
+      mockAuditFindMany,
+      mockTicketFindMany,
+    ]) {
+      mock.mockResolvedValue([]);
+    }
+
+    const { data, hasMore } = await getAccountTimeline('acc-1', { before: at(7), limit: 1 });
+
+    expect(mockChallengeFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { accountId: 'acc-1', startedAt: { lt: at(7) } },
+        take: 2,
+      })
+    );
+    // The payout's review at `before` itself is excluded; the challenge start
+    // is left for the next page.
+    expect(data).toEqual([
+      expect.objectContaining({ summary: 'Payout of 1000 USD requested', occurredAt: at(6) }),
+    ]);
+    expect(hasMore).toBe(true);
+  });
+
+  it('throws NotFoundError for an unknown account', async () => {
+    mockAccountFindUnique.mockResolvedValue(null);
+    await expect(getAccountTimeline('missing', { limit: 50 })).rejects.toThrow(NotFoundError);
+  });
+});
@@ -0,0 +1,214 @@
+import {
+  createAccountType,
+  deleteAccountType,
+  deleteChallengeRule,
+  listPlans,
+  updateAccountType,
+} from '../account-type.service';
+import { ConflictError, NotFoundError } from '../../utils/errors';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+
+const mockFindAccountTypes = jest.fn();
+const mockFindAccountTypeById = jest.fn();
+const mockFindAccountTypeByName = jest.fn();
+const mockCreateAccountType = jest.fn();
+const mockUpdateAccountType = jest.fn();
+const mockDeleteAccountType = jest.fn();
+const mockCountAccountsByType = jest.fn();
+const mockDeleteChallengeRule = jest.fn();
+
+jest.mock('../../repositories/index', () => ({
+  accountTypeRepository: {
+    findAccountTypes: (...args: unknown[]) => mockFindAccountTypes(...args),
+    findAccountTypeById: (...args: unknown[]) => mockFindAccountTypeById(...args),
+    findAccountTypeByName: (...args: unknown[]) => mockFindAccountTypeByName(...args),
+    createAccountType: (...args: unknown[]) => mockCreateAccountType(...args),
+    updateAccountType: (...args: unknown[]) => mockUpdateAccountType(...args),
+    deleteAccountType: (...args: unknown[]) => mockDeleteAccountType(...args),
+    countAccountsByType: (...args: unknown[]) => mockCountAccountsByType(...args),
+    deleteChallengeRule: (...args: unknown[]) => mockDeleteChallengeRule(...args),
+  },
+}));
+
+const mockRecordAudit = jest.fn();
+jest.mock('../audit.service', () => ({
+  recordAudit: (...args: unknown[]) => mockRecordAudit(...args),
+}));
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+// Prisma Decimals serialize through Number(); strings stand in for them here.
+const makeRule = (overrides: Record<string, unknown> = {}): Record<string, unknown> => ({
+  id: 'rule-1',
+  accountTypeId: 'type-1',
+  phase: 'PHASE_1',
+  profitTarget: '8.00',
+  maxDailyLoss: '4.00',
+  maxTotalDrawdown: '8.00',
+  drawdownType: 'trailing',
+  minTradingDays: 5,
+  maxTradingDays: null,
+  consistencyRule: false,
+  maxSingleDayProfit: null,
+  maxPositionSize: null,
+  maxOpenPositions: null,
+  newsRestriction: false,
+  weekendRestriction: false,
+  ...overrides,
+});
+
+const makeType = (overrides: Record<string, unknown> = {}): Record<string, unknown> => ({
+  id: 'type-1',
+  name: 'STANDARD_50K',
+  displayName: '$50K Challenge',
+  description: null,
+  accountSize: '50000.00',
+  price: '149.00',
+  resetPrice: '99.00',
+  profitSplit: 80,
+  minPayoutAmount: '100.00',
+  payoutFrequency: 'biweekly',
+  payoutCycleCap: null,
+  ypfProgramId: null,
+  isActive: true,
+  sortOrder: 1,
+  createdAt: new Date('2026-01-01'),
+  updatedAt: new Date('2026-01-01'),
+  challengeRules: [makeRule()],
+  ...overrides,
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockFindAccountTypeById.mockResolvedValue(makeType());
+  mockCountAccountsByType.mockResolvedValue({ total: 0, live: 0 });
+});
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('listPlans', () => {
+  it('returns active plans with numeric pricing and rules', async () => {
+    mockFindAccountTypes.mockResolvedValue([makeType()]);
+
+    const [plan] = await listPlans();
+
+    expect(mockFindAccountTypes).toHaveBeenCalledWith();
+    expect(plan).toMatchObject({ name: 'STANDARD_50K', accountSize: 50000, price: 149 });
+    expect(plan?.rules[0]).toMatchObject({ phase: 'PHASE_1', profitTarget: 8, maxDailyLoss: 4 });
+    expect(plan).not.toHaveProperty('ypfProgramId');
+  });
+});
+
+describe('createAccountType', () => {
+  it('rejects a duplicate name', async () => {
+    mockFindAccountTypeByName.mockResolvedValue({ id: 'type-1' });
+
+    await expect(
+      createAccountType(
+        {
+          name: 'STANDARD_50K',
+          displayName: '$50K Challenge',
+          accountSize: 50000,
+          price: 149,
+          resetPrice: 99,
+          profitSplit: 80,
+          minPayoutAmount: 100,
+          payoutFrequency: 'biweekly',
+        },
+        'admin-1'
+      )
+    ).rejects.toThrow(ConflictError);
+    expect(mockCreateAccountType).not.toHaveBeenCalled();
+  });
+});
+
+describe('updateAccountType', () => {
+  it('refuses to deactivate a type with active accounts', async () => {
+    mockCountAccountsByType.mockResolvedValue({ total: 4, live: 2 });
+
+    await expect(updateAccountType('type-1', { isActive: false }, 'admin-1')).rejects.toThrow(
+      'Cannot deactivate an account type with active accounts'
+    );
+    expect(mockUpdateAccountType).not.toHaveBeenCalled();
+  });
+
+  it('deactivates once only closed accounts remain and audits the change', async () => {
+    mockCountAccountsByType.mockResolvedValue({ total: 4, live: 0 });
+    mockUpdateAccountType.mockResolvedValue(makeType({ isActive: false }));
+
+    const type = await updateAccountType('type-1', { isActive: false }, 'admin-1');
+
+    expect(type.isActive).toBe(false);
+    expect(mockRecordAudit).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: 'ACCOUNT_TYPE_UPDATED',
+        oldValues: { isActive: true },
+        newValues: { isActive: false },
+      }),
+      {}
+    );
+  });
+
+  it('does not check accounts for a price change', async () => {
+    mockUpdateAccountType.mockResolvedValue(makeType({ price: '129.00' }));
+
+    const type = await updateAccountType('type-1', { price: 129 }, 'admin-1');
+
+    expect(type.price).toBe(129);
+    expect(mockCountAccountsByType).not.toHaveBeenCalled();
+  });
+});
+
+describe('deleteAccountType', () => {
+  it('refuses to delete a type that has had accounts', async () => {
+    mockCountAccountsByType.mockResolvedValue({ total: 3, live: 0 });
+
+    await expect(deleteAccountType('type-1', 'admin-1')).rejects.toThrow(ConflictError);
+    expect(mockDeleteAccountType).not.toHaveBeenCalled();
+  });
+
+  it('deletes an unused type', async () => {
+    await deleteAccountType('type-1', 'admin-1');
+
+    expect(mockDeleteAccountType).toHaveBeenCalledWith('type-1');
+    expect(mockRecordAudit).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'ACCOUNT_TYPE_DELETED', entityId: 'type-1' }),
+      {}
+    );
+  });
+});
+
+describe('deleteChallengeRule', () => {
+  it('throws NotFoundError when the phase has no rule', async () => {
+    await expect(deleteChallengeRule('type-1', 'FUNDED', 'admin-1')).rejects.toThrow(NotFoundError);
+    expect(mockDeleteChallengeRule).not.toHaveBeenCalled();
+  });
+
+  it('refuses while the type has active accounts', async () => {
+    mockCountAccountsByType.mockResolvedValue({ total: 2, live: 1 });
+
+    await expect(deleteChallengeRule('type-1', 'PHASE_1', 'admin-1')).rejects.toThrow(
+      'Cannot delete the PHASE_1 rule of an account type with active accounts'
+    );
+    expect(mockDeleteChallengeRule).not.toHaveBeenCalled();
+  });
+
+  it('deletes the rule of a type with no active accounts', async () => {
+    mockCountAccountsByType.mockResolvedValue({ total: 2, live: 0 });
+
+    await deleteChallengeRule('type-1', 'PHASE_1', 'admin-1');
+
+    expect(mockDeleteChallengeRule).toHaveBeenCalledWith('type-1', 'PHASE_1');
+    expect(mockRecordAudit).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'CHALLENGE_RULE_DELETED', metadata: { phase: 'PHASE_1' } }),
+      {}
+    );
+  });
+});
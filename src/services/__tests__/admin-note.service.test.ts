@@ -0,0 +1,178 @@
+import { UserRole } from '@prisma/client';
+import { createNote, deleteNote, listNotes, updateNote } from '../admin-note.service';
+import { ForbiddenError, NotFoundError } from '../../utils/errors';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+
+const mockAccountFindUnique = jest.fn();
+const mockUserFindMany = jest.fn();
+
+jest.mock('../../utils/database', () => ({
+  prisma: {
+    account: {
+      findUnique: (...args: unknown[]) => mockAccountFindUnique(...args),
+    },
+    user: {
+      findMany: (...args: unknown[]) => mockUserFindMany(...args),
+    },
+  },
+}));
+
+const mockFindNotesByAccount = jest.fn();
+const mockFindNoteById = jest.fn();
+const mockCreateNote = jest.fn();
+const mockUpdateNote = jest.fn();
+const mockDeleteNote = jest.fn();
+
+jest.mock('../../repositories/index', () => ({
+  adminNoteRepository: {
+    findNotesByAccount: (...args: unknown[]) => mockFindNotesByAccount(...args),
+    findNoteById: (...args: unknown[]) => mockFindNoteById(...args),
+    createNote: (...args: unknown[]) => mockCreateNote(...args),
+    updateNote: (...args: unknown[]) => mockUpdateNote(...args),
+    deleteNote: (...args: unknown[]) => mockDeleteNote(...args),
+  },
+}));
+
+const mockHasPermission = jest.fn();
+jest.mock('../permission.service', () => ({
+  hasPermission: (...args: unknown[]) => mockHasPermission(...args),
+}));
+
+const mockRecordAudit = jest.fn();
+jest.mock('../audit.service', () => ({
+  ...jest.requireActual('../audit.service'),
+  recordAudit: (...args: unknown[]) => mockRecordAudit(...args),
+}));
+
+jest.mock('../../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+const note = (overrides: Record<string, unknown> = {}) => ({
+  id: 'note-1',
+  accountId: 'acc-1',
+  authorId: 'staff-1',
+  note: 'Trader called about the breach',
+  isPrivate: true,
+  createdAt: new Date('2026-10-01T10:00:00Z'),
+  updatedAt: new Date('2026-10-01T10:00:00Z'),
+  ...overrides,
+});
+
+const author = { id: 'staff-1', email: 'staff@example.com', firstName: 'Sam', lastName: 'Lee' };
+const otherStaff = { id: 'staff-2', role: UserRole.SUPPORT };
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockAccountFindUnique.mockResolvedValue({ id: 'acc-1' });
+  mockUserFindMany.mockResolvedValue([author]);
+  mockHasPermission.mockResolvedValue(false);
+});
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('listNotes', () => {
+  it('returns notes with their authors resolved', async () => {
+    mockFindNotesByAccount.mockResolvedValue([note(), note({ id: 'note-2', authorId: 'gone' })]);
+
+    const notes = await listNotes('acc-1');
+
+    expect(notes[0]).toMatchObject({ id: 'note-1', author });
+    expect(notes[1]).toMatchObject({ id: 'note-2', author: null });
+    expect(mockUserFindMany).toHaveBeenCalledTimes(1);
+  });
+
+  it('throws NotFoundError for an unknown account', async () => {
+    mockAccountFindUnique.mockResolvedValue(null);
+    await expect(listNotes('missing')).rejects.toThrow(NotFoundError);
+  });
+});
+
+describe('createNote', () => {
+  it('creates and audits the note', async () => {
+    mockCreateNote.mockResolvedValue(note({ isPrivate: false }));
+
+    const result = await createNote('acc-1', 'staff-1', {
+      note: 'Trader called about the breach',
+      isPrivate: false,
+    });
+
+    expect(result).toMatchObject({ id: 'note-1', isPrivate: false, author });
+    expect(mockRecordAudit).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: 'ADMIN_NOTE_CREATED',
+        entityId: 'note-1',
+        newValues: { note: 'Trader called about the breach', isPrivate: false },
+        metadata: { accountId: 'acc-1' },
+      }),
+      {}
+    );
+  });
+});
+
+describe('updateNote / deleteNote', () => {
+  it("refuses to change someone else's note without accounts.manage", async () => {
+    mockFindNoteById.mockResolvedValue(note());
+
+    await expect(updateNote('acc-1', 'note-1', otherStaff, { note: 'Edited' })).rejects.toThrow(
+      ForbiddenError
+    );
+    await expect(deleteNote('acc-1', 'note-1', otherStaff)).rejects.toThrow(ForbiddenError);
+    expect(mockHasPermission).toHaveBeenCalledWith(otherStaff, 'accounts.manage');
+    expect(mockUpdateNote).not.toHaveBeenCalled();
+    expect(mockDeleteNote).not.toHaveBeenCalled();
+  });
+
+  it("lets holders of accounts.manage change someone else's note", async () => {
+    mockFindNoteById.mockResolvedValue(note());
+    mockHasPermission.mockResolvedValue(true);
+
+    await deleteNote('acc-1', 'note-1', otherStaff);
+
+    expect(mockDeleteNote).toHaveBeenCalledWith('note-1');
+    expect(mockRecordAudit).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'ADMIN_NOTE_DELETED', actorId: 'staff-2' }),
+      {}
+    );
+  });
+
+  it('lets authors edit their own note and audits the change', async () => {
+    mockFindNoteById.mockResolvedValue(note());
+    mockUpdateNote.mockResolvedValue(note({ note: 'Edited' }));
+
+    const result = await updateNote(
+      'acc-1',
+      'note-1',
+      { id: 'staff-1', role: UserRole.SUPPORT },
+      { note: 'Edited' }
+    );
+
+    expect(result.note).toBe('Edited');
+    expect(mockHasPermission).not.toHaveBeenCalled();
+    expect(mockRecordAudit).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: 'ADMIN_NOTE_UPDATED',
+        oldValues: { note: 'Trader called about the breach', isPrivate: true },
+        newValues: { note: 'Edited', isPrivate: true },
+      }),
+      {}
+    );
+  });
+
+  it('treats a note on another account as not found', async () => {
+    mockFindNoteById.mockResolvedValue(note({ accountId: 'acc-2' }));
+
+    await expect(
+      updateNote('acc-1', 'note-1', { id: 'staff-1', role: UserRole.SUPPORT }, { note: 'x' })
+    ).rejects.toThrow(NotFoundError);
+  });
+});
@@ -0,0 +1,337 @@
+import type { AuditLog } from '@prisma/client';
+import {
+  exportAuditLogs,
+  listAuditLogs,
+  pickFields,
+  recordAudit,
+  recordAuditInTransaction,
+  verifyAuditChain,
+} from '../audit.service';
+import { computeAuditHash, GENESIS_HASH } from '../../utils/audit-chain';
+import { ValidationError } from '../../utils/errors';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+
+const mockAuditLogCreate = jest.fn();
+const mockAuditLogFindMany = jest.fn();
+const mockAuditLogCount = jest.fn();
+const mockAuditLogFindFirst = jest.fn();
+const mockExecuteRaw = jest.fn();
+
+jest.mock('../../utils/database', () => {
+  const client = {
+    auditLog: {
+      create: (...args: unknown[]) => mockAuditLogCreate(...args),
+      findMany: (...args: unknown[]) => mockAuditLogFindMany(...args),
+      findFirst: (...args: unknown[]) => mockAuditLogFindFirst(...args),
+      count: (...args: unknown[]) => mockAuditLogCount(...args),
+    },
+    $executeRaw: (...args: unknown[]) => mockExecuteRaw(...args),
+    $transaction: (fn: (tx: unknown) => Promise<unknown>) => fn(client),
+  };
+  return { prisma: client };
+});
+
+const mockLoggerError = jest.fn();
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: (...args: unknown[]) => mockLoggerError(...args),
+    debug: jest.fn(),
+  },
+}));
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockAuditLogFindFirst.mockResolvedValue(null);
+});
+
+// A chained entry as the database would return it.
+const chained = (
+  sequence: number,
+  prevHash: string,
+  overrides: Partial<AuditLog> = {}
+): AuditLog => {
+  const entry: AuditLog = {
+    id: `log-${sequence}`,
+    sequence,
+    userId: 'admin-1',
+    action: 'USER_ROLE_CHANGED',
+    entity: 'User',
+    entityId: 'user-1',
+    oldValues: { role: 'TRADER' },
+    newValues: { role: 'SUPPORT' },
+    ipAddress: null,
+    userAgent: null,
+    requestId: null,
+    metadata: null,
+    createdAt: new Date(Date.UTC(2026, 6, 1, 0, 0, sequence)),
+    prevHash,
+    hash: null,
+    ...overrides,
+  };
+  entry.hash = computeAuditHash(prevHash, entry);
+  return entry;
+};
+
+// =============================================================================
+// recordAudit
+// =============================================================================
+
+describe('recordAudit', () => {
+  it('writes actor, values and request context', async () => {
+    await recordAudit(
+      {
+        actorId: 'admin-1',
+        action: 'USER_ROLE_CHANGED',
+        entity: 'User',
+        entityId: 'user-1',
+        oldValues: { role: 'TRADER' },
+        newValues: { role: 'SUPPORT' },
+      },
+      { ipAddress: '203.0.113.7', userAgent: 'jest', requestId: 'req-1' }
+    );
+
+    expect(mockAuditLogCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        userId: 'admin-1',
+        action: 'USER_ROLE_CHANGED',
+        entity: 'User',
+        entityId: 'user-1',
+        oldValues: { role: 'TRADER' },
+        newValues: { role: 'SUPPORT' },
+        ipAddress: '203.0.113.7',
+        userAgent: 'jest',
+        requestId: 'req-1',
+      }),
+    });
+  });
+
+  it('chains the entry to the latest hash under the advisory lock', async () => {
+    mockAuditLogFindFirst.mockResolvedValue({ hash: 'a'.repeat(64) });
+
+    await recordAudit({ actorId: 'admin-1', action: 'USER_UPDATED', entity: 'User' });
+
+    expect(mockExecuteRaw).toHaveBeenCalled();
+    const { data } = mockAuditLogCreate.mock.calls[0][0];
+    expect(data.prevHash).toBe('a'.repeat(64));
+    expect(data.hash).toBe(computeAuditHash('a'.repeat(64), { ...data }));
+  });
+
+  it('starts the chain from the genesis hash', async () => {
+    await recordAudit({ actorId: 'admin-1', action: 'USER_UPDATED', entity: 'User' });
+
+    expect(mockAuditLogCreate.mock.calls[0][0].data.prevHash).toBe(GENESIS_HASH);
+  });
+
+  it('stores values as JSON (dates as ISO strings, undefined fields dropped)', async () => {
+    const deletedAt = new Date('2026-07-01T12:00:00.000Z');
+
+    await recordAudit({
+      actorId: null,
+      action: 'USER_DELETED',
+      entity: 'User',
+      entityId: 'user-1',
+      newValues: { deletedAt, phone: undefined },
+    });
+
+    const { data } = mockAuditLogCreate.mock.calls[0][0];
+    expect(data.newValues).toEqual({ deletedAt: '2026-07-01T12:00:00.000Z' });
+    expect(data).not.toHaveProperty('oldValues');
+    expect(data.requestId).toBeNull();
+  });
+
+  it('logs instead of throwing when the write fails', async () => {
+    mockAuditLogCreate.mockRejectedValueOnce(new Error('db down'));
+
+    await expect(
+      recordAudit({ actorId: 'admin-1', action: 'USER_UPDATED', entity: 'User' })
+    ).resolves.toBeUndefined();
+    expect(mockLoggerError).toHaveBeenCalled();
+  });
+});
+
+// =============================================================================
+// recordAuditInTransaction
+// =============================================================================
+
+describe('recordAuditInTransaction', () => {
+  it('writes through the transaction client and propagates failures', async () => {
+    const txCreate = jest.fn().mockRejectedValue(new Error('serialization failure'));
+    const tx = {
+      auditLog: { create: txCreate, findFirst: jest.fn().mockResolvedValue(null) },
+      $executeRaw: jest.fn(),
+    } as never;
+
+    await expect(
+      recordAuditInTransaction(tx, {
+        actorId: null,
+        action: 'CHALLENGE_FAILED',
+        entity: 'Account',
+        entityId: 'acc-1',
+      })
+    ).rejects.toThrow('serialization failure');
+    expect(txCreate).toHaveBeenCalled();
+    expect(mockAuditLogCreate).not.toHaveBeenCalled();
+  });
+});
+
+// =============================================================================
+// listAuditLogs
+// =============================================================================
+
+describe('listAuditLogs', () => {
+  it('maps filters to a where clause with a half-open date range', async () => {
+    mockAuditLogFindMany.mockResolvedValue([{ id: 'log-1' }]);
+    mockAuditLogCount.mockResolvedValue(51);
+
+    const from = new Date('2026-07-01T00:00:00Z');
+    const to = new Date('2026-08-01T00:00:00Z');
+    const result = await listAuditLogs(
+      { entity: 'User', actorId: 'admin-1', action: 'USER_DELETED', from, to },
+      { page: 1, limit: 50 }
+    );
+
+    expect(mockAuditLogFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          entity: 'User',
+          userId: 'admin-1',
+          action: 'USER_DELETED',
+          createdAt: { gte: from, lt: to },
+        },
+        skip: 0,
+        take: 50,
+      })
+    );
+    expect(result.pagination).toEqual({
+      page: 1,
+      limit: 50,
+      total: 51,
+      totalPages: 2,
+      hasMore: true,
+    });
+  });
+
+  it('queries everything when no filter is given', async () => {
+    mockAuditLogFindMany.mockResolvedValue([]);
+    mockAuditLogCount.mockResolvedValue(0);
+
+    await listAuditLogs({}, { page: 2, limit: 10 });
+
+    expect(mockAuditLogFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: {}, skip: 10, take: 10 })
+    );
+  });
+});
+
+// =============================================================================
+// verifyAuditChain
+// =============================================================================
+
+describe('verifyAuditChain', () => {
+  const chainOf = (length: number): AuditLog[] => {
+    const entries: AuditLog[] = [];
+    for (let i = 1; i <= length; i++) {
+      entries.push(chained(i, entries[i - 2]?.hash ?? GENESIS_HASH));
+    }
+    return entries;
+  };
+
+  it('accepts an intact chain and reports its head, skipping older unhashed entries', async () => {
+    const legacy = { ...chained(1, GENESIS_HASH), hash: null, prevHash: null };
+    const entries = chainOf(3).map((e) => ({ ...e, sequence: e.sequence + 1 }));
+    mockAuditLogFindMany.mockResolvedValueOnce([legacy, ...entries]).mockResolvedValueOnce([]);
+
+    const result = await verifyAuditChain();
+
+    expect(result).toEqual(
+      expect.objectContaining({ valid: true, checked: 3, unchained: 1 })
+    );
+    expect(result.head?.hash).toBe(entries[2]?.hash);
+  });
+
+  it('reports an edited entry as a hash mismatch', async () => {
+    const entries = chainOf(3);
+    entries[1] = { ...entries[1]!, newValues: { role: 'ADMIN' } };
+    mockAuditLogFindMany.mockResolvedValueOnce(entries);
+
+    const result = await verifyAuditChain();
+
+    expect(result.valid).toBe(false);
+    expect(result.brokenAt).toEqual({ id: 'log-2', sequence: 2, reason: 'hash_mismatch' });
+  });
+
+  it('reports a deleted entry as a broken link on the next one', async () => {
+    const [first, , third] = chainOf(3);
+    mockAuditLogFindMany.mockResolvedValueOnce([first, third]);
+
+    const result = await verifyAuditChain();
+
+    expect(result.brokenAt).toEqual({ id: 'log-3', sequence: 3, reason: 'prev_hash_mismatch' });
+    expect(result.head?.sequence).toBe(1);
+  });
+
+  it('reports an unhashed entry inside the chain', async () => {
+    const [first, second] = chainOf(2);
+    mockAuditLogFindMany.mockResolvedValueOnce([first, { ...second!, hash: null }]);
+
+    const result = await verifyAuditChain();
+
+    expect(result.brokenAt?.reason).toBe('missing_hash');
+  });
+});
+
+// =============================================================================
+// exportAuditLogs
+// =============================================================================
+
+describe('exportAuditLogs', () => {
+  it('returns entries with the chain anchors and audits the export', async () => {
+    const first = chained(1, GENESIS_HASH);
+    const second = chained(2, first.hash as string);
+    mockAuditLogFindMany.mockResolvedValue([second]);
+    mockAuditLogFindFirst.mockImplementation(
+      async (args: { orderBy?: { sequence: 'asc' | 'desc' }; select?: unknown }) => {
+        if (args.select) return { hash: second.hash };
+        return args.orderBy?.sequence === 'asc' ? first : second;
+      }
+    );
+
+    const result = await exportAuditLogs({ entity: 'User' }, 'admin-1', { requestId: 'req-9' });
+
+    expect(result.entries).toEqual([second]);
+    expect(result.anchors.genesis).toEqual(expect.objectContaining({ sequence: 1, hash: first.hash }));
+    expect(result.anchors.head).toEqual(expect.objectContaining({ sequence: 2, hash: second.hash }));
+    expect(mockAuditLogCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        userId: 'admin-1',
+        action: 'AUDIT_LOG_EXPORTED',
+        requestId: 'req-9',
+        prevHash: second.hash,
+      }),
+    });
+  });
+
+  it('refuses exports that are too large', async () => {
+    mockAuditLogFindMany.mockResolvedValue(new Array(10_001).fill(chained(1, GENESIS_HASH)));
+
+    await expect(exportAuditLogs({}, 'admin-1')).rejects.toBeInstanceOf(ValidationError);
+    expect(mockAuditLogCreate).not.toHaveBeenCalled();
+  });
+});
+
+// =============================================================================
+// pickFields
+// =============================================================================
+
+describe('pickFields', () => {
+  it('copies only the named fields', () => {
+    expect(
+      pickFields({ firstName: 'Sam', lastName: 'Tester', role: 'TRADER' }, ['firstName', 'role'])
+    ).toEqual({ firstName: 'Sam', role: 'TRADER' });
+  });
+});
@@ -1,11 +1,33 @@
 import jwt from 'jsonwebtoken';
+import bcrypt from 'bcrypt';
 import { UserRole, UserStatus, KycStatus } from '@prisma/client';
 import {
+  register,
   login,
   refreshAccessToken,
   requestPasswordReset,
   resetPassword,
+  verifyEmail,
+  resendEmailVerification,
+  listSessions,
+  revokeSession,
+  revokeOtherSessions,
+  changePassword,
+  setPassword,
+  unlockAccount,
+  forcePasswordReset,
+  requestMagicLink,
+  verifyMagicLink,
+  completeMfaLogin,
+  loginWithPasskey,
+  completeMfaLoginWithPasskey,
+  oauthLogin,
+  linkOAuthProvider,
+  unlinkOAuthProvider,
+  isMfaChallenge,
+  type AuthResult,
 } from '../auth.service';
+import { RestrictedJurisdictionError, ValidationError } from '../../utils/errors';
 import type { JwtPayload } from '../../api/middleware/auth';
 
 // =============================================================================
@@ -26,20 +48,72 @@ const mockSetPasswordResetToken = jest.fn();
 const mockFindUserByResetTokenHash = jest.fn();
 const mockConsumePasswordReset = jest.fn();
 const mockSendPasswordResetEmail = jest.fn();
+const mockFindUserByEmail = jest.fn();
+const mockCreateUserWithPassword = jest.fn();
+const mockSetEmailVerificationToken = jest.fn();
+const mockFindUserByEmailVerificationTokenHash = jest.fn();
+const mockConsumeEmailVerification = jest.fn();
+const mockSendEmailVerificationEmail = jest.fn();
+const mockFindUserByIdWithCredentials = jest.fn();
+const mockVerifyMfaCode = jest.fn();
+const mockPruneUserSessions = jest.fn();
+const mockRotateSessionRefreshToken = jest.fn();
+const mockUpdatePasswordHash = jest.fn();
+const mockSendPasswordChangedEmail = jest.fn();
+const mockFindRotatedRefreshToken = jest.fn();
+const mockDeleteSessionFamily = jest.fn();
+const mockRecordSecurityEvent = jest.fn();
+const mockFindSessionById = jest.fn();
+const mockFindActiveUserSessions = jest.fn();
+const mockDeleteUserSession = jest.fn();
+const mockDeleteOtherUserSessions = jest.fn();
+const mockInvalidateSecurityStamp = jest.fn();
+const mockRecordLoginSuccess = jest.fn();
+const mockSendAccountLockedEmail = jest.fn();
+const mockSendForcedPasswordResetEmail = jest.fn();
+const mockForcePasswordReset = jest.fn();
+const mockSetMagicLinkToken = jest.fn();
+const mockFindUserByMagicLinkTokenHash = jest.fn();
+const mockConsumeMagicLinkToken = jest.fn();
+const mockSendMagicLinkEmail = jest.fn();
+const mockRecordLoginFailure = jest.fn();
+const mockVerifyAuthentication = jest.fn();
+const mockFindOAuthAccount = jest.fn();
+const mockLinkOAuthAccount = jest.fn();
+const mockCreateOAuthUser = jest.fn();
+const mockDeleteOAuthAccount = jest.fn();
+const mockFindLoginMethods = jest.fn();
+const mockVerifyIdentity = jest.fn();
+const mockAssertPasswordAllowed = jest.fn();
+const mockCountWebAuthnCredentials = jest.fn();
+const mockAssertJurisdictionAllowed = jest.fn();
 
 jest.mock('../../repositories/auth.repository', () => ({
-  findUserByEmail: jest.fn(),
+  findUserByEmail: (...args: unknown[]) => mockFindUserByEmail(...args),
   findUserByEmailWithCredentials: (...args: unknown[]) =>
     mockFindUserByEmailWithCredentials(...args),
   findUserById: (...args: unknown[]) => mockFindUserById(...args),
-  createUserWithPassword: jest.fn(),
-  createOAuthUser: jest.fn(),
-  findOAuthAccount: jest.fn(),
-  linkOAuthAccount: jest.fn(),
+  findUserByIdWithCredentials: (...args: unknown[]) => mockFindUserByIdWithCredentials(...args),
+  createUserWithPassword: (...args: unknown[]) => mockCreateUserWithPassword(...args),
+  createOAuthUser: (...args: unknown[]) => mockCreateOAuthUser(...args),
+  findOAuthAccount: (...args: unknown[]) => mockFindOAuthAccount(...args),
+  findOAuthAccountsByUserId: jest.fn(),
+  linkOAuthAccount: (...args: unknown[]) => mockLinkOAuthAccount(...args),
+  deleteOAuthAccount: (...args: unknown[]) => mockDeleteOAuthAccount(...args),
+  findLoginMethods: (...args: unknown[]) => mockFindLoginMethods(...args),
   createSession: (...args: unknown[]) => mockCreateSession(...args),
   findSessionByToken: (...args: unknown[]) => mockFindSessionByToken(...args),
+  findSessionById: (...args: unknown[]) => mockFindSessionById(...args),
+  rotateSessionRefreshToken: (...args: unknown[]) => mockRotateSessionRefreshToken(...args),
+  findRotatedRefreshToken: (...args: unknown[]) => mockFindRotatedRefreshToken(...args),
+  deleteSessionFamily: (...args: unknown[]) => mockDeleteSessionFamily(...args),
+  recordSecurityEvent: (...args: unknown[]) => mockRecordSecurityEvent(...args),
   deleteSession: (...args: unknown[]) => mockDeleteSession(...args),
   deleteAllUserSessions: (...args: unknown[]) => mockDeleteAllUserSessions(...args),
+  pruneUserSessions: (...args: unknown[]) => mockPruneUserSessions(...args),
+  findActiveUserSessions: (...args: unknown[]) => mockFindActiveUserSessions(...args),
+  deleteUserSession: (...args: unknown[]) => mockDeleteUserSession(...args),
+  deleteOtherUserSessions: (...args: unknown[]) => mockDeleteOtherUserSessions(...args),
   updateLastLogin: (...args: unknown[]) => mockUpdateLastLogin(...args),
   incrementFailedAttempts: (...args: unknown[]) => mockIncrementFailedAttempts(...args),
   resetFailedAttempts: (...args: unknown[]) => mockResetFailedAttempts(...args),
@@ -47,10 +121,64 @@ jest.mock('../../repositories/auth.repository', () => ({
   setPasswordResetToken: (...args: unknown[]) => mockSetPasswordResetToken(...args),
   findUserByResetTokenHash: (...args: unknown[]) => mockFindUserByResetTokenHash(...args),
   consumePasswordReset: (...args: unknown[]) => mockConsumePasswordReset(...args),
+  updatePasswordHash: (...args: unknown[]) => mockUpdatePasswordHash(...args),
+  forcePasswordReset: (...args: unknown[]) => mockForcePasswordReset(...args),
+  setMagicLinkToken: (...args: unknown[]) => mockSetMagicLinkToken(...args),
+  findUserByMagicLinkTokenHash: (...args: unknown[]) => mockFindUserByMagicLinkTokenHash(...args),
+  consumeMagicLinkToken: (...args: unknown[]) => mockConsumeMagicLinkToken(...args),
+  setEmailVerificationToken: (...args: unknown[]) => mockSetEmailVerificationToken(...args),
+  findUserByEmailVerificationTokenHash: (...args: unknown[]) =>
+    mockFindUserByEmailVerificationTokenHash(...args),
+  consumeEmailVerification: (...args: unknown[]) => mockConsumeEmailVerification(...args),
+  countWebAuthnCredentials: (...args: unknown[]) => mockCountWebAuthnCredentials(...args),
 }));
 
 jest.mock('../email.service', () => ({
   sendPasswordResetEmail: (...args: unknown[]) => mockSendPasswordResetEmail(...args),
+  sendPasswordChangedEmail: (...args: unknown[]) => mockSendPasswordChangedEmail(...args),
+  sendEmailVerificationEmail: (...args: unknown[]) => mockSendEmailVerificationEmail(...args),
+  sendAccountLockedEmail: (...args: unknown[]) => mockSendAccountLockedEmail(...args),
+  sendForcedPasswordResetEmail: (...args: unknown[]) => mockSendForcedPasswordResetEmail(...args),
+  sendMagicLinkEmail: (...args: unknown[]) => mockSendMagicLinkEmail(...args),
+}));
+
+jest.mock('../mfa.service', () => ({
+  verifyMfaCode: (...args: unknown[]) => mockVerifyMfaCode(...args),
+}));
+
+jest.mock('../user.service', () => ({
+  ensurePlatformUserAsync: jest.fn(),
+}));
+
+jest.mock('../login-history.service', () => ({
+  recordLoginSuccess: (...args: unknown[]) => mockRecordLoginSuccess(...args),
+  recordLoginFailure: (...args: unknown[]) => mockRecordLoginFailure(...args),
+}));
+
+jest.mock('../webauthn.service', () => ({
+  getAuthenticationOptions: jest.fn(),
+  verifyAuthentication: (...args: unknown[]) => mockVerifyAuthentication(...args),
+}));
+
+jest.mock('../../providers/identity', () => ({
+  getIdentityProvider: (name: string) => ({
+    name,
+    displayName: name.charAt(0).toUpperCase() + name.slice(1),
+    isConfigured: () => true,
+    verify: (...args: unknown[]) => mockVerifyIdentity(...args),
+  }),
+}));
+
+jest.mock('../password-policy.service', () => ({
+  assertPasswordAllowed: (...args: unknown[]) => mockAssertPasswordAllowed(...args),
+}));
+
+jest.mock('../jurisdiction.service', () => ({
+  assertJurisdictionAllowed: (...args: unknown[]) => mockAssertJurisdictionAllowed(...args),
+}));
+
+jest.mock('../security-stamp.service', () => ({
+  invalidateSecurityStamp: (...args: unknown[]) => mockInvalidateSecurityStamp(...args),
 }));
 
 jest.mock('../../utils/logger', () => ({
@@ -99,35 +227,57 @@ beforeEach(() => {
   jest.clearAllMocks();
   mockCreateSession.mockResolvedValue({});
   mockDeleteAllUserSessions.mockResolvedValue(0);
+  mockPruneUserSessions.mockResolvedValue(0);
+  mockRotateSessionRefreshToken.mockResolvedValue(true);
+  mockUpdatePasswordHash.mockResolvedValue(undefined);
+  mockSendPasswordChangedEmail.mockResolvedValue(undefined);
+  mockFindRotatedRefreshToken.mockResolvedValue(null);
+  mockRecordSecurityEvent.mockResolvedValue(undefined);
   mockSetPasswordResetToken.mockResolvedValue(undefined);
   mockConsumePasswordReset.mockResolvedValue(undefined);
   mockSendPasswordResetEmail.mockResolvedValue(undefined);
+  mockSetEmailVerificationToken.mockResolvedValue(undefined);
+  mockSendEmailVerificationEmail.mockResolvedValue(undefined);
+  mockAssertPasswordAllowed.mockResolvedValue(undefined);
+  mockCountWebAuthnCredentials.mockResolvedValue(0);
 });
 
 // =============================================================================
-// login — single-session enforcement
+// login — session limit enforcement
 // =============================================================================
 
-describe('login (single-session enforcement)', () => {
-  it('evicts all prior sessions before creating the new one', async () => {
+describe('login (session limit enforcement)', () => {
+  it('prunes to the role limit minus one before creating the new session', async () => {
     mockFindUserByEmailWithCredentials.mockResolvedValue(userWithCredentials);
-    mockDeleteAllUserSessions.mockResolvedValue(2); // pretend 2 prior sessions existed
+    mockPruneUserSessions.mockResolvedValue(1); // pretend the oldest device was evicted
 
     await login({ email: baseUser.email, password: 'whatever' });
 
-    // The eviction must happen, and must precede session creation.
-    expect(mockDeleteAllUserSessions).toHaveBeenCalledWith(baseUser.id);
+    // Default TRADER limit is 5 → keep the 4 most recent, then add this one.
+    expect(mockPruneUserSessions).toHaveBeenCalledWith(baseUser.id, 4);
+    expect(mockDeleteAllUserSessions).not.toHaveBeenCalled();
     expect(mockCreateSession).toHaveBeenCalledTimes(1);
 
-    const evictOrder = mockDeleteAllUserSessions.mock.invocationCallOrder[0]!;
+    const pruneOrder = mockPruneUserSessions.mock.invocationCallOrder[0]!;
     const createOrder = mockCreateSession.mock.invocationCallOrder[0]!;
-    expect(evictOrder).toBeLessThan(createOrder);
+    expect(pruneOrder).toBeLessThan(createOrder);
+  });
+
+  it('applies the stricter admin limit', async () => {
+    mockFindUserByEmailWithCredentials.mockResolvedValue({
+      ...userWithCredentials,
+      role: UserRole.ADMIN,
+    });
+
+    await login({ email: baseUser.email, password: 'whatever' });
+
+    expect(mockPruneUserSessions).toHaveBeenCalledWith(baseUser.id, 1);
   });
 
   it('mints a session id and embeds it as sid in both access and refresh tokens', async () => {
     mockFindUserByEmailWithCredentials.mockResolvedValue(userWithCredentials);
 
-    const result = await login({ email: baseUser.email, password: 'whatever' });
+    const result = (await login({ email: baseUser.email, password: 'whatever' })) as AuthResult;
 
     const accessPayload = jwt.decode(result.tokens.accessToken) as JwtPayload;
     const refreshPayload = jwt.decode(result.tokens.refreshToken) as JwtPayload;
@@ -138,7 +288,7 @@ describe('login (single-session enforcement)', () => {
     expect(accessPayload.sid).toBe(refreshPayload.sid);
 
     // And the Session row was created with that same id (this is the linchpin
-    // of single-session enforcement — middleware looks up Session by sid).
+    // of session revocation — middleware looks up Session by sid).
     const createArgs = mockCreateSession.mock.calls[0]![0];
     expect(createArgs.id).toBe(accessPayload.sid);
     expect(createArgs.userId).toBe(baseUser.id);
@@ -146,6 +296,40 @@ describe('login (single-session enforcement)', () => {
   });
 });
 
+// =============================================================================
+// login — history
+// =============================================================================
+
+describe('login (history)', () => {
+  const meta = { ipAddress: '203.0.113.7', userAgent: 'Mozilla/5.0 (Macintosh) Chrome/126.0' };
+
+  it('records a successful password login with its IP and user agent', async () => {
+    mockFindUserByEmailWithCredentials.mockResolvedValue(userWithCredentials);
+
+    await login({ email: baseUser.email, password: 'whatever', ...meta });
+
+    expect(mockRecordLoginSuccess).toHaveBeenCalledWith(
+      expect.objectContaining({ id: baseUser.id, email: baseUser.email }),
+      { method: 'password', ...meta }
+    );
+  });
+
+  it('records a wrong password as a failed attempt', async () => {
+    mockFindUserByEmailWithCredentials.mockResolvedValue(userWithCredentials);
+    mockIncrementFailedAttempts.mockResolvedValue(1);
+    (bcrypt.compare as jest.Mock).mockResolvedValueOnce(false);
+
+    await expect(login({ email: baseUser.email, password: 'nope', ...meta })).rejects.toThrow(
+      'Invalid email or password'
+    );
+    expect(mockRecordLoginFailure).toHaveBeenCalledWith(baseUser.id, 'invalid_password', {
+      method: 'password',
+      ...meta,
+    });
+    expect(mockRecordLoginSuccess).not.toHaveBeenCalled();
+  });
+});
+
 // =============================================================================
 // refreshAccessToken — session validity
 // =============================================================================
@@ -195,6 +379,7 @@ describe('refreshAccessToken', () => {
       id: sid,
       userId: baseUser.id,
       token: refreshToken,
+      familyId: 'family-1',
       expiresAt: new Date(Date.now() + 60_000),
     });
     mockFindUserById.mockResolvedValue(baseUser);
@@ -208,6 +393,90 @@ describe('refreshAccessToken', () => {
   });
 });
 
+// =============================================================================
+// refreshAccessToken — rotation & reuse detection
+// =============================================================================
+
+describe('refreshAccessToken (rotation)', () => {
+  const sid = 'rot-sid';
+  const signRefresh = (): string =>
+    jwt.sign(
+      { sub: baseUser.id, email: baseUser.email, role: baseUser.role, type: 'refresh', sid },
+      process.env['JWT_SECRET'] as string,
+      { expiresIn: '30d' }
+    );
+
+  it('rotates the refresh token and remembers only the old token hash', async () => {
+    const oldToken = signRefresh();
+    mockFindSessionByToken.mockResolvedValue({
+      id: sid,
+      userId: baseUser.id,
+      token: oldToken,
+      familyId: 'family-1',
+      expiresAt: new Date(Date.now() + 60_000),
+    });
+    mockFindUserById.mockResolvedValue(baseUser);
+
+    const result = await refreshAccessToken(oldToken);
+
+    expect(result.refreshToken).not.toBe(oldToken);
+    expect((jwt.decode(result.refreshToken) as JwtPayload).sid).toBe(sid);
+
+    const rotateArgs = mockRotateSessionRefreshToken.mock.calls[0]![0];
+    expect(rotateArgs).toMatchObject({
+      sessionId: sid,
+      familyId: 'family-1',
+      oldToken,
+      newToken: result.refreshToken,
+    });
+    expect(rotateArgs.oldTokenHash).toMatch(/^[a-f0-9]{64}$/);
+  });
+
+  it('revokes the whole family and records a security event on reuse', async () => {
+    const replayed = signRefresh();
+    mockFindSessionByToken.mockResolvedValue(null);
+    mockFindRotatedRefreshToken.mockResolvedValue({
+      sessionId: sid,
+      userId: baseUser.id,
+      familyId: 'family-1',
+      rotatedAt: new Date(Date.now() - 60 * 60 * 1000), // rotated an hour ago
+    });
+    mockDeleteSessionFamily.mockResolvedValue(1);
+
+    await expect(
+      refreshAccessToken(replayed, { ipAddress: '203.0.113.9' })
+    ).rejects.toThrow('Session has been revoked');
+
+    expect(mockDeleteSessionFamily).toHaveBeenCalledWith('family-1');
+    expect(mockRecordSecurityEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: baseUser.id,
+        action: 'REFRESH_TOKEN_REUSE',
+        ipAddress: '203.0.113.9',
+      })
+    );
+  });
+
+  it('treats a replay inside the grace window as a concurrent refresh', async () => {
+    const raced = signRefresh();
+    mockFindSessionByToken.mockResolvedValue(null);
+    mockFindRotatedRefreshToken.mockResolvedValue({
+      sessionId: sid,
+      userId: baseUser.id,
+      familyId: 'family-1',
+      rotatedAt: new Date(),
+    });
+    mockFindSessionById.mockResolvedValue({ id: sid, userId: baseUser.id, token: 'current-refresh' });
+    mockFindUserById.mockResolvedValue(baseUser);
+
+    const result = await refreshAccessToken(raced);
+
+    expect(result.refreshToken).toBe('current-refresh');
+    expect(mockDeleteSessionFamily).not.toHaveBeenCalled();
+    expect(mockRecordSecurityEvent).not.toHaveBeenCalled();
+  });
+});
+
 // =============================================================================
 // requestPasswordReset — forgot-password flow
 // =============================================================================
@@ -355,6 +624,7 @@ describe('resetPassword', () => {
     await resetPassword({ token: 'rawtoken', newPassword: 'NewPass1!' });
 
     expect(mockConsumePasswordReset).toHaveBeenCalledWith(baseUser.id, 'hashed-password');
+    expect(mockInvalidateSecurityStamp).toHaveBeenCalledWith(baseUser.id);
     expect(mockDeleteAllUserSessions).toHaveBeenCalledWith(baseUser.id);
 
     // Order matters — the password must be updated BEFORE sessions are evicted
@@ -363,4 +633,1047 @@ describe('resetPassword', () => {
     const evictOrder = mockDeleteAllUserSessions.mock.invocationCallOrder[0]!;
     expect(consumeOrder).toBeLessThan(evictOrder);
   });
+
+  it('refuses a password the policy rejects without consuming the token', async () => {
+    mockFindUserByResetTokenHash.mockResolvedValue({
+      ...baseUser,
+      credentials: {
+        ...userWithCredentials.credentials,
+        resetToken: 'sha256-hash',
+        resetTokenExpiry: futureExpiry(),
+      },
+    });
+    mockAssertPasswordAllowed.mockRejectedValue(
+      new ValidationError('Password does not meet the password policy')
+    );
+
+    await expect(
+      resetPassword({ token: 'rawtoken', newPassword: 'Trader123!' })
+    ).rejects.toBeInstanceOf(ValidationError);
+
+    expect(mockAssertPasswordAllowed).toHaveBeenCalledWith(
+      'Trader123!',
+      expect.objectContaining({ email: baseUser.email, firstName: 'Trader', lastName: 'One' })
+    );
+    expect(mockConsumePasswordReset).not.toHaveBeenCalled();
+    expect(mockDeleteAllUserSessions).not.toHaveBeenCalled();
+  });
+});
+
+// =============================================================================
+// Email verification
+// =============================================================================
+
+const unverifiedUser = {
+  ...baseUser,
+  status: UserStatus.PENDING_VERIFICATION,
+  emailVerified: false,
+  emailVerifiedAt: null,
+};
+
+describe('register (email verification)', () => {
+  beforeEach(() => {
+    mockFindUserByEmail.mockResolvedValue(null);
+    mockCreateUserWithPassword.mockResolvedValue(unverifiedUser);
+  });
+
+  it('stores a hashed verification token and emails the raw one', async () => {
+    await register({
+      email: baseUser.email,
+      password: 'Password1',
+      firstName: 'Trader',
+      lastName: 'One',
+    });
+
+    expect(mockSetEmailVerificationToken).toHaveBeenCalledTimes(1);
+    const [userId, tokenHash, expiresAt] = mockSetEmailVerificationToken.mock.calls[0]!;
+    expect(userId).toBe(baseUser.id);
+    expect(tokenHash).toMatch(/^[a-f0-9]{64}$/);
+    expect((expiresAt as Date).getTime()).toBeGreaterThan(Date.now());
+
+    const [, rawToken] = mockSendEmailVerificationEmail.mock.calls[0]!;
+    expect(rawToken).not.toBe(tokenHash);
+  });
+
+  it('still completes registration when the email fails to send', async () => {
+    mockSendEmailVerificationEmail.mockRejectedValue(new Error('SES down'));
+
+    const result = await register({
+      email: baseUser.email,
+      password: 'Password1',
+      firstName: 'Trader',
+      lastName: 'One',
+    });
+
+    expect(result.user.id).toBe(baseUser.id);
+    expect(mockCreateSession).toHaveBeenCalledTimes(1);
+  });
+
+  it('checks the password against the policy with the new account’s details', async () => {
+    mockAssertPasswordAllowed.mockRejectedValue(
+      new ValidationError('Password does not meet the password policy')
+    );
+
+    await expect(
+      register({
+        email: baseUser.email,
+        password: 'Password1',
+        firstName: 'Trader',
+        lastName: 'One',
+      })
+    ).rejects.toBeInstanceOf(ValidationError);
+
+    expect(mockAssertPasswordAllowed).toHaveBeenCalledWith('Password1', {
+      email: baseUser.email,
+      firstName: 'Trader',
+      lastName: 'One',
+    });
+    expect(mockCreateUserWithPassword).not.toHaveBeenCalled();
+  });
+});
+
+describe('verifyEmail', () => {
+  it('rejects an unknown token with a generic message', async () => {
+    mockFindUserByEmailVerificationTokenHash.mockResolvedValue(null);
+
+    await expect(verifyEmail({ token: 'nope' })).rejects.toThrow(
+      'This verification link is invalid or has expired'
+    );
+    expect(mockConsumeEmailVerification).not.toHaveBeenCalled();
+  });
+
+  it('rejects an expired token with the same generic message', async () => {
+    mockFindUserByEmailVerificationTokenHash.mockResolvedValue({
+      ...unverifiedUser,
+      credentials: {
+        ...userWithCredentials.credentials,
+        emailVerifyToken: 'sha256-hash',
+        emailVerifyTokenExpiry: new Date(Date.now() - 1000),
+      },
+    });
+
+    await expect(verifyEmail({ token: 'rawtoken' })).rejects.toThrow(
+      'This verification link is invalid or has expired'
+    );
+    expect(mockConsumeEmailVerification).not.toHaveBeenCalled();
+  });
+
+  it('consumes a valid token and returns the verified user', async () => {
+    mockFindUserByEmailVerificationTokenHash.mockResolvedValue({
+      ...unverifiedUser,
+      credentials: {
+        ...userWithCredentials.credentials,
+        emailVerifyToken: 'sha256-hash',
+        emailVerifyTokenExpiry: new Date(Date.now() + 60_000),
+      },
+    });
+    mockConsumeEmailVerification.mockResolvedValue(baseUser);
+
+    const user = await verifyEmail({ token: 'rawtoken' });
+
+    expect(mockConsumeEmailVerification).toHaveBeenCalledWith(baseUser.id);
+    expect(user.emailVerified).toBe(true);
+  });
+});
+
+describe('resendEmailVerification', () => {
+  it('rejects when the email is already verified', async () => {
+    mockFindUserById.mockResolvedValue(baseUser);
+
+    await expect(resendEmailVerification(baseUser.id)).rejects.toThrow(
+      'Email address is already verified'
+    );
+    expect(mockSendEmailVerificationEmail).not.toHaveBeenCalled();
+  });
+
+  it('issues a fresh token for an unverified user', async () => {
+    mockFindUserById.mockResolvedValue(unverifiedUser);
+
+    await resendEmailVerification(baseUser.id);
+
+    expect(mockSetEmailVerificationToken).toHaveBeenCalledTimes(1);
+    expect(mockSendEmailVerificationEmail).toHaveBeenCalledTimes(1);
+  });
+});
+
+// =============================================================================
+// Two-factor login
+// =============================================================================
+
+const mfaCredentials = {
+  ...userWithCredentials.credentials,
+  mfaEnabled: true,
+  mfaSecret: 'JBSWY3DPEHPK3PXP',
+  mfaBackupCodes: [],
+};
+
+describe('login (two-factor)', () => {
+  it('returns an MFA challenge instead of a session when MFA is enabled', async () => {
+    mockFindUserByEmailWithCredentials.mockResolvedValue({
+      ...baseUser,
+      credentials: mfaCredentials,
+    });
+
+    const result = await login({ email: baseUser.email, password: 'whatever' });
+
+    expect(isMfaChallenge(result)).toBe(true);
+    if (!isMfaChallenge(result)) return;
+    expect((jwt.decode(result.mfaToken) as { type: string }).type).toBe('mfa_pending');
+    expect(result.methods).toEqual(['totp']);
+
+    // No session yet, and the failed-attempt counter is left alone so a
+    // password re-entry can't buy more code guesses.
+    expect(mockCreateSession).not.toHaveBeenCalled();
+    expect(mockPruneUserSessions).not.toHaveBeenCalled();
+    expect(mockResetFailedAttempts).not.toHaveBeenCalled();
+  });
+
+  it('treats a registered passkey as a second factor', async () => {
+    mockFindUserByEmailWithCredentials.mockResolvedValue(userWithCredentials);
+    mockCountWebAuthnCredentials.mockResolvedValue(1);
+
+    const result = await login({ email: baseUser.email, password: 'whatever' });
+
+    expect(isMfaChallenge(result)).toBe(true);
+    if (!isMfaChallenge(result)) return;
+    expect(result.methods).toEqual(['passkey']);
+    expect(mockCreateSession).not.toHaveBeenCalled();
+  });
+});
+
+describe('completeMfaLogin', () => {
+  const challengeToken = async (): Promise<string> => {
+    mockFindUserByEmailWithCredentials.mockResolvedValue({
+      ...baseUser,
+      credentials: mfaCredentials,
+    });
+    const result = await login({ email: baseUser.email, password: 'whatever' });
+    if (!isMfaChallenge(result)) throw new Error('expected an MFA challenge');
+    return result.mfaToken;
+  };
+
+  beforeEach(() => {
+    mockFindUserByIdWithCredentials.mockResolvedValue({
+      ...baseUser,
+      credentials: mfaCredentials,
+    });
+    mockFindUserById.mockResolvedValue(baseUser);
+  });
+
+  it('creates a session once the code checks out', async () => {
+    const mfaToken = await challengeToken();
+    mockVerifyMfaCode.mockResolvedValue('totp');
+
+    const result = await completeMfaLogin({ mfaToken, code: '123456' });
+
+    expect(mockVerifyMfaCode).toHaveBeenCalledWith(
+      baseUser.id,
+      { mfaSecret: mfaCredentials.mfaSecret },
+      '123456'
+    );
+    expect(mockResetFailedAttempts).toHaveBeenCalledWith(baseUser.id);
+    expect(mockCreateSession).toHaveBeenCalledTimes(1);
+    expect((jwt.decode(result.tokens.accessToken) as JwtPayload).type).toBe('access');
+    // History records the first factor the challenge was issued for.
+    expect(mockRecordLoginSuccess).toHaveBeenCalledWith(
+      baseUser,
+      expect.objectContaining({ method: 'password' })
+    );
+  });
+
+  it('ignores an unconfirmed TOTP secret of a passkey-only user', async () => {
+    const pendingTotp = { ...mfaCredentials, mfaEnabled: false };
+    mockFindUserByEmailWithCredentials.mockResolvedValue({ ...baseUser, credentials: pendingTotp });
+    mockFindUserByIdWithCredentials.mockResolvedValue({ ...baseUser, credentials: pendingTotp });
+    mockCountWebAuthnCredentials.mockResolvedValue(1);
+    const challenge = await login({ email: baseUser.email, password: 'whatever' });
+    if (!isMfaChallenge(challenge)) throw new Error('expected an MFA challenge');
+    mockVerifyMfaCode.mockResolvedValue(null);
+    mockIncrementFailedAttempts.mockResolvedValue(1);
+
+    await expect(
+      completeMfaLogin({ mfaToken: challenge.mfaToken, code: '123456' })
+    ).rejects.toThrow('Invalid verification code');
+    expect(mockVerifyMfaCode).toHaveBeenCalledWith(baseUser.id, { mfaSecret: null }, '123456');
+  });
+
+  it('counts a wrong code as a failed attempt', async () => {
+    const mfaToken = await challengeToken();
+    mockVerifyMfaCode.mockResolvedValue(null);
+    mockIncrementFailedAttempts.mockResolvedValue(1);
+
+    await expect(completeMfaLogin({ mfaToken, code: '000000' })).rejects.toThrow(
+      'Invalid verification code'
+    );
+    expect(mockIncrementFailedAttempts).toHaveBeenCalledWith(baseUser.id);
+    expect(mockRecordLoginFailure).toHaveBeenCalledWith(
+      baseUser.id,
+      'invalid_mfa_code',
+      expect.objectContaining({ method: 'password' })
+    );
+    expect(mockCreateSession).not.toHaveBeenCalled();
+  });
+
+  it('rejects a regular access token in place of the MFA token', async () => {
+    const accessToken = jwt.sign(
+      { sub: baseUser.id, email: baseUser.email, role: baseUser.role, type: 'access', sid: 's-1' },
+      process.env['JWT_SECRET'] as string,
+      { expiresIn: '15m' }
+    );
+
+    await expect(completeMfaLogin({ mfaToken: accessToken, code: '123456' })).rejects.toThrow(
+      'Expected an MFA token'
+    );
+    expect(mockVerifyMfaCode).not.toHaveBeenCalled();
+  });
+});
+
+// =============================================================================
+// Session management (devices)
+// =============================================================================
+
+describe('listSessions', () => {
+  it('labels devices and flags the current session', async () => {
+    const now = new Date();
+    mockFindActiveUserSessions.mockResolvedValue([
+      {
+        id: 'sess-desktop',
+        userAgent:
+          'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0 Safari/537.36',
+        ipAddress: '10.0.0.1',
+        createdAt: now,
+        lastSeenAt: now,
+        expiresAt: now,
+      },
+      {
+        id: 'sess-phone',
+        userAgent:
+          'Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1',
+        ipAddress: '10.0.0.2',
+        createdAt: now,
+        lastSeenAt: now,
+        expiresAt: now,
+      },
+      { id: 'sess-unknown', userAgent: null, ipAddress: null, createdAt: now, lastSeenAt: now, expiresAt: now },
+    ]);
+
+    const sessions = await listSessions(baseUser.id, 'sess-phone');
+
+    expect(sessions.map((s) => [s.device, s.current])).toEqual([
+      ['Chrome on macOS', false],
+      ['Safari on iOS', true],
+      ['Unknown device', false],
+    ]);
+  });
+});
+
+describe('revokeSession', () => {
+  it('404s when the session is not one of the caller\'s', async () => {
+    mockDeleteUserSession.mockResolvedValue(false);
+
+    await expect(revokeSession(baseUser.id, 'someone-elses')).rejects.toThrow('Session not found');
+    expect(mockDeleteUserSession).toHaveBeenCalledWith(baseUser.id, 'someone-elses');
+  });
+});
+
+describe('revokeOtherSessions', () => {
+  it('keeps only the current session', async () => {
+    mockDeleteOtherUserSessions.mockResolvedValue(3);
+
+    await expect(revokeOtherSessions(baseUser.id, 'sess-current')).resolves.toBe(3);
+    expect(mockDeleteOtherUserSessions).toHaveBeenCalledWith(baseUser.id, 'sess-current');
+  });
+});
+
+// =============================================================================
+// Password change / set (authenticated)
+// =============================================================================
+
+const currentSession = {
+  id: 'sess-current',
+  userId: baseUser.id,
+  familyId: 'fam-1',
+  token: 'current-refresh',
+  expiresAt: new Date(Date.now() + 86_400_000),
+};
+
+describe('changePassword', () => {
+  beforeEach(() => {
+    mockFindSessionById.mockResolvedValue(currentSession);
+  });
+
+  const input = {
+    userId: baseUser.id,
+    currentSessionId: 'sess-current',
+    currentPassword: 'OldPass1',
+    newPassword: 'NewPass1',
+  };
+
+  it('rejects a wrong current password without touching anything', async () => {
+    mockFindUserByIdWithCredentials.mockResolvedValue(userWithCredentials);
+    (bcrypt.compare as jest.Mock).mockResolvedValueOnce(false);
+
+    await expect(changePassword(input)).rejects.toThrow('Current password is incorrect');
+    expect(mockUpdatePasswordHash).not.toHaveBeenCalled();
+    expect(mockDeleteOtherUserSessions).not.toHaveBeenCalled();
+  });
+
+  it('points OAuth-only users at set-password', async () => {
+    mockFindUserByIdWithCredentials.mockResolvedValue({ ...baseUser, credentials: null });
+
+    await expect(changePassword(input)).rejects.toThrow('Use set password instead');
+  });
+
+  it('updates the hash, signs out other sessions and sends a confirmation', async () => {
+    mockFindUserByIdWithCredentials.mockResolvedValue(userWithCredentials);
+    mockDeleteOtherUserSessions.mockResolvedValue(2);
+
+    const result = await changePassword(input);
+
+    expect(result.revokedSessions).toBe(2);
+    expect(mockUpdatePasswordHash).toHaveBeenCalledWith(baseUser.id, 'hashed-password');
+    expect(mockInvalidateSecurityStamp).toHaveBeenCalledWith(baseUser.id);
+    expect(mockDeleteOtherUserSessions).toHaveBeenCalledWith(baseUser.id, 'sess-current');
+    expect(mockSendPasswordChangedEmail).toHaveBeenCalledWith(
+      { email: baseUser.email, firstName: baseUser.firstName },
+      false
+    );
+  });
+
+  it('returns fresh tokens for the current session, rotating its refresh token', async () => {
+    mockFindUserByIdWithCredentials.mockResolvedValue(userWithCredentials);
+    mockDeleteOtherUserSessions.mockResolvedValue(0);
+
+    const { tokens } = await changePassword(input);
+
+    const decoded = jwt.verify(
+      tokens.accessToken,
+      process.env['JWT_SECRET'] as string
+    ) as JwtPayload;
+    expect(decoded.sub).toBe(baseUser.id);
+    expect(decoded.sid).toBe('sess-current');
+    expect(decoded.type).toBe('access');
+    expect(mockRotateSessionRefreshToken).toHaveBeenCalledWith(
+      expect.objectContaining({
+        sessionId: 'sess-current',
+        oldToken: 'current-refresh',
+        newToken: tokens.refreshToken,
+      })
+    );
+  });
+});
+
+describe('setPassword', () => {
+  beforeEach(() => {
+    mockFindSessionById.mockResolvedValue(currentSession);
+  });
+
+  it('adds a first password for an OAuth-only account', async () => {
+    mockFindUserByIdWithCredentials.mockResolvedValue({ ...baseUser, credentials: null });
+
+    const tokens = await setPassword({
+      userId: baseUser.id,
+      currentSessionId: 'sess-current',
+      newPassword: 'NewPass1',
+    });
+
+    expect(tokens).toEqual({ accessToken: expect.any(String), refreshToken: expect.any(String) });
+    expect(mockUpdatePasswordHash).toHaveBeenCalledWith(baseUser.id, 'hashed-password');
+    expect(mockInvalidateSecurityStamp).toHaveBeenCalledWith(baseUser.id);
+    expect(mockSendPasswordChangedEmail).toHaveBeenCalledWith(
+      { email: baseUser.email, firstName: baseUser.firstName },
+      true
+    );
+  });
+
+  it('refuses when a password already exists', async () => {
+    mockFindUserByIdWithCredentials.mockResolvedValue(userWithCredentials);
+
+    await expect(
+      setPassword({ userId: baseUser.id, currentSessionId: 'sess-current', newPassword: 'NewPass1' })
+    ).rejects.toThrow('A password is already set');
+    expect(mockUpdatePasswordHash).not.toHaveBeenCalled();
+  });
+});
+
+// =============================================================================
+// Lockout notification
+// =============================================================================
+
+describe('login (lockout notification)', () => {
+  beforeEach(() => {
+    mockFindUserByEmailWithCredentials.mockResolvedValue(userWithCredentials);
+    mockSendAccountLockedEmail.mockResolvedValue(undefined);
+    (bcrypt.compare as jest.Mock).mockResolvedValueOnce(false);
+  });
+
+  it('emails a secure-account reset link when the account is first locked', async () => {
+    mockIncrementFailedAttempts.mockResolvedValue(5);
+
+    await expect(login({ email: baseUser.email, password: 'nope' })).rejects.toThrow(
+      'Account locked for 30 minutes'
+    );
+
+    expect(mockLockCredentials).toHaveBeenCalledWith(baseUser.id, expect.any(Date));
+    expect(mockSetPasswordResetToken).toHaveBeenCalledWith(
+      baseUser.id,
+      expect.stringMatching(/^[a-f0-9]{64}$/),
+      expect.any(Date)
+    );
+    const [to, rawToken, minutes] = mockSendAccountLockedEmail.mock.calls[0]!;
+    expect(to).toEqual({ email: baseUser.email, firstName: baseUser.firstName });
+    // The email carries the raw token, never the stored hash.
+    expect(rawToken).not.toBe(mockSetPasswordResetToken.mock.calls[0]![1]);
+    expect(minutes).toBe(30);
+  });
+
+  it('does not email again when an expired lock is re-triggered', async () => {
+    mockIncrementFailedAttempts.mockResolvedValue(6);
+
+    await expect(login({ email: baseUser.email, password: 'nope' })).rejects.toThrow(
+      'Account locked'
+    );
+
+    expect(mockLockCredentials).toHaveBeenCalled();
+    expect(mockSendAccountLockedEmail).not.toHaveBeenCalled();
+  });
+
+  it('still locks the account when the email fails', async () => {
+    mockIncrementFailedAttempts.mockResolvedValue(5);
+    mockSendAccountLockedEmail.mockRejectedValue(new Error('SES down'));
+
+    await expect(login({ email: baseUser.email, password: 'nope' })).rejects.toThrow(
+      'Account locked'
+    );
+    expect(mockLockCredentials).toHaveBeenCalled();
+  });
+});
+
+// =============================================================================
+// Admin: credential recovery
+// =============================================================================
+
+describe('unlockAccount', () => {
+  const context = { adminId: 'admin-1', ipAddress: '198.51.100.1' };
+
+  it('clears the lock and records who unlocked it', async () => {
+    const lockedUntil = new Date(Date.now() + 10 * 60 * 1000);
+    mockFindUserByIdWithCredentials.mockResolvedValue({
+      ...userWithCredentials,
+      credentials: { ...userWithCredentials.credentials, failedAttempts: 5, lockedUntil },
+    });
+
+    await unlockAccount(baseUser.id, context);
+
+    expect(mockResetFailedAttempts).toHaveBeenCalledWith(baseUser.id);
+    expect(mockRecordSecurityEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: 'admin-1',
+        action: 'ACCOUNT_UNLOCKED',
+        entity: 'User',
+        entityId: baseUser.id,
+        ipAddress: '198.51.100.1',
+        metadata: { previousLockedUntil: lockedUntil.toISOString(), previousFailedAttempts: 5 },
+      })
+    );
+  });
+
+  it('rejects when the account is not locked', async () => {
+    mockFindUserByIdWithCredentials.mockResolvedValue(userWithCredentials);
+
+    await expect(unlockAccount(baseUser.id, context)).rejects.toThrow('not locked');
+    expect(mockResetFailedAttempts).not.toHaveBeenCalled();
+    expect(mockRecordSecurityEvent).not.toHaveBeenCalled();
+  });
+
+  it('404s for an unknown user', async () => {
+    mockFindUserByIdWithCredentials.mockResolvedValue(null);
+
+    await expect(unlockAccount('missing', context)).rejects.toThrow('not found');
+  });
+});
+
+describe('forcePasswordReset', () => {
+  const context = { adminId: 'admin-1' };
+
+  beforeEach(() => {
+    mockFindUserById.mockResolvedValue(baseUser);
+    mockForcePasswordReset.mockResolvedValue(undefined);
+    mockSendForcedPasswordResetEmail.mockResolvedValue(undefined);
+    mockDeleteAllUserSessions.mockResolvedValue(3);
+  });
+
+  it('drops the password, signs out everywhere, audits and emails a reset link', async () => {
+    await expect(forcePasswordReset(baseUser.id, context)).resolves.toBe(3);
+
+    expect(mockForcePasswordReset).toHaveBeenCalledWith(
+      baseUser.id,
+      expect.stringMatching(/^[a-f0-9]{64}$/),
+      expect.any(Date)
+    );
+    expect(mockInvalidateSecurityStamp).toHaveBeenCalledWith(baseUser.id);
+    expect(mockDeleteAllUserSessions).toHaveBeenCalledWith(baseUser.id);
+    expect(mockRecordSecurityEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: 'admin-1',
+        action: 'PASSWORD_RESET_FORCED',
+        entityId: baseUser.id,
+        metadata: { evictedSessions: 3 },
+      })
+    );
+    expect(mockSendForcedPasswordResetEmail).toHaveBeenCalledWith(
+      { email: baseUser.email, firstName: baseUser.firstName },
+      expect.any(String)
+    );
+  });
+
+  it('refuses to target the acting admin', async () => {
+    await expect(forcePasswordReset('admin-1', context)).rejects.toThrow('your own account');
+    expect(mockForcePasswordReset).not.toHaveBeenCalled();
+  });
+});
+
+// =============================================================================
+// Magic-link login
+// =============================================================================
+
+describe('requestMagicLink', () => {
+  beforeEach(() => {
+    mockSetMagicLinkToken.mockResolvedValue(undefined);
+    mockSendMagicLinkEmail.mockResolvedValue(undefined);
+  });
+
+  it('stores only the hash and emails the raw token', async () => {
+    mockFindUserByEmail.mockResolvedValue(baseUser);
+
+    await requestMagicLink({ email: 'Trader@Example.com' });
+
+    expect(mockFindUserByEmail).toHaveBeenCalledWith('trader@example.com');
+    const [userId, tokenHash, expiresAt] = mockSetMagicLinkToken.mock.calls[0]!;
+    expect(userId).toBe(baseUser.id);
+    expect(tokenHash).toMatch(/^[a-f0-9]{64}$/);
+    expect((expiresAt as Date).getTime()).toBeGreaterThan(Date.now());
+
+    const rawToken = mockSendMagicLinkEmail.mock.calls[0]![1] as string;
+    expect(rawToken).not.toBe(tokenHash);
+  });
+
+  it('silently no-ops for unknown or inactive accounts', async () => {
+    mockFindUserByEmail.mockResolvedValueOnce(null);
+    await requestMagicLink({ email: 'nobody@example.com' });
+
+    mockFindUserByEmail.mockResolvedValueOnce({ ...baseUser, status: UserStatus.SUSPENDED });
+    await requestMagicLink({ email: baseUser.email });
+
+    expect(mockSetMagicLinkToken).not.toHaveBeenCalled();
+    expect(mockSendMagicLinkEmail).not.toHaveBeenCalled();
+  });
+
+  it('still resolves when the email send fails', async () => {
+    mockFindUserByEmail.mockResolvedValue(baseUser);
+    mockSendMagicLinkEmail.mockRejectedValue(new Error('SES down'));
+
+    await expect(requestMagicLink({ email: baseUser.email })).resolves.toBeUndefined();
+  });
+});
+
+describe('verifyMagicLink', () => {
+  const withMagicLink = (overrides: Record<string, unknown> = {}) => ({
+    ...baseUser,
+    credentials: {
+      ...userWithCredentials.credentials,
+      mfaEnabled: false,
+      magicLinkToken: 'sha256-hash',
+      magicLinkTokenExpiry: new Date(Date.now() + 10 * 60 * 1000),
+      ...overrides,
+    },
+  });
+
+  beforeEach(() => {
+    mockConsumeMagicLinkToken.mockResolvedValue(true);
+    mockFindUserById.mockResolvedValue(baseUser);
+  });
+
+  it('spends the token and creates a normal session', async () => {
+    mockFindUserByMagicLinkTokenHash.mockResolvedValue(withMagicLink());
+
+    const result = (await verifyMagicLink({ token: 'rawtoken', ipAddress: '203.0.113.7' })) as AuthResult;
+
+    const tokenHash = mockFindUserByMagicLinkTokenHash.mock.calls[0]![0];
+    expect(tokenHash).toMatch(/^[a-f0-9]{64}$/);
+    expect(mockConsumeMagicLinkToken).toHaveBeenCalledWith(baseUser.id, tokenHash);
+    expect(mockCreateSession).toHaveBeenCalledTimes(1);
+    expect((jwt.decode(result.tokens.accessToken) as JwtPayload).sid).toBe(
+      mockCreateSession.mock.calls[0]![0].id
+    );
+    expect(mockRecordLoginSuccess).toHaveBeenCalledWith(
+      baseUser,
+      expect.objectContaining({ method: 'magic_link', ipAddress: '203.0.113.7' })
+    );
+  });
+
+  it('rejects an unknown or expired token with one generic message', async () => {
+    mockFindUserByMagicLinkTokenHash.mockResolvedValueOnce(null);
+    await expect(verifyMagicLink({ token: 'bogus' })).rejects.toThrow(
+      'This sign-in link is invalid or has expired'
+    );
+
+    mockFindUserByMagicLinkTokenHash.mockResolvedValueOnce(
+      withMagicLink({ magicLinkTokenExpiry: new Date(Date.now() - 1000) })
+    );
+    await expect(verifyMagicLink({ token: 'rawtoken' })).rejects.toThrow(
+      'This sign-in link is invalid or has expired'
+    );
+    expect(mockCreateSession).not.toHaveBeenCalled();
+  });
+
+  it('refuses a restricted jurisdiction before starting a session', async () => {
+    mockFindUserByMagicLinkTokenHash.mockResolvedValue({ ...withMagicLink(), country: 'KP' });
+    mockAssertJurisdictionAllowed.mockImplementationOnce(() => {
+      throw new RestrictedJurisdictionError('login', 'KP');
+    });
+
+    await expect(
+      verifyMagicLink({ token: 'rawtoken', ipAddress: '203.0.113.7' })
+    ).rejects.toBeInstanceOf(RestrictedJurisdictionError);
+    expect(mockAssertJurisdictionAllowed).toHaveBeenCalledWith('login', {
+      declaredCountry: 'KP',
+      ipAddress: '203.0.113.7',
+      userId: baseUser.id,
+    });
+    expect(mockCreateSession).not.toHaveBeenCalled();
+  });
+
+  it('refuses a link that was already spent by a concurrent request', async () => {
+    mockFindUserByMagicLinkTokenHash.mockResolvedValue(withMagicLink());
+    mockConsumeMagicLinkToken.mockResolvedValue(false);
+
+    await expect(verifyMagicLink({ token: 'rawtoken' })).rejects.toThrow(
+      'This sign-in link is invalid or has expired'
+    );
+    expect(mockCreateSession).not.toHaveBeenCalled();
+  });
+
+  it('returns an MFA challenge when two-factor is enabled', async () => {
+    mockFindUserByMagicLinkTokenHash.mockResolvedValue(withMagicLink({ mfaEnabled: true }));
+
+    const result = await verifyMagicLink({ token: 'rawtoken' });
+
+    expect(isMfaChallenge(result)).toBe(true);
+    if (!isMfaChallenge(result)) return;
+    expect((jwt.decode(result.mfaToken) as { method: string }).method).toBe('magic_link');
+    expect(mockCreateSession).not.toHaveBeenCalled();
+  });
+});
+
+// =============================================================================
+// Passkeys
+// =============================================================================
+
+const passkeyAssertion = {
+  id: 'Y3JlZC0x',
+  type: 'public-key',
+  response: { clientDataJSON: 'e30', authenticatorData: 'AA', signature: 'AA' },
+};
+
+describe('loginWithPasskey', () => {
+  beforeEach(() => {
+    mockFindUserByIdWithCredentials.mockResolvedValue({
+      ...baseUser,
+      credentials: mfaCredentials,
+    });
+    mockFindUserById.mockResolvedValue(baseUser);
+  });
+
+  it('creates a session without a TOTP challenge, even with MFA enabled', async () => {
+    mockVerifyAuthentication.mockResolvedValue(baseUser.id);
+
+    const result = await loginWithPasskey({ challengeId: 'c-1', credential: passkeyAssertion });
+
+    expect(mockVerifyAuthentication).toHaveBeenCalledWith({
+      challengeId: 'c-1',
+      credential: passkeyAssertion,
+      requireUserVerification: true,
+    });
+    expect(mockCreateSession).toHaveBeenCalledTimes(1);
+    expect(result.user).toEqual(baseUser);
+    expect(mockRecordLoginSuccess).toHaveBeenCalledWith(
+      baseUser,
+      expect.objectContaining({ method: 'passkey' })
+    );
+  });
+
+  it('refuses a restricted jurisdiction before starting a session', async () => {
+    mockVerifyAuthentication.mockResolvedValue(baseUser.id);
+    mockFindUserByIdWithCredentials.mockResolvedValue({
+      ...baseUser,
+      country: 'KP',
+      credentials: mfaCredentials,
+    });
+    mockAssertJurisdictionAllowed.mockImplementationOnce(() => {
+      throw new RestrictedJurisdictionError('login', 'KP');
+    });
+
+    await expect(
+      loginWithPasskey({
+        challengeId: 'c-1',
+        credential: passkeyAssertion,
+        ipAddress: '203.0.113.7',
+      })
+    ).rejects.toBeInstanceOf(RestrictedJurisdictionError);
+    expect(mockAssertJurisdictionAllowed).toHaveBeenCalledWith('login', {
+      declaredCountry: 'KP',
+      ipAddress: '203.0.113.7',
+      userId: baseUser.id,
+    });
+    expect(mockCreateSession).not.toHaveBeenCalled();
+  });
+
+  it('rejects an assertion that does not verify', async () => {
+    mockVerifyAuthentication.mockResolvedValue(null);
+
+    await expect(
+      loginWithPasskey({ challengeId: 'c-1', credential: passkeyAssertion })
+    ).rejects.toThrow('Passkey sign-in failed');
+    expect(mockCreateSession).not.toHaveBeenCalled();
+  });
+
+  it('honours an account lock', async () => {
+    mockVerifyAuthentication.mockResolvedValue(baseUser.id);
+    mockFindUserByIdWithCredentials.mockResolvedValue({
+      ...baseUser,
+      credentials: { ...mfaCredentials, lockedUntil: new Date(Date.now() + 60_000) },
+    });
+
+    await expect(
+      loginWithPasskey({ challengeId: 'c-1', credential: passkeyAssertion })
+    ).rejects.toThrow('Account is temporarily locked');
+    expect(mockRecordLoginFailure).toHaveBeenCalledWith(
+      baseUser.id,
+      'account_locked',
+      expect.objectContaining({ method: 'passkey' })
+    );
+  });
+});
+
+describe('completeMfaLoginWithPasskey', () => {
+  const challengeToken = async (): Promise<string> => {
+    mockFindUserByEmailWithCredentials.mockResolvedValue({
+      ...baseUser,
+      credentials: mfaCredentials,
+    });
+    const result = await login({ email: baseUser.email, password: 'whatever' });
+    if (!isMfaChallenge(result)) throw new Error('expected an MFA challenge');
+    return result.mfaToken;
+  };
+
+  beforeEach(() => {
+    mockFindUserByIdWithCredentials.mockResolvedValue({
+      ...baseUser,
+      credentials: mfaCredentials,
+    });
+    mockFindUserById.mockResolvedValue(baseUser);
+  });
+
+  it('accepts one of the user\'s passkeys in place of a code', async () => {
+    const mfaToken = await challengeToken();
+    mockVerifyAuthentication.mockResolvedValue(baseUser.id);
+
+    await completeMfaLoginWithPasskey({ mfaToken, challengeId: 'c-1', credential: passkeyAssertion });
+
+    expect(mockVerifyAuthentication).toHaveBeenCalledWith({
+      challengeId: 'c-1',
+      credential: passkeyAssertion,
+      requireUserVerification: false,
+      userId: baseUser.id,
+    });
+    expect(mockResetFailedAttempts).toHaveBeenCalledWith(baseUser.id);
+    expect(mockCreateSession).toHaveBeenCalledTimes(1);
+    expect(mockRecordLoginSuccess).toHaveBeenCalledWith(
+      baseUser,
+      expect.objectContaining({ method: 'password' })
+    );
+  });
+
+  it('counts a failed assertion toward the lockout', async () => {
+    const mfaToken = await challengeToken();
+    mockVerifyAuthentication.mockResolvedValue(null);
+    mockIncrementFailedAttempts.mockResolvedValue(1);
+
+    await expect(
+      completeMfaLoginWithPasskey({ mfaToken, challengeId: 'c-1', credential: passkeyAssertion })
+    ).rejects.toThrow('Passkey verification failed');
+    expect(mockRecordLoginFailure).toHaveBeenCalledWith(
+      baseUser.id,
+      'invalid_passkey',
+      expect.objectContaining({ method: 'password' })
+    );
+    expect(mockCreateSession).not.toHaveBeenCalled();
+  });
+
+  it('completes the login of a passkey-only user', async () => {
+    mockFindUserByEmailWithCredentials.mockResolvedValue(userWithCredentials);
+    mockFindUserByIdWithCredentials.mockResolvedValue(userWithCredentials);
+    mockCountWebAuthnCredentials.mockResolvedValue(1);
+    const result = await login({ email: baseUser.email, password: 'whatever' });
+    if (!isMfaChallenge(result)) throw new Error('expected an MFA challenge');
+    mockVerifyAuthentication.mockResolvedValue(baseUser.id);
+
+    await completeMfaLoginWithPasskey({
+      mfaToken: result.mfaToken,
+      challengeId: 'c-1',
+      credential: passkeyAssertion,
+    });
+
+    expect(mockCreateSession).toHaveBeenCalledTimes(1);
+  });
+});
+
+// =============================================================================
+// Social sign-in
+// =============================================================================
+
+const discordIdentity = {
+  providerId: 'discord-123',
+  email: 'trader@example.com',
+  emailVerified: true,
+  firstName: 'TraderOne',
+  lastName: '',
+};
+
+describe('oauthLogin', () => {
+  beforeEach(() => {
+    mockVerifyIdentity.mockResolvedValue(discordIdentity);
+    mockFindOAuthAccount.mockResolvedValue(null);
+    mockFindUserByIdWithCredentials.mockResolvedValue({ ...baseUser, credentials: null });
+  });
+
+  it('creates a new user with the provider linked', async () => {
+    mockFindUserByEmail.mockResolvedValue(null);
+    mockCreateOAuthUser.mockResolvedValue(baseUser);
+
+    const result = await oauthLogin({ provider: 'discord', credential: { code: 'abc' } });
+
+    expect(mockVerifyIdentity).toHaveBeenCalledWith({ code: 'abc' });
+    expect(mockCreateOAuthUser).toHaveBeenCalledWith({
+      email: 'trader@example.com',
+      firstName: 'TraderOne',
+      lastName: '',
+      provider: 'discord',
+      providerId: 'discord-123',
+    });
+    expect(isMfaChallenge(result)).toBe(false);
+    expect(mockRecordLoginSuccess).toHaveBeenCalledWith(
+      baseUser,
+      expect.objectContaining({ method: 'discord' })
+    );
+  });
+
+  it('links the provider to an existing account with the same email', async () => {
+    mockFindUserByEmail.mockResolvedValue(baseUser);
+
+    await oauthLogin({ provider: 'discord', credential: { code: 'abc' } });
+
+    expect(mockLinkOAuthAccount).toHaveBeenCalledWith(baseUser.id, 'discord', 'discord-123');
+    expect(mockCreateOAuthUser).not.toHaveBeenCalled();
+  });
+
+  it('refuses an unverified provider email', async () => {
+    mockVerifyIdentity.mockResolvedValue({ ...discordIdentity, emailVerified: false });
+
+    await expect(oauthLogin({ provider: 'discord', credential: { code: 'abc' } })).rejects.toThrow(
+      'Discord email is not verified'
+    );
+    expect(mockFindUserByEmail).not.toHaveBeenCalled();
+  });
+
+  it('issues an MFA challenge carrying the provider as first factor', async () => {
+    mockFindOAuthAccount.mockResolvedValue({ userId: baseUser.id, user: baseUser });
+    mockFindUserByIdWithCredentials.mockResolvedValue({ ...baseUser, credentials: mfaCredentials });
+
+    const result = await oauthLogin({ provider: 'apple', credential: { idToken: 'id' } });
+
+    expect(isMfaChallenge(result)).toBe(true);
+    if (!isMfaChallenge(result)) return;
+    expect((jwt.decode(result.mfaToken) as { method: string }).method).toBe('apple');
+    expect(mockCreateSession).not.toHaveBeenCalled();
+  });
+});
+
+describe('linkOAuthProvider', () => {
+  beforeEach(() => {
+    mockVerifyIdentity.mockResolvedValue(discordIdentity);
+    mockFindLoginMethods.mockResolvedValue({ hasPassword: true, oauthProviders: ['google'], passkeys: 0 });
+  });
+
+  it('links the provider and audits it', async () => {
+    mockFindOAuthAccount.mockResolvedValue(null);
+    mockLinkOAuthAccount.mockResolvedValue({
+      id: 'oa-1',
+      provider: 'discord',
+      createdAt: new Date('2026-07-08'),
+    });
+
+    const account = await linkOAuthProvider({
+      userId: baseUser.id,
+      provider: 'discord',
+      credential: { code: 'abc' },
+    });
+
+    expect(account).toEqual({ provider: 'discord', linkedAt: new Date('2026-07-08') });
+    expect(mockRecordSecurityEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'OAUTH_ACCOUNT_LINKED', metadata: { provider: 'discord' } })
+    );
+  });
+
+  it('refuses a provider account already linked to someone else', async () => {
+    mockFindOAuthAccount.mockResolvedValue({ userId: 'user-2', user: baseUser });
+
+    await expect(
+      linkOAuthProvider({ userId: baseUser.id, provider: 'discord', credential: { code: 'abc' } })
+    ).rejects.toThrow('This Discord account is linked to a different user');
+    expect(mockLinkOAuthAccount).not.toHaveBeenCalled();
+  });
+});
+
+describe('unlinkOAuthProvider', () => {
+  it('unlinks when another sign-in method remains', async () => {
+    mockFindLoginMethods.mockResolvedValue({
+      hasPassword: false,
+      oauthProviders: ['google', 'discord'],
+      passkeys: 0,
+    });
+
+    await unlinkOAuthProvider({ userId: baseUser.id, provider: 'discord' });
+
+    expect(mockDeleteOAuthAccount).toHaveBeenCalledWith(baseUser.id, 'discord');
+    expect(mockRecordSecurityEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'OAUTH_ACCOUNT_UNLINKED' })
+    );
+  });
+
+  it('refuses to remove the last sign-in method', async () => {
+    mockFindLoginMethods.mockResolvedValue({ hasPassword: false, oauthProviders: ['google'], passkeys: 0 });
+
+    await expect(unlinkOAuthProvider({ userId: baseUser.id, provider: 'google' })).rejects.toThrow(
+      'You cannot remove your only sign-in method'
+    );
+    expect(mockDeleteOAuthAccount).not.toHaveBeenCalled();
+  });
+
+  it('counts a passkey as a remaining method', async () => {
+    mockFindLoginMethods.mockResolvedValue({ hasPassword: false, oauthProviders: ['google'], passkeys: 1 });
+
+    await unlinkOAuthProvider({ userId: baseUser.id, provider: 'google' });
+
+    expect(mockDeleteOAuthAccount).toHaveBeenCalledWith(baseUser.id, 'google');
+  });
+
+  it('404s for a provider that is not linked', async () => {
+    mockFindLoginMethods.mockResolvedValue({ hasPassword: true, oauthProviders: [], passkeys: 0 });
+
+    await expect(unlinkOAuthProvider({ userId: baseUser.id, provider: 'apple' })).rejects.toThrow(
+      'That sign-in provider is not linked to your account'
+    );
+  });
 });
@@ -23,6 +23,7 @@ const mockChallengeCreate = jest.fn();
 const mockAccountUpdate = jest.fn();
 const mockRuleViolationCreate = jest.fn();
 const mockRuleViolationUpdateMany = jest.fn();
+const mockAuditLogCreate = jest.fn();
 
 jest.mock('../../utils/database', () => ({
   prisma: {
@@ -51,6 +52,8 @@ beforeEach(() => {
         create: mockRuleViolationCreate,
         updateMany: mockRuleViolationUpdateMany,
       },
+      auditLog: { create: mockAuditLogCreate, findFirst: jest.fn().mockResolvedValue(null) },
+      $executeRaw: jest.fn(),
     };
     return fn(tx);
   });
@@ -103,6 +106,23 @@ describe('failChallenge', () => {
     );
   });
 
+  it('audits the failure inside the transaction with no actor', async () => {
+    mockAccountFindUnique.mockResolvedValue(activeAccount);
+
+    await failChallenge('acc-1', 'Max drawdown exceeded', ViolationType.MAX_DRAWDOWN);
+
+    expect(mockAuditLogCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        userId: null,
+        action: 'CHALLENGE_FAILED',
+        entity: 'Account',
+        entityId: 'acc-1',
+        oldValues: { status: AccountStatus.EVALUATION, challengeStatus: ChallengeStatus.ACTIVE },
+        newValues: { status: AccountStatus.FAILED, challengeStatus: ChallengeStatus.FAILED },
+      }),
+    });
+  });
+
   it('skips when account not found', async () => {
     mockAccountFindUnique.mockResolvedValue(null);
     await failChallenge('acc-missing', 'reason');
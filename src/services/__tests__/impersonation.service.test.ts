@@ -0,0 +1,109 @@
+import jwt from 'jsonwebtoken';
+import { UserRole } from '@prisma/client';
+import { recordImpersonatedRequest, startImpersonation } from '../impersonation.service';
+import { ForbiddenError, NotFoundError } from '../../utils/errors';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+
+const mockFindUserById = jest.fn();
+const mockRecordSecurityEvent = jest.fn();
+
+jest.mock('../../repositories/auth.repository', () => ({
+  findUserById: (...args: unknown[]) => mockFindUserById(...args),
+  recordSecurityEvent: (...args: unknown[]) => mockRecordSecurityEvent(...args),
+}));
+
+jest.mock('../../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const trader = { id: 'trader-1', email: 'trader@example.com', role: UserRole.TRADER };
+const context = {
+  staffId: 'staff-1',
+  sessionId: 'staff-session',
+  reason: 'Ticket #4411 — payout page shows no accounts',
+  ipAddress: '203.0.113.9',
+};
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockFindUserById.mockResolvedValue(trader);
+  mockRecordSecurityEvent.mockResolvedValue(undefined);
+});
+
+// =============================================================================
+// startImpersonation
+// =============================================================================
+
+describe('startImpersonation', () => {
+  it('mints a short-lived access token for the trader carrying the staff actor', async () => {
+    const result = await startImpersonation('trader-1', context);
+
+    const claims = jwt.decode(result.accessToken) as Record<string, unknown>;
+    expect(claims).toMatchObject({
+      sub: 'trader-1',
+      type: 'access',
+      sid: 'staff-session',
+      act: { sub: 'staff-1' },
+    });
+    // Default IMPERSONATION_TTL_MINUTES = 15
+    expect((claims['exp'] as number) - (claims['iat'] as number)).toBe(15 * 60);
+    expect(result.user).toBe(trader);
+  });
+
+  it('audits the start with the reason and a correlation id', async () => {
+    const result = await startImpersonation('trader-1', context);
+    const { jti } = jwt.decode(result.accessToken) as { jti: string };
+
+    expect(mockRecordSecurityEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: 'staff-1',
+        action: 'IMPERSONATION_STARTED',
+        entityId: 'trader-1',
+        metadata: expect.objectContaining({ impersonationId: jti, reason: context.reason }),
+      })
+    );
+  });
+
+  it('only allows trader accounts to be impersonated', async () => {
+    mockFindUserById.mockResolvedValue({ ...trader, role: UserRole.ADMIN });
+
+    await expect(startImpersonation('trader-1', context)).rejects.toBeInstanceOf(ForbiddenError);
+    expect(mockRecordSecurityEvent).not.toHaveBeenCalled();
+  });
+
+  it('refuses self-impersonation and unknown users', async () => {
+    await expect(startImpersonation('staff-1', context)).rejects.toThrow(
+      'You cannot impersonate yourself'
+    );
+
+    mockFindUserById.mockResolvedValue(null);
+    await expect(startImpersonation('ghost', context)).rejects.toBeInstanceOf(NotFoundError);
+  });
+});
+
+// =============================================================================
+// recordImpersonatedRequest
+// =============================================================================
+
+describe('recordImpersonatedRequest', () => {
+  it('swallows audit write failures', async () => {
+    mockRecordSecurityEvent.mockRejectedValue(new Error('db down'));
+
+    await expect(
+      recordImpersonatedRequest({
+        staffId: 'staff-1',
+        userId: 'trader-1',
+        method: 'GET',
+        path: '/v1/trading/accounts',
+        statusCode: 200,
+      })
+    ).resolves.toBeUndefined();
+  });
+});
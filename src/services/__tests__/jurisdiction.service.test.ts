@@ -0,0 +1,103 @@
+import { assertJurisdictionAllowed, normalizeCountry } from '../jurisdiction.service';
+import { RestrictedJurisdictionError } from '../../utils/errors';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+
+const mockConfig = {
+  jurisdiction: {
+    restrictedCountries: {
+      register: ['KP', 'IR'],
+      login: ['KP'],
+      purchase: ['KP', 'IR', 'CA'],
+      payout: [] as string[],
+    },
+  },
+};
+jest.mock('../../config/index', () => ({
+  get config() {
+    return mockConfig;
+  },
+}));
+
+const mockLookupIpCountry = jest.fn();
+jest.mock('../../utils/geoip', () => ({
+  lookupIpCountry: (...args: unknown[]) => mockLookupIpCountry(...args),
+}));
+
+jest.mock('../../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockLookupIpCountry.mockReturnValue(null);
+});
+
+// =============================================================================
+// normalizeCountry
+// =============================================================================
+
+describe('normalizeCountry', () => {
+  it('accepts ISO codes in any case and English country names', () => {
+    expect(normalizeCountry('ir')).toBe('IR');
+    expect(normalizeCountry(' Canada ')).toBe('CA');
+    expect(normalizeCountry('united states')).toBe('US');
+  });
+
+  it('returns null for empty or unknown values', () => {
+    expect(normalizeCountry(null)).toBeNull();
+    expect(normalizeCountry('')).toBeNull();
+    expect(normalizeCountry('Atlantis')).toBeNull();
+  });
+});
+
+// =============================================================================
+// assertJurisdictionAllowed
+// =============================================================================
+
+describe('assertJurisdictionAllowed', () => {
+  it('blocks a restricted declared country with a dedicated error', () => {
+    let error: unknown;
+    try {
+      assertJurisdictionAllowed('register', { declaredCountry: 'Iran' });
+    } catch (err) {
+      error = err;
+    }
+
+    expect(error).toBeInstanceOf(RestrictedJurisdictionError);
+    expect(error).toMatchObject({
+      code: 'RESTRICTED_JURISDICTION',
+      statusCode: 451,
+      details: { feature: 'register', country: 'IR' },
+    });
+  });
+
+  it('blocks a restricted IP country even when the declared country is allowed', () => {
+    mockLookupIpCountry.mockReturnValue('KP');
+
+    expect(() =>
+      assertJurisdictionAllowed('login', { declaredCountry: 'US', ipAddress: '175.45.176.1' })
+    ).toThrow(RestrictedJurisdictionError);
+    expect(mockLookupIpCountry).toHaveBeenCalledWith('175.45.176.1');
+  });
+
+  it('applies each feature its own list', () => {
+    expect(() => assertJurisdictionAllowed('purchase', { declaredCountry: 'CA' })).toThrow(
+      RestrictedJurisdictionError
+    );
+    expect(() => assertJurisdictionAllowed('register', { declaredCountry: 'CA' })).not.toThrow();
+  });
+
+  it('allows unknown countries', () => {
+    expect(() =>
+      assertJurisdictionAllowed('register', { declaredCountry: 'Atlantis', ipAddress: '10.0.0.1' })
+    ).not.toThrow();
+  });
+
+  it('skips the lookup entirely when nothing is restricted for the feature', () => {
+    assertJurisdictionAllowed('payout', { declaredCountry: 'KP', ipAddress: '175.45.176.1' });
+    expect(mockLookupIpCountry).not.toHaveBeenCalled();
+  });
+});
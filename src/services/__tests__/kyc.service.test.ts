@@ -1,5 +1,6 @@
 import { KycStatus } from '@prisma/client';
 import { mapYpfKycStatus, syncUserKyc, requestKyc } from '../kyc.service';
+import { EmailNotVerifiedError } from '../../utils/errors';
 
 const mockGetUserById = jest.fn();
 const mockUpdateKycStatus = jest.fn();
@@ -109,11 +110,23 @@ describe('requestKyc', () => {
     expect(mockRequestKyc).not.toHaveBeenCalled();
   });
 
+  it('rejects when the user has not verified their email', async () => {
+    mockGetUserById.mockResolvedValue({
+      id: 'u1',
+      platformUserId: 'ypf-1',
+      kycStatus: KycStatus.NOT_STARTED,
+      emailVerified: false,
+    });
+    await expect(requestKyc('u1')).rejects.toBeInstanceOf(EmailNotVerifiedError);
+    expect(mockRequestKyc).not.toHaveBeenCalled();
+  });
+
   it('requests on YPF then returns the refreshed status', async () => {
     mockGetUserById.mockResolvedValue({
       id: 'u1',
       platformUserId: 'ypf-1',
       kycStatus: KycStatus.NOT_STARTED,
+      emailVerified: true,
     });
     mockRequestKyc.mockResolvedValue(undefined);
     mockGetUser.mockResolvedValue({ platformUserId: 'ypf-1', kycStatus: 'Pending' });
@@ -0,0 +1,164 @@
+import { recordLoginSuccess, recordLoginFailure, getLoginHistory } from '../login-history.service';
+import { deviceFingerprint } from '../../utils/user-agent';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+
+const mockCreateLoginEvent = jest.fn();
+const mockFindKnownLoginSources = jest.fn();
+const mockFindLoginEvents = jest.fn();
+const mockSendNewDeviceLoginEmail = jest.fn();
+
+jest.mock('../../repositories/auth.repository', () => ({
+  createLoginEvent: (...args: unknown[]) => mockCreateLoginEvent(...args),
+  findKnownLoginSources: (...args: unknown[]) => mockFindKnownLoginSources(...args),
+  findLoginEvents: (...args: unknown[]) => mockFindLoginEvents(...args),
+}));
+
+jest.mock('../email.service', () => ({
+  sendNewDeviceLoginEmail: (...args: unknown[]) => mockSendNewDeviceLoginEmail(...args),
+}));
+
+jest.mock('../../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+const user = { id: 'user-1', email: 'trader@example.com', firstName: 'Trader' };
+
+const CHROME_MAC =
+  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0 Safari/537.36';
+
+const context = { method: 'password' as const, ipAddress: '203.0.113.7', userAgent: CHROME_MAC };
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockCreateLoginEvent.mockResolvedValue({ id: 'evt-1', createdAt: new Date('2026-07-05T12:00:00Z') });
+  mockSendNewDeviceLoginEmail.mockResolvedValue(undefined);
+});
+
+// =============================================================================
+// recordLoginSuccess
+// =============================================================================
+
+describe('recordLoginSuccess', () => {
+  it('stores the event with a coarse device fingerprint', async () => {
+    mockFindKnownLoginSources.mockResolvedValue({ hasHistory: true, knownDevice: true, knownIp: true });
+
+    await recordLoginSuccess(user, context);
+
+    expect(mockCreateLoginEvent).toHaveBeenCalledWith({
+      userId: user.id,
+      success: true,
+      method: 'password',
+      ipAddress: '203.0.113.7',
+      userAgent: CHROME_MAC,
+      deviceFingerprint: deviceFingerprint(CHROME_MAC),
+    });
+    expect(mockSendNewDeviceLoginEmail).not.toHaveBeenCalled();
+  });
+
+  it('alerts the user when the device is new', async () => {
+    mockFindKnownLoginSources.mockResolvedValue({ hasHistory: true, knownDevice: false, knownIp: true });
+
+    await recordLoginSuccess(user, context);
+
+    expect(mockSendNewDeviceLoginEmail).toHaveBeenCalledWith(
+      { email: user.email, firstName: user.firstName },
+      {
+        device: 'Chrome on macOS',
+        ipAddress: '203.0.113.7',
+        occurredAt: new Date('2026-07-05T12:00:00Z'),
+      }
+    );
+  });
+
+  it('alerts the user when the IP is new', async () => {
+    mockFindKnownLoginSources.mockResolvedValue({ hasHistory: true, knownDevice: true, knownIp: false });
+
+    await recordLoginSuccess(user, context);
+
+    expect(mockSendNewDeviceLoginEmail).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not alert on the first recorded login', async () => {
+    mockFindKnownLoginSources.mockResolvedValue({ hasHistory: false, knownDevice: false, knownIp: false });
+
+    await recordLoginSuccess(user, context);
+
+    expect(mockCreateLoginEvent).toHaveBeenCalledTimes(1);
+    expect(mockSendNewDeviceLoginEmail).not.toHaveBeenCalled();
+  });
+
+  it('never throws when recording or alerting fails', async () => {
+    mockFindKnownLoginSources.mockResolvedValue({ hasHistory: true, knownDevice: false, knownIp: false });
+    mockSendNewDeviceLoginEmail.mockRejectedValue(new Error('SES down'));
+
+    await expect(recordLoginSuccess(user, context)).resolves.toBeUndefined();
+  });
+
+  it('does not wait for the alert email to be sent', async () => {
+    mockFindKnownLoginSources.mockResolvedValue({ hasHistory: true, knownDevice: false, knownIp: true });
+    mockSendNewDeviceLoginEmail.mockReturnValue(new Promise(() => undefined));
+
+    await expect(recordLoginSuccess(user, context)).resolves.toBeUndefined();
+    expect(mockSendNewDeviceLoginEmail).toHaveBeenCalledTimes(1);
+  });
+});
+
+// =============================================================================
+// recordLoginFailure
+// =============================================================================
+
+describe('recordLoginFailure', () => {
+  it('stores the failure reason', async () => {
+    await recordLoginFailure(user.id, 'invalid_password', context);
+
+    expect(mockCreateLoginEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: user.id, success: false, failureReason: 'invalid_password' })
+    );
+  });
+
+  it('swallows storage errors', async () => {
+    mockCreateLoginEvent.mockRejectedValue(new Error('db down'));
+
+    await expect(recordLoginFailure(user.id, 'account_locked', context)).resolves.toBeUndefined();
+  });
+});
+
+// =============================================================================
+// getLoginHistory
+// =============================================================================
+
+describe('getLoginHistory', () => {
+  it('labels each event with its device', async () => {
+    const pagination = { page: 1, limit: 20, total: 1, totalPages: 1, hasMore: false };
+    mockFindLoginEvents.mockResolvedValue({
+      data: [
+        {
+          id: 'evt-1',
+          userId: user.id,
+          success: false,
+          method: 'google',
+          failureReason: 'invalid_mfa_code',
+          ipAddress: null,
+          userAgent: null,
+          deviceFingerprint: null,
+          createdAt: new Date('2026-07-05T12:00:00Z'),
+        },
+      ],
+      pagination,
+    });
+
+    const result = await getLoginHistory(user.id, { page: 1, limit: 20 });
+
+    expect(mockFindLoginEvents).toHaveBeenCalledWith(user.id, { page: 1, limit: 20 });
+    expect(result.pagination).toEqual(pagination);
+    expect(result.data[0]).toMatchObject({ id: 'evt-1', device: 'Unknown device', success: false });
+    expect(result.data[0]).not.toHaveProperty('deviceFingerprint');
+  });
+});
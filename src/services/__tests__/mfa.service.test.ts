@@ -0,0 +1,179 @@
+import { UserRole, UserStatus } from '@prisma/client';
+import { enrollMfa, confirmMfa, disableMfa, regenerateBackupCodes, verifyMfaCode } from '../mfa.service';
+import { generateTotpCode, totpCounter } from '../../utils/totp';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+
+const mockFindUserByIdWithCredentials = jest.fn();
+const mockSetPendingMfaSecret = jest.fn();
+const mockEnableMfa = jest.fn();
+const mockReplaceMfaBackupCodes = jest.fn();
+const mockDisableMfa = jest.fn();
+const mockConsumeMfaBackupCode = jest.fn();
+
+jest.mock('../../repositories/auth.repository', () => ({
+  findUserByIdWithCredentials: (...args: unknown[]) => mockFindUserByIdWithCredentials(...args),
+  setPendingMfaSecret: (...args: unknown[]) => mockSetPendingMfaSecret(...args),
+  enableMfa: (...args: unknown[]) => mockEnableMfa(...args),
+  replaceMfaBackupCodes: (...args: unknown[]) => mockReplaceMfaBackupCodes(...args),
+  disableMfa: (...args: unknown[]) => mockDisableMfa(...args),
+  consumeMfaBackupCode: (...args: unknown[]) => mockConsumeMfaBackupCode(...args),
+}));
+
+const replayCache = new Map<string, unknown>();
+jest.mock('../../utils/redis', () => ({
+  cacheGet: async (key: string) => replayCache.get(key) ?? null,
+  cacheSet: async (key: string, value: unknown) => {
+    replayCache.set(key, value);
+  },
+}));
+
+jest.mock('../../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+const SECRET = 'JBSWY3DPEHPK3PXP';
+const currentCode = (): string => generateTotpCode(SECRET, totpCounter());
+
+const userWith = (credentials: Record<string, unknown> | null) => ({
+  id: 'user-1',
+  email: 'trader@example.com',
+  role: UserRole.TRADER,
+  status: UserStatus.ACTIVE,
+  credentials,
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  replayCache.clear();
+});
+
+// =============================================================================
+// Enrollment
+// =============================================================================
+
+describe('enrollMfa', () => {
+  it('stores a pending secret and returns an otpauth URI', async () => {
+    mockFindUserByIdWithCredentials.mockResolvedValue(userWith(null));
+
+    const result = await enrollMfa('user-1');
+
+    expect(mockSetPendingMfaSecret).toHaveBeenCalledWith('user-1', result.secret);
+    expect(result.otpauthUri).toContain(`secret=${result.secret}`);
+  });
+
+  it('refuses when MFA is already on', async () => {
+    mockFindUserByIdWithCredentials.mockResolvedValue(
+      userWith({ mfaEnabled: true, mfaSecret: SECRET })
+    );
+
+    await expect(enrollMfa('user-1')).rejects.toThrow('already enabled');
+    expect(mockSetPendingMfaSecret).not.toHaveBeenCalled();
+  });
+});
+
+describe('confirmMfa', () => {
+  it('enables MFA and returns backup codes, persisting only their hashes', async () => {
+    mockFindUserByIdWithCredentials.mockResolvedValue(
+      userWith({ mfaEnabled: false, mfaSecret: SECRET })
+    );
+
+    const { backupCodes } = await confirmMfa('user-1', currentCode());
+
+    expect(backupCodes).toHaveLength(10);
+    const [, hashes] = mockEnableMfa.mock.calls[0]!;
+    expect(hashes).toHaveLength(10);
+    for (const hash of hashes as string[]) {
+      expect(hash).toMatch(/^[a-f0-9]{64}$/);
+      expect(backupCodes).not.toContain(hash);
+    }
+  });
+
+  it('rejects a wrong code', async () => {
+    mockFindUserByIdWithCredentials.mockResolvedValue(
+      userWith({ mfaEnabled: false, mfaSecret: SECRET })
+    );
+
+    await expect(confirmMfa('user-1', '000000')).rejects.toThrow('Invalid verification code');
+    expect(mockEnableMfa).not.toHaveBeenCalled();
+  });
+});
+
+// =============================================================================
+// Verification
+// =============================================================================
+
+describe('verifyMfaCode', () => {
+  it('accepts a TOTP code once and rejects its replay', async () => {
+    const code = currentCode();
+
+    await expect(verifyMfaCode('user-1', { mfaSecret: SECRET }, code)).resolves.toBe('totp');
+    await expect(verifyMfaCode('user-1', { mfaSecret: SECRET }, code)).resolves.toBeNull();
+  });
+
+  it('consumes a backup code by its normalized hash', async () => {
+    mockConsumeMfaBackupCode.mockResolvedValue(true);
+
+    await expect(
+      verifyMfaCode('user-1', { mfaSecret: SECRET }, 'ABCDE-12345')
+    ).resolves.toBe('backup_code');
+
+    const [, hash] = mockConsumeMfaBackupCode.mock.calls[0]!;
+    expect(hash).toMatch(/^[a-f0-9]{64}$/);
+  });
+
+  it('returns null for an already-spent backup code', async () => {
+    mockConsumeMfaBackupCode.mockResolvedValue(false);
+
+    await expect(
+      verifyMfaCode('user-1', { mfaSecret: SECRET }, 'abcde-12345')
+    ).resolves.toBeNull();
+  });
+});
+
+// =============================================================================
+// Management
+// =============================================================================
+
+describe('disableMfa', () => {
+  it('clears MFA with a valid backup code', async () => {
+    mockFindUserByIdWithCredentials.mockResolvedValue(
+      userWith({ mfaEnabled: true, mfaSecret: SECRET })
+    );
+    mockConsumeMfaBackupCode.mockResolvedValue(true);
+
+    await disableMfa('user-1', 'abcde-12345');
+
+    expect(mockDisableMfa).toHaveBeenCalledWith('user-1');
+  });
+});
+
+describe('regenerateBackupCodes', () => {
+  it('refuses a backup code — a live TOTP code is required', async () => {
+    mockFindUserByIdWithCredentials.mockResolvedValue(
+      userWith({ mfaEnabled: true, mfaSecret: SECRET })
+    );
+
+    await expect(regenerateBackupCodes('user-1', 'abcde-12345')).rejects.toThrow(
+      'Invalid verification code'
+    );
+    expect(mockReplaceMfaBackupCodes).not.toHaveBeenCalled();
+  });
+
+  it('replaces the codes with a fresh set', async () => {
+    mockFindUserByIdWithCredentials.mockResolvedValue(
+      userWith({ mfaEnabled: true, mfaSecret: SECRET })
+    );
+
+    const { backupCodes } = await regenerateBackupCodes('user-1', currentCode());
+
+    expect(backupCodes).toHaveLength(10);
+    expect(mockReplaceMfaBackupCodes).toHaveBeenCalledWith('user-1', expect.any(Array));
+  });
+});
@@ -0,0 +1,120 @@
+import { createHash } from 'crypto';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { assertPasswordAllowed, evaluatePassword, scorePassword } from '../password-policy.service';
+import { ValidationError } from '../../utils/errors';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+
+const breachedDir = mkdtempSync(path.join(tmpdir(), 'breached-passwords-'));
+
+const mockConfig = {
+  security: { passwordPolicy: { minScore: 3, breachedPasswordsPath: breachedDir } },
+};
+jest.mock('../../config/index', () => ({
+  get config() {
+    return mockConfig;
+  },
+}));
+
+jest.mock('../../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+// A range file for one breached password, in the Pwned Passwords layout.
+const BREACHED = 'Summer2024!Sun';
+const sha1 = createHash('sha1').update(BREACHED).digest('hex').toUpperCase();
+writeFileSync(
+  path.join(breachedDir, `${sha1.slice(0, 5)}.txt`),
+  `0018A45C4D1DEF81644B54AB7F969B88D65:1\r\n${sha1.slice(5)}:4821\r\n`
+);
+
+afterAll(() => {
+  rmSync(breachedDir, { recursive: true, force: true });
+});
+
+const rules = async (password: string, context = {}) =>
+  (await evaluatePassword(password, context)).violations.map((v) => v.rule);
+
+// =============================================================================
+// scorePassword
+// =============================================================================
+
+describe('scorePassword', () => {
+  it('scores repeated and sequential characters as weak', () => {
+    expect(scorePassword('aaaaaaaa')).toBe(0);
+    expect(scorePassword('Abcdefg1')).toBeLessThan(3);
+    expect(scorePassword('12345678')).toBe(0);
+  });
+
+  it('scores long, varied passwords as strong', () => {
+    expect(scorePassword('Gx7#kP2m')).toBeGreaterThanOrEqual(3);
+    expect(scorePassword('correct horse battery staple')).toBe(4);
+  });
+});
+
+// =============================================================================
+// evaluatePassword
+// =============================================================================
+
+describe('evaluatePassword', () => {
+  it('accepts a strong password unrelated to the user', async () => {
+    await expect(
+      rules('Gx7#kP2mQ9', { email: 'sam.tester@example.com', firstName: 'Sam', lastName: 'Tester' })
+    ).resolves.toEqual([]);
+  });
+
+  it('refuses passwords containing the email or name, in any case', async () => {
+    const context = { email: 'sam.tester@example.com', firstName: 'Sam', lastName: 'Tester' };
+
+    await expect(rules('Gx7#TESTER2m', context)).resolves.toEqual(['contains_personal_info']);
+    await expect(rules('Gx7#sam.tester', context)).resolves.toEqual(['contains_personal_info']);
+  });
+
+  it('ignores name parts too short to matter', async () => {
+    await expect(rules('Gx7#kAl2mQ9', { firstName: 'Al' })).resolves.toEqual([]);
+  });
+
+  it('refuses a password from the breached list', async () => {
+    await expect(rules(BREACHED)).resolves.toEqual(['breached']);
+  });
+
+  it('reports every rule a password breaks', async () => {
+    await expect(rules('sam', { firstName: 'Sam' })).resolves.toEqual([
+      'too_short',
+      'too_weak',
+      'contains_personal_info',
+    ]);
+  });
+});
+
+// =============================================================================
+// assertPasswordAllowed
+// =============================================================================
+
+describe('assertPasswordAllowed', () => {
+  it('throws a ValidationError with per-rule details and the score', async () => {
+    let error: unknown;
+    try {
+      await assertPasswordAllowed('aaaaaaaa');
+    } catch (err) {
+      error = err;
+    }
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error).toMatchObject({
+      code: 'VALIDATION_ERROR',
+      details: {
+        score: 0,
+        errors: [expect.objectContaining({ field: 'password', rule: 'too_weak' })],
+      },
+    });
+  });
+
+  it('resolves for an acceptable password', async () => {
+    await expect(assertPasswordAllowed('Gx7#kP2mQ9')).resolves.toBeUndefined();
+  });
+});
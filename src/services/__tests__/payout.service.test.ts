@@ -1,11 +1,20 @@
-import { AccountStatus, PayoutMethod, PayoutStatus } from '@prisma/client';
+import { AccountStatus, KycStatus, PayoutMethod, PayoutStatus } from '@prisma/client';
 import {
+  approvePayout,
   getEligibleAccounts,
+  listPayoutReviewQueue,
+  rejectPayout,
   requestPayout,
   syncPayouts,
   RequestPayoutInput,
 } from '../payout.service';
-import { BadRequestError, NotFoundError, PlatformError } from '../../utils/errors';
+import {
+  BadRequestError,
+  ConflictError,
+  EmailNotVerifiedError,
+  NotFoundError,
+  PlatformError,
+} from '../../utils/errors';
 
 // =============================================================================
 // Mocks
@@ -26,12 +35,16 @@ jest.mock('../../utils/database', () => ({
 const mockCreatePayout = jest.fn();
 const mockListPayouts = jest.fn();
 const mockGetAccount = jest.fn();
+const mockApprovePayout = jest.fn();
+const mockRejectPayout = jest.fn();
 
 jest.mock('../../providers/index', () => ({
   getTradingPlatformProvider: () => ({
     createPayout: (...args: unknown[]) => mockCreatePayout(...args),
     listPayouts: (...args: unknown[]) => mockListPayouts(...args),
     getAccount: (...args: unknown[]) => mockGetAccount(...args),
+    approvePayout: (...args: unknown[]) => mockApprovePayout(...args),
+    rejectPayout: (...args: unknown[]) => mockRejectPayout(...args),
   }),
 }));
 
@@ -41,6 +54,11 @@ const mockFindById = jest.fn();
 const mockFindByUser = jest.fn();
 const mockFindReconcilable = jest.fn();
 const mockUpdateFromPlatform = jest.fn();
+const mockFindPending = jest.fn();
+const mockFindForReview = jest.fn();
+const mockRecordReview = jest.fn();
+const mockClaimForReview = jest.fn();
+const mockReleaseClaim = jest.fn();
 
 jest.mock('../../repositories/payout.repository', () => ({
   createPayout: (...args: unknown[]) => mockRepoCreate(...args),
@@ -49,6 +67,23 @@ jest.mock('../../repositories/payout.repository', () => ({
   findPayoutsByUserId: (...args: unknown[]) => mockFindByUser(...args),
   findReconcilablePayouts: (...args: unknown[]) => mockFindReconcilable(...args),
   updatePayoutFromPlatform: (...args: unknown[]) => mockUpdateFromPlatform(...args),
+  findPendingPayouts: (...args: unknown[]) => mockFindPending(...args),
+  findPayoutForReview: (...args: unknown[]) => mockFindForReview(...args),
+  recordPayoutReview: (...args: unknown[]) => mockRecordReview(...args),
+  claimPayoutForReview: (...args: unknown[]) => mockClaimForReview(...args),
+  releasePayoutReviewClaim: (...args: unknown[]) => mockReleaseClaim(...args),
+}));
+
+const mockRecordAudit = jest.fn();
+
+jest.mock('../audit.service', () => ({
+  recordAudit: (...args: unknown[]) => mockRecordAudit(...args),
+}));
+
+const mockSendPayoutDecisionEmail = jest.fn();
+
+jest.mock('../email.service', () => ({
+  sendPayoutDecisionEmail: (...args: unknown[]) => mockSendPayoutDecisionEmail(...args),
 }));
 
 jest.mock('../../utils/logger', () => ({
@@ -70,7 +105,7 @@ const fundedAccount = (overrides: Record<string, unknown> = {}) => ({
   currentBalance: 27500,
   startingBalance: 25000,
   accountType,
-  user: { platformUserId: 'p-usr-1' },
+  user: { platformUserId: 'p-usr-1', emailVerified: true },
   ...overrides,
 });
 
@@ -218,6 +253,21 @@ describe('payoutService.requestPayout', () => {
     expect(dto.transferAmount).toBe(1800);
   });
 
+  it('audits the request with its request context but without bank details', async () => {
+    await requestPayout(requestInput(), { ipAddress: '203.0.113.7', requestId: 'req-1' });
+
+    expect(mockRecordAudit).toHaveBeenCalledWith(
+      expect.objectContaining({
+        actorId: 'user-1',
+        action: 'PAYOUT_REQUESTED',
+        entity: 'Payout',
+        newValues: expect.objectContaining({ accountId: 'acc-1', amount: 2000 }),
+      }),
+      { ipAddress: '203.0.113.7', requestId: 'req-1' }
+    );
+    expect(JSON.stringify(mockRecordAudit.mock.calls[0])).not.toContain(bank.accountNumber);
+  });
+
   it('rejects a non-funded account without calling YPF', async () => {
     mockAccountFindFirst.mockResolvedValue(
       fundedAccount({ status: AccountStatus.EVALUATION })
@@ -244,9 +294,20 @@ describe('payoutService.requestPayout', () => {
     );
   });
 
+  it('rejects when the user has not verified their email', async () => {
+    mockAccountFindFirst.mockResolvedValue(
+      fundedAccount({ user: { platformUserId: 'p-usr-1', emailVerified: false } })
+    );
+
+    await expect(requestPayout(requestInput())).rejects.toBeInstanceOf(
+      EmailNotVerifiedError
+    );
+    expect(mockCreatePayout).not.toHaveBeenCalled();
+  });
+
   it('rejects when the account is not linked to the platform', async () => {
     mockAccountFindFirst.mockResolvedValue(
-      fundedAccount({ platformAccountId: null, platformUserId: null, user: { platformUserId: null } })
+      fundedAccount({ platformAccountId: null, platformUserId: null, user: { platformUserId: null, emailVerified: true } })
     );
 
     await expect(requestPayout(requestInput())).rejects.toBeInstanceOf(
@@ -296,6 +357,7 @@ describe('payoutService.requestPayout', () => {
       PlatformError
     );
     expect(mockRepoCreate).not.toHaveBeenCalled();
+    expect(mockRecordAudit).not.toHaveBeenCalled();
   });
 });
 
@@ -342,3 +404,195 @@ describe('payoutService.syncPayouts', () => {
     expect(mockListPayouts).not.toHaveBeenCalled();
   });
 });
+
+// =============================================================================
+// Staff review
+// =============================================================================
+
+const trader = {
+  id: 'user-1',
+  email: 'jane@example.com',
+  firstName: 'Jane',
+  lastName: 'Doe',
+  country: 'US',
+  kycStatus: KycStatus.APPROVED,
+  platformUserId: 'p-usr-1',
+};
+
+const reviewRow = (overrides: Record<string, unknown> = {}) =>
+  payoutRow({
+    platformPayoutId: 'ypf-po-1',
+    account: { ...fundedAccount(), user: trader },
+    ...overrides,
+  });
+
+describe('payoutService.listPayoutReviewQueue', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('returns pending payouts with trader, KYC status and live eligibility', async () => {
+    mockFindPending.mockResolvedValue({
+      data: [reviewRow()],
+      pagination: { page: 1, limit: 20, total: 1, totalPages: 1, hasMore: false },
+    });
+    mockGetAccount.mockResolvedValue({ balance: 28000 });
+
+    const result = await listPayoutReviewQueue({ page: 1, limit: 20 });
+
+    expect(mockFindPending).toHaveBeenCalledWith({ page: 1, limit: 20 });
+    const [item] = result.data;
+    expect(item).toEqual(
+      expect.objectContaining({
+        id: 'po-1',
+        amount: 2000,
+        trader: expect.objectContaining({ email: 'jane@example.com', kycStatus: KycStatus.APPROVED }),
+        account: expect.objectContaining({ id: 'acc-1', currentBalance: 28000 }),
+      })
+    );
+    // Its own pending request doesn't count against it.
+    expect(item?.eligibility).toEqual(
+      expect.objectContaining({
+        eligible: true,
+        availableProfit: 3000,
+        amountErrors: [],
+        live: true,
+      })
+    );
+  });
+
+  it('flags eligibility evaluated from stored data when YPF is unreachable', async () => {
+    mockFindPending.mockResolvedValue({
+      data: [reviewRow(), reviewRow({ id: 'po-2', platformPayoutId: 'ypf-po-2' })],
+      pagination: { page: 1, limit: 20, total: 2, totalPages: 1, hasMore: false },
+    });
+    mockGetAccount
+      .mockResolvedValueOnce({ balance: 28000 })
+      .mockRejectedValueOnce(new Error('timeout'));
+
+    const result = await listPayoutReviewQueue({ page: 1, limit: 20 });
+
+    expect(mockGetAccount).toHaveBeenCalledTimes(2);
+    expect(result.data.map((p) => [p.id, p.eligibility.live])).toEqual([
+      ['po-1', true],
+      ['po-2', false],
+    ]);
+    expect(result.data[1]?.account.currentBalance).toBe(27500);
+  });
+});
+
+describe('payoutService.approvePayout / rejectPayout', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockClaimForReview.mockResolvedValue(true);
+    mockReleaseClaim.mockResolvedValue(undefined);
+    mockRecordReview.mockResolvedValue(true);
+    mockApprovePayout.mockResolvedValue(undefined);
+    mockRejectPayout.mockResolvedValue(undefined);
+    mockSendPayoutDecisionEmail.mockResolvedValue(undefined);
+  });
+
+  it('approves on YPF, records the reviewer and note, audits and notifies the trader', async () => {
+    mockFindForReview.mockResolvedValue(reviewRow());
+
+    const result = await approvePayout(
+      'po-1',
+      { reviewerId: 'admin-1', note: 'KYC checked' },
+      { requestId: 'req-1' }
+    );
+
+    expect(mockClaimForReview).toHaveBeenCalledWith('po-1', 'admin-1');
+    expect(mockApprovePayout).toHaveBeenCalledWith('ypf-po-1');
+    expect(mockRecordReview).toHaveBeenCalledWith('po-1', {
+      status: PayoutStatus.APPROVED,
+      reviewedBy: 'admin-1',
+      reviewNote: 'KYC checked',
+      rejectionReason: undefined,
+    });
+    expect(mockRecordAudit).toHaveBeenCalledWith(
+      expect.objectContaining({ actorId: 'admin-1', action: 'PAYOUT_APPROVED', entityId: 'po-1' }),
+      { requestId: 'req-1' }
+    );
+    expect(mockSendPayoutDecisionEmail).toHaveBeenCalledWith(
+      { email: 'jane@example.com', firstName: 'Jane' },
+      expect.objectContaining({ approved: true, amount: 2000 })
+    );
+    expect(result.status).toBe(PayoutStatus.APPROVED);
+  });
+
+  it('pushes the rejection reason to YPF and the trader', async () => {
+    mockFindForReview.mockResolvedValue(reviewRow());
+
+    const result = await rejectPayout('po-1', {
+      reviewerId: 'admin-1',
+      reason: 'Consistency rule not met',
+    });
+
+    expect(mockRejectPayout).toHaveBeenCalledWith('ypf-po-1', 'Consistency rule not met');
+    expect(mockSendPayoutDecisionEmail).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ approved: false, rejectionReason: 'Consistency rule not met' })
+    );
+    expect(result).toEqual(
+      expect.objectContaining({
+        status: PayoutStatus.REJECTED,
+        rejectionReason: 'Consistency rule not met',
+      })
+    );
+  });
+
+  it('releases the claim and leaves the row pending when YPF refuses the decision', async () => {
+    mockFindForReview.mockResolvedValue(reviewRow());
+    mockApprovePayout.mockRejectedValue(new Error('YPF 400'));
+
+    await expect(approvePayout('po-1', { reviewerId: 'admin-1' })).rejects.toBeInstanceOf(
+      PlatformError
+    );
+    expect(mockReleaseClaim).toHaveBeenCalledWith('po-1', 'admin-1');
+    expect(mockRecordReview).not.toHaveBeenCalled();
+    expect(mockSendPayoutDecisionEmail).not.toHaveBeenCalled();
+  });
+
+  it('never sends a decision to YPF when another reviewer holds the claim', async () => {
+    mockFindForReview.mockResolvedValue(reviewRow());
+    mockClaimForReview.mockResolvedValue(false);
+
+    await expect(
+      rejectPayout('po-1', { reviewerId: 'admin-2', reason: 'Duplicate request' })
+    ).rejects.toBeInstanceOf(ConflictError);
+    expect(mockRejectPayout).not.toHaveBeenCalled();
+    expect(mockRecordAudit).not.toHaveBeenCalled();
+  });
+
+  it('still audits and notifies when YPF accepted but the local record was lost', async () => {
+    mockFindForReview.mockResolvedValue(reviewRow());
+    mockRecordReview.mockResolvedValue(false);
+
+    await expect(approvePayout('po-1', { reviewerId: 'admin-1' })).resolves.toEqual(
+      expect.objectContaining({ status: PayoutStatus.APPROVED })
+    );
+    expect(mockRecordAudit).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'PAYOUT_APPROVED' }),
+      {}
+    );
+    expect(mockSendPayoutDecisionEmail).toHaveBeenCalled();
+  });
+
+  it('refuses payouts that are already decided', async () => {
+    mockFindForReview.mockResolvedValue(reviewRow({ status: PayoutStatus.APPROVED }));
+
+    await expect(approvePayout('po-1', { reviewerId: 'admin-1' })).rejects.toBeInstanceOf(
+      ConflictError
+    );
+    expect(mockApprovePayout).not.toHaveBeenCalled();
+  });
+
+  it('still succeeds when the notification email fails', async () => {
+    mockFindForReview.mockResolvedValue(reviewRow());
+    mockSendPayoutDecisionEmail.mockRejectedValue(new Error('SES down'));
+
+    await expect(approvePayout('po-1', { reviewerId: 'admin-1' })).resolves.toEqual(
+      expect.objectContaining({ status: PayoutStatus.APPROVED })
+    );
+  });
+});
@@ -0,0 +1,227 @@
+import { UserRole } from '@prisma/client';
+import {
+  getEffectivePermissions,
+  grantPermission,
+  hasPermission,
+  revokePermission,
+} from '../permission.service';
+import { ForbiddenError, NotFoundError, ValidationError } from '../../utils/errors';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+
+const mockFindRolePermissions = jest.fn();
+const mockFindActiveUserGrants = jest.fn();
+const mockUpsertUserGrant = jest.fn();
+const mockDeleteUserGrant = jest.fn();
+
+jest.mock('../../repositories/permission.repository', () => ({
+  findRolePermissions: (...args: unknown[]) => mockFindRolePermissions(...args),
+  findActiveUserGrants: (...args: unknown[]) => mockFindActiveUserGrants(...args),
+  upsertUserGrant: (...args: unknown[]) => mockUpsertUserGrant(...args),
+  deleteUserGrant: (...args: unknown[]) => mockDeleteUserGrant(...args),
+}));
+
+const mockGetUserById = jest.fn();
+jest.mock('../../repositories/user.repository', () => ({
+  getUserById: (...args: unknown[]) => mockGetUserById(...args),
+}));
+
+const mockRecordSecurityEvent = jest.fn();
+jest.mock('../../repositories/auth.repository', () => ({
+  recordSecurityEvent: (...args: unknown[]) => mockRecordSecurityEvent(...args),
+}));
+
+const cache = new Map<string, unknown>();
+const mockCacheSet = jest.fn(async (key: string, value: unknown, _ttl: number) => {
+  cache.set(key, value);
+});
+jest.mock('../../utils/redis', () => ({
+  cacheGet: async (key: string) => cache.get(key) ?? null,
+  cacheSet: (key: string, value: unknown, ttl: number) => mockCacheSet(key, value, ttl),
+  cacheDelete: async (key: string) => {
+    cache.delete(key);
+  },
+}));
+
+const mockConfig = { redis: { url: 'redis://localhost:6379' as string | undefined } };
+jest.mock('../../config/index', () => ({
+  get config() {
+    return mockConfig;
+  },
+}));
+
+jest.mock('../../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const admin = { id: 'admin-1', role: UserRole.ADMIN };
+const support = { id: 'support-1', role: UserRole.SUPPORT };
+
+const ROLE_PERMISSIONS: Record<UserRole, string[]> = {
+  [UserRole.ADMIN]: ['users.role.change', 'permissions.manage', 'payouts.approve'],
+  [UserRole.SUPPORT]: ['support.tickets.read', 'support.tickets.manage'],
+  [UserRole.TRADER]: [],
+};
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  cache.clear();
+  mockConfig.redis.url = 'redis://localhost:6379';
+  mockFindRolePermissions.mockImplementation(async (role: UserRole) => ROLE_PERMISSIONS[role]);
+  mockFindActiveUserGrants.mockResolvedValue([]);
+  mockGetUserById.mockResolvedValue({ id: 'support-1', role: UserRole.SUPPORT });
+});
+
+// =============================================================================
+// Effective permissions
+// =============================================================================
+
+describe('getEffectivePermissions', () => {
+  it('combines role permissions with unexpired grants', async () => {
+    mockFindActiveUserGrants.mockResolvedValue([{ permission: 'payouts.approve', expiresAt: null }]);
+
+    await expect(getEffectivePermissions(support)).resolves.toEqual([
+      'support.tickets.read',
+      'support.tickets.manage',
+      'payouts.approve',
+    ]);
+  });
+
+  it('ignores names that are not in the catalog', async () => {
+    mockFindRolePermissions.mockResolvedValue(['support.tickets.read', 'legacy.removed']);
+
+    await expect(getEffectivePermissions(support)).resolves.toEqual(['support.tickets.read']);
+  });
+
+  it('serves repeat checks from the cache', async () => {
+    await hasPermission(support, 'support.tickets.read');
+    await hasPermission(support, 'support.tickets.manage');
+
+    expect(mockFindRolePermissions).toHaveBeenCalledTimes(1);
+  });
+
+  it('recomputes when the role in the token differs from the cached one', async () => {
+    await getEffectivePermissions(support);
+
+    const promoted = await getEffectivePermissions({ id: 'support-1', role: UserRole.ADMIN });
+
+    expect(promoted).toContain('users.role.change');
+    expect(mockFindRolePermissions).toHaveBeenCalledTimes(2);
+  });
+
+  it('caps the cache TTL at the first grant to expire', async () => {
+    mockFindActiveUserGrants.mockResolvedValue([
+      { permission: 'payouts.approve', expiresAt: new Date(Date.now() + 30_000) },
+    ]);
+
+    await getEffectivePermissions(support);
+
+    const ttl = mockCacheSet.mock.calls[0]![2];
+    expect(ttl).toBeGreaterThan(0);
+    expect(ttl).toBeLessThanOrEqual(30);
+  });
+
+  it('goes to the database every time without Redis', async () => {
+    mockConfig.redis.url = undefined;
+
+    await hasPermission(support, 'support.tickets.read');
+    await hasPermission(support, 'support.tickets.read');
+
+    expect(mockFindRolePermissions).toHaveBeenCalledTimes(2);
+    expect(mockCacheSet).not.toHaveBeenCalled();
+  });
+});
+
+// =============================================================================
+// Grants
+// =============================================================================
+
+describe('grantPermission', () => {
+  const context = { admin, ipAddress: '203.0.113.5', userAgent: 'jest' };
+
+  it('grants, invalidates the cached set and audits', async () => {
+    await getEffectivePermissions(support);
+    mockUpsertUserGrant.mockResolvedValue({
+      id: 'grant-1',
+      permission: 'payouts.approve',
+      expiresAt: null,
+      reason: 'Covering payouts this week',
+    });
+
+    await grantPermission(
+      'support-1',
+      'payouts.approve',
+      { reason: 'Covering payouts this week' },
+      context
+    );
+
+    expect(mockUpsertUserGrant).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'support-1', permission: 'payouts.approve', grantedById: 'admin-1' })
+    );
+    expect(cache.has('auth:permissions:support-1')).toBe(false);
+    expect(mockRecordSecurityEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: 'admin-1',
+        action: 'PERMISSION_GRANTED',
+        entityId: 'support-1',
+        metadata: expect.objectContaining({ permission: 'payouts.approve' }),
+      })
+    );
+  });
+
+  it('rejects unknown permissions', async () => {
+    await expect(grantPermission('support-1', 'everything', {}, context)).rejects.toBeInstanceOf(
+      ValidationError
+    );
+    expect(mockUpsertUserGrant).not.toHaveBeenCalled();
+  });
+
+  it('rejects an expiry in the past', async () => {
+    await expect(
+      grantPermission('support-1', 'payouts.approve', { expiresAt: new Date(Date.now() - 1000) }, context)
+    ).rejects.toThrow('Expiry must be in the future');
+  });
+
+  it('refuses to hand out a permission the granting admin does not hold', async () => {
+    await expect(
+      grantPermission('support-1', 'accounts.breach', {}, context)
+    ).rejects.toBeInstanceOf(ForbiddenError);
+    expect(mockUpsertUserGrant).not.toHaveBeenCalled();
+  });
+
+  it('404s for an unknown user', async () => {
+    mockGetUserById.mockResolvedValue(null);
+
+    await expect(
+      grantPermission('ghost', 'payouts.approve', {}, context)
+    ).rejects.toBeInstanceOf(NotFoundError);
+  });
+});
+
+describe('revokePermission', () => {
+  it('removes the grant and audits', async () => {
+    mockDeleteUserGrant.mockResolvedValue(true);
+
+    await revokePermission('support-1', 'payouts.approve', { admin });
+
+    expect(mockDeleteUserGrant).toHaveBeenCalledWith('support-1', 'payouts.approve');
+    expect(mockRecordSecurityEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'PERMISSION_REVOKED', entityId: 'support-1' })
+    );
+  });
+
+  it('404s when there is no such grant', async () => {
+    mockDeleteUserGrant.mockResolvedValue(false);
+
+    await expect(revokePermission('support-1', 'payouts.approve', { admin })).rejects.toBeInstanceOf(
+      NotFoundError
+    );
+    expect(mockRecordSecurityEvent).not.toHaveBeenCalled();
+  });
+});
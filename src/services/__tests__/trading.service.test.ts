@@ -3,6 +3,7 @@ import {
   BadRequestError,
   NotFoundError,
   ForbiddenError,
+  RestrictedJurisdictionError,
   ServiceUnavailableError,
 } from '../../utils/errors';
 
@@ -44,6 +45,11 @@ jest.mock('../sync.service', () => ({
   syncAccountFromPlatform: jest.fn(),
 }));
 
+const mockAssertJurisdictionAllowed = jest.fn();
+jest.mock('../jurisdiction.service', () => ({
+  assertJurisdictionAllowed: (...args: unknown[]) => mockAssertJurisdictionAllowed(...args),
+}));
+
 jest.mock('../../utils/logger', () => ({
   logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
 }));
@@ -58,6 +64,7 @@ const linkedAccount = (overrides: Record<string, unknown> = {}) => ({
   platformAccountId: 'p-acc-1',
   platformUserId: 'p-usr-1',
   accountType: { name: 'ADVANCED_50K' },
+  user: { country: 'US' },
   ...overrides,
 });
 
@@ -282,6 +289,23 @@ describe('getCheckoutUrl', () => {
     ).rejects.toBeInstanceOf(ServiceUnavailableError);
   });
 
+  it('refuses restricted jurisdictions before touching YPF', async () => {
+    mockAccountFindUnique.mockResolvedValue(linkedAccount());
+    mockAssertJurisdictionAllowed.mockImplementationOnce(() => {
+      throw new RestrictedJurisdictionError('purchase', 'US');
+    });
+
+    await expect(
+      getCheckoutUrl('acc-1', 'user-1', 'reset', '203.0.113.7'),
+    ).rejects.toBeInstanceOf(RestrictedJurisdictionError);
+    expect(mockAssertJurisdictionAllowed).toHaveBeenCalledWith('purchase', {
+      declaredCountry: 'US',
+      ipAddress: '203.0.113.7',
+      userId: 'user-1',
+    });
+    expect(mockGetAccount).not.toHaveBeenCalled();
+  });
+
   it('throws NotFound when the account is missing', async () => {
     mockAccountFindUnique.mockResolvedValue(null);
     await expect(
@@ -0,0 +1,154 @@
+import { getUserOverview } from '../user-overview.service';
+import { NotFoundError, ServiceUnavailableError } from '../../utils/errors';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+
+const mockAccountFindMany = jest.fn();
+const mockJournalGroupBy = jest.fn();
+
+jest.mock('../../utils/database', () => ({
+  prisma: {
+    account: { findMany: (...args: unknown[]) => mockAccountFindMany(...args) },
+    journalEntry: { groupBy: (...args: unknown[]) => mockJournalGroupBy(...args) },
+  },
+}));
+
+const mockGetUserById = jest.fn();
+jest.mock('../../repositories/user.repository', () => ({
+  getUserById: (...args: unknown[]) => mockGetUserById(...args),
+}));
+
+const mockListSessions = jest.fn();
+jest.mock('../auth.service', () => ({
+  listSessions: (...args: unknown[]) => mockListSessions(...args),
+}));
+
+const mockGetLoginHistory = jest.fn();
+jest.mock('../login-history.service', () => ({
+  getLoginHistory: (...args: unknown[]) => mockGetLoginHistory(...args),
+}));
+
+const mockSyncUserKyc = jest.fn();
+jest.mock('../kyc.service', () => ({
+  syncUserKyc: (...args: unknown[]) => mockSyncUserKyc(...args),
+}));
+
+const mockRefreshUserAccounts = jest.fn();
+jest.mock('../trading.service', () => ({
+  refreshUserAccountsFromPlatform: (...args: unknown[]) => mockRefreshUserAccounts(...args),
+}));
+
+const mockGetPayoutHistory = jest.fn();
+jest.mock('../payout.service', () => ({
+  getPayoutHistory: (...args: unknown[]) => mockGetPayoutHistory(...args),
+}));
+
+const mockGetUserTickets = jest.fn();
+jest.mock('../support-ticket.service', () => ({
+  getUserTickets: (...args: unknown[]) => mockGetUserTickets(...args),
+}));
+
+const mockGetMyAffiliateStatus = jest.fn();
+jest.mock('../affiliate.service', () => ({
+  getMyAffiliateStatus: (...args: unknown[]) => mockGetMyAffiliateStatus(...args),
+}));
+
+jest.mock('../../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+const never = (): Promise<never> => new Promise(() => undefined);
+
+const emptyPage = { data: [], pagination: { page: 1, limit: 20, total: 0, totalPages: 0 } };
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockGetUserById.mockResolvedValue({ id: 'user-1', email: 'trader@example.com' });
+  mockListSessions.mockResolvedValue([{ id: 'sess-1', current: false }]);
+  mockGetLoginHistory.mockResolvedValue(emptyPage);
+  mockSyncUserKyc.mockResolvedValue({ status: 'APPROVED', linked: true });
+  mockRefreshUserAccounts.mockResolvedValue(true);
+  mockAccountFindMany.mockResolvedValue([{ id: 'acc-1', status: 'FUNDED', deletedAt: null }]);
+  mockGetPayoutHistory.mockResolvedValue([]);
+  mockGetUserTickets.mockResolvedValue(emptyPage);
+  mockGetMyAffiliateStatus.mockResolvedValue({ hasApplied: false });
+  mockJournalGroupBy.mockResolvedValue([
+    { accountId: 'acc-1', _count: { _all: 3 }, _max: { date: new Date('2026-10-01') } },
+    { accountId: 'acc-2', _count: { _all: 2 }, _max: { date: new Date('2026-09-01') } },
+  ]);
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('getUserOverview', () => {
+  it('aggregates every section', async () => {
+    const overview = await getUserOverview('user-1');
+
+    expect(overview.profile).toMatchObject({ id: 'user-1' });
+    expect(overview.sessions).toEqual({ status: 'ok', data: [{ id: 'sess-1', current: false }] });
+    expect(overview.kyc).toEqual({ status: 'ok', data: { status: 'APPROVED', linked: true } });
+    expect(overview.accounts).toEqual({
+      status: 'ok',
+      data: { live: true, accounts: [{ id: 'acc-1', status: 'FUNDED', deletedAt: null }] },
+    });
+    expect(overview.journal).toMatchObject({ status: 'ok', data: { totalEntries: 5 } });
+    expect(mockListSessions).toHaveBeenCalledWith('user-1');
+    expect(mockAccountFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { userId: 'user-1' } })
+    );
+  });
+
+  it('reports a failing section without failing the overview', async () => {
+    mockGetMyAffiliateStatus.mockRejectedValue(
+      new ServiceUnavailableError('Affiliate platform unavailable')
+    );
+    mockGetPayoutHistory.mockRejectedValue(new Error('connection reset'));
+
+    const overview = await getUserOverview('user-1');
+
+    expect(overview.affiliate).toEqual({
+      status: 'error',
+      data: null,
+      error: 'Affiliate platform unavailable',
+    });
+    // Unexpected errors don't leak their message.
+    expect(overview.payouts).toEqual({ status: 'error', data: null, error: 'Failed to load' });
+    expect(overview.sessions.status).toBe('ok');
+  });
+
+  it('times out a slow live section and serves stored accounts when the refresh hangs', async () => {
+    jest.useFakeTimers();
+    mockSyncUserKyc.mockImplementation(never);
+    mockRefreshUserAccounts.mockImplementation(never);
+
+    const pending = getUserOverview('user-1');
+    await jest.advanceTimersByTimeAsync(8_000);
+    const overview = await pending;
+
+    expect(overview.kyc).toEqual({
+      status: 'timeout',
+      data: null,
+      error: 'Timed out after 8000ms',
+    });
+    expect(overview.accounts).toMatchObject({ status: 'ok', data: { live: false } });
+    expect(overview.sessions.status).toBe('ok');
+  });
+
+  it('throws NotFoundError for an unknown user', async () => {
+    mockGetUserById.mockResolvedValue(null);
+    await expect(getUserOverview('missing')).rejects.toThrow(NotFoundError);
+    expect(mockListSessions).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,461 @@
+import {
+  getRegistrationOptions,
+  verifyRegistration,
+  getAuthenticationOptions,
+  verifyAuthentication,
+  deletePasskey,
+} from '../webauthn.service';
+import { WebAuthnVerificationError } from '../../utils/webauthn';
+import { BadRequestError, ForbiddenError } from '../../utils/errors';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+
+const mockFindUserById = jest.fn();
+const mockFindWebAuthnCredentialsByUserId = jest.fn();
+const mockFindWebAuthnCredentialByCredentialId = jest.fn();
+const mockCreateWebAuthnCredential = jest.fn();
+const mockRecordWebAuthnCredentialUse = jest.fn();
+const mockDeleteWebAuthnCredential = jest.fn();
+const mockFindLoginMethods = jest.fn();
+const mockFindUserByIdWithCredentials = jest.fn();
+const mockFindSessionById = jest.fn();
+const mockCountWebAuthnCredentials = jest.fn();
+
+jest.mock('../../repositories/auth.repository', () => ({
+  findUserById: (...args: unknown[]) => mockFindUserById(...args),
+  findUserByIdWithCredentials: (...args: unknown[]) => mockFindUserByIdWithCredentials(...args),
+  findSessionById: (...args: unknown[]) => mockFindSessionById(...args),
+  countWebAuthnCredentials: (...args: unknown[]) => mockCountWebAuthnCredentials(...args),
+  findWebAuthnCredentialsByUserId: (...args: unknown[]) =>
+    mockFindWebAuthnCredentialsByUserId(...args),
+  findWebAuthnCredentialByCredentialId: (...args: unknown[]) =>
+    mockFindWebAuthnCredentialByCredentialId(...args),
+  createWebAuthnCredential: (...args: unknown[]) => mockCreateWebAuthnCredential(...args),
+  recordWebAuthnCredentialUse: (...args: unknown[]) => mockRecordWebAuthnCredentialUse(...args),
+  deleteWebAuthnCredential: (...args: unknown[]) => mockDeleteWebAuthnCredential(...args),
+  findLoginMethods: (...args: unknown[]) => mockFindLoginMethods(...args),
+}));
+
+const mockVerifyRegistrationResponse = jest.fn();
+const mockVerifyAuthenticationResponse = jest.fn();
+
+jest.mock('../../utils/webauthn', () => ({
+  ...jest.requireActual('../../utils/webauthn'),
+  verifyRegistrationResponse: (...args: unknown[]) => mockVerifyRegistrationResponse(...args),
+  verifyAuthenticationResponse: (...args: unknown[]) => mockVerifyAuthenticationResponse(...args),
+}));
+
+const mockVerifyMfaCode = jest.fn();
+jest.mock('../../services/mfa.service', () => ({
+  verifyMfaCode: (...args: unknown[]) => mockVerifyMfaCode(...args),
+}));
+
+const mockCompare = jest.fn();
+jest.mock('bcrypt', () => ({
+  compare: (...args: unknown[]) => mockCompare(...args),
+}));
+
+const challengeStore = new Map<string, unknown>();
+jest.mock('../../utils/redis', () => ({
+  cacheGet: async (key: string) => challengeStore.get(key) ?? null,
+  cacheSet: async (key: string, value: unknown) => {
+    challengeStore.set(key, value);
+  },
+  cacheDelete: async (key: string) => {
+    challengeStore.delete(key);
+  },
+}));
+
+const mockConfig = {
+  redis: { url: 'redis://localhost:6379' as string | undefined },
+  webauthn: { rpId: 'app.example.com', rpName: 'Dynasty Futures', origins: ['https://app.example.com'] },
+};
+jest.mock('../../config/index', () => ({
+  get config() {
+    return mockConfig;
+  },
+}));
+
+jest.mock('../../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+const user = { id: 'user-1', email: 'trader@example.com', firstName: 'Trader', lastName: 'One' };
+
+const storedCredential = {
+  id: 'pk-1',
+  userId: user.id,
+  credentialId: 'Y3JlZC0x',
+  publicKey: Buffer.from('spki'),
+  algorithm: -7,
+  signCount: BigInt(3),
+  transports: ['internal'],
+  name: 'Laptop',
+  backedUp: false,
+  lastUsedAt: null,
+  createdAt: new Date('2026-07-07T00:00:00Z'),
+};
+
+const passwordCredentials = { passwordHash: 'hash', mfaEnabled: false, mfaSecret: null };
+const totpCredentials = { passwordHash: 'hash', mfaEnabled: true, mfaSecret: 'SECRET' };
+
+const registrationResponse = {
+  id: 'Y3JlZC0x',
+  type: 'public-key',
+  response: { clientDataJSON: 'e30', attestationObject: 'oA', transports: ['internal'] },
+};
+
+const assertion = {
+  id: 'Y3JlZC0x',
+  type: 'public-key',
+  response: { clientDataJSON: 'e30', authenticatorData: 'AA', signature: 'AA' },
+};
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  challengeStore.clear();
+  mockConfig.redis.url = 'redis://localhost:6379';
+  mockFindUserById.mockResolvedValue(user);
+  mockFindWebAuthnCredentialsByUserId.mockResolvedValue([]);
+  // A password user without a second factor who signed in just now.
+  mockFindUserByIdWithCredentials.mockResolvedValue({ ...user, credentials: passwordCredentials });
+  mockCountWebAuthnCredentials.mockResolvedValue(0);
+  mockFindSessionById.mockResolvedValue({ id: 'session-1', createdAt: new Date() });
+});
+
+// =============================================================================
+// Registration
+// =============================================================================
+
+describe('getRegistrationOptions', () => {
+  it('stores a challenge and excludes existing passkeys', async () => {
+    mockFindWebAuthnCredentialsByUserId.mockResolvedValue([storedCredential]);
+
+    const options = await getRegistrationOptions(user.id);
+
+    expect(challengeStore.get('webauthn:reg:user-1')).toEqual({ challenge: options['challenge'] });
+    expect(options['rp']).toEqual({ id: 'app.example.com', name: 'Dynasty Futures' });
+    expect(options['excludeCredentials']).toEqual([
+      { type: 'public-key', id: 'Y3JlZC0x', transports: ['internal'] },
+    ]);
+  });
+
+  it('is unavailable without Redis', async () => {
+    mockConfig.redis.url = undefined;
+
+    await expect(getRegistrationOptions(user.id)).rejects.toThrow(
+      'Passkeys are not available right now'
+    );
+  });
+});
+
+describe('verifyRegistration', () => {
+  it('stores the verified credential and spends the challenge', async () => {
+    challengeStore.set('webauthn:reg:user-1', { challenge: 'abc' });
+    mockVerifyRegistrationResponse.mockReturnValue({
+      credentialId: 'Y3JlZC0x',
+      publicKey: Buffer.from('spki'),
+      algorithm: -7,
+      signCount: 0,
+      backupEligible: true,
+      backedUp: true,
+    });
+    mockFindWebAuthnCredentialByCredentialId.mockResolvedValue(null);
+    mockCreateWebAuthnCredential.mockResolvedValue(storedCredential);
+
+    const passkey = await verifyRegistration(user.id, {
+      sessionId: 'session-1',
+      credential: registrationResponse,
+      name: ' Laptop ',
+      stepUp: {},
+    });
+
+    expect(mockVerifyRegistrationResponse).toHaveBeenCalledWith(
+      registrationResponse,
+      expect.objectContaining({ challenge: 'abc', rpId: 'app.example.com' })
+    );
+    expect(mockCreateWebAuthnCredential).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: user.id, name: 'Laptop', transports: ['internal'], backedUp: true })
+    );
+    expect(passkey).not.toHaveProperty('publicKey');
+    expect(challengeStore.has('webauthn:reg:user-1')).toBe(false);
+  });
+
+  it('rejects when no ceremony is in progress', async () => {
+    await expect(
+      verifyRegistration(user.id, {
+        sessionId: 'session-1',
+        credential: registrationResponse,
+        stepUp: {},
+      })
+    ).rejects.toThrow('Passkey request has expired');
+  });
+
+  it('maps verification failures to a bad request', async () => {
+    challengeStore.set('webauthn:reg:user-1', { challenge: 'abc' });
+    mockVerifyRegistrationResponse.mockImplementation(() => {
+      throw new WebAuthnVerificationError('Origin not allowed');
+    });
+
+    await expect(
+      verifyRegistration(user.id, {
+        sessionId: 'session-1',
+        credential: registrationResponse,
+        stepUp: {},
+      })
+    ).rejects.toThrow('Passkey registration could not be verified');
+    expect(mockCreateWebAuthnCredential).not.toHaveBeenCalled();
+  });
+});
+
+describe('verifyRegistration (step-up)', () => {
+  const register = (stepUp: Parameters<typeof verifyRegistration>[1]['stepUp']) =>
+    verifyRegistration(user.id, {
+      sessionId: 'session-1',
+      credential: registrationResponse,
+      stepUp,
+    });
+
+  beforeEach(() => {
+    challengeStore.set('webauthn:reg:user-1', { challenge: 'abc' });
+    mockVerifyRegistrationResponse.mockReturnValue({
+      credentialId: 'Y3JlZC0y',
+      publicKey: Buffer.from('spki'),
+      algorithm: -7,
+      signCount: 0,
+      backedUp: false,
+    });
+    mockFindWebAuthnCredentialByCredentialId.mockResolvedValue(null);
+    mockCreateWebAuthnCredential.mockResolvedValue(storedCredential);
+  });
+
+  it('refuses a session alone when the user has an authenticator app', async () => {
+    mockFindUserByIdWithCredentials.mockResolvedValue({ ...user, credentials: totpCredentials });
+
+    await expect(register({})).rejects.toThrow(ForbiddenError);
+    expect(mockCreateWebAuthnCredential).not.toHaveBeenCalled();
+  });
+
+  it('refuses a session alone when the user already has a passkey', async () => {
+    mockCountWebAuthnCredentials.mockResolvedValue(1);
+
+    await expect(register({ currentPassword: 'hunter22' })).rejects.toThrow(
+      'Confirm with one of your passkeys'
+    );
+    expect(mockCompare).not.toHaveBeenCalled();
+    expect(mockCreateWebAuthnCredential).not.toHaveBeenCalled();
+  });
+
+  it('accepts a code from the authenticator app', async () => {
+    mockFindUserByIdWithCredentials.mockResolvedValue({ ...user, credentials: totpCredentials });
+    mockVerifyMfaCode.mockResolvedValue('totp');
+
+    await register({ code: '123456' });
+
+    expect(mockVerifyMfaCode).toHaveBeenCalledWith(user.id, totpCredentials, '123456');
+    expect(mockCreateWebAuthnCredential).toHaveBeenCalled();
+  });
+
+  it('rejects a wrong code', async () => {
+    mockFindUserByIdWithCredentials.mockResolvedValue({ ...user, credentials: totpCredentials });
+    mockVerifyMfaCode.mockResolvedValue(null);
+
+    await expect(register({ code: '000000' })).rejects.toThrow(BadRequestError);
+    expect(mockCreateWebAuthnCredential).not.toHaveBeenCalled();
+  });
+
+  it('accepts an assertion from one of the user’s passkeys', async () => {
+    mockCountWebAuthnCredentials.mockResolvedValue(1);
+    challengeStore.set('webauthn:auth:c-1', { challenge: 'xyz', userId: user.id });
+    mockFindWebAuthnCredentialByCredentialId.mockResolvedValueOnce(storedCredential);
+    mockVerifyAuthenticationResponse.mockReturnValue({ signCount: 4, userVerified: false, backedUp: false });
+
+    await register({ passkey: { challengeId: 'c-1', credential: assertion } });
+
+    expect(mockVerifyAuthenticationResponse).toHaveBeenCalled();
+    expect(mockCreateWebAuthnCredential).toHaveBeenCalled();
+  });
+
+  it('asks for the password once the session is no longer fresh', async () => {
+    mockFindSessionById.mockResolvedValue({ id: 'session-1', createdAt: new Date(0) });
+
+    await expect(register({})).rejects.toThrow('Confirm with your current password');
+
+    mockCompare.mockResolvedValueOnce(false);
+    await expect(register({ currentPassword: 'wrong' })).rejects.toThrow(
+      'Current password is incorrect'
+    );
+    expect(mockCreateWebAuthnCredential).not.toHaveBeenCalled();
+
+    mockCompare.mockResolvedValueOnce(true);
+    await register({ currentPassword: 'hunter22' });
+    expect(mockCreateWebAuthnCredential).toHaveBeenCalled();
+  });
+});
+
+// =============================================================================
+// Authentication
+// =============================================================================
+
+describe('getAuthenticationOptions', () => {
+  it('leaves allowCredentials empty for a discoverable sign-in', async () => {
+    const { challengeId, options } = await getAuthenticationOptions();
+
+    expect(options['allowCredentials']).toEqual([]);
+    expect(options['userVerification']).toBe('required');
+    expect(challengeStore.get(`webauthn:auth:${challengeId}`)).toEqual({
+      challenge: options['challenge'],
+      userId: undefined,
+    });
+  });
+
+  it('limits the MFA step to the user’s passkeys', async () => {
+    mockFindWebAuthnCredentialsByUserId.mockResolvedValue([storedCredential]);
+
+    const { options } = await getAuthenticationOptions(user.id);
+
+    expect(options['allowCredentials']).toEqual([
+      { type: 'public-key', id: 'Y3JlZC0x', transports: ['internal'] },
+    ]);
+  });
+
+  it('rejects the MFA step for users without passkeys', async () => {
+    await expect(getAuthenticationOptions(user.id)).rejects.toThrow(
+      'No passkeys are registered for this account'
+    );
+  });
+});
+
+describe('verifyAuthentication', () => {
+  beforeEach(() => {
+    mockFindWebAuthnCredentialByCredentialId.mockResolvedValue(storedCredential);
+  });
+
+  it('returns the owner and records the new counter', async () => {
+    challengeStore.set('webauthn:auth:c-1', { challenge: 'abc' });
+    mockVerifyAuthenticationResponse.mockReturnValue({ signCount: 4, userVerified: true, backedUp: false });
+
+    const userId = await verifyAuthentication({
+      challengeId: 'c-1',
+      credential: assertion,
+      requireUserVerification: true,
+    });
+
+    expect(userId).toBe(user.id);
+    expect(mockVerifyAuthenticationResponse).toHaveBeenCalledWith(
+      assertion,
+      expect.objectContaining({ challenge: 'abc', requireUserVerification: true }),
+      { publicKey: Buffer.from('spki'), algorithm: -7, signCount: 3 }
+    );
+    expect(mockRecordWebAuthnCredentialUse).toHaveBeenCalledWith('pk-1', 4, false);
+  });
+
+  it('returns null when the signature does not verify', async () => {
+    challengeStore.set('webauthn:auth:c-1', { challenge: 'abc' });
+    mockVerifyAuthenticationResponse.mockImplementation(() => {
+      throw new WebAuthnVerificationError('Signature verification failed');
+    });
+
+    await expect(
+      verifyAuthentication({ challengeId: 'c-1', credential: assertion, requireUserVerification: true })
+    ).resolves.toBeNull();
+    expect(mockRecordWebAuthnCredentialUse).not.toHaveBeenCalled();
+  });
+
+  it('returns null for another user’s passkey during MFA', async () => {
+    challengeStore.set('webauthn:auth:c-1', { challenge: 'abc', userId: 'user-2' });
+
+    await expect(
+      verifyAuthentication({
+        challengeId: 'c-1',
+        credential: assertion,
+        requireUserVerification: false,
+        userId: 'user-2',
+      })
+    ).resolves.toBeNull();
+    expect(mockVerifyAuthenticationResponse).not.toHaveBeenCalled();
+  });
+
+  it('does not let a login challenge be used for the MFA step', async () => {
+    challengeStore.set('webauthn:auth:c-1', { challenge: 'abc' });
+
+    await expect(
+      verifyAuthentication({
+        challengeId: 'c-1',
+        credential: assertion,
+        requireUserVerification: false,
+        userId: user.id,
+      })
+    ).rejects.toThrow('Passkey request has expired');
+  });
+
+  it('spends the challenge on first use', async () => {
+    challengeStore.set('webauthn:auth:c-1', { challenge: 'abc' });
+    mockVerifyAuthenticationResponse.mockReturnValue({ signCount: 4, userVerified: true, backedUp: false });
+    const input = { challengeId: 'c-1', credential: assertion, requireUserVerification: true };
+
+    await verifyAuthentication(input);
+
+    await expect(verifyAuthentication(input)).rejects.toThrow('Passkey request has expired');
+  });
+});
+
+// =============================================================================
+// Management
+// =============================================================================
+
+describe('deletePasskey', () => {
+  beforeEach(() => {
+    mockFindLoginMethods.mockResolvedValue({ hasPassword: true, oauthProviders: [], passkeys: 1 });
+    mockFindWebAuthnCredentialsByUserId.mockResolvedValue([storedCredential]);
+    mockCountWebAuthnCredentials.mockResolvedValue(1);
+    mockDeleteWebAuthnCredential.mockResolvedValue(true);
+  });
+
+  it('refuses to remove the only way to sign in', async () => {
+    mockFindLoginMethods.mockResolvedValue({ hasPassword: false, oauthProviders: [], passkeys: 1 });
+
+    await expect(deletePasskey(user.id, 'session-1', 'pk-1', {})).rejects.toThrow(
+      'You cannot remove your only sign-in method'
+    );
+    expect(mockDeleteWebAuthnCredential).not.toHaveBeenCalled();
+  });
+
+  it('throws NotFound for a passkey the user does not own', async () => {
+    await expect(deletePasskey(user.id, 'session-1', 'pk-9', {})).rejects.toThrow(
+      'Passkey not found'
+    );
+    expect(mockDeleteWebAuthnCredential).not.toHaveBeenCalled();
+  });
+
+  it('refuses to remove the last second factor with a session alone', async () => {
+    await expect(deletePasskey(user.id, 'session-1', 'pk-1', {})).rejects.toThrow(ForbiddenError);
+    expect(mockDeleteWebAuthnCredential).not.toHaveBeenCalled();
+  });
+
+  it('removes the last second factor after a passkey assertion', async () => {
+    challengeStore.set('webauthn:auth:c-1', { challenge: 'xyz', userId: user.id });
+    mockFindWebAuthnCredentialByCredentialId.mockResolvedValue(storedCredential);
+    mockVerifyAuthenticationResponse.mockReturnValue({ signCount: 4, userVerified: false, backedUp: false });
+
+    await deletePasskey(user.id, 'session-1', 'pk-1', {
+      passkey: { challengeId: 'c-1', credential: assertion },
+    });
+
+    expect(mockDeleteWebAuthnCredential).toHaveBeenCalledWith(user.id, 'pk-1');
+  });
+
+  it('needs no step-up while the authenticator app stays on', async () => {
+    mockFindUserByIdWithCredentials.mockResolvedValue({ ...user, credentials: totpCredentials });
+
+    await deletePasskey(user.id, 'session-1', 'pk-1', {});
+
+    expect(mockDeleteWebAuthnCredential).toHaveBeenCalledWith(user.id, 'pk-1');
+  });
+});
@@ -0,0 +1,235 @@
+// =============================================================================
+// Account Operations Service
+// =============================================================================
+// Staff actions on a trading account — block, reactivate, manual breach,
+// manual upgrade and balance adjustment. YPF stays the source of truth: each
+// operation calls the platform, then immediately reconciles the account from
+// YPF (the same sync the poller runs) so our DB doesn't drift until the next
+// poll. Every operation needs a reason and is audited with the acting staff
+// member, the reason and the account's status/balance before and after.
+// =============================================================================
+
+import { AccountStatus, type Prisma } from '@prisma/client';
+import { prisma } from '../utils/database.js';
+import { logger } from '../utils/logger.js';
+import { NotFoundError, PlatformError } from '../utils/errors.js';
+import { getTradingPlatformProvider, type TradingPlatformProvider } from '../providers/index.js';
+import * as ypfSyncService from './ypf-sync.service.js';
+import { reactivateChallenge } from './challenge-transition.service.js';
+import { recordAudit, type AuditRequestContext } from './audit.service.js';
+
+/** Rule name recorded on YPF when staff breach an account without naming one. */
+const DEFAULT_MANUAL_BREACH_RULE = 'Manual breach';
+
+export interface AccountOperationInput {
+  actorId: string;
+  reason: string;
+}
+
+export interface ReactivateAccountInput extends AccountOperationInput {
+  /** Restart from the initial balance or keep the last one (YPF default when omitted). */
+  balanceSource?: 'initial' | 'last' | undefined;
+}
+
+export interface BreachAccountInput extends AccountOperationInput {
+  ruleName?: string | undefined;
+}
+
+export interface AdjustBalanceInput extends AccountOperationInput {
+  /** Signed amount YPF applies to the account balance. */
+  amount: number;
+}
+
+const accountStateSelect = {
+  id: true,
+  userId: true,
+  status: true,
+  currentBalance: true,
+  platformUserId: true,
+  platformAccountId: true,
+  deletedAt: true,
+} as const;
+
+/** Account state returned after an operation (null if the account is gone). */
+export type AccountState = Prisma.AccountGetPayload<{ select: typeof accountStateSelect }>;
+
+interface PlatformIds {
+  platformUserId: string;
+  platformAccountId: string;
+}
+
+interface AccountOperation {
+  /** Audit action, e.g. ACCOUNT_BLOCKED. */
+  action: string;
+  input: AccountOperationInput;
+  request: AuditRequestContext;
+  operate: (provider: TradingPlatformProvider, ids: PlatformIds) => Promise<unknown>;
+  /** Operation details recorded next to the reason. */
+  metadata?: Record<string, unknown>;
+  /** Runs between the platform call and the sync, for local state the sync won't touch. */
+  beforeSync?: () => Promise<void>;
+}
+
+/**
+ * Run one staff operation against the platform, reconcile, and audit it.
+ */
+const runAccountOperation = async (
+  accountId: string,
+  { action, input, request, operate, metadata = {}, beforeSync }: AccountOperation
+): Promise<AccountState | null> => {
+  const before = await prisma.account.findUnique({
+    where: { id: accountId, deletedAt: null },
+    select: accountStateSelect,
+  });
+  if (!before) throw new NotFoundError('Account not found');
+  if (!before.platformUserId || !before.platformAccountId) {
+    throw new PlatformError('This account is not linked to a trading platform yet', {}, 400);
+  }
+
+  await operate(getTradingPlatformProvider(), {
+    platformUserId: before.platformUserId,
+    platformAccountId: before.platformAccountId,
+  });
+
+  logger.info(
+    { accountId, action, actorId: input.actorId },
+    'Account operation applied on platform'
+  );
+
+  // The platform change already happened, so a sync failure must not turn
+  // into a failed request — the poller will reconcile.
+  try {
+    await beforeSync?.();
+    await ypfSyncService.syncAccountFromYPF({ localAccountId: accountId });
+  } catch (err) {
+    logger.warn({ err, accountId, action }, 'Post-operation sync failed — poller will reconcile');
+  }
+
+  const after = await prisma.account.findUnique({
+    where: { id: accountId },
+    select: accountStateSelect,
+  });
+
+  await recordAudit(
+    {
+      actorId: input.actorId,
+      action,
+      entity: 'Account',
+      entityId: accountId,
+      oldValues: { status: before.status, currentBalance: before.currentBalance },
+      newValues: after
+        ? {
+            status: after.status,
+            currentBalance: after.currentBalance,
+            deletedAt: after.deletedAt,
+          }
+        : undefined,
+      metadata: { reason: input.reason, ...metadata },
+    },
+    request
+  );
+
+  return after;
+};
+
+/**
+ * Block an account on the platform. YPF disables it for good, so the sync
+ * closes and soft-deletes it locally.
+ */
+export const blockAccount = async (
+  accountId: string,
+  input: AccountOperationInput,
+  request: AuditRequestContext = {}
+): Promise<AccountState | null> =>
+  runAccountOperation(accountId, {
+    action: 'ACCOUNT_BLOCKED',
+    input,
+    request,
+    operate: (provider, ids) => provider.blockAccount(ids.platformUserId, ids.platformAccountId),
+  });
+
+/**
+ * Reactivate a breached account. The poll sync leaves FAILED accounts alone,
+ * so the local challenge is reopened here before reconciling.
+ */
+export const reactivateAccount = async (
+  accountId: string,
+  input: ReactivateAccountInput,
+  request: AuditRequestContext = {}
+): Promise<AccountState | null> =>
+  runAccountOperation(accountId, {
+    action: 'ACCOUNT_REACTIVATED',
+    input,
+    request,
+    operate: (provider, ids) =>
+      provider.reactivateAccount(ids.platformUserId, ids.platformAccountId, input.balanceSource),
+    metadata: { balanceSource: input.balanceSource },
+    beforeSync: async () => {
+      const account = await prisma.account.findUnique({
+        where: { id: accountId },
+        select: { status: true },
+      });
+      if (account?.status === AccountStatus.FAILED) {
+        await reactivateChallenge(accountId);
+      }
+    },
+  });
+
+/**
+ * Breach an account on the platform; the sync then fails the challenge with
+ * the breach YPF records.
+ */
+export const breachAccount = async (
+  accountId: string,
+  input: BreachAccountInput,
+  request: AuditRequestContext = {}
+): Promise<AccountState | null> => {
+  const ruleName = input.ruleName ?? DEFAULT_MANUAL_BREACH_RULE;
+  return runAccountOperation(accountId, {
+    action: 'ACCOUNT_BREACHED',
+    input,
+    request,
+    operate: (provider, ids) =>
+      provider.manualBreachAccount(
+        ids.platformUserId,
+        ids.platformAccountId,
+        ruleName,
+        input.reason
+      ),
+    metadata: { ruleName },
+  });
+};
+
+/**
+ * Force an upgrade to the next program, bypassing YPF's level-up gate (and,
+ * for Standard plans, the activation checkout).
+ */
+export const upgradeAccount = async (
+  accountId: string,
+  input: AccountOperationInput,
+  request: AuditRequestContext = {}
+): Promise<AccountState | null> =>
+  runAccountOperation(accountId, {
+    action: 'ACCOUNT_UPGRADED_MANUALLY',
+    input,
+    request,
+    operate: (provider, ids) =>
+      provider.manualUpgradeAccount(ids.platformUserId, ids.platformAccountId),
+  });
+
+/**
+ * Adjust an account's balance on the platform by a signed amount.
+ */
+export const adjustBalance = async (
+  accountId: string,
+  input: AdjustBalanceInput,
+  request: AuditRequestContext = {}
+): Promise<AccountState | null> =>
+  runAccountOperation(accountId, {
+    action: 'ACCOUNT_BALANCE_ADJUSTED',
+    input,
+    request,
+    operate: (provider, ids) =>
+      provider.updateAccountBalance(ids.platformUserId, ids.platformAccountId, input.amount),
+    metadata: { amount: input.amount },
+  });
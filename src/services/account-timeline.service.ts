@@ -0,0 +1,249 @@
+// =============================================================================
+// Account Timeline Service
+// =============================================================================
+// "What happened to this account?" in one feed, newest first: staff notes,
+// challenge starts and transitions, rule violations, payout milestones,
+// resets (reactivations), other staff operations and support tickets that
+// reference the account or one of its payouts.
+//
+// Challenge transitions, resets and staff operations have no table of their
+// own — they come from the account's audit log entries. Paged backwards with
+// `before` (exclusive): pass the last event's `occurredAt` to get the next page.
+// =============================================================================
+
+import { PayoutStatus, type Payout } from '@prisma/client';
+import { prisma } from '../utils/database.js';
+import { NotFoundError } from '../utils/errors.js';
+
+export type TimelineEventType =
+  | 'note'
+  | 'challenge'
+  | 'rule_violation'
+  | 'payout'
+  | 'reset'
+  | 'account_action'
+  | 'support_ticket';
+
+export interface TimelineEvent {
+  type: TimelineEventType;
+  /** ID of the record behind the event (a payout yields one event per milestone). */
+  sourceId: string;
+  occurredAt: Date;
+  summary: string;
+  /** Who caused it; null for system/platform events or when unknown. */
+  actorId: string | null;
+  details: Record<string, unknown>;
+}
+
+export interface AccountTimelineOptions {
+  /** Only events strictly before this instant. */
+  before?: Date | undefined;
+  limit: number;
+}
+
+export interface AccountTimeline {
+  data: TimelineEvent[];
+  hasMore: boolean;
+}
+
+/** How account audit actions appear on the timeline. */
+const AUDIT_EVENTS: Record<string, { type: TimelineEventType; summary: string }> = {
+  CHALLENGE_ADVANCED: { type: 'challenge', summary: 'Challenge passed — account funded' },
+  CHALLENGE_FAILED: { type: 'challenge', summary: 'Challenge failed' },
+  ACCOUNT_UPGRADED: { type: 'challenge', summary: 'Evaluation passed — upgraded to a new account' },
+  CHALLENGE_REACTIVATED: { type: 'reset', summary: 'Challenge reopened after reactivation' },
+  ACCOUNT_REACTIVATED: { type: 'reset', summary: 'Account reactivated by staff' },
+  ACCOUNT_BLOCKED: { type: 'account_action', summary: 'Account blocked by staff' },
+  ACCOUNT_BREACHED: { type: 'account_action', summary: 'Account manually breached by staff' },
+  ACCOUNT_UPGRADED_MANUALLY: { type: 'account_action', summary: 'Account upgraded by staff' },
+  ACCOUNT_BALANCE_ADJUSTED: { type: 'account_action', summary: 'Balance adjusted by staff' },
+};
+
+const PHASE_LABELS: Record<string, string> = {
+  PHASE_1: 'Phase 1',
+  PHASE_2: 'Phase 2',
+  FUNDED: 'Funded',
+};
+
+const payoutEvents = (payout: Payout): TimelineEvent[] => {
+  const amount = `${payout.amount.toString()} ${payout.currency}`;
+  const base = { type: 'payout' as const, sourceId: payout.id };
+
+  const events: TimelineEvent[] = [
+    {
+      ...base,
+      occurredAt: payout.requestedAt,
+      summary: `Payout of ${amount} requested`,
+      actorId: null,
+      details: { amount: payout.amount, currency: payout.currency, method: payout.method },
+    },
+  ];
+
+  // A payout still PENDING has no decision yet, whatever its review fields say.
+  if (payout.reviewedAt && payout.status !== PayoutStatus.PENDING) {
+    events.push({
+      ...base,
+      occurredAt: payout.reviewedAt,
+      summary:
+        payout.status === PayoutStatus.REJECTED
+          ? `Payout of ${amount} rejected`
+          : `Payout of ${amount} approved`,
+      actorId: payout.reviewedBy,
+      details: { reviewNote: payout.reviewNote, rejectionReason: payout.rejectionReason },
+    });
+  }
+  if (payout.processedAt) {
+    events.push({
+      ...base,
+      occurredAt: payout.processedAt,
+      summary: `Payout of ${amount} paid`,
+      actorId: null,
+      details: { transferAmount: payout.transferAmount },
+    });
+  }
+  if (payout.failedAt) {
+    events.push({
+      ...base,
+      occurredAt: payout.failedAt,
+      summary: `Payout of ${amount} failed`,
+      actorId: null,
+      details: { failureReason: payout.failureReason },
+    });
+  }
+
+  return events;
+};
+
+/**
+ * A page of the account's timeline, newest first. Works for closed and
+ * blocked (soft-deleted) accounts too.
+ */
+export const getAccountTimeline = async (
+  accountId: string,
+  { before, limit }: AccountTimelineOptions
+): Promise<AccountTimeline> => {
+  const account = await prisma.account.findUnique({
+    where: { id: accountId },
+    select: { id: true },
+  });
+  if (!account) throw new NotFoundError('Account not found');
+
+  // Each source only needs its newest limit+1 rows for the merged page to be
+  // complete. Payouts are expanded into milestones, so all of them are read.
+  const take = limit + 1;
+  const createdBefore = before ? { createdAt: { lt: before } } : {};
+
+  const payouts = await prisma.payout.findMany({ where: { accountId } });
+
+  const [notes, challenges, violations, audits, tickets] = await Promise.all([
+    prisma.adminNote.findMany({
+      where: { accountId, ...createdBefore },
+      orderBy: { createdAt: 'desc' },
+      take,
+    }),
+    prisma.challenge.findMany({
+      where: { accountId, ...(before && { startedAt: { lt: before } }) },
+      orderBy: { startedAt: 'desc' },
+      take,
+    }),
+    prisma.ruleViolation.findMany({
+      where: { accountId, ...createdBefore },
+      orderBy: { createdAt: 'desc' },
+      take,
+    }),
+    prisma.auditLog.findMany({
+      where: {
+        entity: 'Account',
+        entityId: accountId,
+        action: { in: Object.keys(AUDIT_EVENTS) },
+        ...createdBefore,
+      },
+      orderBy: { createdAt: 'desc' },
+      take,
+    }),
+    prisma.supportTicket.findMany({
+      where: {
+        relatedEntityId: { in: [accountId, ...payouts.map((p) => p.id)] },
+        ...createdBefore,
+      },
+      orderBy: { createdAt: 'desc' },
+      take,
+    }),
+  ]);
+
+  const events: TimelineEvent[] = [
+    ...notes.map(
+      (n): TimelineEvent => ({
+        type: 'note',
+        sourceId: n.id,
+        occurredAt: n.createdAt,
+        summary: 'Staff note added',
+        actorId: n.authorId,
+        details: { note: n.note, isPrivate: n.isPrivate },
+      })
+    ),
+    ...challenges.map(
+      (c): TimelineEvent => ({
+        type: 'challenge',
+        sourceId: c.id,
+        occurredAt: c.startedAt,
+        summary: `${PHASE_LABELS[c.phase] ?? c.phase} challenge started`,
+        actorId: null,
+        details: { phase: c.phase, status: c.status, completedAt: c.completedAt },
+      })
+    ),
+    ...violations.map(
+      (v): TimelineEvent => ({
+        type: 'rule_violation',
+        sourceId: v.id,
+        occurredAt: v.createdAt,
+        summary: v.description,
+        actorId: null,
+        details: {
+          violationType: v.type,
+          severity: v.severity,
+          causedFailure: v.causedFailure,
+          triggeredValue: v.triggeredValue,
+          thresholdValue: v.thresholdValue,
+        },
+      })
+    ),
+    ...audits.map((a): TimelineEvent => {
+      const event = AUDIT_EVENTS[a.action] ?? { type: 'account_action', summary: a.action };
+      return {
+        type: event.type,
+        sourceId: a.id,
+        occurredAt: a.createdAt,
+        summary: event.summary,
+        actorId: a.userId,
+        details: {
+          action: a.action,
+          oldValues: a.oldValues,
+          newValues: a.newValues,
+          metadata: a.metadata,
+        },
+      };
+    }),
+    ...tickets.map(
+      (t): TimelineEvent => ({
+        type: 'support_ticket',
+        sourceId: t.id,
+        occurredAt: t.createdAt,
+        summary: `Support ticket opened: ${t.subject}`,
+        actorId: t.creatorId,
+        details: {
+          status: t.status,
+          priority: t.priority,
+          relatedEntity: t.relatedEntity,
+          relatedEntityId: t.relatedEntityId,
+        },
+      })
+    ),
+    ...payouts.flatMap(payoutEvents).filter((e) => !before || e.occurredAt < before),
+  ].sort((a, b) => b.occurredAt.getTime() - a.occurredAt.getTime());
+
+  return {
+    data: events.slice(0, limit),
+    hasMore: events.length > limit,
+  };
+};
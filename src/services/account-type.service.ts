@@ -0,0 +1,314 @@
+// =============================================================================
+// Account Type Service
+// =============================================================================
+// Admin management of the plan catalog, so pricing and payout terms change
+// without a deploy, and the public catalog served to the marketing site.
+//
+// `name` and `accountSize` are fixed at creation: checkout provisioning finds
+// the type by name (e.g. STANDARD_50K) and every account's balances derive from
+// the size. A type with accounts still being traded can't be deactivated or
+// deleted; one that has ever had accounts can only be deactivated.
+// =============================================================================
+
+import type { ChallengePhase, ChallengeRule } from '@prisma/client';
+import { ConflictError, NotFoundError } from '../utils/errors.js';
+import { accountTypeRepository } from '../repositories/index.js';
+import type {
+  AccountTypeData,
+  AccountTypeWithRules,
+  ChallengeRuleData,
+  CreateAccountTypeData,
+} from '../repositories/account-type.repository.js';
+import { recordAudit, type AuditRequestContext } from './audit.service.js';
+
+export interface ChallengeRuleDTO {
+  phase: ChallengePhase;
+  profitTarget: number;
+  maxDailyLoss: number;
+  maxTotalDrawdown: number;
+  drawdownType: string;
+  minTradingDays: number;
+  maxTradingDays: number | null;
+  consistencyRule: boolean;
+  maxSingleDayProfit: number | null;
+  maxPositionSize: number | null;
+  maxOpenPositions: number | null;
+  newsRestriction: boolean;
+  weekendRestriction: boolean;
+}
+
+/** A plan as the marketing site shows it. */
+export interface PlanDTO {
+  id: string;
+  name: string;
+  displayName: string;
+  description: string | null;
+  accountSize: number;
+  price: number;
+  resetPrice: number;
+  profitSplit: number;
+  minPayoutAmount: number;
+  payoutFrequency: string;
+  payoutCycleCap: number | null;
+  sortOrder: number;
+  rules: ChallengeRuleDTO[];
+}
+
+export interface AccountTypeDTO extends PlanDTO {
+  isActive: boolean;
+  ypfProgramId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type CreateAccountTypeInput = CreateAccountTypeData & {
+  rules?: ({ phase: ChallengePhase } & ChallengeRuleData)[] | undefined;
+};
+
+const toRuleDTO = (rule: ChallengeRule): ChallengeRuleDTO => ({
+  phase: rule.phase,
+  profitTarget: Number(rule.profitTarget),
+  maxDailyLoss: Number(rule.maxDailyLoss),
+  maxTotalDrawdown: Number(rule.maxTotalDrawdown),
+  drawdownType: rule.drawdownType,
+  minTradingDays: rule.minTradingDays,
+  maxTradingDays: rule.maxTradingDays,
+  consistencyRule: rule.consistencyRule,
+  maxSingleDayProfit: rule.maxSingleDayProfit === null ? null : Number(rule.maxSingleDayProfit),
+  maxPositionSize: rule.maxPositionSize,
+  maxOpenPositions: rule.maxOpenPositions,
+  newsRestriction: rule.newsRestriction,
+  weekendRestriction: rule.weekendRestriction,
+});
+
+const toPlanDTO = (type: AccountTypeWithRules): PlanDTO => ({
+  id: type.id,
+  name: type.name,
+  displayName: type.displayName,
+  description: type.description,
+  accountSize: Number(type.accountSize),
+  price: Number(type.price),
+  resetPrice: Number(type.resetPrice),
+  profitSplit: type.profitSplit,
+  minPayoutAmount: Number(type.minPayoutAmount),
+  payoutFrequency: type.payoutFrequency,
+  payoutCycleCap: type.payoutCycleCap === null ? null : Number(type.payoutCycleCap),
+  sortOrder: type.sortOrder,
+  rules: type.challengeRules.map(toRuleDTO),
+});
+
+const toAccountTypeDTO = (type: AccountTypeWithRules): AccountTypeDTO => ({
+  ...toPlanDTO(type),
+  isActive: type.isActive,
+  ypfProgramId: type.ypfProgramId,
+  createdAt: type.createdAt,
+  updatedAt: type.updatedAt,
+});
+
+const findAccountTypeOrThrow = async (id: string): Promise<AccountTypeWithRules> => {
+  const type = await accountTypeRepository.findAccountTypeById(id);
+  if (!type) throw new NotFoundError('Account type not found');
+  return type;
+};
+
+/** Throws `message` while accounts of the type are still being traded. */
+const assertNoLiveAccounts = async (id: string, message: string): Promise<number> => {
+  const { total, live } = await accountTypeRepository.countAccountsByType(id);
+  if (live > 0) {
+    throw new ConflictError(message, { activeAccounts: live });
+  }
+  return total;
+};
+
+// =============================================================================
+// Public catalog
+// =============================================================================
+
+/**
+ * Active plans with their rules, in display order.
+ */
+export const listPlans = async (): Promise<PlanDTO[]> => {
+  return (await accountTypeRepository.findAccountTypes()).map(toPlanDTO);
+};
+
+// =============================================================================
+// Admin
+// =============================================================================
+
+export const listAccountTypes = async (includeInactive = true): Promise<AccountTypeDTO[]> => {
+  return (await accountTypeRepository.findAccountTypes(includeInactive)).map(toAccountTypeDTO);
+};
+
+export const getAccountType = async (id: string): Promise<AccountTypeDTO> => {
+  return toAccountTypeDTO(await findAccountTypeOrThrow(id));
+};
+
+/**
+ * Create an account type, optionally with its phase rules.
+ */
+export const createAccountType = async (
+  { rules = [], ...data }: CreateAccountTypeInput,
+  actorId: string,
+  request: AuditRequestContext = {}
+): Promise<AccountTypeDTO> => {
+  if (await accountTypeRepository.findAccountTypeByName(data.name)) {
+    throw new ConflictError(`An account type named ${data.name} already exists`);
+  }
+
+  const type = await accountTypeRepository.createAccountType(data, rules);
+
+  await recordAudit(
+    {
+      actorId,
+      action: 'ACCOUNT_TYPE_CREATED',
+      entity: 'AccountType',
+      entityId: type.id,
+      newValues: { ...toAccountTypeDTO(type) },
+    },
+    request
+  );
+
+  return toAccountTypeDTO(type);
+};
+
+/**
+ * Update an account type's terms. Deactivating is refused while accounts of
+ * the type are still being traded.
+ */
+export const updateAccountType = async (
+  id: string,
+  data: AccountTypeData,
+  actorId: string,
+  request: AuditRequestContext = {}
+): Promise<AccountTypeDTO> => {
+  const before = await findAccountTypeOrThrow(id);
+  if (data.isActive === false && before.isActive) {
+    await assertNoLiveAccounts(id, 'Cannot deactivate an account type with active accounts');
+  }
+
+  const type = await accountTypeRepository.updateAccountType(id, data);
+  const changed = Object.keys(data) as (keyof AccountTypeData)[];
+  const oldDTO = toAccountTypeDTO(before);
+  const newDTO = toAccountTypeDTO(type);
+
+  await recordAudit(
+    {
+      actorId,
+      action: 'ACCOUNT_TYPE_UPDATED',
+      entity: 'AccountType',
+      entityId: id,
+      oldValues: Object.fromEntries(changed.map((key) => [key, oldDTO[key]])),
+      newValues: Object.fromEntries(changed.map((key) => [key, newDTO[key]])),
+    },
+    request
+  );
+
+  return newDTO;
+};
+
+/**
+ * Delete an account type that no account has ever used (a mistake caught
+ * early). Anything else should be deactivated instead.
+ */
+export const deleteAccountType = async (
+  id: string,
+  actorId: string,
+  request: AuditRequestContext = {}
+): Promise<void> => {
+  const before = await findAccountTypeOrThrow(id);
+  const total = await assertNoLiveAccounts(
+    id,
+    'Cannot delete an account type with active accounts'
+  );
+  if (total > 0) {
+    throw new ConflictError('This account type has accounts — deactivate it instead', {
+      accounts: total,
+    });
+  }
+
+  await accountTypeRepository.deleteAccountType(id);
+
+  await recordAudit(
+    {
+      actorId,
+      action: 'ACCOUNT_TYPE_DELETED',
+      entity: 'AccountType',
+      entityId: id,
+      oldValues: { ...toAccountTypeDTO(before) },
+    },
+    request
+  );
+};
+
+// =============================================================================
+// Challenge rules
+// =============================================================================
+// Rules are copied onto a challenge when it starts, so edits apply to new
+// challenges only. A rule can't be removed while accounts are being traded:
+// provisioning and phase advancement (e.g. PHASE_1 → FUNDED) look it up.
+
+/**
+ * Create or replace the rule for one phase of an account type.
+ */
+export const setChallengeRule = async (
+  accountTypeId: string,
+  phase: ChallengePhase,
+  rule: ChallengeRuleData,
+  actorId: string,
+  request: AuditRequestContext = {}
+): Promise<AccountTypeDTO> => {
+  const before = await findAccountTypeOrThrow(accountTypeId);
+  const previous = before.challengeRules.find((r) => r.phase === phase);
+
+  await accountTypeRepository.upsertChallengeRule(accountTypeId, phase, rule);
+  const type = await findAccountTypeOrThrow(accountTypeId);
+
+  await recordAudit(
+    {
+      actorId,
+      action: 'CHALLENGE_RULE_SET',
+      entity: 'AccountType',
+      entityId: accountTypeId,
+      oldValues: previous ? { ...toRuleDTO(previous) } : undefined,
+      newValues: { ...rule },
+      metadata: { phase },
+    },
+    request
+  );
+
+  return toAccountTypeDTO(type);
+};
+
+/**
+ * Remove the rule for one phase. Refused while the type has active accounts.
+ */
+export const deleteChallengeRule = async (
+  accountTypeId: string,
+  phase: ChallengePhase,
+  actorId: string,
+  request: AuditRequestContext = {}
+): Promise<AccountTypeDTO> => {
+  const before = await findAccountTypeOrThrow(accountTypeId);
+  const previous = before.challengeRules.find((r) => r.phase === phase);
+  if (!previous) throw new NotFoundError(`No ${phase} rule on this account type`);
+  await assertNoLiveAccounts(
+    accountTypeId,
+    `Cannot delete the ${phase} rule of an account type with active accounts`
+  );
+
+  await accountTypeRepository.deleteChallengeRule(accountTypeId, phase);
+
+  await recordAudit(
+    {
+      actorId,
+      action: 'CHALLENGE_RULE_DELETED',
+      entity: 'AccountType',
+      entityId: accountTypeId,
+      oldValues: { ...toRuleDTO(previous) },
+      metadata: { phase },
+    },
+    request
+  );
+
+  return toAccountTypeDTO(await findAccountTypeOrThrow(accountTypeId));
+};
@@ -0,0 +1,184 @@
+// =============================================================================
+// Admin Note Service
+// =============================================================================
+// Staff notes on a trading account, for the context support would otherwise
+// have to reconstruct ("trader called about the breach, agreed to a reset").
+// Notes can be written on closed/blocked accounts too. Authors edit and delete
+// their own notes; anyone else needs accounts.manage. Every change is audited.
+// =============================================================================
+
+import type { AdminNote } from '@prisma/client';
+import { prisma } from '../utils/database.js';
+import { ForbiddenError, NotFoundError } from '../utils/errors.js';
+import { adminNoteRepository } from '../repositories/index.js';
+import { hasPermission, type PermissionSubject } from './permission.service.js';
+import { pickFields, recordAudit, type AuditRequestContext } from './audit.service.js';
+
+export interface NoteAuthor {
+  id: string;
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+}
+
+export interface AdminNoteDTO {
+  id: string;
+  accountId: string;
+  note: string;
+  isPrivate: boolean;
+  /** Null if the author's user record no longer exists. */
+  author: NoteAuthor | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateAdminNoteInput {
+  note: string;
+  isPrivate?: boolean | undefined;
+}
+
+export interface UpdateAdminNoteInput {
+  note?: string | undefined;
+  isPrivate?: boolean | undefined;
+}
+
+const assertAccountExists = async (accountId: string): Promise<void> => {
+  const account = await prisma.account.findUnique({
+    where: { id: accountId },
+    select: { id: true },
+  });
+  if (!account) throw new NotFoundError('Account not found');
+};
+
+/**
+ * AdminNote has no author relation, so authors are looked up in one query.
+ */
+export const toAdminNoteDTOs = async (notes: AdminNote[]): Promise<AdminNoteDTO[]> => {
+  const authorIds = [...new Set(notes.map((n) => n.authorId))];
+  const authors =
+    authorIds.length > 0
+      ? await prisma.user.findMany({
+          where: { id: { in: authorIds } },
+          select: { id: true, email: true, firstName: true, lastName: true },
+        })
+      : [];
+  const authorsById = new Map(authors.map((a) => [a.id, a]));
+
+  return notes.map((n) => ({
+    id: n.id,
+    accountId: n.accountId,
+    note: n.note,
+    isPrivate: n.isPrivate,
+    author: authorsById.get(n.authorId) ?? null,
+    createdAt: n.createdAt,
+    updatedAt: n.updatedAt,
+  }));
+};
+
+const toAdminNoteDTO = async (note: AdminNote): Promise<AdminNoteDTO> => {
+  const [dto] = await toAdminNoteDTOs([note]);
+  return dto as AdminNoteDTO;
+};
+
+/**
+ * Load a note on `accountId` that `actor` may edit or delete.
+ */
+const findEditableNote = async (
+  accountId: string,
+  noteId: string,
+  actor: PermissionSubject
+): Promise<AdminNote> => {
+  const note = await adminNoteRepository.findNoteById(noteId);
+  if (!note || note.accountId !== accountId) throw new NotFoundError('Note not found');
+
+  if (note.authorId !== actor.id && !(await hasPermission(actor, 'accounts.manage'))) {
+    throw new ForbiddenError('Only the author can change this note');
+  }
+  return note;
+};
+
+/**
+ * All notes on an account, newest first.
+ */
+export const listNotes = async (accountId: string): Promise<AdminNoteDTO[]> => {
+  await assertAccountExists(accountId);
+  return toAdminNoteDTOs(await adminNoteRepository.findNotesByAccount(accountId));
+};
+
+export const createNote = async (
+  accountId: string,
+  authorId: string,
+  input: CreateAdminNoteInput,
+  request: AuditRequestContext = {}
+): Promise<AdminNoteDTO> => {
+  await assertAccountExists(accountId);
+
+  const note = await adminNoteRepository.createNote({
+    accountId,
+    authorId,
+    note: input.note,
+    isPrivate: input.isPrivate,
+  });
+
+  await recordAudit(
+    {
+      actorId: authorId,
+      action: 'ADMIN_NOTE_CREATED',
+      entity: 'AdminNote',
+      entityId: note.id,
+      newValues: pickFields(note, ['note', 'isPrivate']),
+      metadata: { accountId },
+    },
+    request
+  );
+
+  return toAdminNoteDTO(note);
+};
+
+export const updateNote = async (
+  accountId: string,
+  noteId: string,
+  actor: PermissionSubject,
+  input: UpdateAdminNoteInput,
+  request: AuditRequestContext = {}
+): Promise<AdminNoteDTO> => {
+  const before = await findEditableNote(accountId, noteId, actor);
+  const note = await adminNoteRepository.updateNote(noteId, input);
+
+  await recordAudit(
+    {
+      actorId: actor.id,
+      action: 'ADMIN_NOTE_UPDATED',
+      entity: 'AdminNote',
+      entityId: noteId,
+      oldValues: pickFields(before, ['note', 'isPrivate']),
+      newValues: pickFields(note, ['note', 'isPrivate']),
+      metadata: { accountId },
+    },
+    request
+  );
+
+  return toAdminNoteDTO(note);
+};
+
+export const deleteNote = async (
+  accountId: string,
+  noteId: string,
+  actor: PermissionSubject,
+  request: AuditRequestContext = {}
+): Promise<void> => {
+  const before = await findEditableNote(accountId, noteId, actor);
+  await adminNoteRepository.deleteNote(noteId);
+
+  await recordAudit(
+    {
+      actorId: actor.id,
+      action: 'ADMIN_NOTE_DELETED',
+      entity: 'AdminNote',
+      entityId: noteId,
+      oldValues: pickFields(before, ['note', 'isPrivate', 'authorId']),
+      metadata: { accountId },
+    },
+    request
+  );
+};
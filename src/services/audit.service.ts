@@ -0,0 +1,316 @@
+import type { AuditLog, Prisma } from '@prisma/client';
+import { logger } from '../utils/logger.js';
+import { ValidationError } from '../utils/errors.js';
+import {
+  AUDIT_HASH_ALGORITHM,
+  computeAuditHash,
+  GENESIS_HASH,
+} from '../utils/audit-chain.js';
+import {
+  createAuditLog,
+  findAuditLogs,
+  findAuditLogsAfter,
+  findAuditLogsForExport,
+  findChainEnd,
+  type AuditClient,
+  type AuditLogFilters,
+  type AuditLogPagination,
+  type CreateAuditLogData,
+  type PaginatedAuditLogs,
+} from '../repositories/audit.repository.js';
+
+// =============================================================================
+// Audit Service
+// =============================================================================
+// Who changed what, from where. Every privileged mutation records the actor
+// (null for system jobs such as the YPF poller), the entity it touched, the
+// before/after values of the fields it changed, and the IP, user agent and
+// request ID of the request that caused it.
+//
+// Two ways to write:
+//   • `recordAudit` — after the change has been committed. Never throws: the
+//     change already happened, so a failed write is logged, not surfaced.
+//   • `recordAuditInTransaction` — inside the change's `$transaction`, so the
+//     entry and the change commit (or roll back) together.
+//
+// Entries are hash-chained (src/utils/audit-chain.ts); `verifyAuditChain`
+// walks the chain and `exportAuditLogs` hands out entries with the anchors
+// needed to check them outside our systems.
+// =============================================================================
+
+export interface AuditRequestContext {
+  ipAddress?: string | undefined;
+  userAgent?: string | undefined;
+  requestId?: string | undefined;
+}
+
+export interface AuditEntry {
+  /** The user who made the change; null for system-initiated changes. */
+  actorId: string | null;
+  action: string;
+  entity: string;
+  entityId?: string | null | undefined;
+  oldValues?: Record<string, unknown> | undefined;
+  newValues?: Record<string, unknown> | undefined;
+  metadata?: Record<string, unknown> | undefined;
+}
+
+/**
+ * Round-trip through JSON so Dates, Decimals and `undefined` fields are
+ * stored the way an API client would see them.
+ */
+const toJson = (
+  value: Record<string, unknown> | undefined
+): Prisma.InputJsonValue | undefined => {
+  if (value === undefined) return undefined;
+  return JSON.parse(JSON.stringify(value)) as Prisma.InputJsonValue;
+};
+
+const toAuditLogData = (
+  entry: AuditEntry,
+  request: AuditRequestContext
+): CreateAuditLogData => ({
+  userId: entry.actorId,
+  action: entry.action,
+  entity: entry.entity,
+  entityId: entry.entityId,
+  oldValues: toJson(entry.oldValues),
+  newValues: toJson(entry.newValues),
+  ipAddress: request.ipAddress,
+  userAgent: request.userAgent,
+  requestId: request.requestId,
+  metadata: toJson(entry.metadata),
+});
+
+/**
+ * The subset of `source` named by `keys` — the "old values" of an update.
+ */
+export const pickFields = <T extends object, K extends keyof T>(
+  source: T,
+  keys: readonly K[]
+): Record<string, unknown> => {
+  const picked: Record<string, unknown> = {};
+  for (const key of keys) {
+    picked[key as string] = source[key];
+  }
+  return picked;
+};
+
+/**
+ * Record a change that has already been committed. Never throws.
+ */
+export const recordAudit = async (
+  entry: AuditEntry,
+  request: AuditRequestContext = {}
+): Promise<void> => {
+  try {
+    await createAuditLog(toAuditLogData(entry, request));
+  } catch (err) {
+    logger.error(
+      { err, action: entry.action, entity: entry.entity, entityId: entry.entityId },
+      'Failed to write audit log entry'
+    );
+  }
+};
+
+/**
+ * Record a change inside its transaction. A failed write throws and rolls the
+ * change back with it.
+ */
+export const recordAuditInTransaction = async (
+  tx: AuditClient,
+  entry: AuditEntry,
+  request: AuditRequestContext = {}
+): Promise<void> => {
+  await createAuditLog(toAuditLogData(entry, request), tx);
+};
+
+/**
+ * Query the audit log, newest first.
+ */
+export const listAuditLogs = async (
+  filters: AuditLogFilters,
+  pagination: AuditLogPagination
+): Promise<PaginatedAuditLogs> => {
+  return findAuditLogs(filters, pagination);
+};
+
+// =============================================================================
+// Hash chain
+// =============================================================================
+
+const VERIFY_BATCH_SIZE = 500;
+const EXPORT_MAX_ENTRIES = 10_000;
+
+export interface AuditChainAnchor {
+  id: string;
+  sequence: number;
+  hash: string;
+  createdAt: Date;
+}
+
+export type AuditChainBreakReason =
+  /** The entry's content no longer matches its hash — it was edited. */
+  | 'hash_mismatch'
+  /** The entry doesn't link to its predecessor — entries were removed, inserted or reordered. */
+  | 'prev_hash_mismatch'
+  /** An unhashed entry after the chain started — written around the chain. */
+  | 'missing_hash';
+
+export interface AuditChainVerification {
+  valid: boolean;
+  /** Chained entries checked (up to and including the first broken one). */
+  checked: number;
+  /** Entries written before the chain existed; not covered by it. */
+  unchained: number;
+  head: AuditChainAnchor | null;
+  brokenAt?: {
+    id: string;
+    sequence: number;
+    reason: AuditChainBreakReason;
+  };
+}
+
+const toAnchor = (entry: AuditLog): AuditChainAnchor => ({
+  id: entry.id,
+  sequence: entry.sequence,
+  hash: entry.hash as string,
+  createdAt: entry.createdAt,
+});
+
+const recomputeHash = (entry: AuditLog): string =>
+  computeAuditHash(entry.prevHash ?? GENESIS_HASH, {
+    userId: entry.userId,
+    action: entry.action,
+    entity: entry.entity,
+    entityId: entry.entityId,
+    oldValues: entry.oldValues,
+    newValues: entry.newValues,
+    ipAddress: entry.ipAddress,
+    userAgent: entry.userAgent,
+    requestId: entry.requestId,
+    metadata: entry.metadata,
+    createdAt: entry.createdAt,
+  });
+
+/**
+ * Walk the whole chain in order and stop at the first broken link.
+ */
+export const verifyAuditChain = async (): Promise<AuditChainVerification> => {
+  let checked = 0;
+  let unchained = 0;
+  let expectedPrevHash: string | null = null;
+  let head: AuditLog | null = null;
+  let after = 0;
+
+  for (;;) {
+    const batch = await findAuditLogsAfter(after, VERIFY_BATCH_SIZE);
+    if (batch.length === 0) break;
+
+    for (const entry of batch) {
+      after = entry.sequence;
+
+      if (!entry.hash) {
+        if (expectedPrevHash === null) {
+          unchained += 1;
+          continue;
+        }
+        return {
+          valid: false,
+          checked,
+          unchained,
+          head: head && toAnchor(head),
+          brokenAt: { id: entry.id, sequence: entry.sequence, reason: 'missing_hash' },
+        };
+      }
+
+      checked += 1;
+      const reason: AuditChainBreakReason | null =
+        entry.prevHash !== (expectedPrevHash ?? GENESIS_HASH)
+          ? 'prev_hash_mismatch'
+          : recomputeHash(entry) !== entry.hash
+            ? 'hash_mismatch'
+            : null;
+      if (reason) {
+        return {
+          valid: false,
+          checked,
+          unchained,
+          head: head && toAnchor(head),
+          brokenAt: { id: entry.id, sequence: entry.sequence, reason },
+        };
+      }
+
+      expectedPrevHash = entry.hash;
+      head = entry;
+    }
+  }
+
+  return { valid: true, checked, unchained, head: head && toAnchor(head) };
+};
+
+export interface AuditExport {
+  exportedAt: Date;
+  algorithm: string;
+  /** How each entry's `hash` is derived, for whoever checks the export. */
+  hashConstruction: string;
+  filters: AuditLogFilters;
+  anchors: {
+    /** First chained entry; its prevHash is the genesis hash. */
+    genesis: AuditChainAnchor | null;
+    /** Latest chained entry at export time. */
+    head: AuditChainAnchor | null;
+  };
+  entries: AuditLog[];
+}
+
+/**
+ * Matching entries in chain order, each with its hash and prevHash, plus the
+ * chain's genesis and head. Each entry can be re-hashed on its own; the head
+ * can be compared with one recorded earlier (e.g. in a previous export) to
+ * show nothing was cut from the end. The export itself is audited.
+ */
+export const exportAuditLogs = async (
+  filters: AuditLogFilters,
+  actorId: string,
+  request: AuditRequestContext = {}
+): Promise<AuditExport> => {
+  const entries = await findAuditLogsForExport(filters, EXPORT_MAX_ENTRIES + 1);
+  if (entries.length > EXPORT_MAX_ENTRIES) {
+    throw new ValidationError(
+      `More than ${EXPORT_MAX_ENTRIES} entries match; narrow the filters or date range`
+    );
+  }
+
+  const [genesis, head] = await Promise.all([findChainEnd('first'), findChainEnd('last')]);
+
+  await recordAudit(
+    {
+      actorId,
+      action: 'AUDIT_LOG_EXPORTED',
+      entity: 'AuditLog',
+      metadata: {
+        filters: { ...filters },
+        entries: entries.length,
+        headSequence: head?.sequence ?? null,
+        headHash: head?.hash ?? null,
+      },
+    },
+    request
+  );
+
+  return {
+    exportedAt: new Date(),
+    algorithm: AUDIT_HASH_ALGORITHM,
+    hashConstruction:
+      'hex(sha256(prevHash + canonicalJson({userId, action, entity, entityId, oldValues, ' +
+      'newValues, ipAddress, userAgent, requestId, metadata, createdAt}))), keys sorted at ' +
+      'every level, createdAt as an ISO-8601 string',
+    filters,
+    anchors: {
+      genesis: genesis && toAnchor(genesis),
+      head: head && toAnchor(head),
+    },
+    entries,
+  };
+};
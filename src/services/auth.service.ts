@@ -2,15 +2,18 @@ import { randomUUID, randomBytes, createHash } from 'crypto';
 import bcrypt from 'bcrypt';
 import jwt from 'jsonwebtoken';
 import type { StringValue } from 'ms';
-import { OAuth2Client } from 'google-auth-library';
-import { UserStatus } from '@prisma/client';
+import { UserStatus, type User, type UserCredential } from '@prisma/client';
 
 import { config } from '../config/index.js';
 import { logger } from '../utils/logger.js';
+import { describeDevice } from '../utils/user-agent.js';
+import { signJwt, verifyJwt } from '../utils/jwt-keys.js';
 import {
   AuthenticationError,
   BadRequestError,
   ConflictError,
+  ForbiddenError,
+  NotFoundError,
   UnauthorizedError,
   ValidationError,
   InvalidTokenError,
@@ -20,14 +23,27 @@ import {
   findUserByEmail,
   findUserByEmailWithCredentials,
   findUserById,
+  findUserByIdWithCredentials,
   createUserWithPassword,
   createOAuthUser,
   findOAuthAccount,
+  findOAuthAccountsByUserId,
   linkOAuthAccount,
+  deleteOAuthAccount,
+  findLoginMethods,
   createSession,
+  findSessionById,
   findSessionByToken,
   deleteSession,
   deleteAllUserSessions,
+  findActiveUserSessions,
+  deleteUserSession,
+  deleteOtherUserSessions,
+  pruneUserSessions,
+  rotateSessionRefreshToken,
+  findRotatedRefreshToken,
+  deleteSessionFamily,
+  recordSecurityEvent,
   updateLastLogin,
   incrementFailedAttempts,
   resetFailedAttempts,
@@ -35,16 +51,55 @@ import {
   setPasswordResetToken,
   findUserByResetTokenHash,
   consumePasswordReset,
+  forcePasswordReset as clearCredentialsForReset,
+  updatePasswordHash,
+  setEmailVerificationToken,
+  findUserByEmailVerificationTokenHash,
+  consumeEmailVerification,
+  setMagicLinkToken,
+  findUserByMagicLinkTokenHash,
+  consumeMagicLinkToken,
+  countWebAuthnCredentials,
   type SafeUser,
 } from '../repositories/auth.repository.js';
-import { sendPasswordResetEmail } from './email.service.js';
+import {
+  sendPasswordResetEmail,
+  sendPasswordChangedEmail,
+  sendEmailVerificationEmail,
+  sendAccountLockedEmail,
+  sendForcedPasswordResetEmail,
+  sendMagicLinkEmail,
+} from './email.service.js';
 import { ensurePlatformUserAsync } from './user.service.js';
+import { invalidateSecurityStamp } from './security-stamp.service.js';
+import { assertPasswordAllowed } from './password-policy.service.js';
+import { verifyMfaCode } from './mfa.service.js';
+import {
+  recordLoginSuccess,
+  recordLoginFailure,
+  type LoginAttemptContext,
+  type LoginFailureReason,
+  type LoginMethod,
+} from './login-history.service.js';
+import {
+  getAuthenticationOptions,
+  verifyAuthentication,
+  type AuthenticationOptionsResult,
+} from './webauthn.service.js';
+import { assertJurisdictionAllowed } from './jurisdiction.service.js';
+import type { AuthenticationResponseJSON } from '../utils/webauthn.js';
+import {
+  getIdentityProvider,
+  type IdentityCredential,
+  type IdentityProvider,
+  type VerifiedIdentity,
+} from '../providers/identity/index.js';
 import type { JwtPayload } from '../api/middleware/auth.js';
 
 // =============================================================================
 // Auth Service
 // =============================================================================
-// Business logic for registration, login, Google SSO, token management.
+// Business logic for registration, login, social sign-in, token management.
 // =============================================================================
 
 // ---------------------------------------------------------------------------
@@ -53,20 +108,7 @@ import type { JwtPayload } from '../api/middleware/auth.js';
 
 const MAX_FAILED_ATTEMPTS = 5;
 const LOCKOUT_MINUTES = 30;
-const GOOGLE_PROVIDER = 'google';
-
-// ---------------------------------------------------------------------------
-// Google OAuth Client (lazy-init)
-// ---------------------------------------------------------------------------
-
-let _googleClient: OAuth2Client | null = null;
-
-const getGoogleClient = (): OAuth2Client => {
-  if (!_googleClient) {
-    _googleClient = new OAuth2Client(config.google.clientId);
-  }
-  return _googleClient;
-};
+const MFA_PENDING_TOKEN_EXPIRES_IN = '5m';
 
 // ---------------------------------------------------------------------------
 // Token Helpers
@@ -89,7 +131,7 @@ export const generateAccessToken = (user: SafeUser, sessionId: string): string =
     sid: sessionId,
   };
 
-  return jwt.sign(payload, config.jwt.secret, {
+  return signJwt(payload, {
     expiresIn: config.jwt.expiresIn as StringValue,
   });
 };
@@ -106,8 +148,11 @@ export const generateRefreshToken = (user: SafeUser, sessionId: string): string
     sid: sessionId,
   };
 
-  return jwt.sign(payload, config.jwt.secret, {
+  // Unique jti: two refresh tokens for the same session minted in the same
+  // second must still differ, or rotation couldn't tell them apart.
+  return signJwt(payload, {
     expiresIn: config.jwt.refreshExpiresIn as StringValue,
+    jwtid: randomUUID(),
   });
 };
 
@@ -122,11 +167,11 @@ const generateTokenPair = (user: SafeUser, sessionId: string): TokenPair => {
 };
 
 /**
- * Verify and decode a JWT (any type).
+ * Verify and decode a JWT (any type). The key is selected by the `kid` header.
  */
 export const verifyToken = (token: string): JwtPayload => {
   try {
-    return jwt.verify(token, config.jwt.secret) as JwtPayload;
+    return verifyJwt<JwtPayload>(token);
   } catch (error) {
     if (error instanceof jwt.TokenExpiredError) {
       throw new TokenExpiredError('Token has expired');
@@ -135,6 +180,61 @@ export const verifyToken = (token: string): JwtPayload => {
   }
 };
 
+/** Claims carried by the short-lived token issued between password and MFA. */
+interface MfaPendingPayload {
+  sub: string;
+  type: 'mfa_pending';
+  /** First factor that was satisfied (for login history). */
+  method?: LoginMethod;
+}
+
+/**
+ * Issue a short-lived token proving the password step succeeded. It is NOT a
+ * session token — `authenticate` and `/auth/refresh` both reject its type.
+ */
+const generateMfaPendingToken = (userId: string, method: LoginMethod): string => {
+  const payload: MfaPendingPayload = { sub: userId, type: 'mfa_pending', method };
+  return signJwt(payload, {
+    expiresIn: MFA_PENDING_TOKEN_EXPIRES_IN as StringValue,
+  });
+};
+
+/** An authenticator app (TOTP, with its backup codes) or a passkey. */
+export type SecondFactor = 'totp' | 'passkey';
+
+/**
+ * The second factors a user has enrolled. Either one makes the second step
+ * mandatory after any first factor.
+ */
+const findSecondFactors = async (
+  userId: string,
+  credentials: Pick<UserCredential, 'mfaEnabled'> | null | undefined
+): Promise<SecondFactor[]> => {
+  const factors: SecondFactor[] = credentials?.mfaEnabled ? ['totp'] : [];
+  if ((await countWebAuthnCredentials(userId)) > 0) {
+    factors.push('passkey');
+  }
+  return factors;
+};
+
+const verifyMfaPendingToken = (token: string): MfaPendingPayload => {
+  let decoded: MfaPendingPayload;
+  try {
+    decoded = verifyJwt<MfaPendingPayload>(token);
+  } catch (error) {
+    if (error instanceof jwt.TokenExpiredError) {
+      throw new TokenExpiredError('Two-factor login has expired. Please sign in again.');
+    }
+    throw new InvalidTokenError('Invalid MFA token');
+  }
+
+  if (decoded.type !== 'mfa_pending') {
+    throw new InvalidTokenError('Expected an MFA token');
+  }
+
+  return decoded;
+};
+
 /**
  * Parse a duration string (e.g. "30d") to milliseconds.
  */
@@ -161,6 +261,8 @@ export interface RegisterInput {
   password: string;
   firstName: string;
   lastName: string;
+  /** ISO 3166-1 alpha-2 country of residence. */
+  country?: string | undefined;
   ipAddress?: string | undefined;
   userAgent?: string | undefined;
 }
@@ -170,14 +272,111 @@ export interface AuthResult {
   tokens: TokenPair;
 }
 
+/** Returned instead of tokens when the password step passed but MFA is on. */
+export interface MfaChallengeResult {
+  mfaRequired: true;
+  mfaToken: string;
+  /** Second factors the user can complete the login with. */
+  methods: SecondFactor[];
+}
+
+export type LoginResult = AuthResult | MfaChallengeResult;
+
+export const isMfaChallenge = (result: LoginResult): result is MfaChallengeResult =>
+  'mfaRequired' in result;
+
+/**
+ * Max concurrent sessions (devices) for a role — see SESSION_LIMITS.
+ */
+const getSessionLimit = (role: SafeUser['role']): number =>
+  config.security.sessions.limits[role] ?? config.security.sessions.defaultLimit;
+
+/**
+ * Mint a new session, first evicting the least-recently-seen ones so the user
+ * stays within their role's session limit. A browser/tab still holding an
+ * evicted session's access token will 401 on its next authenticated request
+ * (authenticate middleware looks up Session by sid).
+ */
+const startSession = async (
+  user: SafeUser,
+  meta: { ipAddress?: string | undefined; userAgent?: string | undefined; provider?: string }
+): Promise<TokenPair> => {
+  // Leave room for the session we're about to create.
+  const evicted = await pruneUserSessions(user.id, getSessionLimit(user.role) - 1);
+  if (evicted > 0) {
+    logger.info(
+      { userId: user.id, evicted, ...(meta.provider && { provider: meta.provider }) },
+      'Sessions evicted to stay within the session limit'
+    );
+  }
+
+  // Mint session ID up-front so it can be embedded in tokens AND used as the
+  // Session row's PK.
+  const sessionId = randomUUID();
+  const tokens = generateTokenPair(user, sessionId);
+
+  const refreshExpiresAt = new Date(
+    Date.now() + parseDurationMs(config.jwt.refreshExpiresIn)
+  );
+
+  await createSession({
+    id: sessionId,
+    userId: user.id,
+    token: tokens.refreshToken,
+    ipAddress: meta.ipAddress ?? null,
+    userAgent: meta.userAgent ?? null,
+    expiresAt: refreshExpiresAt,
+  });
+
+  return tokens;
+};
+
+/**
+ * Count a failed credential check (password or second factor), add it to the
+ * login history, and lock the account once the threshold is hit. Always throws.
+ *
+ * The first lockout in a run of failures emails the user a "secure my account"
+ * link; re-locks after the window expires (the counter is only reset by a
+ * successful login or an unlock) stay quiet so an attacker can't spam them.
+ */
+const recordFailedAttempt = async (
+  user: { id: string; email: string; firstName: string },
+  message: string,
+  reason: LoginFailureReason,
+  context: LoginAttemptContext
+): Promise<never> => {
+  const userId = user.id;
+  await recordLoginFailure(userId, reason, context);
+
+  const attempts = await incrementFailedAttempts(userId);
+
+  if (attempts >= MAX_FAILED_ATTEMPTS) {
+    const lockUntil = new Date(Date.now() + LOCKOUT_MINUTES * 60 * 1000);
+    await lockCredentials(userId, lockUntil);
+    logger.warn({ userId, attempts }, 'Account locked due to failed attempts');
+
+    if (attempts === MAX_FAILED_ATTEMPTS) {
+      await notifyAccountLocked(user);
+    }
+
+    throw new AuthenticationError(
+      `Too many failed attempts. Account locked for ${LOCKOUT_MINUTES} minutes.`
+    );
+  }
+
+  throw new AuthenticationError(message);
+};
+
 /**
  * Register a new user with email/password.
  *
- * Single-session policy: brand-new accounts have no prior sessions, so we just
- * create the first one. (No need to delete — there's nothing to delete.)
+ * Brand-new accounts have no prior sessions, so we just create the first one
+ * (no session-limit pruning needed).
  */
 export const register = async (input: RegisterInput): Promise<AuthResult> => {
-  const { email, password, firstName, lastName, ipAddress, userAgent } = input;
+  const { email, password, firstName, lastName, country, ipAddress, userAgent } = input;
+
+  assertJurisdictionAllowed('register', { declaredCountry: country, ipAddress });
 
   // Check if email is already taken
   const existing = await findUserByEmail(email);
@@ -185,6 +384,8 @@ export const register = async (input: RegisterInput): Promise<AuthResult> => {
     throw new ConflictError('An account with this email already exists');
   }
 
+  await assertPasswordAllowed(password, { email, firstName, lastName });
+
   // Hash password
   const passwordHash = await bcrypt.hash(password, config.security.bcryptRounds);
 
@@ -193,6 +394,7 @@ export const register = async (input: RegisterInput): Promise<AuthResult> => {
     email,
     firstName: firstName.trim(),
     lastName: lastName.trim(),
+    country,
     passwordHash,
   });
 
@@ -202,9 +404,17 @@ export const register = async (input: RegisterInput): Promise<AuthResult> => {
   // blocks or fails registration (see ensurePlatformUserAsync).
   ensurePlatformUserAsync(user.id);
 
+  // Email the verification link. Best-effort — a send failure never blocks
+  // signup; the user can request another link via /auth/email/verify/resend.
+  try {
+    await issueEmailVerification(user);
+  } catch (err) {
+    logger.error({ err, userId: user.id }, 'Failed to send email verification');
+  }
+
   // Mint a session ID up-front so it can be embedded in tokens AND used as the
   // Session row's PK. This keeps token.sid === Session.id, which is how the
-  // authenticate middleware enforces single-session-per-user.
+  // authenticate middleware checks the session hasn't been revoked.
   const sessionId = randomUUID();
   const tokens = generateTokenPair(user, sessionId);
 
@@ -237,8 +447,12 @@ export interface LoginInput {
 
 /**
  * Authenticate a user with email and password.
+ *
+ * When the user has MFA enabled, no session is created: the caller gets a
+ * short-lived `mfaToken` to exchange (with a TOTP / backup code) at
+ * `completeMfaLogin`.
  */
-export const login = async (input: LoginInput): Promise<AuthResult> => {
+export const login = async (input: LoginInput): Promise<LoginResult> => {
   const { email, password, ipAddress, userAgent } = input;
 
   // Find user with credentials
@@ -252,7 +466,7 @@ export const login = async (input: LoginInput): Promise<AuthResult> => {
   // of a first-password-set flow). Tell them to use the SSO they signed up with.
   if (!user.credentials.passwordHash) {
     throw new AuthenticationError(
-      'This account uses Google Sign-In. Please continue with Google.'
+      'This account does not have a password. Continue with Google, Apple or Discord, or use "Forgot password" to set one.'
     );
   }
 
@@ -266,6 +480,7 @@ export const login = async (input: LoginInput): Promise<AuthResult> => {
 
   // Check lockout
   if (user.credentials.lockedUntil && user.credentials.lockedUntil > new Date()) {
+    await recordLoginFailure(user.id, 'account_locked', { method: 'password', ipAddress, userAgent });
     const minutesLeft = Math.ceil(
       (user.credentials.lockedUntil.getTime() - Date.now()) / 60000
     );
@@ -278,19 +493,31 @@ export const login = async (input: LoginInput): Promise<AuthResult> => {
   const isValidPassword = await bcrypt.compare(password, user.credentials.passwordHash);
 
   if (!isValidPassword) {
-    // Increment failed attempts
-    const attempts = await incrementFailedAttempts(user.id);
-
-    if (attempts >= MAX_FAILED_ATTEMPTS) {
-      const lockUntil = new Date(Date.now() + LOCKOUT_MINUTES * 60 * 1000);
-      await lockCredentials(user.id, lockUntil);
-      logger.warn({ userId: user.id, attempts }, 'Account locked due to failed attempts');
-      throw new AuthenticationError(
-        `Too many failed attempts. Account locked for ${LOCKOUT_MINUTES} minutes.`
-      );
-    }
+    return recordFailedAttempt(user, 'Invalid email or password', 'invalid_password', {
+      method: 'password',
+      ipAddress,
+      userAgent,
+    });
+  }
 
-    throw new AuthenticationError('Invalid email or password');
+  // Only checked once the password is right, so it can't be used to probe
+  // which emails are registered.
+  assertJurisdictionAllowed('login', {
+    declaredCountry: user.country,
+    ipAddress,
+    userId: user.id,
+  });
+
+  // Second factor. Failed attempts are deliberately NOT reset here — otherwise
+  // re-entering the password would hand out a fresh batch of code guesses.
+  const secondFactors = await findSecondFactors(user.id, user.credentials);
+  if (secondFactors.length > 0) {
+    logger.info({ userId: user.id }, 'Password verified; awaiting second factor');
+    return {
+      mfaRequired: true,
+      mfaToken: generateMfaPendingToken(user.id, 'password'),
+      methods: secondFactors,
+    };
   }
 
   // Successful login – reset failed attempts
@@ -325,31 +552,8 @@ export const login = async (input: LoginInput): Promise<AuthResult> => {
     updatedAt: user.updatedAt,
   };
 
-  // Single-session-per-user: kick every prior session before issuing tokens.
-  // Any browser/tab still holding the old access token will 401 on its next
-  // authenticated request (authenticate middleware looks up Session by sid).
-  const evicted = await deleteAllUserSessions(user.id);
-  if (evicted > 0) {
-    logger.info({ userId: user.id, evicted }, 'Prior sessions evicted on new login');
-  }
-
-  // Mint session ID up-front so it can be embedded in tokens AND used as the
-  // Session row's PK.
-  const sessionId = randomUUID();
-  const tokens = generateTokenPair(safeUser, sessionId);
-
-  const refreshExpiresAt = new Date(
-    Date.now() + parseDurationMs(config.jwt.refreshExpiresIn)
-  );
-
-  await createSession({
-    id: sessionId,
-    userId: user.id,
-    token: tokens.refreshToken,
-    ipAddress: ipAddress ?? null,
-    userAgent: userAgent ?? null,
-    expiresAt: refreshExpiresAt,
-  });
+  const tokens = await startSession(safeUser, { ipAddress, userAgent });
+  await recordLoginSuccess(safeUser, { method: 'password', ipAddress, userAgent });
 
   logger.info({ userId: user.id }, 'User logged in');
 
@@ -357,67 +561,155 @@ export const login = async (input: LoginInput): Promise<AuthResult> => {
 };
 
 // =============================================================================
-// Google SSO
+// Login — second factor
 // =============================================================================
 
-export interface GoogleAuthInput {
-  idToken: string;
+export interface CompleteMfaLoginInput {
+  mfaToken: string;
+  code: string;
   ipAddress?: string | undefined;
   userAgent?: string | undefined;
 }
 
 /**
- * Authenticate or register a user via Google ID token.
- *
- * Flow:
- * 1. Verify the Google ID token
- * 2. If an OAuthAccount already exists for this Google sub → log in
- * 3. If the email exists but no OAuth link → link Google account to existing user
- * 4. Otherwise → create a new user with Google as the provider
+ * Resolve an mfa-pending token to a user who may still finish signing in
+ * (a second factor still enrolled, account active and not locked).
  */
-export const googleAuth = async (input: GoogleAuthInput): Promise<AuthResult> => {
-  const { idToken, ipAddress, userAgent } = input;
+const loadMfaPendingUser = async (
+  mfaToken: string,
+  ipAddress: string | undefined,
+  userAgent: string | undefined
+): Promise<{ user: User & { credentials: UserCredential }; attempt: LoginAttemptContext }> => {
+  const { sub: userId, method: firstFactor = 'password' } = verifyMfaPendingToken(mfaToken);
+  const attempt: LoginAttemptContext = { method: firstFactor, ipAddress, userAgent };
+
+  const user = await findUserByIdWithCredentials(userId);
+  if (!user?.credentials || (await findSecondFactors(userId, user.credentials)).length === 0) {
+    throw new AuthenticationError('Two-factor login is no longer valid. Please sign in again.');
+  }
 
-  // 1. Verify with Google
-  const client = getGoogleClient();
-  let googlePayload;
+  if (user.status === UserStatus.BANNED || user.status === UserStatus.SUSPENDED) {
+    throw new AuthenticationError('This account is no longer active');
+  }
 
-  try {
-    const clientId = config.google.clientId;
-    if (!clientId) {
-      throw new Error('Google Client ID not configured');
-    }
+  if (user.credentials.lockedUntil && user.credentials.lockedUntil > new Date()) {
+    await recordLoginFailure(user.id, 'account_locked', attempt);
+    const minutesLeft = Math.ceil(
+      (user.credentials.lockedUntil.getTime() - Date.now()) / 60000
+    );
+    throw new AuthenticationError(
+      `Account is temporarily locked. Try again in ${minutesLeft} minute(s).`
+    );
+  }
 
-    const ticket = await client.verifyIdToken({
-      idToken,
-      audience: clientId,
-    });
-    googlePayload = ticket.getPayload();
-  } catch (err) {
-    if (err instanceof AuthenticationError) throw err;
-    throw new AuthenticationError('Invalid Google ID token');
+  return { user: { ...user, credentials: user.credentials }, attempt };
+};
+
+/**
+ * Second factor passed — reset the failure counter and start the session.
+ */
+const finishMfaLogin = async (
+  userId: string,
+  attempt: LoginAttemptContext,
+  secondFactor: string
+): Promise<AuthResult> => {
+  const { ipAddress, userAgent } = attempt;
+
+  await resetFailedAttempts(userId);
+  await updateLastLogin(userId, ipAddress);
+
+  const safeUser = await findUserById(userId);
+  if (!safeUser) {
+    throw new UnauthorizedError('User not found');
   }
 
-  if (!googlePayload || !googlePayload.email) {
-    throw new AuthenticationError('Google token does not contain an email');
+  const tokens = await startSession(safeUser, { ipAddress, userAgent });
+  await recordLoginSuccess(safeUser, attempt);
+
+  logger.info({ userId, method: secondFactor }, 'User logged in with second factor');
+
+  return { user: safeUser, tokens };
+};
+
+/**
+ * Exchange an mfa-pending token plus a TOTP (or backup) code for a session.
+ * Wrong codes count toward the same lockout as wrong passwords.
+ */
+export const completeMfaLogin = async (input: CompleteMfaLoginInput): Promise<AuthResult> => {
+  const { mfaToken, code, ipAddress, userAgent } = input;
+
+  const { user, attempt } = await loadMfaPendingUser(mfaToken, ipAddress, userAgent);
+
+  // A passkey-only user may have a TOTP secret from an unfinished enrollment;
+  // it doesn't count until MFA is enabled.
+  const method = await verifyMfaCode(
+    user.id,
+    { mfaSecret: user.credentials.mfaEnabled ? user.credentials.mfaSecret : null },
+    code
+  );
+  if (!method) {
+    return recordFailedAttempt(user, 'Invalid verification code', 'invalid_mfa_code', attempt);
   }
 
-  if (googlePayload.email_verified === false) {
-    throw new AuthenticationError('Google email is not verified');
+  return finishMfaLogin(user.id, attempt, method);
+};
+
+// =============================================================================
+// Social Sign-In (Google, Apple, Discord)
+// =============================================================================
+//
+// Provider-specific verification lives in providers/identity; this section
+// only deals with what a verified identity means for our accounts.
+// =============================================================================
+
+export interface OAuthLoginInput {
+  provider: string;
+  credential: IdentityCredential;
+  ipAddress?: string | undefined;
+  userAgent?: string | undefined;
+}
+
+/**
+ * Verify a provider credential and insist on a verified email — we link
+ * accounts by email, so an unverified one could hijack an existing account.
+ */
+const verifyIdentity = async (
+  providerName: string,
+  credential: IdentityCredential
+): Promise<{ provider: IdentityProvider; identity: VerifiedIdentity }> => {
+  const provider = getIdentityProvider(providerName);
+  const identity = await provider.verify(credential);
+
+  if (!identity.emailVerified) {
+    throw new AuthenticationError(`${provider.displayName} email is not verified`);
   }
 
-  const googleEmail = googlePayload.email;
-  const googleSub = googlePayload.sub;
-  const googleFirstName = googlePayload.given_name || googlePayload.name?.split(' ')[0] || '';
-  const googleLastName = googlePayload.family_name || googlePayload.name?.split(' ').slice(1).join(' ') || '';
+  return { provider, identity };
+};
+
+/**
+ * Authenticate or register a user via an external identity provider.
+ *
+ * Flow:
+ * 1. Verify the credential with the provider
+ * 2. If an OAuthAccount already exists for this provider + subject → log in
+ * 3. If the email exists but no OAuth link → link the provider to that user
+ * 4. Otherwise → create a new user with the provider linked
+ * 5. If the user has MFA enabled → return an MFA challenge instead of tokens
+ */
+export const oauthLogin = async (input: OAuthLoginInput): Promise<LoginResult> => {
+  const { credential, ipAddress, userAgent } = input;
 
-  // 2. Check if this Google account is already linked
-  const existingOAuth = await findOAuthAccount(GOOGLE_PROVIDER, googleSub);
+  // 1. Verify with the provider
+  const { provider, identity } = await verifyIdentity(input.provider, credential);
+
+  // 2. Check if this provider account is already linked
+  const existingOAuth = await findOAuthAccount(provider.name, identity.providerId);
 
   let user: SafeUser;
 
   if (existingOAuth) {
-    // Google account already linked — log in
+    // Already linked — log in
     user = existingOAuth.user;
 
     // Check account status
@@ -427,32 +719,47 @@ export const googleAuth = async (input: GoogleAuthInput): Promise<AuthResult> =>
     if (user.status === UserStatus.SUSPENDED) {
       throw new AuthenticationError('This account has been suspended');
     }
+
+    assertJurisdictionAllowed('login', {
+      declaredCountry: user.country,
+      ipAddress,
+      userId: user.id,
+    });
   } else {
     // 3. Check if a user with this email already exists
-    const existingUser = await findUserByEmail(googleEmail);
+    const existingUser = await findUserByEmail(identity.email);
 
     if (existingUser) {
-      // Link Google to existing account
-      await linkOAuthAccount(existingUser.id, GOOGLE_PROVIDER, googleSub);
+      assertJurisdictionAllowed('login', {
+        declaredCountry: existingUser.country,
+        ipAddress,
+        userId: existingUser.id,
+      });
+
+      // Link the provider to the existing account
+      await linkOAuthAccount(existingUser.id, provider.name, identity.providerId);
       user = existingUser;
 
       logger.info(
-        { userId: user.id, provider: GOOGLE_PROVIDER },
-        'Google account linked to existing user'
+        { userId: user.id, provider: provider.name },
+        'OAuth account linked to existing user'
       );
     } else {
-      // 4. Create new user via Google
+      // The provider doesn't tell us where the user lives; the IP has to do.
+      assertJurisdictionAllowed('register', { ipAddress });
+
+      // 4. Create a new user via the provider
       user = await createOAuthUser({
-        email: googleEmail,
-        firstName: googleFirstName,
-        lastName: googleLastName,
-        provider: GOOGLE_PROVIDER,
-        providerId: googleSub,
+        email: identity.email,
+        firstName: identity.firstName,
+        lastName: identity.lastName,
+        provider: provider.name,
+        providerId: identity.providerId,
       });
 
       logger.info(
-        { userId: user.id, email: googleEmail },
-        'New user registered via Google SSO'
+        { userId: user.id, email: identity.email, provider: provider.name },
+        'New user registered via OAuth'
       );
 
       // Pre-create the trading-platform (YPF) user for genuinely new signups
@@ -461,99 +768,579 @@ export const googleAuth = async (input: GoogleAuthInput): Promise<AuthResult> =>
     }
   }
 
-  // Update last login
-  await updateLastLogin(user.id, ipAddress);
-
-  // Single-session-per-user: kick every prior session before issuing tokens.
-  const evicted = await deleteAllUserSessions(user.id);
-  if (evicted > 0) {
+  // 5. The provider proves the first factor only — MFA users still need a
+  //    code or passkey.
+  const withCredentials = await findUserByIdWithCredentials(user.id);
+  const secondFactors = await findSecondFactors(user.id, withCredentials?.credentials);
+  if (secondFactors.length > 0) {
     logger.info(
-      { userId: user.id, evicted, provider: GOOGLE_PROVIDER },
-      'Prior sessions evicted on new login'
+      { userId: user.id, provider: provider.name },
+      'OAuth sign-in verified; awaiting second factor'
     );
+    return {
+      mfaRequired: true,
+      mfaToken: generateMfaPendingToken(user.id, provider.name),
+      methods: secondFactors,
+    };
   }
 
-  // Mint session ID up-front (used as both the Session row PK and the sid claim).
-  const sessionId = randomUUID();
-  const tokens = generateTokenPair(user, sessionId);
-
-  const refreshExpiresAt = new Date(
-    Date.now() + parseDurationMs(config.jwt.refreshExpiresIn)
-  );
+  // Update last login
+  await updateLastLogin(user.id, ipAddress);
 
-  await createSession({
-    id: sessionId,
-    userId: user.id,
-    token: tokens.refreshToken,
-    ipAddress: ipAddress ?? null,
-    userAgent: userAgent ?? null,
-    expiresAt: refreshExpiresAt,
+  const tokens = await startSession(user, {
+    ipAddress,
+    userAgent,
+    provider: provider.name,
   });
+  await recordLoginSuccess(user, { method: provider.name, ipAddress, userAgent });
 
-  logger.info({ userId: user.id, provider: GOOGLE_PROVIDER }, 'User authenticated via Google');
+  logger.info({ userId: user.id, provider: provider.name }, 'User authenticated via OAuth');
 
   return { user, tokens };
 };
 
+export interface GoogleAuthInput {
+  idToken: string;
+  ipAddress?: string | undefined;
+  userAgent?: string | undefined;
+}
+
+/**
+ * Authenticate or register a user via Google ID token (see `oauthLogin`).
+ */
+export const googleAuth = async (input: GoogleAuthInput): Promise<LoginResult> => {
+  const { idToken, ipAddress, userAgent } = input;
+  return oauthLogin({ provider: 'google', credential: { idToken }, ipAddress, userAgent });
+};
+
 // =============================================================================
-// Token Refresh
+// Linked Sign-In Methods
 // =============================================================================
 
+export interface LinkedAccount {
+  provider: string;
+  linkedAt: Date;
+}
+
+export interface SignInMethods {
+  hasPassword: boolean;
+  linkedAccounts: LinkedAccount[];
+  passkeys: number;
+}
+
 /**
- * Issue a new access token using a valid refresh token.
- *
- * The new access token carries the same `sid` as the refresh token, so
- * authenticated requests continue to be tied to the same Session row. If that
- * row has been deleted (e.g., the user logged in elsewhere), this throws.
+ * The ways the user can sign in: password, linked providers and passkeys.
  */
-export const refreshAccessToken = async (
-  refreshToken: string
-): Promise<{ accessToken: string; user: SafeUser }> => {
-  // Verify the refresh token
-  const decoded = verifyToken(refreshToken);
+export const listSignInMethods = async (userId: string): Promise<SignInMethods> => {
+  const [methods, accounts] = await Promise.all([
+    findLoginMethods(userId),
+    findOAuthAccountsByUserId(userId),
+  ]);
 
-  if (decoded.type !== 'refresh') {
-    throw new InvalidTokenError('Expected a refresh token');
-  }
+  return {
+    hasPassword: methods.hasPassword,
+    linkedAccounts: accounts.map((a) => ({ provider: a.provider, linkedAt: a.createdAt })),
+    passkeys: methods.passkeys,
+  };
+};
 
-  if (!decoded.sid) {
-    throw new InvalidTokenError('Refresh token is missing a session identifier');
-  }
+export interface LinkOAuthAccountInput {
+  userId: string;
+  provider: string;
+  credential: IdentityCredential;
+  ipAddress?: string | undefined;
+  userAgent?: string | undefined;
+}
 
-  // Check that the session still exists in the database. We look up by token
-  // (existing behavior) and additionally confirm the row's id matches the sid
-  // claim — guards against a token reuse where the row was replaced.
-  const session = await findSessionByToken(refreshToken);
-  if (!session || session.id !== decoded.sid) {
-    throw new UnauthorizedError('Session has been revoked');
-  }
+/**
+ * Link another provider to the signed-in user. The provider account's email
+ * doesn't have to match ours — the session already proves who the user is.
+ */
+export const linkOAuthProvider = async (input: LinkOAuthAccountInput): Promise<LinkedAccount> => {
+  const { userId, credential, ipAddress, userAgent } = input;
 
-  // Check session expiry
-  if (session.expiresAt < new Date()) {
-    await deleteSession(refreshToken);
-    throw new TokenExpiredError('Refresh token has expired');
-  }
+  const { provider, identity } = await verifyIdentity(input.provider, credential);
 
-  // Fetch the latest user data
-  const user = await findUserById(decoded.sub);
-  if (!user) {
-    throw new UnauthorizedError('User not found');
+  const existing = await findOAuthAccount(provider.name, identity.providerId);
+  if (existing) {
+    throw new ConflictError(
+      existing.userId === userId
+        ? `This ${provider.displayName} account is already linked`
+        : `This ${provider.displayName} account is linked to a different user`
+    );
   }
 
-  if (user.status === UserStatus.BANNED || user.status === UserStatus.SUSPENDED) {
-    await deleteSession(refreshToken);
-    throw new AuthenticationError('Account is no longer active');
+  const { oauthProviders } = await findLoginMethods(userId);
+  if (oauthProviders.includes(provider.name)) {
+    throw new ConflictError(
+      `A ${provider.displayName} account is already linked. Unlink it first.`
+    );
   }
 
-  // Issue new access token with fresh user data, bound to the same session.
-  const accessToken = generateAccessToken(user, session.id);
+  const account = await linkOAuthAccount(userId, provider.name, identity.providerId);
+
+  await recordSecurityEvent({
+    userId,
+    action: 'OAUTH_ACCOUNT_LINKED',
+    entity: 'OAuthAccount',
+    entityId: account.id,
+    ipAddress: ipAddress ?? null,
+    userAgent: userAgent ?? null,
+    metadata: { provider: provider.name },
+  });
+
+  logger.info({ userId, provider: provider.name }, 'OAuth account linked');
 
-  return { accessToken, user };
+  return { provider: account.provider, linkedAt: account.createdAt };
 };
 
-// =============================================================================
-// Logout
-// =============================================================================
+export interface UnlinkOAuthAccountInput {
+  userId: string;
+  provider: string;
+  ipAddress?: string | undefined;
+  userAgent?: string | undefined;
+}
+
+/**
+ * Unlink a provider. Refuses to remove the user's last way to sign in —
+ * "Forgot password" would still get them back in, but only through support
+ * if they also lose the mailbox.
+ */
+export const unlinkOAuthProvider = async (input: UnlinkOAuthAccountInput): Promise<void> => {
+  const { userId, provider, ipAddress, userAgent } = input;
+
+  const methods = await findLoginMethods(userId);
+  if (!methods.oauthProviders.includes(provider)) {
+    throw new NotFoundError('That sign-in provider is not linked to your account');
+  }
+
+  const remaining =
+    (methods.hasPassword ? 1 : 0) +
+    methods.passkeys +
+    methods.oauthProviders.filter((p) => p !== provider).length;
+  if (remaining === 0) {
+    throw new BadRequestError(
+      'You cannot remove your only sign-in method. Set a password or add a passkey first.'
+    );
+  }
+
+  await deleteOAuthAccount(userId, provider);
+
+  await recordSecurityEvent({
+    userId,
+    action: 'OAUTH_ACCOUNT_UNLINKED',
+    entity: 'OAuthAccount',
+    ipAddress: ipAddress ?? null,
+    userAgent: userAgent ?? null,
+    metadata: { provider },
+  });
+
+  logger.info({ userId, provider }, 'OAuth account unlinked');
+};
+
+// =============================================================================
+// Magic-Link Login (passwordless)
+// =============================================================================
+//
+// Same shape as the password reset flow: a random token is emailed, only its
+// SHA-256 is stored, and it is spent on first use. Requesting a link always
+// "succeeds" so the endpoint can't be used to probe for accounts. Verifying
+// it counts as a full first factor — MFA users still get a challenge.
+// =============================================================================
+
+const MAGIC_LINK_TOKEN_TTL_MS = 15 * 60 * 1000; // 15 minutes
+
+export interface RequestMagicLinkInput {
+  email: string;
+}
+
+/**
+ * Email a one-time sign-in link. Always resolves — the caller must not branch
+ * on whether the email exists.
+ */
+export const requestMagicLink = async (input: RequestMagicLinkInput): Promise<void> => {
+  const email = input.email.toLowerCase();
+  const user = await findUserByEmail(email);
+
+  if (!user) {
+    logger.info({ email }, 'Magic link requested for unknown email');
+    return;
+  }
+
+  if (user.status === UserStatus.BANNED || user.status === UserStatus.SUSPENDED) {
+    logger.info({ userId: user.id, status: user.status }, 'Magic link blocked for non-active account');
+    return;
+  }
+
+  const rawToken = generateResetToken();
+  await setMagicLinkToken(
+    user.id,
+    hashResetToken(rawToken),
+    new Date(Date.now() + MAGIC_LINK_TOKEN_TTL_MS)
+  );
+
+  try {
+    await sendMagicLinkEmail({ email: user.email, firstName: user.firstName }, rawToken);
+    logger.info({ userId: user.id }, 'Magic link dispatched');
+  } catch (err) {
+    logger.error({ err, userId: user.id }, 'Failed to send magic link email');
+  }
+};
+
+export interface VerifyMagicLinkInput {
+  token: string;
+  ipAddress?: string | undefined;
+  userAgent?: string | undefined;
+}
+
+/**
+ * Exchange a magic-link token for a session (or an MFA challenge).
+ *
+ * Throws BadRequestError for any token failure — one generic message, as with
+ * password reset.
+ */
+export const verifyMagicLink = async (input: VerifyMagicLinkInput): Promise<LoginResult> => {
+  const { token, ipAddress, userAgent } = input;
+
+  const tokenHash = hashResetToken(token);
+  const found = await findUserByMagicLinkTokenHash(tokenHash);
+
+  if (
+    !found ||
+    !found.credentials.magicLinkTokenExpiry ||
+    found.credentials.magicLinkTokenExpiry < new Date()
+  ) {
+    throw new BadRequestError('This sign-in link is invalid or has expired');
+  }
+
+  if (found.status === UserStatus.BANNED || found.status === UserStatus.SUSPENDED) {
+    throw new AuthenticationError('This account is no longer active');
+  }
+
+  if (found.credentials.lockedUntil && found.credentials.lockedUntil > new Date()) {
+    await recordLoginFailure(found.id, 'account_locked', { method: 'magic_link', ipAddress, userAgent });
+    const minutesLeft = Math.ceil(
+      (found.credentials.lockedUntil.getTime() - Date.now()) / 60000
+    );
+    throw new AuthenticationError(
+      `Account is temporarily locked. Try again in ${minutesLeft} minute(s).`
+    );
+  }
+
+  // Spend the token before anything else can observe it as valid.
+  if (!(await consumeMagicLinkToken(found.id, tokenHash))) {
+    throw new BadRequestError('This sign-in link is invalid or has expired');
+  }
+
+  assertJurisdictionAllowed('login', {
+    declaredCountry: found.country,
+    ipAddress,
+    userId: found.id,
+  });
+
+  const secondFactors = await findSecondFactors(found.id, found.credentials);
+  if (secondFactors.length > 0) {
+    logger.info({ userId: found.id }, 'Magic link verified; awaiting second factor');
+    return {
+      mfaRequired: true,
+      mfaToken: generateMfaPendingToken(found.id, 'magic_link'),
+      methods: secondFactors,
+    };
+  }
+
+  await resetFailedAttempts(found.id);
+  await updateLastLogin(found.id, ipAddress);
+
+  const user = await findUserById(found.id);
+  if (!user) {
+    throw new UnauthorizedError('User not found');
+  }
+
+  const tokens = await startSession(user, { ipAddress, userAgent });
+  await recordLoginSuccess(user, { method: 'magic_link', ipAddress, userAgent });
+
+  logger.info({ userId: user.id }, 'User logged in via magic link');
+
+  return { user, tokens };
+};
+
+// =============================================================================
+// Passkey Login (WebAuthn)
+// =============================================================================
+//
+// A passkey with user verification (biometric / device PIN) is possession plus
+// inherence, so as a primary login it skips the TOTP challenge. As the MFA
+// step it stands in for a TOTP code after any first factor; failed assertions
+// there count toward the lockout like wrong codes. Ceremonies are in
+// webauthn.service.
+// =============================================================================
+
+/**
+ * Options for a discoverable-passkey sign-in (no email needed).
+ */
+export const getPasskeyLoginOptions = async (): Promise<AuthenticationOptionsResult> => {
+  return getAuthenticationOptions();
+};
+
+export interface PasskeyLoginInput {
+  challengeId: string;
+  credential: AuthenticationResponseJSON;
+  ipAddress?: string | undefined;
+  userAgent?: string | undefined;
+}
+
+/**
+ * Sign in with a passkey as the only factor.
+ */
+export const loginWithPasskey = async (input: PasskeyLoginInput): Promise<AuthResult> => {
+  const { challengeId, credential, ipAddress, userAgent } = input;
+
+  const userId = await verifyAuthentication({
+    challengeId,
+    credential,
+    requireUserVerification: true,
+  });
+  if (!userId) {
+    throw new AuthenticationError('Passkey sign-in failed');
+  }
+
+  const found = await findUserByIdWithCredentials(userId);
+  if (!found) {
+    throw new AuthenticationError('Passkey sign-in failed');
+  }
+
+  if (found.status === UserStatus.BANNED || found.status === UserStatus.SUSPENDED) {
+    throw new AuthenticationError('This account is no longer active');
+  }
+
+  const lockedUntil = found.credentials?.lockedUntil;
+  if (lockedUntil && lockedUntil > new Date()) {
+    await recordLoginFailure(found.id, 'account_locked', { method: 'passkey', ipAddress, userAgent });
+    const minutesLeft = Math.ceil((lockedUntil.getTime() - Date.now()) / 60000);
+    throw new AuthenticationError(
+      `Account is temporarily locked. Try again in ${minutesLeft} minute(s).`
+    );
+  }
+
+  assertJurisdictionAllowed('login', {
+    declaredCountry: found.country,
+    ipAddress,
+    userId: found.id,
+  });
+
+  if (found.credentials) {
+    await resetFailedAttempts(found.id);
+  }
+  await updateLastLogin(found.id, ipAddress);
+
+  const user = await findUserById(found.id);
+  if (!user) {
+    throw new UnauthorizedError('User not found');
+  }
+
+  const tokens = await startSession(user, { ipAddress, userAgent });
+  await recordLoginSuccess(user, { method: 'passkey', ipAddress, userAgent });
+
+  logger.info({ userId: user.id }, 'User logged in with passkey');
+
+  return { user, tokens };
+};
+
+/**
+ * Options for using one of the user's passkeys as the MFA step.
+ */
+export const getMfaPasskeyOptions = async (
+  mfaToken: string
+): Promise<AuthenticationOptionsResult> => {
+  const { sub: userId } = verifyMfaPendingToken(mfaToken);
+  return getAuthenticationOptions(userId);
+};
+
+export interface CompleteMfaLoginWithPasskeyInput {
+  mfaToken: string;
+  challengeId: string;
+  credential: AuthenticationResponseJSON;
+  ipAddress?: string | undefined;
+  userAgent?: string | undefined;
+}
+
+/**
+ * Exchange an mfa-pending token plus a passkey assertion for a session.
+ */
+export const completeMfaLoginWithPasskey = async (
+  input: CompleteMfaLoginWithPasskeyInput
+): Promise<AuthResult> => {
+  const { mfaToken, challengeId, credential, ipAddress, userAgent } = input;
+
+  const { user, attempt } = await loadMfaPendingUser(mfaToken, ipAddress, userAgent);
+
+  const verifiedUserId = await verifyAuthentication({
+    challengeId,
+    credential,
+    requireUserVerification: false,
+    userId: user.id,
+  });
+  if (!verifiedUserId) {
+    return recordFailedAttempt(user, 'Passkey verification failed', 'invalid_passkey', attempt);
+  }
+
+  return finishMfaLogin(user.id, attempt, 'passkey');
+};
+
+// =============================================================================
+// Token Refresh
+// =============================================================================
+//
+// Refresh tokens rotate on every use. The exchanged token's hash is kept (see
+// RotatedRefreshToken) under the session's family ID; if it is ever presented
+// again, someone is replaying a stolen token, so the whole family is revoked
+// and a security event is recorded. A short grace window absorbs the benign
+// case of two tabs refreshing with the same token at once.
+// =============================================================================
+
+const REFRESH_REUSE_GRACE_MS = 10 * 1000;
+
+const hashRefreshToken = (token: string): string =>
+  createHash('sha256').update(token).digest('hex');
+
+export interface RefreshMeta {
+  ipAddress?: string | undefined;
+  userAgent?: string | undefined;
+}
+
+export interface RefreshResult {
+  accessToken: string;
+  refreshToken: string;
+  user: SafeUser;
+}
+
+/**
+ * Handle a refresh token that no longer matches any session. Either it was
+ * never ours / its session is gone (plain revoke), it was rotated moments ago
+ * by a concurrent request (return the session's current tokens), or it is a
+ * replay of a rotated token (revoke the family).
+ */
+const handleUnknownRefreshToken = async (
+  refreshToken: string,
+  meta: RefreshMeta
+): Promise<RefreshResult> => {
+  const rotated = await findRotatedRefreshToken(hashRefreshToken(refreshToken));
+  if (!rotated) {
+    throw new UnauthorizedError('Session has been revoked');
+  }
+
+  if (Date.now() - rotated.rotatedAt.getTime() < REFRESH_REUSE_GRACE_MS) {
+    const current = await findSessionById(rotated.sessionId);
+    const user = current ? await findUserById(current.userId) : null;
+    if (current && user) {
+      return {
+        accessToken: generateAccessToken(user, current.id),
+        refreshToken: current.token,
+        user,
+      };
+    }
+  }
+
+  const revoked = await deleteSessionFamily(rotated.familyId);
+
+  logger.warn(
+    { userId: rotated.userId, familyId: rotated.familyId, revoked, ip: meta.ipAddress },
+    'Refresh token reuse detected — token family revoked'
+  );
+
+  await recordSecurityEvent({
+    userId: rotated.userId,
+    action: 'REFRESH_TOKEN_REUSE',
+    entity: 'Session',
+    entityId: rotated.sessionId,
+    ipAddress: meta.ipAddress ?? null,
+    userAgent: meta.userAgent ?? null,
+    metadata: { familyId: rotated.familyId, revokedSessions: revoked },
+  });
+
+  throw new UnauthorizedError('Session has been revoked');
+};
+
+/**
+ * Exchange a valid refresh token for a new access token AND a new refresh
+ * token. The presented refresh token stops working.
+ *
+ * Both new tokens carry the same `sid`, so authenticated requests stay tied to
+ * the same Session row. If that row has been deleted (logout, session limit,
+ * reuse detection), this throws.
+ */
+export const refreshAccessToken = async (
+  refreshToken: string,
+  meta: RefreshMeta = {}
+): Promise<RefreshResult> => {
+  // Verify the refresh token
+  const decoded = verifyToken(refreshToken);
+
+  if (decoded.type !== 'refresh') {
+    throw new InvalidTokenError('Expected a refresh token');
+  }
+
+  if (!decoded.sid) {
+    throw new InvalidTokenError('Refresh token is missing a session identifier');
+  }
+
+  // The session must currently hold this exact token. If not, it's either
+  // revoked or a rotated-out token being replayed.
+  const session = await findSessionByToken(refreshToken);
+  if (!session) {
+    return handleUnknownRefreshToken(refreshToken, meta);
+  }
+
+  // Defense-in-depth: the row's id must match the sid claim.
+  if (session.id !== decoded.sid) {
+    throw new UnauthorizedError('Session has been revoked');
+  }
+
+  // Check session expiry
+  if (session.expiresAt < new Date()) {
+    await deleteSession(refreshToken);
+    throw new TokenExpiredError('Refresh token has expired');
+  }
+
+  // Fetch the latest user data
+  const user = await findUserById(decoded.sub);
+  if (!user) {
+    throw new UnauthorizedError('User not found');
+  }
+
+  if (user.status === UserStatus.BANNED || user.status === UserStatus.SUSPENDED) {
+    await deleteSession(refreshToken);
+    throw new AuthenticationError('Account is no longer active');
+  }
+
+  // Rotate: new refresh token for the same session, sliding its expiry.
+  const newRefreshToken = generateRefreshToken(user, session.id);
+  const rotated = await rotateSessionRefreshToken({
+    sessionId: session.id,
+    userId: user.id,
+    familyId: session.familyId,
+    oldToken: refreshToken,
+    oldTokenHash: hashRefreshToken(refreshToken),
+    oldExpiresAt: session.expiresAt,
+    newToken: newRefreshToken,
+    newExpiresAt: new Date(Date.now() + parseDurationMs(config.jwt.refreshExpiresIn)),
+  });
+
+  // Lost a race with a concurrent refresh of the same token — resolve it the
+  // same way as a replay (grace window → current tokens).
+  if (!rotated) {
+    return handleUnknownRefreshToken(refreshToken, meta);
+  }
+
+  // Issue new access token with fresh user data, bound to the same session.
+  const accessToken = generateAccessToken(user, session.id);
+
+  return { accessToken, refreshToken: newRefreshToken, user };
+};
+
+// =============================================================================
+// Logout
+// =============================================================================
 
 /**
  * Invalidate the session associated with the given refresh token.
@@ -563,6 +1350,72 @@ export const logout = async (refreshToken: string): Promise<void> => {
   logger.debug('Session invalidated');
 };
 
+// =============================================================================
+// Session Management (devices)
+// =============================================================================
+
+export interface SessionSummary {
+  id: string;
+  /** Human-readable device label derived from the user agent. */
+  device: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: Date;
+  lastSeenAt: Date;
+  expiresAt: Date;
+  /** True for the session making this request. */
+  current: boolean;
+}
+
+/**
+ * List the user's active sessions (most recently seen first). Without a
+ * `currentSessionId` (staff looking at someone else) none is marked current.
+ */
+export const listSessions = async (
+  userId: string,
+  currentSessionId?: string
+): Promise<SessionSummary[]> => {
+  const sessions = await findActiveUserSessions(userId);
+
+  return sessions.map((session) => ({
+    id: session.id,
+    device: describeDevice(session.userAgent),
+    ipAddress: session.ipAddress,
+    userAgent: session.userAgent,
+    createdAt: session.createdAt,
+    lastSeenAt: session.lastSeenAt,
+    expiresAt: session.expiresAt,
+    current: session.id === currentSessionId,
+  }));
+};
+
+/**
+ * Revoke one of the user's sessions. Revoking the current session is allowed
+ * and behaves like logout.
+ */
+export const revokeSession = async (userId: string, sessionId: string): Promise<void> => {
+  const deleted = await deleteUserSession(userId, sessionId);
+  if (!deleted) {
+    throw new NotFoundError('Session not found');
+  }
+
+  logger.info({ userId, sessionId }, 'Session revoked');
+};
+
+/**
+ * "Log out everywhere else" — revoke every session except the current one.
+ */
+export const revokeOtherSessions = async (
+  userId: string,
+  currentSessionId: string
+): Promise<number> => {
+  const revoked = await deleteOtherUserSessions(userId, currentSessionId);
+
+  logger.info({ userId, revoked }, 'Other sessions revoked');
+
+  return revoked;
+};
+
 // =============================================================================
 // Get Current User
 // =============================================================================
@@ -690,9 +1543,12 @@ export const resetPassword = async (input: ResetPasswordInput): Promise<void> =>
     throw new AuthenticationError('This account is no longer active');
   }
 
+  await assertPasswordAllowed(newPassword, found);
+
   const newHash = await bcrypt.hash(newPassword, config.security.bcryptRounds);
 
   await consumePasswordReset(found.id, newHash);
+  await invalidateSecurityStamp(found.id);
 
   // Kick every active session — if an attacker was riding an old session, this
   // boots them. Also evicts the user's other tabs, prompting a fresh login.
@@ -703,3 +1559,358 @@ export const resetPassword = async (input: ResetPasswordInput): Promise<void> =>
     'Password reset completed'
   );
 };
+
+/**
+ * Email a locked-out user a reset link so they can take the account back if
+ * the failed attempts weren't theirs. Best-effort — never blocks the lockout.
+ */
+const notifyAccountLocked = async (user: {
+  id: string;
+  email: string;
+  firstName: string;
+}): Promise<void> => {
+  try {
+    const rawToken = generateResetToken();
+    await setPasswordResetToken(
+      user.id,
+      hashResetToken(rawToken),
+      new Date(Date.now() + RESET_TOKEN_TTL_MS)
+    );
+    await sendAccountLockedEmail(
+      { email: user.email, firstName: user.firstName },
+      rawToken,
+      LOCKOUT_MINUTES
+    );
+  } catch (err) {
+    logger.error({ err, userId: user.id }, 'Failed to send account locked email');
+  }
+};
+
+// =============================================================================
+// Admin: credential recovery
+// =============================================================================
+//
+// Support-driven counterparts to the lockout:
+//   • unlockAccount       — clears the failed-attempt counter and lock.
+//   • forcePasswordReset  — kills the current password, every session and
+//     every access token, then emails the user a reset link.
+// Both are written to the audit log with the acting admin.
+// =============================================================================
+
+export interface AdminActionContext {
+  adminId: string;
+  ipAddress?: string | undefined;
+  userAgent?: string | undefined;
+}
+
+/**
+ * Clear a user's lockout and failed-attempt counter.
+ */
+export const unlockAccount = async (
+  targetUserId: string,
+  context: AdminActionContext
+): Promise<void> => {
+  const user = await findUserByIdWithCredentials(targetUserId);
+  if (!user) {
+    throw new NotFoundError(`User ${targetUserId} not found`);
+  }
+
+  const credentials = user.credentials;
+  const isLocked = !!credentials?.lockedUntil && credentials.lockedUntil > new Date();
+  if (!credentials || (!isLocked && credentials.failedAttempts === 0)) {
+    throw new ValidationError('User account is not locked');
+  }
+
+  await resetFailedAttempts(targetUserId);
+
+  await recordSecurityEvent({
+    userId: context.adminId,
+    action: 'ACCOUNT_UNLOCKED',
+    entity: 'User',
+    entityId: targetUserId,
+    ipAddress: context.ipAddress ?? null,
+    userAgent: context.userAgent ?? null,
+    metadata: {
+      previousLockedUntil: credentials.lockedUntil?.toISOString() ?? null,
+      previousFailedAttempts: credentials.failedAttempts,
+    },
+  });
+
+  logger.info({ targetUserId, adminId: context.adminId }, 'Account unlocked by admin');
+};
+
+/**
+ * Invalidate a user's password, sessions and access tokens, and email them a
+ * reset link. Returns the number of sessions that were signed out.
+ */
+export const forcePasswordReset = async (
+  targetUserId: string,
+  context: AdminActionContext
+): Promise<number> => {
+  const user = await findUserById(targetUserId);
+  if (!user) {
+    throw new NotFoundError(`User ${targetUserId} not found`);
+  }
+
+  if (targetUserId === context.adminId) {
+    throw new ForbiddenError('You cannot force a password reset on your own account');
+  }
+
+  const rawToken = generateResetToken();
+  await clearCredentialsForReset(
+    targetUserId,
+    hashResetToken(rawToken),
+    new Date(Date.now() + RESET_TOKEN_TTL_MS)
+  );
+  await invalidateSecurityStamp(targetUserId);
+
+  const evicted = await deleteAllUserSessions(targetUserId);
+
+  await recordSecurityEvent({
+    userId: context.adminId,
+    action: 'PASSWORD_RESET_FORCED',
+    entity: 'User',
+    entityId: targetUserId,
+    ipAddress: context.ipAddress ?? null,
+    userAgent: context.userAgent ?? null,
+    metadata: { evictedSessions: evicted },
+  });
+
+  logger.info(
+    { targetUserId, adminId: context.adminId, evictedSessions: evicted },
+    'Password reset forced by admin'
+  );
+
+  try {
+    await sendForcedPasswordResetEmail({ email: user.email, firstName: user.firstName }, rawToken);
+  } catch (err) {
+    logger.error({ err, userId: targetUserId }, 'Failed to send forced password reset email');
+  }
+
+  return evicted;
+};
+
+// =============================================================================
+// Password Change (authenticated)
+// =============================================================================
+//
+// Two entry points for a signed-in user:
+//   • changePassword — proves the current password, then signs out every
+//     OTHER session (the caller's own session stays alive).
+//   • setPassword    — OAuth-only accounts (passwordHash null) add their first
+//     password without having to round-trip through the reset email.
+// Both stamp passwordChangedAt, bump the security stamp (so every access token
+// issued so far stops working) and send a best-effort confirmation email. The
+// caller's session gets a fresh token pair (its refresh token is rotated) in
+// the response.
+// =============================================================================
+
+export interface ChangePasswordInput {
+  userId: string;
+  currentSessionId: string;
+  currentPassword: string;
+  newPassword: string;
+}
+
+export interface PasswordChangeResult {
+  /** Replacement tokens for the caller's session. */
+  tokens: TokenPair;
+  revokedSessions: number;
+}
+
+/**
+ * Mint a new token pair for the caller's session, rotating its refresh token
+ * the same way /auth/refresh does.
+ */
+const reissueSessionTokens = async (user: SafeUser, sessionId: string): Promise<TokenPair> => {
+  const session = await findSessionById(sessionId);
+  if (!session) {
+    throw new UnauthorizedError('Session has been revoked');
+  }
+
+  const refreshToken = generateRefreshToken(user, session.id);
+  const rotated = await rotateSessionRefreshToken({
+    sessionId: session.id,
+    userId: user.id,
+    familyId: session.familyId,
+    oldToken: session.token,
+    oldTokenHash: hashRefreshToken(session.token),
+    oldExpiresAt: session.expiresAt,
+    newToken: refreshToken,
+    newExpiresAt: new Date(Date.now() + parseDurationMs(config.jwt.refreshExpiresIn)),
+  });
+  if (!rotated) {
+    throw new UnauthorizedError('Session has been revoked');
+  }
+
+  return { accessToken: generateAccessToken(user, session.id), refreshToken };
+};
+
+/**
+ * Change the password of a user who already has one. Returns fresh tokens for
+ * the caller's session and the number of other sessions that were signed out.
+ */
+export const changePassword = async (
+  input: ChangePasswordInput
+): Promise<PasswordChangeResult> => {
+  const { userId, currentSessionId, currentPassword, newPassword } = input;
+
+  const user = await findUserByIdWithCredentials(userId);
+  if (!user) {
+    throw new UnauthorizedError('User not found');
+  }
+
+  if (!user.credentials?.passwordHash) {
+    throw new BadRequestError(
+      'This account does not have a password yet. Use set password instead.'
+    );
+  }
+
+  const isValid = await bcrypt.compare(currentPassword, user.credentials.passwordHash);
+  if (!isValid) {
+    throw new BadRequestError('Current password is incorrect');
+  }
+
+  if (currentPassword === newPassword) {
+    throw new BadRequestError('New password must be different from the current password');
+  }
+
+  await assertPasswordAllowed(newPassword, user);
+
+  const newHash = await bcrypt.hash(newPassword, config.security.bcryptRounds);
+  await updatePasswordHash(userId, newHash);
+  await invalidateSecurityStamp(userId);
+
+  const evicted = await deleteOtherUserSessions(userId, currentSessionId);
+
+  logger.info({ userId, evictedSessions: evicted }, 'Password changed');
+
+  try {
+    await sendPasswordChangedEmail({ email: user.email, firstName: user.firstName }, false);
+  } catch (err) {
+    logger.error({ err, userId }, 'Failed to send password changed email');
+  }
+
+  return {
+    tokens: await reissueSessionTokens(user, currentSessionId),
+    revokedSessions: evicted,
+  };
+};
+
+export interface SetPasswordInput {
+  userId: string;
+  currentSessionId: string;
+  newPassword: string;
+}
+
+/**
+ * Add a first password to an OAuth-only account. Returns fresh tokens for the
+ * caller's session.
+ */
+export const setPassword = async (input: SetPasswordInput): Promise<TokenPair> => {
+  const { userId, currentSessionId, newPassword } = input;
+
+  const user = await findUserByIdWithCredentials(userId);
+  if (!user) {
+    throw new UnauthorizedError('User not found');
+  }
+
+  if (user.credentials?.passwordHash) {
+    throw new ConflictError('A password is already set. Use change password instead.');
+  }
+
+  await assertPasswordAllowed(newPassword, user);
+
+  const newHash = await bcrypt.hash(newPassword, config.security.bcryptRounds);
+  await updatePasswordHash(userId, newHash);
+  await invalidateSecurityStamp(userId);
+
+  logger.info({ userId }, 'First password set for OAuth-only account');
+
+  try {
+    await sendPasswordChangedEmail({ email: user.email, firstName: user.firstName }, true);
+  } catch (err) {
+    logger.error({ err, userId }, 'Failed to send password set email');
+  }
+
+  return reissueSessionTokens(user, currentSessionId);
+};
+
+// =============================================================================
+// Email Verification
+// =============================================================================
+//
+// Password registrations start in PENDING_VERIFICATION with emailVerified=false.
+// A single-use link is emailed on signup (and on demand via resend); consuming
+// it flips emailVerified and promotes the user to ACTIVE. Tokens are stored
+// the same way as reset tokens — SHA-256 only, never the raw value.
+//
+// Google SSO users are created already verified (Google vouches for the
+// address), so none of this applies to them.
+// =============================================================================
+
+const EMAIL_VERIFY_TOKEN_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+/**
+ * Mint a fresh verification token (invalidating any previous one) and email it.
+ * Throws on email failure — callers decide whether to swallow.
+ */
+const issueEmailVerification = async (
+  user: Pick<SafeUser, 'id' | 'email' | 'firstName'>
+): Promise<void> => {
+  const rawToken = generateResetToken();
+  const tokenHash = hashResetToken(rawToken);
+  const expiresAt = new Date(Date.now() + EMAIL_VERIFY_TOKEN_TTL_MS);
+
+  await setEmailVerificationToken(user.id, tokenHash, expiresAt);
+  await sendEmailVerificationEmail({ email: user.email, firstName: user.firstName }, rawToken);
+
+  logger.info({ userId: user.id }, 'Email verification dispatched');
+};
+
+export interface VerifyEmailInput {
+  token: string;
+}
+
+/**
+ * Consume an email verification token. Returns the updated user.
+ *
+ * Throws BadRequestError for any token failure — same generic message as the
+ * password reset flow so we don't leak which check failed.
+ */
+export const verifyEmail = async (input: VerifyEmailInput): Promise<SafeUser> => {
+  const tokenHash = hashResetToken(input.token);
+  const found = await findUserByEmailVerificationTokenHash(tokenHash);
+
+  if (
+    !found ||
+    !found.credentials.emailVerifyTokenExpiry ||
+    found.credentials.emailVerifyTokenExpiry < new Date()
+  ) {
+    throw new BadRequestError('This verification link is invalid or has expired');
+  }
+
+  const user = await consumeEmailVerification(found.id);
+
+  logger.info({ userId: user.id }, 'Email verified');
+
+  return user;
+};
+
+/**
+ * Re-send the verification email for the authenticated user. Any previously
+ * issued link stops working.
+ */
+export const resendEmailVerification = async (userId: string): Promise<void> => {
+  const user = await findUserById(userId);
+
+  if (!user) {
+    throw new UnauthorizedError('User not found');
+  }
+
+  if (user.emailVerified) {
+    throw new BadRequestError('Email address is already verified');
+  }
+
+  await issueEmailVerification(user);
+};
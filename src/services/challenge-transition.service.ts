@@ -7,6 +7,7 @@ import {
 } from '@prisma/client';
 import { prisma } from '../utils/database.js';
 import { logger } from '../utils/logger.js';
+import { recordAuditInTransaction } from './audit.service.js';
 
 // =============================================================================
 // Challenge Transition Service
@@ -17,6 +18,9 @@ import { logger } from '../utils/logger.js';
 // Under YPF, the phase progression on the platform is driven by YPF itself —
 // each program declares a `nextProgramId`, and the YPF poller observes the
 // state change. This service mirrors the transition into our local DB.
+//
+// Every transition is audited inside its transaction with a null actor (the
+// poller, not a person, made the change).
 // =============================================================================
 
 // ── Fail Challenge ──────────────────────────────────────────────────────────
@@ -84,6 +88,16 @@ export const failChallenge = async (
         causedFailure: true,
       },
     });
+
+    await recordAuditInTransaction(tx, {
+      actorId: null,
+      action: 'CHALLENGE_FAILED',
+      entity: 'Account',
+      entityId: accountId,
+      oldValues: { status: account.status, challengeStatus: activeChallenge.status },
+      newValues: { status: AccountStatus.FAILED, challengeStatus: ChallengeStatus.FAILED },
+      metadata: { challengeId: activeChallenge.id, reason, violationType },
+    });
   });
 
   logger.info(
@@ -144,6 +158,19 @@ export const closeUpgradedAccount = async (accountId: string): Promise<void> =>
       where: { id: accountId },
       data: { status: AccountStatus.UPGRADED },
     });
+
+    await recordAuditInTransaction(tx, {
+      actorId: null,
+      action: 'ACCOUNT_UPGRADED',
+      entity: 'Account',
+      entityId: accountId,
+      oldValues: { status: account.status, challengeStatus: activeChallenge?.status ?? null },
+      newValues: {
+        status: AccountStatus.UPGRADED,
+        challengeStatus: activeChallenge ? ChallengeStatus.PASSED : null,
+      },
+      metadata: { challengeId: activeChallenge?.id ?? null },
+    });
   });
 
   logger.info({ accountId }, 'Account marked UPGRADED and moved to inactive');
@@ -214,6 +241,16 @@ export const reactivateChallenge = async (accountId: string): Promise<void> => {
       where: { accountId, causedFailure: true },
       data: { causedFailure: false },
     });
+
+    await recordAuditInTransaction(tx, {
+      actorId: null,
+      action: 'CHALLENGE_REACTIVATED',
+      entity: 'Account',
+      entityId: accountId,
+      oldValues: { status: account.status, challengeStatus: challenge.status },
+      newValues: { status: restoredStatus, challengeStatus: ChallengeStatus.ACTIVE },
+      metadata: { challengeId: challenge.id },
+    });
   });
 
   logger.info({ accountId }, 'Challenge reactivated and account restored');
@@ -311,6 +348,16 @@ export const advanceChallenge = async (accountId: string): Promise<void> => {
         fundedAt: now,
       },
     });
+
+    await recordAuditInTransaction(tx, {
+      actorId: null,
+      action: 'CHALLENGE_ADVANCED',
+      entity: 'Account',
+      entityId: accountId,
+      oldValues: { status: account.status, phase: activeChallenge.phase },
+      newValues: { status: AccountStatus.FUNDED, phase: ChallengePhase.FUNDED },
+      metadata: { challengeId: activeChallenge.id },
+    });
   });
 
   logger.info({ accountId }, 'Challenge advanced to FUNDED');
@@ -230,7 +230,7 @@ const buildPasswordResetHtml = (
 ): string => {
   const heading = isFirstPasswordSet ? 'Set your password' : 'Reset your password';
   const body = isFirstPasswordSet
-    ? `We received a request to set a password for your Dynasty Futures account. You usually sign in with Google — setting a password lets you sign in either way.`
+    ? `We received a request to set a password for your Dynasty Futures account. You usually sign in with Google, Apple or Discord — setting a password lets you sign in either way.`
     : `We received a request to reset the password for your Dynasty Futures account.`;
 
   return `
@@ -262,7 +262,7 @@ const buildPasswordResetText = (
 ): string => {
   const heading = isFirstPasswordSet ? 'Set your password' : 'Reset your password';
   const body = isFirstPasswordSet
-    ? `We received a request to set a password for your Dynasty Futures account. You usually sign in with Google — setting a password lets you sign in either way.`
+    ? `We received a request to set a password for your Dynasty Futures account. You usually sign in with Google, Apple or Discord — setting a password lets you sign in either way.`
     : `We received a request to reset the password for your Dynasty Futures account.`;
 
   return [
@@ -304,6 +304,218 @@ export const sendPasswordResetEmail = async (
   });
 };
 
+// =============================================================================
+// Password Changed Email
+// =============================================================================
+
+interface PasswordChangedEmailUser {
+  email: string;
+  firstName: string;
+}
+
+const buildPasswordChangedHtml = (
+  firstName: string,
+  recoverUrl: string,
+  isFirstPasswordSet: boolean
+): string => {
+  const heading = isFirstPasswordSet ? 'Password added' : 'Password changed';
+  const body = isFirstPasswordSet
+    ? 'A password was just added to your Dynasty Futures account. You can now sign in with your email and password as well as with your linked accounts.'
+    : 'The password for your Dynasty Futures account was just changed. Other devices have been signed out.';
+
+  return `
+    <div style="font-family:Arial,sans-serif;max-width:560px;margin:0 auto;color:#222;">
+      <h2 style="color:#111;">${heading}</h2>
+      <p>Hi ${firstName || 'there'},</p>
+      <p>${body}</p>
+      <p style="font-size:13px;color:#666;">
+        If this wasn't you, reset your password immediately and contact support:
+        <br /><a href="${recoverUrl}" style="word-break:break-all;">${recoverUrl}</a>
+      </p>
+    </div>
+  `.trim();
+};
+
+const buildPasswordChangedText = (
+  firstName: string,
+  recoverUrl: string,
+  isFirstPasswordSet: boolean
+): string => {
+  const heading = isFirstPasswordSet ? 'Password added' : 'Password changed';
+  const body = isFirstPasswordSet
+    ? 'A password was just added to your Dynasty Futures account. You can now sign in with your email and password as well as with your linked accounts.'
+    : 'The password for your Dynasty Futures account was just changed. Other devices have been signed out.';
+
+  return [
+    `=== ${heading} ===`,
+    '',
+    `Hi ${firstName || 'there'},`,
+    '',
+    body,
+    '',
+    "If this wasn't you, reset your password immediately and contact support:",
+    recoverUrl,
+  ].join('\n');
+};
+
+/**
+ * Confirm a password change (or a first password being added to an
+ * OAuth-only account). Errors are thrown — callers decide whether to swallow.
+ */
+export const sendPasswordChangedEmail = async (
+  user: PasswordChangedEmailUser,
+  isFirstPasswordSet: boolean
+): Promise<void> => {
+  const recoverUrl = `${config.frontendUrl}/forgot-password`;
+
+  await sendEmail({
+    to: user.email,
+    subject: isFirstPasswordSet
+      ? 'A password was added to your Dynasty Futures account'
+      : 'Your Dynasty Futures password was changed',
+    htmlBody: buildPasswordChangedHtml(user.firstName, recoverUrl, isFirstPasswordSet),
+    textBody: buildPasswordChangedText(user.firstName, recoverUrl, isFirstPasswordSet),
+  });
+};
+
+// =============================================================================
+// Email Verification Email
+// =============================================================================
+
+interface EmailVerificationEmailUser {
+  email: string;
+  firstName: string;
+}
+
+const VERIFY_LINK_TTL_HOURS = 24;
+
+const buildEmailVerificationHtml = (firstName: string, verifyUrl: string): string => {
+  return `
+    <div style="font-family:Arial,sans-serif;max-width:560px;margin:0 auto;color:#222;">
+      <h2 style="color:#111;">Verify your email</h2>
+      <p>Hi ${firstName || 'there'},</p>
+      <p>Thanks for signing up with Dynasty Futures. Please confirm this is your email address to finish setting up your account.</p>
+      <p style="margin:24px 0;">
+        <a href="${verifyUrl}"
+           style="background:#111;color:#fff;padding:12px 20px;border-radius:6px;text-decoration:none;display:inline-block;">
+          Verify email
+        </a>
+      </p>
+      <p style="font-size:13px;color:#666;">
+        This link expires in ${VERIFY_LINK_TTL_HOURS} hours. If the button doesn't work, paste this URL into your browser:
+        <br /><span style="word-break:break-all;">${verifyUrl}</span>
+      </p>
+      <p style="font-size:13px;color:#666;">
+        If you didn't create an account, you can safely ignore this email.
+      </p>
+    </div>
+  `.trim();
+};
+
+const buildEmailVerificationText = (firstName: string, verifyUrl: string): string => {
+  return [
+    '=== Verify your email ===',
+    '',
+    `Hi ${firstName || 'there'},`,
+    '',
+    'Thanks for signing up with Dynasty Futures. Please confirm this is your email address to finish setting up your account.',
+    '',
+    `Open this link to verify (expires in ${VERIFY_LINK_TTL_HOURS} hours):`,
+    verifyUrl,
+    '',
+    "If you didn't create an account, you can safely ignore this email.",
+  ].join('\n');
+};
+
+/**
+ * Send an email verification link for a password registration.
+ *
+ * Errors are thrown — callers decide whether to swallow them (registration
+ * does, so a flaky SES never blocks signup; the user can resend).
+ */
+export const sendEmailVerificationEmail = async (
+  user: EmailVerificationEmailUser,
+  rawToken: string
+): Promise<void> => {
+  const verifyUrl = `${config.frontendUrl}/verify-email?token=${encodeURIComponent(rawToken)}`;
+
+  await sendEmail({
+    to: user.email,
+    subject: 'Verify your Dynasty Futures email',
+    htmlBody: buildEmailVerificationHtml(user.firstName, verifyUrl),
+    textBody: buildEmailVerificationText(user.firstName, verifyUrl),
+  });
+};
+
+// =============================================================================
+// Magic-Link Login Email
+// =============================================================================
+
+interface MagicLinkEmailUser {
+  email: string;
+  firstName: string;
+}
+
+const MAGIC_LINK_TTL_MINUTES = 15;
+
+const buildMagicLinkHtml = (firstName: string, loginUrl: string): string => {
+  return `
+    <div style="font-family:Arial,sans-serif;max-width:560px;margin:0 auto;color:#222;">
+      <h2 style="color:#111;">Sign in to Dynasty Futures</h2>
+      <p>Hi ${firstName || 'there'},</p>
+      <p>Use the button below to sign in — no password needed. The link works once.</p>
+      <p style="margin:24px 0;">
+        <a href="${loginUrl}"
+           style="background:#111;color:#fff;padding:12px 20px;border-radius:6px;text-decoration:none;display:inline-block;">
+          Sign in
+        </a>
+      </p>
+      <p style="font-size:13px;color:#666;">
+        This link expires in ${MAGIC_LINK_TTL_MINUTES} minutes. If the button doesn't work, paste this URL into your browser:
+        <br /><span style="word-break:break-all;">${loginUrl}</span>
+      </p>
+      <p style="font-size:13px;color:#666;">
+        If you didn't request this, you can safely ignore this email — nobody can sign in without the link.
+      </p>
+    </div>
+  `.trim();
+};
+
+const buildMagicLinkText = (firstName: string, loginUrl: string): string => {
+  return [
+    '=== Sign in to Dynasty Futures ===',
+    '',
+    `Hi ${firstName || 'there'},`,
+    '',
+    'Use the link below to sign in — no password needed. The link works once.',
+    '',
+    `Open this link to sign in (expires in ${MAGIC_LINK_TTL_MINUTES} minutes):`,
+    loginUrl,
+    '',
+    "If you didn't request this, you can safely ignore this email — nobody can sign in without the link.",
+  ].join('\n');
+};
+
+/**
+ * Send a one-time passwordless sign-in link.
+ *
+ * Errors are thrown — callers should swallow them so the response doesn't leak
+ * whether the email exists.
+ */
+export const sendMagicLinkEmail = async (
+  user: MagicLinkEmailUser,
+  rawToken: string
+): Promise<void> => {
+  const loginUrl = `${config.frontendUrl}/magic-link?token=${encodeURIComponent(rawToken)}`;
+
+  await sendEmail({
+    to: user.email,
+    subject: 'Your Dynasty Futures sign-in link',
+    htmlBody: buildMagicLinkHtml(user.firstName, loginUrl),
+    textBody: buildMagicLinkText(user.firstName, loginUrl),
+  });
+};
+
 // =============================================================================
 // Affiliate Application Email Notification
 // =============================================================================
@@ -461,3 +673,297 @@ export const sendAffiliateApplicationNotification = async (
     );
   }
 };
+
+// =============================================================================
+// New-Device Login Alert
+// =============================================================================
+
+interface NewDeviceLoginEmailUser {
+  email: string;
+  firstName: string;
+}
+
+export interface NewDeviceLoginDetails {
+  /** "Chrome on macOS"-style label. */
+  device: string;
+  ipAddress: string | null;
+  occurredAt: Date;
+}
+
+const buildNewDeviceLoginHtml = (
+  firstName: string,
+  login: NewDeviceLoginDetails,
+  secureUrl: string
+): string => {
+  return `
+    <div style="font-family:Arial,sans-serif;max-width:560px;margin:0 auto;color:#222;">
+      <h2 style="color:#111;">New sign-in to your account</h2>
+      <p>Hi ${escapeHtml(firstName || 'there')},</p>
+      <p>Your Dynasty Futures account was just signed in to from a device or location we haven't seen before:</p>
+      <table style="border-collapse:collapse;margin:16px 0;">
+        <tr><td style="padding:4px 12px 4px 0;color:#666;">Device</td><td>${escapeHtml(login.device)}</td></tr>
+        <tr><td style="padding:4px 12px 4px 0;color:#666;">IP address</td><td>${escapeHtml(login.ipAddress ?? 'Unknown')}</td></tr>
+        <tr><td style="padding:4px 12px 4px 0;color:#666;">Time</td><td>${login.occurredAt.toUTCString()}</td></tr>
+      </table>
+      <p>If this was you, there's nothing to do.</p>
+      <p style="font-size:13px;color:#666;">
+        If this wasn't you, reset your password right away — that signs out every device — and contact support:
+        <br /><a href="${secureUrl}" style="word-break:break-all;">${secureUrl}</a>
+      </p>
+    </div>
+  `.trim();
+};
+
+const buildNewDeviceLoginText = (
+  firstName: string,
+  login: NewDeviceLoginDetails,
+  secureUrl: string
+): string => {
+  return [
+    '=== New sign-in to your account ===',
+    '',
+    `Hi ${firstName || 'there'},`,
+    '',
+    "Your Dynasty Futures account was just signed in to from a device or location we haven't seen before:",
+    '',
+    `Device:     ${login.device}`,
+    `IP address: ${login.ipAddress ?? 'Unknown'}`,
+    `Time:       ${login.occurredAt.toUTCString()}`,
+    '',
+    "If this was you, there's nothing to do.",
+    '',
+    "If this wasn't you, reset your password right away — that signs out every device — and contact support:",
+    secureUrl,
+  ].join('\n');
+};
+
+/**
+ * Alert the user to a successful login from an unfamiliar device or IP.
+ * Errors are thrown — callers decide whether to swallow.
+ */
+export const sendNewDeviceLoginEmail = async (
+  user: NewDeviceLoginEmailUser,
+  login: NewDeviceLoginDetails
+): Promise<void> => {
+  const secureUrl = `${config.frontendUrl}/forgot-password`;
+
+  await sendEmail({
+    to: user.email,
+    subject: 'New sign-in to your Dynasty Futures account',
+    htmlBody: buildNewDeviceLoginHtml(user.firstName, login, secureUrl),
+    textBody: buildNewDeviceLoginText(user.firstName, login, secureUrl),
+  });
+};
+
+// =============================================================================
+// Account Security Emails (lockout / admin-forced reset)
+// =============================================================================
+
+interface AccountSecurityEmailUser {
+  email: string;
+  firstName: string;
+}
+
+interface AccountSecurityEmailContent {
+  heading: string;
+  paragraphs: string[];
+  ctaLabel: string;
+}
+
+const buildAccountSecurityHtml = (
+  firstName: string,
+  content: AccountSecurityEmailContent,
+  actionUrl: string
+): string => {
+  return `
+    <div style="font-family:Arial,sans-serif;max-width:560px;margin:0 auto;color:#222;">
+      <h2 style="color:#111;">${content.heading}</h2>
+      <p>Hi ${escapeHtml(firstName || 'there')},</p>
+      ${content.paragraphs.map((p) => `<p>${p}</p>`).join('\n      ')}
+      <p style="margin:24px 0;">
+        <a href="${actionUrl}"
+           style="background:#111;color:#fff;padding:12px 20px;border-radius:6px;text-decoration:none;display:inline-block;">
+          ${content.ctaLabel}
+        </a>
+      </p>
+      <p style="font-size:13px;color:#666;">
+        This link expires in ${RESET_LINK_TTL_MINUTES} minutes. If the button doesn't work, paste this URL into your browser:
+        <br /><span style="word-break:break-all;">${actionUrl}</span>
+      </p>
+    </div>
+  `.trim();
+};
+
+const buildAccountSecurityText = (
+  firstName: string,
+  content: AccountSecurityEmailContent,
+  actionUrl: string
+): string => {
+  return [
+    `=== ${content.heading} ===`,
+    '',
+    `Hi ${firstName || 'there'},`,
+    '',
+    ...content.paragraphs.flatMap((p) => [p, '']),
+    `${content.ctaLabel} (link expires in ${RESET_LINK_TTL_MINUTES} minutes):`,
+    actionUrl,
+  ].join('\n');
+};
+
+const sendAccountSecurityEmail = async (
+  user: AccountSecurityEmailUser,
+  subject: string,
+  content: AccountSecurityEmailContent,
+  rawToken: string
+): Promise<void> => {
+  const actionUrl = `${config.frontendUrl}/reset-password?token=${encodeURIComponent(rawToken)}`;
+
+  await sendEmail({
+    to: user.email,
+    subject,
+    htmlBody: buildAccountSecurityHtml(user.firstName, content, actionUrl),
+    textBody: buildAccountSecurityText(user.firstName, content, actionUrl),
+  });
+};
+
+/**
+ * Tell the user their account was locked after repeated failed sign-ins, with
+ * a one-click "secure my account" link (a password reset token). Errors are
+ * thrown — callers decide whether to swallow.
+ */
+export const sendAccountLockedEmail = async (
+  user: AccountSecurityEmailUser,
+  rawToken: string,
+  lockoutMinutes: number
+): Promise<void> => {
+  await sendAccountSecurityEmail(
+    user,
+    'Your Dynasty Futures account was temporarily locked',
+    {
+      heading: 'Account temporarily locked',
+      paragraphs: [
+        `We locked your Dynasty Futures account for ${lockoutMinutes} minutes after several failed sign-in attempts.`,
+        "If that was you, simply wait and try again. If it wasn't, someone may know your email address — secure your account by choosing a new password. This also signs out every device.",
+      ],
+      ctaLabel: 'Secure my account',
+    },
+    rawToken
+  );
+};
+
+/**
+ * Tell the user an administrator reset their credentials and they must choose
+ * a new password. Errors are thrown — callers decide whether to swallow.
+ */
+export const sendForcedPasswordResetEmail = async (
+  user: AccountSecurityEmailUser,
+  rawToken: string
+): Promise<void> => {
+  await sendAccountSecurityEmail(
+    user,
+    'Action required: choose a new Dynasty Futures password',
+    {
+      heading: 'Choose a new password',
+      paragraphs: [
+        'Our team has reset the password on your Dynasty Futures account and signed out every device, usually because we suspect it may have been compromised.',
+        'Please choose a new password to sign back in. Contact support if you have any questions.',
+      ],
+      ctaLabel: 'Choose a new password',
+    },
+    rawToken
+  );
+};
+
+// =============================================================================
+// Payout Decision
+// =============================================================================
+
+interface PayoutDecisionEmailUser {
+  email: string;
+  firstName: string;
+}
+
+export interface PayoutDecisionDetails {
+  approved: boolean;
+  amount: number;
+  currency: string;
+  accountName: string;
+  /** Shown to the trader on rejection. */
+  rejectionReason?: string | undefined;
+}
+
+const formatPayoutAmount = (amount: number, currency: string): string =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+
+const buildPayoutDecisionHtml = (
+  firstName: string,
+  decision: PayoutDecisionDetails,
+  payoutsUrl: string
+): string => {
+  const amount = formatPayoutAmount(decision.amount, decision.currency);
+  const body = decision.approved
+    ? `<p>Your payout request of <strong>${amount}</strong> from <strong>${escapeHtml(decision.accountName)}</strong> has been approved and is on its way to your payout method.</p>`
+    : `<p>Your payout request of <strong>${amount}</strong> from <strong>${escapeHtml(decision.accountName)}</strong> was not approved.</p>
+      ${decision.rejectionReason ? `<p><strong>Reason:</strong> ${escapeHtml(decision.rejectionReason)}</p>` : ''}
+      <p>You can submit a new request once the issue is resolved. Contact support if you have any questions.</p>`;
+
+  return `
+    <div style="font-family:Arial,sans-serif;max-width:560px;margin:0 auto;color:#222;">
+      <h2 style="color:#111;">Payout ${decision.approved ? 'approved' : 'rejected'}</h2>
+      <p>Hi ${escapeHtml(firstName || 'there')},</p>
+      ${body}
+      <p style="font-size:13px;color:#666;">
+        View your payout history: <a href="${payoutsUrl}" style="word-break:break-all;">${payoutsUrl}</a>
+      </p>
+    </div>
+  `.trim();
+};
+
+const buildPayoutDecisionText = (
+  firstName: string,
+  decision: PayoutDecisionDetails,
+  payoutsUrl: string
+): string => {
+  const amount = formatPayoutAmount(decision.amount, decision.currency);
+  const body = decision.approved
+    ? [
+        `Your payout request of ${amount} from ${decision.accountName} has been approved and is on its way to your payout method.`,
+      ]
+    : [
+        `Your payout request of ${amount} from ${decision.accountName} was not approved.`,
+        ...(decision.rejectionReason ? ['', `Reason: ${decision.rejectionReason}`] : []),
+        '',
+        'You can submit a new request once the issue is resolved. Contact support if you have any questions.',
+      ];
+
+  return [
+    `=== Payout ${decision.approved ? 'approved' : 'rejected'} ===`,
+    '',
+    `Hi ${firstName || 'there'},`,
+    '',
+    ...body,
+    '',
+    'View your payout history:',
+    payoutsUrl,
+  ].join('\n');
+};
+
+/**
+ * Tell the trader a payout request was approved or rejected.
+ * Errors are thrown — callers decide whether to swallow.
+ */
+export const sendPayoutDecisionEmail = async (
+  user: PayoutDecisionEmailUser,
+  decision: PayoutDecisionDetails
+): Promise<void> => {
+  const payoutsUrl = `${config.frontendUrl}/payouts`;
+
+  await sendEmail({
+    to: user.email,
+    subject: decision.approved
+      ? 'Your Dynasty Futures payout was approved'
+      : 'Update on your Dynasty Futures payout request',
+    htmlBody: buildPayoutDecisionHtml(user.firstName, decision, payoutsUrl),
+    textBody: buildPayoutDecisionText(user.firstName, decision, payoutsUrl),
+  });
+};
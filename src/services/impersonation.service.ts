@@ -0,0 +1,136 @@
+import { randomUUID } from 'crypto';
+import { UserRole } from '@prisma/client';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { signJwt } from '../utils/jwt-keys.js';
+import { ForbiddenError, NotFoundError } from '../utils/errors.js';
+import {
+  findUserById,
+  recordSecurityEvent,
+  type SafeUser,
+} from '../repositories/auth.repository.js';
+import type { JwtPayload } from '../api/middleware/auth.js';
+
+// =============================================================================
+// Impersonation Service
+// =============================================================================
+// "View as user" for support staff. The minted token is an ordinary access
+// token for the trader plus an RFC 8693 actor claim (`act.sub` = staff ID):
+//
+//   • it is bound to the STAFF member's session (`sid`), so it dies when they
+//     sign out or are revoked, and it has no refresh token;
+//   • it lives IMPERSONATION_TTL_MINUTES;
+//   • `authenticate` refuses every non-GET request made with it and records
+//     each request it serves in the audit log.
+//
+// Only traders can be impersonated — viewing as another staff member would
+// hand out their permissions.
+// =============================================================================
+
+export interface ImpersonationContext {
+  staffId: string;
+  /** The staff member's own session; the impersonation token is bound to it. */
+  sessionId: string;
+  reason: string;
+  ipAddress?: string | undefined;
+  userAgent?: string | undefined;
+}
+
+export interface ImpersonationResult {
+  accessToken: string;
+  expiresAt: Date;
+  user: SafeUser;
+}
+
+/**
+ * Mint a read-only access token that acts as `targetUserId`. Audited.
+ */
+export const startImpersonation = async (
+  targetUserId: string,
+  context: ImpersonationContext
+): Promise<ImpersonationResult> => {
+  if (targetUserId === context.staffId) {
+    throw new ForbiddenError('You cannot impersonate yourself');
+  }
+
+  const user = await findUserById(targetUserId);
+  if (!user) {
+    throw new NotFoundError(`User ${targetUserId} not found`);
+  }
+  if (user.role !== UserRole.TRADER) {
+    throw new ForbiddenError('Only trader accounts can be impersonated');
+  }
+
+  const impersonationId = randomUUID();
+  const ttlMinutes = config.security.impersonationTtlMinutes;
+  const expiresAt = new Date(Date.now() + ttlMinutes * 60 * 1000);
+
+  const payload: Omit<JwtPayload, 'iat' | 'exp'> = {
+    sub: user.id,
+    email: user.email,
+    role: user.role,
+    type: 'access',
+    sid: context.sessionId,
+    act: { sub: context.staffId },
+  };
+  const accessToken = signJwt(payload, {
+    expiresIn: ttlMinutes * 60,
+    jwtid: impersonationId,
+  });
+
+  await recordSecurityEvent({
+    userId: context.staffId,
+    action: 'IMPERSONATION_STARTED',
+    entity: 'User',
+    entityId: user.id,
+    ipAddress: context.ipAddress ?? null,
+    userAgent: context.userAgent ?? null,
+    metadata: { impersonationId, reason: context.reason, expiresAt: expiresAt.toISOString() },
+  });
+
+  logger.info(
+    { staffId: context.staffId, targetUserId: user.id, impersonationId },
+    'Impersonation session started'
+  );
+
+  return { accessToken, expiresAt, user };
+};
+
+export interface ImpersonatedRequest {
+  staffId: string;
+  userId: string;
+  impersonationId?: string | undefined;
+  method: string;
+  path: string;
+  statusCode: number;
+  ipAddress?: string | undefined;
+  userAgent?: string | undefined;
+}
+
+/**
+ * Audit one request served to an impersonation token. Never throws — a failed
+ * write is logged, not surfaced to the request.
+ */
+export const recordImpersonatedRequest = async (request: ImpersonatedRequest): Promise<void> => {
+  try {
+    await recordSecurityEvent({
+      userId: request.staffId,
+      action: 'IMPERSONATED_REQUEST',
+      entity: 'User',
+      entityId: request.userId,
+      ipAddress: request.ipAddress ?? null,
+      userAgent: request.userAgent ?? null,
+      metadata: {
+        impersonationId: request.impersonationId ?? null,
+        method: request.method,
+        path: request.path,
+        statusCode: request.statusCode,
+      },
+    });
+  } catch (err) {
+    logger.error(
+      { err, staffId: request.staffId, userId: request.userId, path: request.path },
+      'Failed to record impersonated request'
+    );
+  }
+};
@@ -5,8 +5,22 @@
 export * as supportTicketService from './support-ticket.service.js';
 export * as affiliateService from './affiliate.service.js';
 export * as authService from './auth.service.js';
+export * as mfaService from './mfa.service.js';
+export * as passwordPolicyService from './password-policy.service.js';
+export * as securityStampService from './security-stamp.service.js';
+export * as permissionService from './permission.service.js';
+export * as impersonationService from './impersonation.service.js';
+export * as auditService from './audit.service.js';
+export * as jurisdictionService from './jurisdiction.service.js';
+export * as loginHistoryService from './login-history.service.js';
+export * as webauthnService from './webauthn.service.js';
 export * as userService from './user.service.js';
+export * as userOverviewService from './user-overview.service.js';
 export * as accountService from './account.service.js';
+export * as accountOperationsService from './account-operations.service.js';
+export * as accountTimelineService from './account-timeline.service.js';
+export * as accountTypeService from './account-type.service.js';
+export * as adminNoteService from './admin-note.service.js';
 export * as challengeService from './challenge.service.js';
 export * as tradingService from './trading.service.js';
 export * as syncService from './sync.service.js';
@@ -0,0 +1,79 @@
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { lookupIpCountry } from '../utils/geoip.js';
+import { RestrictedJurisdictionError } from '../utils/errors.js';
+
+// =============================================================================
+// Jurisdiction Policy
+// =============================================================================
+// Which countries may use which feature (RESTRICTED_COUNTRIES*). A request is
+// refused if EITHER the user's declared country OR their IP's country is
+// restricted for the feature — a VPN doesn't launder a declared country, and
+// a false declaration doesn't launder an IP. Unknown countries are allowed.
+// =============================================================================
+
+export type JurisdictionFeature = keyof typeof config.jurisdiction.restrictedCountries;
+
+export interface JurisdictionSubject {
+  /** Country on the user's profile: an ISO code or an English country name. */
+  declaredCountry?: string | null | undefined;
+  ipAddress?: string | undefined;
+  userId?: string | undefined;
+}
+
+let _codesByName: Map<string, string> | null = null;
+
+const codesByName = (): Map<string, string> => {
+  if (_codesByName) return _codesByName;
+
+  const names = new Intl.DisplayNames(['en'], { type: 'region' });
+  _codesByName = new Map();
+  for (let a = 65; a <= 90; a++) {
+    for (let b = 65; b <= 90; b++) {
+      const code = String.fromCharCode(a, b);
+      const name = names.of(code);
+      if (name && name !== code) _codesByName.set(name.toLowerCase(), code);
+    }
+  }
+  return _codesByName;
+};
+
+/**
+ * ISO 3166-1 alpha-2 code for a declared country ("us", "US", "United
+ * States"), or null if it can't be resolved.
+ */
+export const normalizeCountry = (value: string | null | undefined): string | null => {
+  const trimmed = value?.trim();
+  if (!trimmed) return null;
+  if (/^[a-z]{2}$/i.test(trimmed)) return trimmed.toUpperCase();
+  return codesByName().get(trimmed.toLowerCase()) ?? null;
+};
+
+/**
+ * Throw RestrictedJurisdictionError if `feature` is unavailable in the
+ * subject's declared or IP country. A no-op when nothing is restricted for
+ * the feature.
+ */
+export const assertJurisdictionAllowed = (
+  feature: JurisdictionFeature,
+  subject: JurisdictionSubject
+): void => {
+  const restricted: readonly string[] = config.jurisdiction.restrictedCountries[feature];
+  if (restricted.length === 0) return;
+
+  const declared = normalizeCountry(subject.declaredCountry);
+  const ipCountry = lookupIpCountry(subject.ipAddress);
+
+  for (const [source, country] of [
+    ['declared', declared],
+    ['ip', ipCountry],
+  ] as const) {
+    if (country && restricted.includes(country)) {
+      logger.warn(
+        { feature, source, country, userId: subject.userId, ipAddress: subject.ipAddress },
+        'Blocked request from restricted jurisdiction'
+      );
+      throw new RestrictedJurisdictionError(feature, country);
+    }
+  }
+};
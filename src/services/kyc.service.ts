@@ -13,7 +13,7 @@
 import { KycStatus } from '@prisma/client';
 import { getTradingPlatformProvider } from '../providers/index.js';
 import { getUserById, updateKycStatus } from '../repositories/user.repository.js';
-import { BadRequestError, NotFoundError } from '../utils/errors.js';
+import { BadRequestError, EmailNotVerifiedError, NotFoundError } from '../utils/errors.js';
 import { logger } from '../utils/logger.js';
 
 /**
@@ -86,6 +86,11 @@ export const requestKyc = async (userId: string): Promise<KycStatusResult> => {
       'Identity verification becomes available once you have a trading account.',
     );
   }
+  if (!user.emailVerified) {
+    throw new EmailNotVerifiedError(
+      'Please verify your email address before starting identity verification.',
+    );
+  }
 
   const provider = getTradingPlatformProvider();
   await provider.requestKyc(user.platformUserId);
@@ -0,0 +1,137 @@
+import { logger } from '../utils/logger.js';
+import { describeDevice, deviceFingerprint } from '../utils/user-agent.js';
+import {
+  createLoginEvent,
+  findKnownLoginSources,
+  findLoginEvents,
+} from '../repositories/auth.repository.js';
+import type { PaginatedResult } from '../repositories/user.repository.js';
+import type { IdentityProviderName } from '../providers/identity/index.js';
+import { sendNewDeviceLoginEmail } from './email.service.js';
+
+// =============================================================================
+// Login History Service
+// =============================================================================
+// Records every sign-in attempt against a known user and alerts the user by
+// email when a successful login comes from a device or IP they haven't used
+// before. Recording is best-effort: a failure here is logged, never allowed to
+// break the login itself.
+// =============================================================================
+
+export type LoginMethod = 'password' | 'magic_link' | 'passkey' | IdentityProviderName;
+
+export type LoginFailureReason =
+  | 'invalid_password'
+  | 'invalid_mfa_code'
+  | 'invalid_passkey'
+  | 'account_locked';
+
+export interface LoginAttemptContext {
+  method: LoginMethod;
+  ipAddress?: string | undefined;
+  userAgent?: string | undefined;
+}
+
+export interface LoginHistoryEntry {
+  id: string;
+  success: boolean;
+  method: string;
+  failureReason: string | null;
+  /** Human-readable device label derived from the user agent. */
+  device: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: Date;
+}
+
+/**
+ * Record a successful login and, if it comes from an unfamiliar device or IP,
+ * email the user. The very first recorded login never alerts — there's nothing
+ * to compare it against.
+ */
+export const recordLoginSuccess = async (
+  user: { id: string; email: string; firstName: string },
+  context: LoginAttemptContext
+): Promise<void> => {
+  const ipAddress = context.ipAddress ?? null;
+  const userAgent = context.userAgent ?? null;
+  const fingerprint = deviceFingerprint(userAgent);
+
+  try {
+    const known = await findKnownLoginSources(user.id, fingerprint, ipAddress);
+
+    const event = await createLoginEvent({
+      userId: user.id,
+      success: true,
+      method: context.method,
+      ipAddress,
+      userAgent,
+      deviceFingerprint: fingerprint,
+    });
+
+    if (known.hasHistory && (!known.knownDevice || !known.knownIp)) {
+      logger.info(
+        { userId: user.id, knownDevice: known.knownDevice, knownIp: known.knownIp },
+        'Login from a new device or IP'
+      );
+      // Fire-and-forget: the login response doesn't wait on SMTP.
+      sendNewDeviceLoginEmail(
+        { email: user.email, firstName: user.firstName },
+        { device: describeDevice(userAgent), ipAddress, occurredAt: event.createdAt }
+      ).catch((err) => {
+        logger.error({ err, userId: user.id }, 'Failed to send new-device login email');
+      });
+    }
+  } catch (err) {
+    logger.error({ err, userId: user.id }, 'Failed to record successful login');
+  }
+};
+
+/**
+ * Record a failed login attempt for a known user.
+ */
+export const recordLoginFailure = async (
+  userId: string,
+  reason: LoginFailureReason,
+  context: LoginAttemptContext
+): Promise<void> => {
+  const userAgent = context.userAgent ?? null;
+
+  try {
+    await createLoginEvent({
+      userId,
+      success: false,
+      method: context.method,
+      failureReason: reason,
+      ipAddress: context.ipAddress ?? null,
+      userAgent,
+      deviceFingerprint: deviceFingerprint(userAgent),
+    });
+  } catch (err) {
+    logger.error({ err, userId }, 'Failed to record failed login');
+  }
+};
+
+/**
+ * The user's login history, newest first.
+ */
+export const getLoginHistory = async (
+  userId: string,
+  pagination: { page: number; limit: number } = { page: 1, limit: 20 }
+): Promise<PaginatedResult<LoginHistoryEntry>> => {
+  const result = await findLoginEvents(userId, pagination);
+
+  return {
+    data: result.data.map((event) => ({
+      id: event.id,
+      success: event.success,
+      method: event.method,
+      failureReason: event.failureReason,
+      device: describeDevice(event.userAgent),
+      ipAddress: event.ipAddress,
+      userAgent: event.userAgent,
+      createdAt: event.createdAt,
+    })),
+    pagination: result.pagination,
+  };
+};
@@ -0,0 +1,236 @@
+import { createHash, randomBytes } from 'crypto';
+import type { UserCredential } from '@prisma/client';
+
+import { logger } from '../utils/logger.js';
+import { cacheGet, cacheSet } from '../utils/redis.js';
+import { BadRequestError, ConflictError, UnauthorizedError } from '../utils/errors.js';
+import {
+  buildOtpauthUri,
+  generateTotpSecret,
+  verifyTotpCode,
+} from '../utils/totp.js';
+import {
+  findUserByIdWithCredentials,
+  setPendingMfaSecret,
+  enableMfa,
+  replaceMfaBackupCodes,
+  disableMfa as clearMfa,
+  consumeMfaBackupCode,
+  type UserWithCredentials,
+} from '../repositories/auth.repository.js';
+
+// =============================================================================
+// MFA Service
+// =============================================================================
+// TOTP two-factor authentication backed by the UserCredential MFA columns.
+//
+// Lifecycle:
+//   1. enrollMfa    — mint a secret, store it (MFA still OFF), return the
+//                     secret + otpauth:// URI for the authenticator app.
+//   2. confirmMfa   — user proves possession with a live code → MFA ON, and
+//                     one-time backup codes are returned (the only time the
+//                     raw codes are ever visible).
+//   3. disableMfa / regenerateBackupCodes — both require a fresh code.
+//
+// Backup codes are stored as SHA-256 hashes and spent one at a time. The
+// login half of the flow (mfa-pending token → verify) lives in auth.service.
+// =============================================================================
+
+const MFA_ISSUER = 'Dynasty Futures';
+const BACKUP_CODE_COUNT = 10;
+const BACKUP_CODE_BYTES = 5; // 10 hex chars, shown as xxxxx-xxxxx
+
+/** A TOTP step is 30s and we accept ±1 step, so a code is live for ≤ 90s. */
+const TOTP_REPLAY_TTL_SECONDS = 90;
+
+export type MfaMethod = 'totp' | 'backup_code';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const normalizeBackupCode = (code: string): string =>
+  code.toLowerCase().replace(/[^a-f0-9]/g, '');
+
+const hashBackupCode = (code: string): string =>
+  createHash('sha256').update(normalizeBackupCode(code)).digest('hex');
+
+const generateBackupCodes = (): { codes: string[]; hashes: string[] } => {
+  const codes = Array.from({ length: BACKUP_CODE_COUNT }, () => {
+    const hex = randomBytes(BACKUP_CODE_BYTES).toString('hex');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(hashBackupCode) };
+};
+
+/**
+ * Check a TOTP code and burn it so the same code can't be replayed within its
+ * validity window. The replay guard is Redis-backed; without Redis it degrades
+ * to plain verification.
+ */
+const verifyTotpOnce = async (
+  userId: string,
+  secret: string,
+  code: string
+): Promise<boolean> => {
+  const counter = verifyTotpCode(secret, code);
+  if (counter === null) return false;
+
+  const replayKey = `mfa:totp-used:${userId}:${counter}`;
+  if (await cacheGet<boolean>(replayKey)) {
+    logger.warn({ userId }, 'Rejected replayed TOTP code');
+    return false;
+  }
+  await cacheSet(replayKey, true, TOTP_REPLAY_TTL_SECONDS);
+
+  return true;
+};
+
+const loadCredentials = async (
+  userId: string
+): Promise<{ user: UserWithCredentials; credentials: UserCredential | null }> => {
+  const user = await findUserByIdWithCredentials(userId);
+  if (!user) {
+    throw new UnauthorizedError('User not found');
+  }
+  return { user, credentials: user.credentials };
+};
+
+// =============================================================================
+// Verification (used by login + the management endpoints below)
+// =============================================================================
+
+/**
+ * Verify a second-factor code for a user with MFA enabled. Accepts either a
+ * 6-digit TOTP code or an unused backup code (which is consumed).
+ *
+ * Returns the method that matched, or null when nothing did.
+ */
+export const verifyMfaCode = async (
+  userId: string,
+  credentials: Pick<UserCredential, 'mfaSecret'>,
+  code: string
+): Promise<MfaMethod | null> => {
+  const trimmed = code.trim();
+
+  if (/^\d{6}$/.test(trimmed)) {
+    if (!credentials.mfaSecret) return null;
+    return (await verifyTotpOnce(userId, credentials.mfaSecret, trimmed)) ? 'totp' : null;
+  }
+
+  const consumed = await consumeMfaBackupCode(userId, hashBackupCode(trimmed));
+  if (consumed) {
+    logger.info({ userId }, 'MFA backup code consumed');
+    return 'backup_code';
+  }
+
+  return null;
+};
+
+// =============================================================================
+// Enrollment
+// =============================================================================
+
+export interface MfaEnrollment {
+  secret: string;
+  otpauthUri: string;
+}
+
+/**
+ * Start (or restart) TOTP enrollment. Any previous pending secret is replaced.
+ */
+export const enrollMfa = async (userId: string): Promise<MfaEnrollment> => {
+  const { user, credentials } = await loadCredentials(userId);
+
+  if (credentials?.mfaEnabled) {
+    throw new ConflictError('Two-factor authentication is already enabled');
+  }
+
+  const secret = generateTotpSecret();
+  await setPendingMfaSecret(userId, secret);
+
+  logger.info({ userId }, 'MFA enrollment started');
+
+  return {
+    secret,
+    otpauthUri: buildOtpauthUri({ secret, accountName: user.email, issuer: MFA_ISSUER }),
+  };
+};
+
+/**
+ * Finish enrollment by proving possession of the secret. Returns the raw
+ * backup codes — they are never retrievable again.
+ */
+export const confirmMfa = async (
+  userId: string,
+  code: string
+): Promise<{ backupCodes: string[] }> => {
+  const { credentials } = await loadCredentials(userId);
+
+  if (credentials?.mfaEnabled) {
+    throw new ConflictError('Two-factor authentication is already enabled');
+  }
+  if (!credentials?.mfaSecret) {
+    throw new BadRequestError('Start two-factor enrollment before confirming it');
+  }
+
+  if (!(await verifyTotpOnce(userId, credentials.mfaSecret, code.trim()))) {
+    throw new BadRequestError('Invalid verification code');
+  }
+
+  const { codes, hashes } = generateBackupCodes();
+  await enableMfa(userId, hashes);
+
+  logger.info({ userId }, 'MFA enabled');
+
+  return { backupCodes: codes };
+};
+
+// =============================================================================
+// Management
+// =============================================================================
+
+/**
+ * Turn MFA off. Requires a current TOTP code or a backup code.
+ */
+export const disableMfa = async (userId: string, code: string): Promise<void> => {
+  const { credentials } = await loadCredentials(userId);
+
+  if (!credentials?.mfaEnabled) {
+    throw new BadRequestError('Two-factor authentication is not enabled');
+  }
+
+  if (!(await verifyMfaCode(userId, credentials, code))) {
+    throw new BadRequestError('Invalid verification code');
+  }
+
+  await clearMfa(userId);
+
+  logger.info({ userId }, 'MFA disabled');
+};
+
+/**
+ * Replace all backup codes with a fresh set. Requires a live TOTP code (not a
+ * backup code) so a leaked backup sheet can't be used to mint a new one.
+ */
+export const regenerateBackupCodes = async (
+  userId: string,
+  code: string
+): Promise<{ backupCodes: string[] }> => {
+  const { credentials } = await loadCredentials(userId);
+
+  if (!credentials?.mfaEnabled || !credentials.mfaSecret) {
+    throw new BadRequestError('Two-factor authentication is not enabled');
+  }
+
+  if (!(await verifyTotpOnce(userId, credentials.mfaSecret, code.trim()))) {
+    throw new BadRequestError('Invalid verification code');
+  }
+
+  const { codes, hashes } = generateBackupCodes();
+  await replaceMfaBackupCodes(userId, hashes);
+
+  logger.info({ userId }, 'MFA backup codes regenerated');
+
+  return { backupCodes: codes };
+};
@@ -0,0 +1,188 @@
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { breachedPasswordCount } from '../utils/breached-passwords.js';
+import { ValidationError } from '../utils/errors.js';
+
+// =============================================================================
+// Password Policy
+// =============================================================================
+// The one place that decides whether a new password is acceptable — on
+// sign-up, reset, change and first set. The route schemas only check shape
+// (length, character classes); this adds a strength score, a ban on the
+// user's own email and name, and the offline breached-password list.
+//
+// Violations are thrown as a ValidationError whose details use the same
+// `errors: [{ field, message }]` shape as request validation, plus a `rule`
+// the frontend can key its copy on and the password's `score`.
+// =============================================================================
+
+export const PASSWORD_MIN_LENGTH = 8;
+export const PASSWORD_MAX_LENGTH = 128;
+
+/** Shorter name parts are too common to be worth refusing ("Al", "Li"). */
+const MIN_PERSONAL_TOKEN_LENGTH = 3;
+
+export type PasswordRule =
+  | 'too_short'
+  | 'too_long'
+  | 'too_weak'
+  | 'contains_personal_info'
+  | 'breached';
+
+export interface PasswordViolation {
+  field: 'password';
+  rule: PasswordRule;
+  message: string;
+}
+
+/** What we know about the account the password is for. */
+export interface PasswordContext {
+  email?: string | undefined;
+  firstName?: string | undefined;
+  lastName?: string | undefined;
+}
+
+export interface PasswordEvaluation {
+  /** 0 (trivially guessable) to 4 (very strong). */
+  score: number;
+  violations: PasswordViolation[];
+}
+
+// =============================================================================
+// Strength
+// =============================================================================
+
+const charsetSize = (password: string): number => {
+  let size = 0;
+  if (/[a-z]/.test(password)) size += 26;
+  if (/[A-Z]/.test(password)) size += 26;
+  if (/\d/.test(password)) size += 10;
+  if (/[ -/:-@[-`{-~]/.test(password)) size += 33;
+  if (/[^\x20-\x7e]/.test(password)) size += 100;
+  return Math.max(size, 1);
+};
+
+/**
+ * Characters that add real guessing work: a repeat of the previous character
+ * ("aaaa") or the next step of a run ("abcd", "4321") counts for nothing.
+ */
+const effectiveLength = (password: string): number => {
+  const chars = [...password.toLowerCase()];
+  let length = 0;
+  let step = 0;
+
+  chars.forEach((char, i) => {
+    const prev = chars[i - 1];
+    if (prev === undefined) {
+      length++;
+      return;
+    }
+    const delta = (char.codePointAt(0) ?? 0) - (prev.codePointAt(0) ?? 0);
+    if (delta === 0 || (Math.abs(delta) === 1 && (step === 0 || step === delta))) {
+      step = delta;
+      return;
+    }
+    step = 0;
+    length++;
+  });
+
+  return length;
+};
+
+/**
+ * Strength score on the familiar 0–4 scale, from a brute-force guess estimate
+ * (log10 of charset^effective length). Dictionary words are the breached
+ * list's job, not this one's.
+ */
+export const scorePassword = (password: string): number => {
+  const log10Guesses = effectiveLength(password) * Math.log10(charsetSize(password));
+  if (log10Guesses < 3) return 0;
+  if (log10Guesses < 6) return 1;
+  if (log10Guesses < 8) return 2;
+  if (log10Guesses < 10) return 3;
+  return 4;
+};
+
+// =============================================================================
+// Personal information
+// =============================================================================
+
+const personalTokens = (context: PasswordContext): string[] => {
+  const [localPart = ''] = (context.email ?? '').toLowerCase().split('@');
+  const parts = [
+    localPart,
+    ...localPart.split(/[^a-z0-9]+/),
+    ...[context.firstName, context.lastName].flatMap((name) =>
+      (name ?? '').toLowerCase().split(/\s+/)
+    ),
+  ];
+  return [...new Set(parts)].filter((part) => part.length >= MIN_PERSONAL_TOKEN_LENGTH);
+};
+
+// =============================================================================
+// Evaluation
+// =============================================================================
+
+/**
+ * Check `password` against every rule and report all violations at once, so
+ * the user can fix them in one go.
+ */
+export const evaluatePassword = async (
+  password: string,
+  context: PasswordContext = {}
+): Promise<PasswordEvaluation> => {
+  const violations: PasswordViolation[] = [];
+  const violation = (rule: PasswordRule, message: string): void => {
+    violations.push({ field: 'password', rule, message });
+  };
+
+  if (password.length < PASSWORD_MIN_LENGTH) {
+    violation('too_short', `Password must be at least ${PASSWORD_MIN_LENGTH} characters`);
+  }
+  if (password.length > PASSWORD_MAX_LENGTH) {
+    violation('too_long', `Password must be at most ${PASSWORD_MAX_LENGTH} characters`);
+  }
+
+  const score = scorePassword(password);
+  if (score < config.security.passwordPolicy.minScore) {
+    violation(
+      'too_weak',
+      'Password is too easy to guess — make it longer and avoid repeated or sequential characters'
+    );
+  }
+
+  const lowered = password.toLowerCase();
+  if (personalTokens(context).some((token) => lowered.includes(token))) {
+    violation('contains_personal_info', 'Password must not contain your email address or name');
+  }
+
+  // Skip the disk read for passwords that are already refused.
+  if (violations.length === 0 && (await breachedPasswordCount(password)) > 0) {
+    violation(
+      'breached',
+      'This password has appeared in a data breach and cannot be used — choose a different one'
+    );
+  }
+
+  return { score, violations };
+};
+
+/**
+ * Throw a ValidationError listing every rule `password` breaks.
+ */
+export const assertPasswordAllowed = async (
+  password: string,
+  context: PasswordContext = {}
+): Promise<void> => {
+  const { score, violations } = await evaluatePassword(password, context);
+  if (violations.length === 0) return;
+
+  logger.info(
+    { rules: violations.map((v) => v.rule), score },
+    'Password rejected by password policy'
+  );
+  throw new ValidationError('Password does not meet the password policy', {
+    errors: violations,
+    score,
+  });
+};
@@ -8,23 +8,33 @@
 // stop obviously-invalid submissions; YPF + the CRM are the final authority.
 // =============================================================================
 
-import { AccountStatus, PayoutMethod, PayoutStatus } from '@prisma/client';
+import { AccountStatus, KycStatus, PayoutMethod, PayoutStatus } from '@prisma/client';
 import { prisma } from '../utils/database.js';
 import { logger } from '../utils/logger.js';
 import {
   BadRequestError,
+  ConflictError,
+  EmailNotVerifiedError,
   NotFoundError,
   PlatformError,
 } from '../utils/errors.js';
 import { getTradingPlatformProvider } from '../providers/index.js';
 import type { PlatformAccountResult } from '../providers/types.js';
 import * as payoutRepository from '../repositories/payout.repository.js';
-import type { PayoutWithAccount } from '../repositories/payout.repository.js';
+import type {
+  PayoutForReview,
+  PayoutWithAccount,
+} from '../repositories/payout.repository.js';
+import type { PaginatedResult } from '../repositories/user.repository.js';
 import {
   evaluatePayoutEligibility,
   type PayoutEligibilityInput,
+  type PayoutEligibilityResult,
   type PayoutRule,
 } from './payout-eligibility.js';
+import { recordAudit, type AuditRequestContext } from './audit.service.js';
+import { assertJurisdictionAllowed } from './jurisdiction.service.js';
+import { sendPayoutDecisionEmail } from './email.service.js';
 
 // Rise is the firm's payout rail (a YPF TransferType). Bank details ride along
 // in `payoutDetails` and are forwarded to YPF without being persisted locally.
@@ -71,6 +81,43 @@ export interface PayoutDTO {
   processedAt: string | null;
 }
 
+/** A pending payout as the review queue shows it. */
+export interface PayoutReviewDTO extends PayoutDTO {
+  trader: {
+    id: string;
+    email: string;
+    firstName: string;
+    lastName: string;
+    country: string | null;
+    kycStatus: KycStatus;
+  };
+  account: {
+    id: string;
+    status: AccountStatus;
+    currentBalance: number;
+    startingBalance: number;
+  };
+  /** Re-evaluated against the live account at the time of listing. */
+  eligibility: Pick<
+    PayoutEligibilityResult,
+    'eligible' | 'rules' | 'availableProfit' | 'maxAmount' | 'amountErrors' | 'blockingReason'
+  > & {
+    /** False when YPF couldn't be reached — evaluated against stored data only. */
+    live: boolean;
+  };
+}
+
+export interface ApprovePayoutInput {
+  reviewerId: string;
+  /** Internal note, not shown to the trader. */
+  note?: string | undefined;
+}
+
+export interface RejectPayoutInput extends ApprovePayoutInput {
+  /** Sent to YPF and shown to the trader. */
+  reason: string;
+}
+
 export interface BankPayoutDetails {
   accountHolder: string;
   accountNumber: string;
@@ -243,7 +290,8 @@ export const getEligibleAccounts = async (
 // ── Request a payout ─────────────────────────────────────────────────────────
 
 export const requestPayout = async (
-  input: RequestPayoutInput
+  input: RequestPayoutInput,
+  request: AuditRequestContext = {}
 ): Promise<PayoutDTO> => {
   const { userId, accountId, amount, payoutDetails } = input;
 
@@ -256,6 +304,16 @@ export const requestPayout = async (
     throw new NotFoundError('Account not found');
   }
 
+  if (!account.user.emailVerified) {
+    throw new EmailNotVerifiedError('Please verify your email address before requesting a payout');
+  }
+
+  assertJurisdictionAllowed('payout', {
+    declaredCountry: account.user.country,
+    ipAddress: request.ipAddress,
+    userId,
+  });
+
   const platformUserId = account.platformUserId ?? account.user.platformUserId;
   const platformAccountId = account.platformAccountId;
   if (!platformUserId || !platformAccountId) {
@@ -317,6 +375,24 @@ export const requestPayout = async (
     'Payout request submitted to YPF'
   );
 
+  // Bank details are deliberately left out of the audit entry too.
+  await recordAudit(
+    {
+      actorId: userId,
+      action: 'PAYOUT_REQUESTED',
+      entity: 'Payout',
+      entityId: payout.id,
+      newValues: {
+        accountId,
+        amount,
+        currency: payout.currency,
+        status: payout.status,
+        platformPayoutId: payout.platformPayoutId,
+      },
+    },
+    request
+  );
+
   // Re-read with account relation so the DTO carries the account label.
   const withAccount = await payoutRepository.findPayoutByIdForUser(
     payout.id,
@@ -345,12 +421,207 @@ export const getPayoutById = async (
   return toPayoutDTO(payout);
 };
 
+// ── Staff review ─────────────────────────────────────────────────────────────
+// The risk team decides payouts here instead of in the YPF CRM. The reviewer
+// first claims the local row, so only one decision is ever sent; the decision
+// is then pushed to YPF (still the money rail and final authority) and, once
+// YPF accepts it, recorded with the reviewer, note and time.
+
+/**
+ * Pending payouts, oldest first, each with its trader (incl. KYC status) and
+ * eligibility re-evaluated against the live account. The page's YPF lookups
+ * run concurrently.
+ */
+export const listPayoutReviewQueue = async (pagination: {
+  page: number;
+  limit: number;
+}): Promise<PaginatedResult<PayoutReviewDTO>> => {
+  const queue = await payoutRepository.findPendingPayouts(pagination);
+
+  const data = await Promise.all(
+    queue.data.map(async (payout): Promise<PayoutReviewDTO> => {
+      const { account } = payout;
+      const live = await fetchLiveAccount(
+        resolvePlatformUserId(account),
+        account.platformAccountId
+      );
+      // The payout under review is the account's in-flight request — don't let
+      // it block its own evaluation.
+      const evalResult = evaluatePayoutEligibility(
+        buildEligibilityInput(account, false, live, Number(payout.amount))
+      );
+
+      return {
+        ...toPayoutDTO(payout),
+        trader: {
+          id: account.user.id,
+          email: account.user.email,
+          firstName: account.user.firstName,
+          lastName: account.user.lastName,
+          country: account.user.country,
+          kycStatus: account.user.kycStatus,
+        },
+        account: {
+          id: account.id,
+          status: account.status,
+          currentBalance: live?.balance ?? Number(account.currentBalance),
+          startingBalance: Number(account.startingBalance),
+        },
+        eligibility: {
+          eligible: evalResult.eligible,
+          rules: evalResult.rules,
+          availableProfit: evalResult.availableProfit,
+          maxAmount: evalResult.maxAmount,
+          amountErrors: evalResult.amountErrors,
+          blockingReason: evalResult.blockingReason,
+          live: live !== null,
+        },
+      };
+    })
+  );
+
+  return { data, pagination: queue.pagination };
+};
+
+const findPendingPayoutForReview = async (
+  payoutId: string
+): Promise<PayoutForReview & { platformPayoutId: string }> => {
+  const payout = await payoutRepository.findPayoutForReview(payoutId);
+  if (!payout) {
+    throw new NotFoundError('Payout not found');
+  }
+  if (payout.status !== PayoutStatus.PENDING) {
+    throw new ConflictError(`This payout has already been ${payout.status.toLowerCase()}`);
+  }
+  if (!payout.platformPayoutId) {
+    throw new PlatformError('This payout is not linked to the trading platform', {}, 400);
+  }
+  return payout as PayoutForReview & { platformPayoutId: string };
+};
+
+/** Claim a pending payout for the reviewer, or fail if someone else holds it. */
+const claimPayout = async (payoutId: string, reviewerId: string): Promise<void> => {
+  if (!(await payoutRepository.claimPayoutForReview(payoutId, reviewerId))) {
+    throw new ConflictError('This payout is being reviewed by someone else');
+  }
+};
+
+const releaseClaim = async (payoutId: string, reviewerId: string): Promise<void> => {
+  try {
+    await payoutRepository.releasePayoutReviewClaim(payoutId, reviewerId);
+  } catch (err) {
+    logger.error({ err, payoutId }, 'Failed to release payout review claim');
+  }
+};
+
+/** Record the decision YPF accepted, audit it and tell the trader. */
+const completeReview = async (
+  payout: PayoutForReview,
+  status: typeof PayoutStatus.APPROVED | typeof PayoutStatus.REJECTED,
+  input: ApprovePayoutInput & { reason?: string | undefined },
+  request: AuditRequestContext
+): Promise<PayoutDTO> => {
+  const recorded = await payoutRepository.recordPayoutReview(payout.id, {
+    status,
+    reviewedBy: input.reviewerId,
+    reviewNote: input.note,
+    rejectionReason: input.reason,
+  });
+  if (!recorded) {
+    // Only if the claim expired mid-request. YPF has the decision regardless,
+    // so it is still audited and sent to the trader.
+    logger.warn(
+      { payoutId: payout.id, reviewerId: input.reviewerId, status },
+      'Payout review claim lost before the decision was recorded'
+    );
+  }
+
+  logger.info(
+    { payoutId: payout.id, reviewerId: input.reviewerId, status },
+    'Payout reviewed'
+  );
+
+  await recordAudit(
+    {
+      actorId: input.reviewerId,
+      action: status === PayoutStatus.APPROVED ? 'PAYOUT_APPROVED' : 'PAYOUT_REJECTED',
+      entity: 'Payout',
+      entityId: payout.id,
+      oldValues: { status: payout.status },
+      newValues: { status, rejectionReason: input.reason },
+      metadata: { note: input.note, platformPayoutId: payout.platformPayoutId },
+    },
+    request
+  );
+
+  try {
+    await sendPayoutDecisionEmail(
+      { email: payout.account.user.email, firstName: payout.account.user.firstName },
+      {
+        approved: status === PayoutStatus.APPROVED,
+        amount: Number(payout.amount),
+        currency: payout.currency,
+        accountName: accountLabel(payout.account),
+        rejectionReason: input.reason,
+      }
+    );
+  } catch (err) {
+    logger.error({ err, payoutId: payout.id }, 'Failed to send payout decision email');
+  }
+
+  return toPayoutDTO({
+    ...payout,
+    status,
+    rejectionReason: input.reason ?? payout.rejectionReason,
+  });
+};
+
+/** Approve a pending payout on YPF and record the reviewer. */
+export const approvePayout = async (
+  payoutId: string,
+  input: ApprovePayoutInput,
+  request: AuditRequestContext = {}
+): Promise<PayoutDTO> => {
+  const payout = await findPendingPayoutForReview(payoutId);
+  await claimPayout(payout.id, input.reviewerId);
+
+  try {
+    await getTradingPlatformProvider().approvePayout(payout.platformPayoutId);
+  } catch (err) {
+    logger.error({ err, payoutId }, 'Failed to approve payout on YPF');
+    await releaseClaim(payout.id, input.reviewerId);
+    throw new PlatformError('Could not approve the payout on the trading platform. Please try again.');
+  }
+
+  return completeReview(payout, PayoutStatus.APPROVED, input, request);
+};
+
+/** Reject a pending payout on YPF with a trader-facing reason. */
+export const rejectPayout = async (
+  payoutId: string,
+  input: RejectPayoutInput,
+  request: AuditRequestContext = {}
+): Promise<PayoutDTO> => {
+  const payout = await findPendingPayoutForReview(payoutId);
+  await claimPayout(payout.id, input.reviewerId);
+
+  try {
+    await getTradingPlatformProvider().rejectPayout(payout.platformPayoutId, input.reason);
+  } catch (err) {
+    logger.error({ err, payoutId }, 'Failed to reject payout on YPF');
+    await releaseClaim(payout.id, input.reviewerId);
+    throw new PlatformError('Could not reject the payout on the trading platform. Please try again.');
+  }
+
+  return completeReview(payout, PayoutStatus.REJECTED, input, request);
+};
+
 // ── Poller reconciliation ─────────────────────────────────────────────────────
 
 /**
  * Pull current payout state from YPF and mirror status transitions locally.
- * Invoked by the YPF poller — approvals/rejections happen in YPF's CRM, so this
- * is how those decisions surface back to the trader.
+ * Invoked by the YPF poller — approvals/rejections made in YPF's CRM surface
+ * back to the trader this way (decisions made in DF are recorded directly).
  */
 export const syncPayouts = async (): Promise<number> => {
   const reconcilable = await payoutRepository.findReconcilablePayouts();
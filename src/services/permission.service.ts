@@ -0,0 +1,212 @@
+import type { UserPermissionGrant, UserRole } from '@prisma/client';
+import { config } from '../config/index.js';
+import { isPermission, type Permission } from '../config/permissions.js';
+import { cacheDelete, cacheGet, cacheSet } from '../utils/redis.js';
+import { logger } from '../utils/logger.js';
+import { ForbiddenError, NotFoundError, ValidationError } from '../utils/errors.js';
+import {
+  deleteUserGrant,
+  findActiveUserGrants,
+  findRolePermissions,
+  upsertUserGrant,
+} from '../repositories/permission.repository.js';
+import { getUserById } from '../repositories/user.repository.js';
+import { recordSecurityEvent } from '../repositories/auth.repository.js';
+
+// =============================================================================
+// Permission Service
+// =============================================================================
+// A user's effective permissions = their role's `role_permissions` rows plus
+// their unexpired grants. `requirePermission` asks on every guarded request,
+// so the union is cached in Redis per user, keyed to the role it was computed
+// for. Grants and revokes invalidate it; edits to `role_permissions` are
+// picked up within the TTL.
+// =============================================================================
+
+const CACHE_TTL_SECONDS = 5 * 60;
+
+const cacheKey = (userId: string): string => `auth:permissions:${userId}`;
+
+interface CachedPermissions {
+  role: UserRole;
+  permissions: Permission[];
+}
+
+export interface PermissionSubject {
+  id: string;
+  role: UserRole;
+}
+
+/**
+ * Permissions mapped to a role in the database. Unknown names (e.g. rows left
+ * behind by a removed permission) are ignored.
+ */
+export const getRolePermissions = async (role: UserRole): Promise<Permission[]> => {
+  return (await findRolePermissions(role)).filter(isPermission);
+};
+
+/**
+ * Everything the user may do: role permissions plus unexpired grants.
+ */
+export const getEffectivePermissions = async (
+  user: PermissionSubject
+): Promise<Permission[]> => {
+  const useCache = Boolean(config.redis.url);
+
+  if (useCache) {
+    const cached = await cacheGet<CachedPermissions>(cacheKey(user.id));
+    // The role comes from the access token; a mismatch means it just changed.
+    if (cached && cached.role === user.role) return cached.permissions;
+  }
+
+  const [rolePermissions, grants] = await Promise.all([
+    getRolePermissions(user.role),
+    findActiveUserGrants(user.id),
+  ]);
+  const permissions = [
+    ...new Set([...rolePermissions, ...grants.map((g) => g.permission).filter(isPermission)]),
+  ];
+
+  if (useCache) {
+    // Don't let the cache outlive the first grant to expire.
+    const nextExpiry = grants.reduce<number>(
+      (soonest, g) => (g.expiresAt ? Math.min(soonest, g.expiresAt.getTime()) : soonest),
+      Infinity
+    );
+    const ttl = Math.min(CACHE_TTL_SECONDS, Math.ceil((nextExpiry - Date.now()) / 1000));
+    if (ttl > 0) {
+      await cacheSet<CachedPermissions>(cacheKey(user.id), { role: user.role, permissions }, ttl);
+    }
+  }
+
+  return permissions;
+};
+
+export const hasPermission = async (
+  user: PermissionSubject,
+  permission: Permission
+): Promise<boolean> => {
+  return (await getEffectivePermissions(user)).includes(permission);
+};
+
+/**
+ * Drop the cached permission set so the next request recomputes it.
+ */
+export const invalidatePermissions = async (userId: string): Promise<void> => {
+  if (!config.redis.url) return;
+  await cacheDelete(cacheKey(userId));
+};
+
+// =============================================================================
+// Admin: per-user grants
+// =============================================================================
+
+export interface PermissionChangeContext {
+  admin: PermissionSubject;
+  ipAddress?: string | undefined;
+  userAgent?: string | undefined;
+}
+
+export interface UserPermissionSummary {
+  role: UserRole;
+  rolePermissions: Permission[];
+  grants: UserPermissionGrant[];
+}
+
+/**
+ * A user's role permissions and active grants, listed separately.
+ */
+export const listUserPermissions = async (userId: string): Promise<UserPermissionSummary> => {
+  const user = await getUserById(userId);
+  if (!user) {
+    throw new NotFoundError(`User ${userId} not found`);
+  }
+
+  const [rolePermissions, grants] = await Promise.all([
+    getRolePermissions(user.role),
+    findActiveUserGrants(userId),
+  ]);
+
+  return { role: user.role, rolePermissions, grants };
+};
+
+/**
+ * Grant a permission to a user, optionally until `expiresAt`. Admins can only
+ * hand out permissions they hold themselves. Audited.
+ */
+export const grantPermission = async (
+  userId: string,
+  permission: string,
+  options: { expiresAt?: Date | undefined; reason?: string | undefined },
+  context: PermissionChangeContext
+): Promise<UserPermissionGrant> => {
+  if (!isPermission(permission)) {
+    throw new ValidationError(`Unknown permission: ${permission}`);
+  }
+  if (options.expiresAt && options.expiresAt <= new Date()) {
+    throw new ValidationError('Expiry must be in the future');
+  }
+
+  const user = await getUserById(userId);
+  if (!user) {
+    throw new NotFoundError(`User ${userId} not found`);
+  }
+
+  if (!(await hasPermission(context.admin, permission))) {
+    throw new ForbiddenError('You can only grant permissions you hold');
+  }
+
+  const grant = await upsertUserGrant({
+    userId,
+    permission,
+    grantedById: context.admin.id,
+    reason: options.reason,
+    expiresAt: options.expiresAt,
+  });
+  await invalidatePermissions(userId);
+
+  await recordSecurityEvent({
+    userId: context.admin.id,
+    action: 'PERMISSION_GRANTED',
+    entity: 'User',
+    entityId: userId,
+    ipAddress: context.ipAddress ?? null,
+    userAgent: context.userAgent ?? null,
+    metadata: {
+      permission,
+      expiresAt: grant.expiresAt?.toISOString() ?? null,
+      reason: grant.reason,
+    },
+  });
+
+  logger.info({ userId, permission, adminId: context.admin.id }, 'Permission granted');
+
+  return grant;
+};
+
+/**
+ * Remove a user's grant. Role permissions are unaffected. Audited.
+ */
+export const revokePermission = async (
+  userId: string,
+  permission: string,
+  context: PermissionChangeContext
+): Promise<void> => {
+  const removed = await deleteUserGrant(userId, permission);
+  if (!removed) {
+    throw new NotFoundError(`User ${userId} has no grant for ${permission}`);
+  }
+  await invalidatePermissions(userId);
+
+  await recordSecurityEvent({
+    userId: context.admin.id,
+    action: 'PERMISSION_REVOKED',
+    entity: 'User',
+    entityId: userId,
+    ipAddress: context.ipAddress ?? null,
+    userAgent: context.userAgent ?? null,
+    metadata: { permission },
+  });
+
+  logger.info({ userId, permission, adminId: context.admin.id }, 'Permission revoked');
+};
@@ -0,0 +1,50 @@
+import { config } from '../config/index.js';
+import { cacheDelete, cacheGet, cacheSet } from '../utils/redis.js';
+import { findSecurityStamp } from '../repositories/auth.repository.js';
+
+// =============================================================================
+// Security Stamp Service
+// =============================================================================
+// `User.securityStamp` marks the instant from which access tokens are valid —
+// anything with an earlier `iat` is rejected by `authenticate`. It is bumped
+// (in the repositories) on password, role and status changes.
+//
+// The middleware consults it on every request, so it is cached in Redis.
+// Whoever bumps the stamp MUST call `invalidateSecurityStamp` afterwards;
+// the TTL only bounds staleness if that invalidation is lost. Without Redis
+// configured every lookup goes to the database.
+// =============================================================================
+
+const CACHE_TTL_SECONDS = 10 * 60;
+
+const cacheKey = (userId: string): string => `auth:security-stamp:${userId}`;
+
+/**
+ * The user's security stamp in epoch seconds (JWT `iat` units), or null if the
+ * user no longer exists.
+ */
+export const getSecurityStamp = async (userId: string): Promise<number | null> => {
+  const useCache = Boolean(config.redis.url);
+
+  if (useCache) {
+    const cached = await cacheGet<number>(cacheKey(userId));
+    if (cached !== null) return cached;
+  }
+
+  const stamp = await findSecurityStamp(userId);
+  if (!stamp) return null;
+
+  const seconds = Math.floor(stamp.getTime() / 1000);
+  if (useCache) {
+    await cacheSet(cacheKey(userId), seconds, CACHE_TTL_SECONDS);
+  }
+  return seconds;
+};
+
+/**
+ * Drop the cached stamp so the next request re-reads it from the database.
+ */
+export const invalidateSecurityStamp = async (userId: string): Promise<void> => {
+  if (!config.redis.url) return;
+  await cacheDelete(cacheKey(userId));
+};
@@ -2,6 +2,7 @@ import { SupportTicket, TicketPriority, TicketStatus } from '@prisma/client';
 import { logger } from '../utils/logger.js';
 import { NotFoundError, ValidationError } from '../utils/errors.js';
 import { sendSupportTicketNotification } from './email.service.js';
+import { recordAudit, type AuditRequestContext } from './audit.service.js';
 import {
   createSupportTicket as createTicketInDb,
   getSupportTicketById,
@@ -177,16 +178,22 @@ export const updateTicket = async (
 };
 
 /**
- * Assign a ticket to a support agent
+ * Assign a ticket to a support agent. Audited.
  */
 export const assignTicket = async (
   ticketId: string,
   assigneeId: string,
-  assignedBy?: string
+  assignedBy?: string,
+  request: AuditRequestContext = {}
 ): Promise<SupportTicket> => {
   logger.info({ ticketId, assigneeId, assignedBy }, 'Assigning ticket');
 
-  return updateTicket(
+  const existingTicket = await getSupportTicketById(ticketId);
+  if (!existingTicket) {
+    throw new NotFoundError(`Support ticket ${ticketId} not found`);
+  }
+
+  const ticket = await updateTicket(
     ticketId,
     {
       assigneeId,
@@ -194,6 +201,20 @@ export const assignTicket = async (
     },
     assignedBy
   );
+
+  await recordAudit(
+    {
+      actorId: assignedBy ?? null,
+      action: 'TICKET_ASSIGNED',
+      entity: 'SupportTicket',
+      entityId: ticketId,
+      oldValues: { assigneeId: existingTicket.assigneeId, status: existingTicket.status },
+      newValues: { assigneeId: ticket.assigneeId, status: ticket.status },
+    },
+    request
+  );
+
+  return ticket;
 };
 
 /**
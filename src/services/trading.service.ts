@@ -20,6 +20,7 @@ import { getVolumetricaIFrameUrl } from '../providers/volumetrica/volumetrica-ss
 import { config } from '../config/index.js';
 import * as syncService from './sync.service.js';
 import * as ypfSyncService from './ypf-sync.service.js';
+import { assertJurisdictionAllowed } from './jurisdiction.service.js';
 
 // =============================================================================
 // Helpers
@@ -376,13 +377,21 @@ export const getCheckoutUrl = async (
   accountId: string,
   userId: string,
   purpose: CheckoutPurpose,
+  ipAddress?: string,
 ): Promise<{ url: string }> => {
   const account = await prisma.account.findUnique({
     where: { id: accountId, deletedAt: null },
+    include: { user: { select: { country: true } } },
   });
   if (!account) throw new NotFoundError('Account not found');
   if (account.userId !== userId) throw new ForbiddenError('Not your account');
 
+  assertJurisdictionAllowed('purchase', {
+    declaredCountry: account.user.country,
+    ipAddress,
+    userId,
+  });
+
   const ids = requirePlatformIds(account);
   const provider = getTradingPlatformProvider();
 
@@ -512,9 +521,14 @@ export const getIFrameUrl = async (
 // Internal Helpers
 // =============================================================================
 
-const refreshUserAccountsFromPlatform = async (userId: string) => {
+/**
+ * Pull the user's accounts from the platform into the DB. Best-effort: returns
+ * false (and logs) instead of throwing when the user isn't linked or the
+ * platform call fails.
+ */
+export const refreshUserAccountsFromPlatform = async (userId: string): Promise<boolean> => {
   const user = await prisma.user.findUnique({ where: { id: userId } });
-  if (!user?.platformUserId) return;
+  if (!user?.platformUserId) return false;
 
   const platformUserId = user.platformUserId;
 
@@ -531,7 +545,9 @@ const refreshUserAccountsFromPlatform = async (userId: string) => {
         await syncService.syncAccountFromPlatform(localAccount.id, pa);
       }
     }
+    return true;
   } catch (err) {
     logger.warn({ err, userId }, 'Failed to refresh accounts from platform');
+    return false;
   }
 };
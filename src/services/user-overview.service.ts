@@ -0,0 +1,174 @@
+// =============================================================================
+// User Overview Service
+// =============================================================================
+// The staff "360°" view of one user: profile, sessions, login history, KYC,
+// accounts, payouts, support tickets, affiliate status and journal activity
+// in one response. Sections load concurrently, each under its own time budget,
+// and a section that fails or runs out of time is reported as such instead of
+// failing the whole overview — a slow YPF or affiliate-platform call costs
+// staff that section, not the page.
+// =============================================================================
+
+import type { Prisma, SupportTicket } from '@prisma/client';
+import { prisma } from '../utils/database.js';
+import { logger } from '../utils/logger.js';
+import { AppError, NotFoundError } from '../utils/errors.js';
+import { getUserById, type PaginatedResult } from '../repositories/user.repository.js';
+import type { SafeUser } from '../repositories/auth.repository.js';
+import { listSessions, type SessionSummary } from './auth.service.js';
+import { getLoginHistory, type LoginHistoryEntry } from './login-history.service.js';
+import { syncUserKyc, type KycStatusResult } from './kyc.service.js';
+import { refreshUserAccountsFromPlatform } from './trading.service.js';
+import { getPayoutHistory, type PayoutDTO } from './payout.service.js';
+import { getUserTickets } from './support-ticket.service.js';
+import { getMyAffiliateStatus, type MyAffiliateStatus } from './affiliate.service.js';
+
+/** Budget for sections served from our own database. */
+const LOCAL_SECTION_TIMEOUT_MS = 3_000;
+/** Budget for sections that call YPF or the affiliate platform. */
+const LIVE_SECTION_TIMEOUT_MS = 8_000;
+
+const RECENT_LOGINS = 20;
+const RECENT_TICKETS = 20;
+
+export type OverviewSection<T> =
+  | { status: 'ok'; data: T }
+  | { status: 'timeout' | 'error'; data: null; error: string };
+
+const overviewAccountSelect = {
+  id: true,
+  status: true,
+  platformAccountId: true,
+  accountType: { select: { name: true, displayName: true } },
+  startingBalance: true,
+  currentBalance: true,
+  totalPnl: true,
+  createdAt: true,
+  // Set for closed/blocked accounts.
+  deletedAt: true,
+} as const satisfies Prisma.AccountSelect;
+
+export type OverviewAccount = Prisma.AccountGetPayload<{ select: typeof overviewAccountSelect }>;
+
+export interface OverviewAccounts {
+  /** False when the platform refresh failed or ran out of time — statuses are as last synced. */
+  live: boolean;
+  accounts: OverviewAccount[];
+}
+
+export interface JournalActivity {
+  totalEntries: number;
+  byAccount: { accountId: string; entries: number; lastEntryDate: Date | null }[];
+}
+
+export interface UserOverview {
+  profile: SafeUser;
+  sessions: OverviewSection<SessionSummary[]>;
+  loginHistory: OverviewSection<PaginatedResult<LoginHistoryEntry>>;
+  kyc: OverviewSection<KycStatusResult>;
+  accounts: OverviewSection<OverviewAccounts>;
+  payouts: OverviewSection<PayoutDTO[]>;
+  tickets: OverviewSection<PaginatedResult<SupportTicket>>;
+  affiliate: OverviewSection<MyAffiliateStatus>;
+  journal: OverviewSection<JournalActivity>;
+}
+
+/**
+ * Run one section's loader under `timeoutMs`. Never rejects. A loader that
+ * times out keeps running in the background; its result is discarded.
+ */
+const loadSection = async <T>(
+  section: string,
+  userId: string,
+  timeoutMs: number,
+  load: () => Promise<T>
+): Promise<OverviewSection<T>> => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timedOut = new Promise<'timeout'>((resolve) => {
+    timer = setTimeout(() => resolve('timeout'), timeoutMs);
+  });
+
+  try {
+    const result = await Promise.race([load().then((data) => ({ data })), timedOut]);
+    if (result === 'timeout') {
+      logger.warn({ userId, section, timeoutMs }, 'User overview section timed out');
+      return { status: 'timeout', data: null, error: `Timed out after ${timeoutMs}ms` };
+    }
+    return { status: 'ok', data: result.data };
+  } catch (err) {
+    logger.warn({ err, userId, section }, 'User overview section failed');
+    return {
+      status: 'error',
+      data: null,
+      error: err instanceof AppError ? err.message : 'Failed to load',
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * Every account the user has had (closed ones included), after a live refresh
+ * from the platform when it answers in time.
+ */
+const loadAccounts = async (userId: string): Promise<OverviewAccounts> => {
+  const refresh = await loadSection('accounts.refresh', userId, LIVE_SECTION_TIMEOUT_MS, () =>
+    refreshUserAccountsFromPlatform(userId)
+  );
+
+  const accounts = await prisma.account.findMany({
+    where: { userId },
+    select: overviewAccountSelect,
+    orderBy: { createdAt: 'desc' },
+  });
+
+  return { live: refresh.status === 'ok' && refresh.data, accounts };
+};
+
+const loadJournalActivity = async (userId: string): Promise<JournalActivity> => {
+  const groups = await prisma.journalEntry.groupBy({
+    by: ['accountId'],
+    where: { userId },
+    _count: { _all: true },
+    _max: { date: true },
+  });
+
+  return {
+    totalEntries: groups.reduce((sum, g) => sum + g._count._all, 0),
+    byAccount: groups.map((g) => ({
+      accountId: g.accountId,
+      entries: g._count._all,
+      lastEntryDate: g._max.date,
+    })),
+  };
+};
+
+/**
+ * Build the staff overview of a user. Throws NotFoundError only when the user
+ * doesn't exist; every other section degrades on its own.
+ */
+export const getUserOverview = async (userId: string): Promise<UserOverview> => {
+  const profile = await getUserById(userId);
+  if (!profile) throw new NotFoundError(`User ${userId} not found`);
+
+  const [sessions, loginHistory, kyc, accounts, payouts, tickets, affiliate, journal] =
+    await Promise.all([
+      loadSection('sessions', userId, LOCAL_SECTION_TIMEOUT_MS, () => listSessions(userId)),
+      loadSection('loginHistory', userId, LOCAL_SECTION_TIMEOUT_MS, () =>
+        getLoginHistory(userId, { page: 1, limit: RECENT_LOGINS })
+      ),
+      loadSection('kyc', userId, LIVE_SECTION_TIMEOUT_MS, () => syncUserKyc(userId)),
+      // Gets its own refresh budget plus time for the read that follows.
+      loadSection('accounts', userId, LIVE_SECTION_TIMEOUT_MS + LOCAL_SECTION_TIMEOUT_MS, () =>
+        loadAccounts(userId)
+      ),
+      loadSection('payouts', userId, LOCAL_SECTION_TIMEOUT_MS, () => getPayoutHistory(userId)),
+      loadSection('tickets', userId, LOCAL_SECTION_TIMEOUT_MS, () =>
+        getUserTickets(userId, { page: 1, limit: RECENT_TICKETS })
+      ),
+      loadSection('affiliate', userId, LIVE_SECTION_TIMEOUT_MS, () => getMyAffiliateStatus(userId)),
+      loadSection('journal', userId, LOCAL_SECTION_TIMEOUT_MS, () => loadJournalActivity(userId)),
+    ]);
+
+  return { profile, sessions, loginHistory, kyc, accounts, payouts, tickets, affiliate, journal };
+};
@@ -24,6 +24,8 @@ import type { SafeUser } from '../repositories/auth.repository.js';
 import { getTradingPlatformProvider } from '../providers/index.js';
 import type { PlatformUserResult } from '../providers/types.js';
 import { config } from '../config/index.js';
+import { invalidateSecurityStamp } from './security-stamp.service.js';
+import { pickFields, recordAudit, type AuditRequestContext } from './audit.service.js';
 
 // =============================================================================
 // User Service
@@ -89,6 +91,7 @@ export const changeUserRole = async (
   targetUserId: string,
   newRole: UserRole,
   adminId: string,
+  request: AuditRequestContext = {},
 ): Promise<SafeUser> => {
   const target = await getUserById(targetUserId);
   if (!target) {
@@ -107,6 +110,19 @@ export const changeUserRole = async (
   if (!updated) {
     throw new NotFoundError(`User ${targetUserId} not found`);
   }
+  await invalidateSecurityStamp(targetUserId);
+
+  await recordAudit(
+    {
+      actorId: adminId,
+      action: 'USER_ROLE_CHANGED',
+      entity: 'User',
+      entityId: targetUserId,
+      oldValues: { role: target.role },
+      newValues: { role: newRole },
+    },
+    request,
+  );
 
   logger.info(
     { targetUserId, previousRole: target.role, newRole, adminId },
@@ -124,6 +140,7 @@ export const changeUserStatus = async (
   targetUserId: string,
   newStatus: UserStatus,
   adminId: string,
+  request: AuditRequestContext = {},
 ): Promise<SafeUser> => {
   const target = await getUserById(targetUserId);
   if (!target) {
@@ -145,6 +162,19 @@ export const changeUserStatus = async (
   if (!updated) {
     throw new NotFoundError(`User ${targetUserId} not found`);
   }
+  await invalidateSecurityStamp(targetUserId);
+
+  await recordAudit(
+    {
+      actorId: adminId,
+      action: 'USER_STATUS_CHANGED',
+      entity: 'User',
+      entityId: targetUserId,
+      oldValues: { status: target.status },
+      newValues: { status: newStatus },
+    },
+    request,
+  );
 
   logger.info(
     { targetUserId, previousStatus: target.status, newStatus, adminId },
@@ -168,6 +198,7 @@ export const adminUpdate = async (
     status?: UserStatus | undefined;
   },
   adminId: string,
+  request: AuditRequestContext = {},
 ): Promise<SafeUser> => {
   const target = await getUserById(targetUserId);
   if (!target) {
@@ -190,6 +221,24 @@ export const adminUpdate = async (
   if (!updated) {
     throw new NotFoundError(`User ${targetUserId} not found`);
   }
+  if (data.role !== undefined || data.status !== undefined) {
+    await invalidateSecurityStamp(targetUserId);
+  }
+
+  const changed = (Object.keys(data) as (keyof typeof data)[]).filter(
+    (key) => data[key] !== undefined,
+  );
+  await recordAudit(
+    {
+      actorId: adminId,
+      action: 'USER_UPDATED',
+      entity: 'User',
+      entityId: targetUserId,
+      oldValues: pickFields(target, changed),
+      newValues: pickFields(updated, changed),
+    },
+    request,
+  );
 
   logger.info(
     { targetUserId, updates: Object.keys(data), adminId },
@@ -206,6 +255,7 @@ export const adminUpdate = async (
 export const deleteUser = async (
   targetUserId: string,
   adminId: string,
+  request: AuditRequestContext = {},
 ): Promise<void> => {
   if (targetUserId === adminId) {
     throw new ForbiddenError('You cannot delete your own account');
@@ -215,6 +265,20 @@ export const deleteUser = async (
   if (!result) {
     throw new NotFoundError(`User ${targetUserId} not found`);
   }
+  await invalidateSecurityStamp(targetUserId);
+
+  await recordAudit(
+    {
+      actorId: adminId,
+      action: 'USER_DELETED',
+      entity: 'User',
+      entityId: targetUserId,
+      oldValues: { deletedAt: null },
+      // `updatedAt` is stamped by the same write that set `deletedAt`.
+      newValues: { deletedAt: result.updatedAt },
+    },
+    request,
+  );
 
   logger.info({ targetUserId, adminId }, 'User soft-deleted by admin');
 };
@@ -336,6 +400,7 @@ export const getPlatformUser = async (
 export const unlinkPlatformUser = async (
   userId: string,
   adminId: string,
+  request: AuditRequestContext = {},
 ): Promise<void> => {
   const user = await prisma.user.findUnique({
     where: { id: userId, deletedAt: null },
@@ -351,6 +416,18 @@ export const unlinkPlatformUser = async (
     data: { platformUserId: null },
   });
 
+  await recordAudit(
+    {
+      actorId: adminId,
+      action: 'PLATFORM_USER_UNLINKED',
+      entity: 'User',
+      entityId: userId,
+      oldValues: { platformUserId: user.platformUserId },
+      newValues: { platformUserId: null },
+    },
+    request,
+  );
+
   logger.info(
     { userId, adminId, previousPlatformUserId: user.platformUserId },
     'User unlinked from trading platform',
@@ -0,0 +1,455 @@
+import { randomBytes, randomUUID } from 'crypto';
+import bcrypt from 'bcrypt';
+import type { WebAuthnCredential } from '@prisma/client';
+
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { cacheDelete, cacheGet, cacheSet } from '../utils/redis.js';
+import {
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  ServiceUnavailableError,
+} from '../utils/errors.js';
+import {
+  SUPPORTED_COSE_ALGORITHMS,
+  WebAuthnVerificationError,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+  type AuthenticationResponseJSON,
+  type ExpectedCeremony,
+  type RegistrationResponseJSON,
+} from '../utils/webauthn.js';
+import {
+  findUserById,
+  findUserByIdWithCredentials,
+  findSessionById,
+  countWebAuthnCredentials,
+  findWebAuthnCredentialsByUserId,
+  findWebAuthnCredentialByCredentialId,
+  createWebAuthnCredential,
+  recordWebAuthnCredentialUse,
+  deleteWebAuthnCredential,
+  findLoginMethods,
+} from '../repositories/auth.repository.js';
+import { verifyMfaCode } from './mfa.service.js';
+
+// =============================================================================
+// WebAuthn Service
+// =============================================================================
+// Passkey registration and assertion ceremonies. The cryptography lives in
+// utils/webauthn; this layer issues challenges, keeps them in Redis for the
+// few minutes a ceremony takes (one use each), and owns the credential rows.
+//
+// Passkeys are used two ways (see auth.service):
+//   - primary login — discoverable credential + user verification, which is
+//     two factors on its own, so no TOTP challenge follows;
+//   - MFA second step — after a password / Google / magic-link first factor,
+//     in place of a TOTP code.
+// =============================================================================
+
+const CHALLENGE_TTL_SECONDS = 5 * 60;
+const MAX_PASSKEYS_PER_USER = 10;
+/** How long after signing in a user without a second factor skips the password. */
+const RECENT_LOGIN_MS = 10 * 60 * 1000;
+
+const registrationKey = (userId: string): string => `webauthn:reg:${userId}`;
+const authenticationKey = (challengeId: string): string => `webauthn:auth:${challengeId}`;
+
+interface StoredChallenge {
+  challenge: string;
+  /** Set when the assertion must come from this user's credentials (MFA). */
+  userId?: string | undefined;
+}
+
+/** Public view of a stored passkey (no key material or counters). */
+export interface PasskeySummary {
+  id: string;
+  name: string;
+  transports: string[];
+  backedUp: boolean;
+  lastUsedAt: Date | null;
+  createdAt: Date;
+}
+
+const toSummary = (credential: WebAuthnCredential): PasskeySummary => ({
+  id: credential.id,
+  name: credential.name,
+  transports: credential.transports,
+  backedUp: credential.backedUp,
+  lastUsedAt: credential.lastUsedAt,
+  createdAt: credential.createdAt,
+});
+
+/**
+ * Ceremonies need somewhere to keep the challenge between the two requests.
+ */
+const assertChallengeStore = (): void => {
+  if (!config.redis.url) {
+    throw new ServiceUnavailableError('Passkeys are not available right now');
+  }
+};
+
+const newChallenge = (): string => randomBytes(32).toString('base64url');
+
+/**
+ * Read and discard a stored challenge. Each one is good for a single attempt.
+ */
+const takeChallenge = async (key: string): Promise<StoredChallenge> => {
+  const stored = await cacheGet<StoredChallenge>(key);
+  await cacheDelete(key);
+
+  if (!stored) {
+    throw new BadRequestError('Passkey request has expired. Please try again.');
+  }
+  return stored;
+};
+
+const expectedCeremony = (
+  challenge: string,
+  requireUserVerification: boolean
+): ExpectedCeremony => ({
+  challenge,
+  origins: config.webauthn.origins,
+  rpId: config.webauthn.rpId,
+  requireUserVerification,
+});
+
+// =============================================================================
+// Step-up
+// =============================================================================
+
+/**
+ * Proof, beyond the access token, that the account owner is present. Which
+ * one is accepted depends on the account (see `assertSteppedUp`).
+ */
+export interface StepUpProof {
+  /** TOTP or backup code, when the authenticator app is enabled. */
+  code?: string | undefined;
+  /** Assertion against `getAuthenticationOptions(userId)`. */
+  passkey?: { challengeId: string; credential: AuthenticationResponseJSON } | undefined;
+  /** Only for users without a second factor. */
+  currentPassword?: string | undefined;
+}
+
+/**
+ * A passkey is a full sign-in on its own, so adding one — or removing the
+ * last second factor — takes more than a stolen access token. Users with a
+ * second factor confirm with it; others with their password, unless the
+ * session was started in the last few minutes.
+ */
+const assertSteppedUp = async (
+  userId: string,
+  sessionId: string,
+  proof: StepUpProof
+): Promise<void> => {
+  const user = await findUserByIdWithCredentials(userId);
+  if (!user) {
+    throw new NotFoundError('User not found');
+  }
+  const credentials = user.credentials;
+  const totp = credentials?.mfaEnabled ? credentials : null;
+  const passkeys = await countWebAuthnCredentials(userId);
+
+  if (totp || passkeys > 0) {
+    if (totp && proof.code) {
+      if (!(await verifyMfaCode(userId, totp, proof.code))) {
+        throw new BadRequestError('Invalid verification code');
+      }
+      return;
+    }
+    if (passkeys > 0 && proof.passkey) {
+      const verified = await verifyAuthentication({
+        ...proof.passkey,
+        requireUserVerification: false,
+        userId,
+      });
+      if (!verified) {
+        throw new BadRequestError('Passkey verification failed');
+      }
+      return;
+    }
+    throw new ForbiddenError(
+      totp
+        ? 'Confirm with a code from your authenticator app or one of your passkeys'
+        : 'Confirm with one of your passkeys'
+    );
+  }
+
+  if (credentials?.passwordHash && proof.currentPassword) {
+    if (!(await bcrypt.compare(proof.currentPassword, credentials.passwordHash))) {
+      throw new BadRequestError('Current password is incorrect');
+    }
+    return;
+  }
+
+  const session = await findSessionById(sessionId);
+  if (session && session.createdAt.getTime() > Date.now() - RECENT_LOGIN_MS) {
+    return;
+  }
+  throw new ForbiddenError(
+    credentials?.passwordHash
+      ? 'Confirm with your current password'
+      : 'Please sign in again to continue'
+  );
+};
+
+// =============================================================================
+// Registration
+// =============================================================================
+
+/**
+ * Options for `navigator.credentials.create()`. Existing passkeys are excluded
+ * so the same authenticator can't be registered twice.
+ */
+export const getRegistrationOptions = async (userId: string): Promise<Record<string, unknown>> => {
+  assertChallengeStore();
+
+  const user = await findUserById(userId);
+  if (!user) {
+    throw new NotFoundError('User not found');
+  }
+
+  const existing = await findWebAuthnCredentialsByUserId(userId);
+  if (existing.length >= MAX_PASSKEYS_PER_USER) {
+    throw new ConflictError(`You can register at most ${MAX_PASSKEYS_PER_USER} passkeys`);
+  }
+
+  const challenge = newChallenge();
+  await cacheSet<StoredChallenge>(registrationKey(userId), { challenge }, CHALLENGE_TTL_SECONDS);
+
+  return {
+    challenge,
+    rp: { id: config.webauthn.rpId, name: config.webauthn.rpName },
+    user: {
+      id: Buffer.from(user.id).toString('base64url'),
+      name: user.email,
+      displayName: `${user.firstName} ${user.lastName}`.trim(),
+    },
+    pubKeyCredParams: SUPPORTED_COSE_ALGORITHMS.map((alg) => ({ type: 'public-key', alg })),
+    timeout: CHALLENGE_TTL_SECONDS * 1000,
+    attestation: 'none',
+    excludeCredentials: existing.map((c) => ({
+      type: 'public-key',
+      id: c.credentialId,
+      transports: c.transports,
+    })),
+    authenticatorSelection: {
+      residentKey: 'required',
+      requireResidentKey: true,
+      userVerification: 'preferred',
+    },
+  };
+};
+
+export interface VerifyRegistrationInput {
+  sessionId: string;
+  credential: RegistrationResponseJSON;
+  /** User-facing label, e.g. "MacBook Touch ID". */
+  name?: string | undefined;
+  stepUp: StepUpProof;
+}
+
+/**
+ * Verify the browser's attestation response and store the new passkey.
+ * Requires a step-up (see `assertSteppedUp`).
+ */
+export const verifyRegistration = async (
+  userId: string,
+  input: VerifyRegistrationInput
+): Promise<PasskeySummary> => {
+  assertChallengeStore();
+
+  await assertSteppedUp(userId, input.sessionId, input.stepUp);
+
+  const { challenge } = await takeChallenge(registrationKey(userId));
+
+  let verified;
+  try {
+    verified = verifyRegistrationResponse(input.credential, expectedCeremony(challenge, false));
+  } catch (err) {
+    if (err instanceof WebAuthnVerificationError) {
+      logger.warn({ userId, reason: err.message }, 'Passkey registration rejected');
+      throw new BadRequestError('Passkey registration could not be verified');
+    }
+    throw err;
+  }
+
+  if (await findWebAuthnCredentialByCredentialId(verified.credentialId)) {
+    throw new ConflictError('This passkey is already registered');
+  }
+
+  const credential = await createWebAuthnCredential({
+    userId,
+    credentialId: verified.credentialId,
+    publicKey: verified.publicKey,
+    algorithm: verified.algorithm,
+    signCount: verified.signCount,
+    transports: input.credential.response.transports ?? [],
+    name: input.name?.trim() || 'Passkey',
+    backedUp: verified.backedUp,
+  });
+
+  logger.info({ userId, passkeyId: credential.id }, 'Passkey registered');
+
+  return toSummary(credential);
+};
+
+// =============================================================================
+// Authentication
+// =============================================================================
+
+export interface AuthenticationOptionsResult {
+  /** Echo back with the assertion so we can find the challenge. */
+  challengeId: string;
+  options: Record<string, unknown>;
+}
+
+/**
+ * Options for `navigator.credentials.get()`.
+ *
+ * Without a user (primary login) the browser offers any discoverable passkey
+ * for this site. With one (MFA step) the assertion is limited to that user's
+ * passkeys.
+ */
+export const getAuthenticationOptions = async (
+  userId?: string
+): Promise<AuthenticationOptionsResult> => {
+  assertChallengeStore();
+
+  let allowCredentials: Array<Record<string, unknown>> = [];
+  if (userId) {
+    const credentials = await findWebAuthnCredentialsByUserId(userId);
+    if (credentials.length === 0) {
+      throw new BadRequestError('No passkeys are registered for this account');
+    }
+    allowCredentials = credentials.map((c) => ({
+      type: 'public-key',
+      id: c.credentialId,
+      transports: c.transports,
+    }));
+  }
+
+  const challengeId = randomUUID();
+  const challenge = newChallenge();
+  await cacheSet<StoredChallenge>(
+    authenticationKey(challengeId),
+    { challenge, userId },
+    CHALLENGE_TTL_SECONDS
+  );
+
+  return {
+    challengeId,
+    options: {
+      challenge,
+      rpId: config.webauthn.rpId,
+      timeout: CHALLENGE_TTL_SECONDS * 1000,
+      allowCredentials,
+      userVerification: userId ? 'preferred' : 'required',
+    },
+  };
+};
+
+export interface VerifyAuthenticationInput {
+  challengeId: string;
+  credential: AuthenticationResponseJSON;
+  /** Primary login requires a verified user (biometric / PIN). */
+  requireUserVerification: boolean;
+  /** MFA step: the assertion must come from this user's passkey. */
+  userId?: string | undefined;
+}
+
+/**
+ * Verify an assertion and bump the credential's counter.
+ *
+ * Returns the owning user's ID, or null if the assertion doesn't verify (unknown
+ * credential, wrong user, bad signature…) — the caller decides how a failure
+ * counts, as with `verifyMfaCode`. An expired or unknown challenge throws.
+ */
+export const verifyAuthentication = async (
+  input: VerifyAuthenticationInput
+): Promise<string | null> => {
+  assertChallengeStore();
+
+  const stored = await takeChallenge(authenticationKey(input.challengeId));
+  if (stored.userId !== input.userId) {
+    throw new BadRequestError('Passkey request has expired. Please try again.');
+  }
+
+  const credential = await findWebAuthnCredentialByCredentialId(input.credential.id);
+  if (!credential || (input.userId && credential.userId !== input.userId)) {
+    logger.warn({ userId: input.userId }, 'Assertion for an unknown passkey');
+    return null;
+  }
+
+  try {
+    const result = verifyAuthenticationResponse(
+      input.credential,
+      expectedCeremony(stored.challenge, input.requireUserVerification),
+      {
+        publicKey: Buffer.from(credential.publicKey),
+        algorithm: credential.algorithm,
+        signCount: Number(credential.signCount),
+      }
+    );
+    await recordWebAuthnCredentialUse(credential.id, result.signCount, result.backedUp);
+  } catch (err) {
+    if (err instanceof WebAuthnVerificationError) {
+      logger.warn(
+        { userId: credential.userId, passkeyId: credential.id, reason: err.message },
+        'Passkey assertion rejected'
+      );
+      return null;
+    }
+    throw err;
+  }
+
+  return credential.userId;
+};
+
+// =============================================================================
+// Management
+// =============================================================================
+
+export const listPasskeys = async (userId: string): Promise<PasskeySummary[]> => {
+  const credentials = await findWebAuthnCredentialsByUserId(userId);
+  return credentials.map(toSummary);
+};
+
+/**
+ * Remove a passkey, unless it is the user's only way to sign in. Removing the
+ * last second factor (no authenticator app, no other passkey) turns 2FA off,
+ * so that takes a step-up too.
+ */
+export const deletePasskey = async (
+  userId: string,
+  sessionId: string,
+  passkeyId: string,
+  stepUp: StepUpProof
+): Promise<void> => {
+  const passkeys = await findWebAuthnCredentialsByUserId(userId);
+  if (!passkeys.some((p) => p.id === passkeyId)) {
+    throw new NotFoundError('Passkey not found');
+  }
+
+  if (passkeys.length === 1) {
+    const methods = await findLoginMethods(userId);
+    if (!methods.hasPassword && methods.oauthProviders.length === 0) {
+      throw new BadRequestError(
+        'You cannot remove your only sign-in method. Set a password or link another account first.'
+      );
+    }
+
+    const user = await findUserByIdWithCredentials(userId);
+    if (!user?.credentials?.mfaEnabled) {
+      await assertSteppedUp(userId, sessionId, stepUp);
+    }
+  }
+
+  const deleted = await deleteWebAuthnCredential(userId, passkeyId);
+  if (!deleted) {
+    throw new NotFoundError('Passkey not found');
+  }
+  logger.info({ userId, passkeyId }, 'Passkey removed');
+};
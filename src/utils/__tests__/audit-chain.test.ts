@@ -0,0 +1,42 @@
+import { canonicalJson, computeAuditHash, GENESIS_HASH } from '../audit-chain';
+
+const content = {
+  userId: 'admin-1',
+  action: 'PAYOUT_REQUESTED',
+  entity: 'Payout',
+  entityId: 'po-1',
+  oldValues: null,
+  newValues: { amount: 2000, accountId: 'acc-1' },
+  ipAddress: '203.0.113.7',
+  userAgent: null,
+  requestId: 'req-1',
+  metadata: null,
+  createdAt: new Date('2026-07-01T12:00:00.000Z'),
+};
+
+describe('canonicalJson', () => {
+  it('sorts keys at every level and drops undefined fields', () => {
+    expect(canonicalJson({ b: 1, a: { d: [{ f: 1, e: 2 }], c: undefined } })).toBe(
+      '{"a":{"d":[{"e":2,"f":1}]},"b":1}'
+    );
+  });
+});
+
+describe('computeAuditHash', () => {
+  it('ignores key order, as jsonb does', () => {
+    const reordered = { ...content, newValues: { accountId: 'acc-1', amount: 2000 } };
+    expect(computeAuditHash(GENESIS_HASH, reordered)).toBe(
+      computeAuditHash(GENESIS_HASH, content)
+    );
+  });
+
+  it('changes with the content and with the previous hash', () => {
+    const hash = computeAuditHash(GENESIS_HASH, content);
+
+    expect(hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(computeAuditHash(GENESIS_HASH, { ...content, newValues: { amount: 2001 } })).not.toBe(
+      hash
+    );
+    expect(computeAuditHash('f'.repeat(64), content)).not.toBe(hash);
+  });
+});
@@ -15,6 +15,7 @@ import {
   AccountNotFoundError,
   UserNotFoundError,
   AccountSuspendedError,
+  EmailNotVerifiedError,
   RuleViolationError,
   InsufficientFundsError,
   PaymentError,
@@ -49,6 +50,7 @@ describe('AppError subclass instanceof checks', () => {
     [AccountNotFoundError, 'AccountNotFoundError'],
     [UserNotFoundError, 'UserNotFoundError'],
     [AccountSuspendedError, 'AccountSuspendedError'],
+    [EmailNotVerifiedError, 'EmailNotVerifiedError'],
     [InsufficientFundsError, 'InsufficientFundsError'],
     [PaymentError, 'PaymentError'],
     [PlatformError, 'PlatformError'],
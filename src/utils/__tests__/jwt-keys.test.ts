@@ -0,0 +1,121 @@
+import { generateKeyPairSync, type KeyObject } from 'crypto';
+import jwt from 'jsonwebtoken';
+
+// ── Mocks ──────────────────────────────────────────────────────────────────
+
+const SECRET = 'legacy-secret-that-is-at-least-32-characters';
+
+const mockConfig = {
+  jwt: {
+    secret: SECRET,
+    signingKeys: [] as Array<Record<string, string>>,
+    acceptLegacySecret: true,
+  },
+};
+
+jest.mock('../../config/index', () => ({
+  get config() {
+    return mockConfig;
+  },
+}));
+
+import { getJwks, signJwt, verifyJwt } from '../jwt-keys';
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+const pem = (key: KeyObject, type: 'pkcs8' | 'spki'): string =>
+  key.export({ type, format: 'pem' }).toString();
+
+const rsa = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const ec = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+
+const HOUR = 60 * 60 * 1000;
+const iso = (offsetMs: number) => new Date(Date.now() + offsetMs).toISOString();
+
+const useKeys = (keys: Array<Record<string, string>>, acceptLegacySecret = true) => {
+  // A fresh array so the keyring re-parses.
+  mockConfig.jwt = { secret: SECRET, signingKeys: [...keys], acceptLegacySecret };
+};
+
+beforeEach(() => useKeys([]));
+
+// ── Tests ──────────────────────────────────────────────────────────────────
+
+describe('jwt keyring', () => {
+  it('falls back to HS256 with the shared secret when no keys are configured', () => {
+    const token = signJwt({ sub: 'user-1' }, { expiresIn: '5m' });
+
+    expect(jwt.decode(token, { complete: true })?.header).toMatchObject({ alg: 'HS256' });
+    expect(jwt.decode(token, { complete: true })?.header.kid).toBeUndefined();
+    expect(verifyJwt<{ sub: string }>(token).sub).toBe('user-1');
+    expect(getJwks()).toEqual({ keys: [] });
+  });
+
+  it('signs with the active key, names it in the header, and verifies by kid', () => {
+    useKeys([{ kid: 'k-ec', privateKey: pem(ec.privateKey, 'pkcs8') }]);
+
+    const token = signJwt({ sub: 'user-1' }, { expiresIn: '5m' });
+
+    expect(jwt.decode(token, { complete: true })?.header).toMatchObject({ alg: 'ES256', kid: 'k-ec' });
+    expect(verifyJwt<{ sub: string }>(token).sub).toBe('user-1');
+  });
+
+  it('picks the most recently activated key and keeps verifying the previous one', () => {
+    useKeys([
+      { kid: 'old', privateKey: pem(rsa.privateKey, 'pkcs8'), activeFrom: iso(-48 * HOUR) },
+      { kid: 'new', privateKey: pem(ec.privateKey, 'pkcs8'), activeFrom: iso(-HOUR) },
+    ]);
+    const oldToken = jwt.sign({ sub: 'user-1' }, rsa.privateKey, { algorithm: 'RS256', keyid: 'old' });
+
+    const token = signJwt({ sub: 'user-2' });
+
+    expect(jwt.decode(token, { complete: true })?.header.kid).toBe('new');
+    expect(verifyJwt<{ sub: string }>(oldToken).sub).toBe('user-1');
+  });
+
+  it('publishes a pending key without signing with it', () => {
+    useKeys([
+      { kid: 'current', privateKey: pem(rsa.privateKey, 'pkcs8') },
+      { kid: 'next', privateKey: pem(ec.privateKey, 'pkcs8'), activeFrom: iso(HOUR) },
+    ]);
+
+    expect(jwt.decode(signJwt({ sub: 'u' }), { complete: true })?.header.kid).toBe('current');
+    expect(getJwks().keys.map((k) => [k.kid, k.alg, k.use])).toEqual([
+      ['current', 'RS256', 'sig'],
+      ['next', 'ES256', 'sig'],
+    ]);
+    expect(getJwks().keys[0]).not.toHaveProperty('d');
+  });
+
+  it('stops accepting and publishing a key once it expires', () => {
+    const retiredToken = jwt.sign({ sub: 'user-1' }, rsa.privateKey, { algorithm: 'RS256', keyid: 'retired' });
+    useKeys([
+      { kid: 'retired', publicKey: pem(rsa.publicKey, 'spki'), expiresAt: iso(-HOUR) },
+      { kid: 'current', privateKey: pem(ec.privateKey, 'pkcs8') },
+    ]);
+
+    expect(() => verifyJwt(retiredToken)).toThrow('unknown signing key');
+    expect(getJwks().keys.map((k) => k.kid)).toEqual(['current']);
+  });
+
+  it('rejects a token whose algorithm does not match its key', () => {
+    useKeys([{ kid: 'k-rsa', privateKey: pem(rsa.privateKey, 'pkcs8') }]);
+    const forged = jwt.sign({ sub: 'admin' }, pem(rsa.publicKey, 'spki'), {
+      algorithm: 'HS256',
+      keyid: 'k-rsa',
+    });
+
+    expect(() => verifyJwt(forged)).toThrow(jwt.JsonWebTokenError);
+  });
+
+  it('accepts legacy kid-less tokens only while the legacy secret is allowed', () => {
+    const legacy = jwt.sign({ sub: 'user-1' }, SECRET);
+    const keys = [{ kid: 'k-ec', privateKey: pem(ec.privateKey, 'pkcs8') }];
+
+    useKeys(keys, true);
+    expect(verifyJwt<{ sub: string }>(legacy).sub).toBe('user-1');
+
+    useKeys(keys, false);
+    expect(() => verifyJwt(legacy)).toThrow('token has no key id');
+  });
+});
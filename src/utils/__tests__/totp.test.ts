@@ -0,0 +1,71 @@
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUri,
+  generateTotpCode,
+  generateTotpSecret,
+  totpCounter,
+  verifyTotpCode,
+} from '../totp';
+
+// RFC 6238 Appendix B reference secret ("12345678901234567890", SHA-1).
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('base32', () => {
+  it('round-trips arbitrary bytes', () => {
+    const buf = Buffer.from([0, 1, 2, 250, 251, 252, 253, 254, 255]);
+    expect(base32Decode(base32Encode(buf))).toEqual(buf);
+  });
+
+  it('encodes the RFC reference secret', () => {
+    expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+  });
+
+  it('rejects characters outside the alphabet', () => {
+    expect(() => base32Decode('ABC1')).toThrow('Invalid base32 character');
+  });
+});
+
+describe('generateTotpCode', () => {
+  // RFC 6238 vectors, truncated from 8 to 6 digits.
+  it.each([
+    [59, '287082'],
+    [1111111109, '081804'],
+    [1234567890, '005924'],
+    [2000000000, '279037'],
+  ])('matches the RFC 6238 vector at T=%i', (seconds, expected) => {
+    expect(generateTotpCode(RFC_SECRET, totpCounter(seconds * 1000))).toBe(expected);
+  });
+});
+
+describe('verifyTotpCode', () => {
+  const nowMs = 1111111109 * 1000;
+
+  it('returns the matching step counter for a current code', () => {
+    expect(verifyTotpCode(RFC_SECRET, '081804', { nowMs })).toBe(totpCounter(nowMs));
+  });
+
+  it('tolerates one step of clock drift either way', () => {
+    const previous = generateTotpCode(RFC_SECRET, totpCounter(nowMs) - 1);
+    expect(verifyTotpCode(RFC_SECRET, previous, { nowMs })).toBe(totpCounter(nowMs) - 1);
+  });
+
+  it('rejects codes outside the window and malformed input', () => {
+    const stale = generateTotpCode(RFC_SECRET, totpCounter(nowMs) - 5);
+    expect(verifyTotpCode(RFC_SECRET, stale, { nowMs })).toBeNull();
+    expect(verifyTotpCode(RFC_SECRET, 'abcdef', { nowMs })).toBeNull();
+    expect(verifyTotpCode(RFC_SECRET, '12345', { nowMs })).toBeNull();
+  });
+});
+
+describe('generateTotpSecret / buildOtpauthUri', () => {
+  it('produces a 160-bit base32 secret and a scannable URI', () => {
+    const secret = generateTotpSecret();
+    expect(base32Decode(secret)).toHaveLength(20);
+
+    const uri = buildOtpauthUri({ secret, accountName: 'trader@example.com', issuer: 'Dynasty Futures' });
+    expect(uri.startsWith('otpauth://totp/Dynasty%20Futures%3Atrader%40example.com?')).toBe(true);
+    expect(uri).toContain(`secret=${secret}`);
+    expect(uri).toContain('issuer=Dynasty%20Futures');
+  });
+});
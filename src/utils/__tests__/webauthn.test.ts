@@ -0,0 +1,273 @@
+import { createHash, generateKeyPairSync, sign, type KeyObject } from 'crypto';
+import {
+  COSE_ALG_EDDSA,
+  COSE_ALG_ES256,
+  decodeCbor,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+  WebAuthnVerificationError,
+  type ExpectedCeremony,
+} from '../webauthn';
+
+// =============================================================================
+// Test authenticator
+// =============================================================================
+// Builds the same bytes a browser would hand us, from keys generated here.
+
+type CborInput = number | string | Buffer | Map<CborInput, CborInput>;
+
+const cborHead = (major: number, value: number): Buffer => {
+  if (value < 24) return Buffer.from([(major << 5) | value]);
+  if (value < 256) return Buffer.from([(major << 5) | 24, value]);
+  const buf = Buffer.alloc(3);
+  buf.writeUInt8((major << 5) | 25);
+  buf.writeUInt16BE(value, 1);
+  return buf;
+};
+
+const encodeCbor = (value: CborInput): Buffer => {
+  if (typeof value === 'number') {
+    return value >= 0 ? cborHead(0, value) : cborHead(1, -1 - value);
+  }
+  if (typeof value === 'string') {
+    const bytes = Buffer.from(value, 'utf8');
+    return Buffer.concat([cborHead(3, bytes.length), bytes]);
+  }
+  if (Buffer.isBuffer(value)) {
+    return Buffer.concat([cborHead(2, value.length), value]);
+  }
+  const parts = [cborHead(5, value.size)];
+  for (const [k, v] of value) parts.push(encodeCbor(k), encodeCbor(v));
+  return Buffer.concat(parts);
+};
+
+const RP_ID = 'app.example.com';
+const ORIGIN = 'https://app.example.com';
+const CHALLENGE = Buffer.from('server-issued-challenge').toString('base64url');
+
+const expected: ExpectedCeremony = {
+  challenge: CHALLENGE,
+  origins: [ORIGIN],
+  rpId: RP_ID,
+  requireUserVerification: true,
+};
+
+const sha256 = (data: Buffer | string): Buffer => createHash('sha256').update(data).digest();
+
+const clientData = (type: string, overrides: Record<string, string> = {}): Buffer =>
+  Buffer.from(JSON.stringify({ type, challenge: CHALLENGE, origin: ORIGIN, ...overrides }));
+
+const authenticatorData = (flags: number, signCount: number, attested?: Buffer): Buffer => {
+  const header = Buffer.alloc(37);
+  sha256(RP_ID).copy(header, 0);
+  header.writeUInt8(flags, 32);
+  header.writeUInt32BE(signCount, 33);
+  return attested ? Buffer.concat([header, attested]) : header;
+};
+
+const coseKey = (publicKey: KeyObject, alg: number): Map<CborInput, CborInput> => {
+  const jwk = publicKey.export({ format: 'jwk' });
+  const b = (v: string | undefined): Buffer => Buffer.from(v as string, 'base64url');
+  if (alg === COSE_ALG_ES256) {
+    return new Map<CborInput, CborInput>([
+      [1, 2],
+      [3, alg],
+      [-1, 1],
+      [-2, b(jwk.x)],
+      [-3, b(jwk.y)],
+    ]);
+  }
+  return new Map<CborInput, CborInput>([
+    [1, 1],
+    [3, alg],
+    [-1, 6],
+    [-2, b(jwk.x)],
+  ]);
+};
+
+const makeAuthenticator = (alg: number) => {
+  const { publicKey, privateKey } =
+    alg === COSE_ALG_ES256
+      ? generateKeyPairSync('ec', { namedCurve: 'P-256' })
+      : generateKeyPairSync('ed25519');
+  const credentialId = Buffer.from(`credential-${alg}`);
+
+  const register = (flags = 0x45) => {
+    const idLength = Buffer.alloc(2);
+    idLength.writeUInt16BE(credentialId.length);
+    const attested = Buffer.concat([
+      Buffer.alloc(16),
+      idLength,
+      credentialId,
+      encodeCbor(coseKey(publicKey, alg)),
+    ]);
+    const attestationObject = encodeCbor(
+      new Map<CborInput, CborInput>([
+        ['fmt', 'none'],
+        ['attStmt', new Map()],
+        ['authData', authenticatorData(flags, 0, attested)],
+      ])
+    );
+    return {
+      id: credentialId.toString('base64url'),
+      type: 'public-key',
+      response: {
+        clientDataJSON: clientData('webauthn.create').toString('base64url'),
+        attestationObject: attestationObject.toString('base64url'),
+        transports: ['internal'],
+      },
+    };
+  };
+
+  const assert = (signCount: number, flags = 0x05, data = clientData('webauthn.get')) => {
+    const authData = authenticatorData(flags, signCount);
+    const signed = Buffer.concat([authData, sha256(data)]);
+    const signature = sign(alg === COSE_ALG_ES256 ? 'sha256' : null, signed, privateKey);
+    return {
+      id: credentialId.toString('base64url'),
+      type: 'public-key',
+      response: {
+        clientDataJSON: data.toString('base64url'),
+        authenticatorData: authData.toString('base64url'),
+        signature: signature.toString('base64url'),
+      },
+    };
+  };
+
+  return { register, assert };
+};
+
+// =============================================================================
+// CBOR
+// =============================================================================
+
+describe('decodeCbor', () => {
+  it('decodes maps with integer and text keys and reports the consumed length', () => {
+    const encoded = encodeCbor(new Map<CborInput, CborInput>([[1, 2], ['k', Buffer.from([9])], [-3, 'v']]));
+    const { value, length } = decodeCbor(Buffer.concat([encoded, Buffer.from([0xff])]));
+
+    expect(length).toBe(encoded.length);
+    expect(value).toEqual(new Map<unknown, unknown>([[1, 2], ['k', Buffer.from([9])], [-3, 'v']]));
+  });
+
+  it('rejects truncated input', () => {
+    expect(() => decodeCbor(Buffer.from([0x43, 0x01]))).toThrow(WebAuthnVerificationError);
+  });
+});
+
+// =============================================================================
+// Registration
+// =============================================================================
+
+describe('verifyRegistrationResponse', () => {
+  it.each([
+    ['ES256', COSE_ALG_ES256],
+    ['EdDSA', COSE_ALG_EDDSA],
+  ])('extracts the %s public key', (_name, alg) => {
+    const authenticator = makeAuthenticator(alg);
+    const result = verifyRegistrationResponse(authenticator.register(), expected);
+
+    expect(result.algorithm).toBe(alg);
+    expect(result.credentialId).toBe(Buffer.from(`credential-${alg}`).toString('base64url'));
+    expect(result.signCount).toBe(0);
+    expect(result.publicKey.length).toBeGreaterThan(0);
+  });
+
+  it('rejects a response for another challenge or origin', () => {
+    const response = makeAuthenticator(COSE_ALG_ES256).register();
+
+    expect(() =>
+      verifyRegistrationResponse(response, { ...expected, challenge: 'other' })
+    ).toThrow('Challenge mismatch');
+    expect(() =>
+      verifyRegistrationResponse(response, { ...expected, origins: ['https://evil.example'] })
+    ).toThrow('Origin not allowed');
+  });
+
+  it('rejects a credential scoped to another relying party', () => {
+    const response = makeAuthenticator(COSE_ALG_ES256).register();
+    expect(() => verifyRegistrationResponse(response, { ...expected, rpId: 'example.org' })).toThrow(
+      'Relying party ID mismatch'
+    );
+  });
+
+  it('requires user verification when asked to', () => {
+    const response = makeAuthenticator(COSE_ALG_ES256).register(0x41);
+    expect(() => verifyRegistrationResponse(response, expected)).toThrow(
+      'User verification is required'
+    );
+  });
+});
+
+// =============================================================================
+// Authentication
+// =============================================================================
+
+describe('verifyAuthenticationResponse', () => {
+  const setup = (alg: number) => {
+    const authenticator = makeAuthenticator(alg);
+    const registered = verifyRegistrationResponse(authenticator.register(), expected);
+    return { authenticator, stored: { ...registered, signCount: 3 } };
+  };
+
+  it.each([
+    ['ES256', COSE_ALG_ES256],
+    ['EdDSA', COSE_ALG_EDDSA],
+  ])('verifies a %s assertion and returns the new counter', (_name, alg) => {
+    const { authenticator, stored } = setup(alg);
+
+    const result = verifyAuthenticationResponse(authenticator.assert(4), expected, stored);
+
+    expect(result).toEqual({ signCount: 4, userVerified: true, backedUp: false });
+  });
+
+  it('rejects a tampered signature', () => {
+    const { authenticator, stored } = setup(COSE_ALG_ES256);
+    const response = authenticator.assert(4);
+    const tampered = {
+      ...response,
+      response: {
+        ...response.response,
+        clientDataJSON: clientData('webauthn.get', { crossOrigin: 'true' }).toString('base64url'),
+      },
+    };
+
+    expect(() => verifyAuthenticationResponse(tampered, expected, stored)).toThrow(
+      'Signature verification failed'
+    );
+  });
+
+  it('rejects a counter that did not move forward', () => {
+    const { authenticator, stored } = setup(COSE_ALG_ES256);
+    expect(() => verifyAuthenticationResponse(authenticator.assert(3), expected, stored)).toThrow(
+      'Signature counter did not increase'
+    );
+  });
+
+  it('accepts synced passkeys that always report a zero counter', () => {
+    const { authenticator, stored } = setup(COSE_ALG_ES256);
+    expect(
+      verifyAuthenticationResponse(authenticator.assert(0), expected, { ...stored, signCount: 0 })
+    ).toMatchObject({ signCount: 0 });
+  });
+
+  it('rejects a registration response replayed as an assertion', () => {
+    const { authenticator, stored } = setup(COSE_ALG_ES256);
+    const response = authenticator.assert(4, 0x05, clientData('webauthn.create'));
+    expect(() => verifyAuthenticationResponse(response, expected, stored)).toThrow(
+      'Unexpected client data type'
+    );
+  });
+
+  it('only requires user presence for the MFA step', () => {
+    const { authenticator, stored } = setup(COSE_ALG_ES256);
+    const response = authenticator.assert(4, 0x01);
+
+    expect(() => verifyAuthenticationResponse(response, expected, stored)).toThrow(
+      'User verification is required'
+    );
+    expect(
+      verifyAuthenticationResponse(response, { ...expected, requireUserVerification: false }, stored)
+    ).toMatchObject({ userVerified: false });
+  });
+});
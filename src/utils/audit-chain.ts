@@ -0,0 +1,79 @@
+import { createHash } from 'crypto';
+
+// =============================================================================
+// Audit Hash Chain
+// =============================================================================
+// Each audit entry stores
+//
+//   hash = SHA-256( prevHash + canonicalJson(content) )
+//
+// where `prevHash` is the previous entry's hash (GENESIS_HASH for the first
+// chained entry) and `content` is every stored field except the hashes and the
+// sequence number. Editing an entry breaks its own hash; deleting, inserting or
+// reordering entries breaks the next entry's `prevHash` link. Truncating the
+// tail is only detectable against a head hash recorded elsewhere — that is what
+// the anchors in an export are for.
+// =============================================================================
+
+export const AUDIT_HASH_ALGORITHM = 'sha256';
+
+export const GENESIS_HASH = '0'.repeat(64);
+
+export interface AuditHashContent {
+  userId: string | null;
+  action: string;
+  entity: string;
+  entityId: string | null;
+  oldValues: unknown;
+  newValues: unknown;
+  ipAddress: string | null;
+  userAgent: string | null;
+  requestId: string | null;
+  metadata: unknown;
+  createdAt: Date;
+}
+
+const canonicalize = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (value !== null && typeof value === 'object') {
+    return Object.keys(value)
+      .sort()
+      .reduce<Record<string, unknown>>((sorted, key) => {
+        sorted[key] = canonicalize((value as Record<string, unknown>)[key]);
+        return sorted;
+      }, {});
+  }
+  return value;
+};
+
+/**
+ * JSON with object keys sorted at every level, so the same content hashes the
+ * same whether it comes from our code or back out of a jsonb column (which
+ * does not preserve key order).
+ */
+export const canonicalJson = (value: unknown): string => {
+  // The inner round-trip drops undefined fields and turns Dates into strings,
+  // exactly as storing the value would.
+  const plain: unknown = JSON.parse(JSON.stringify(value ?? null));
+  return JSON.stringify(canonicalize(plain));
+};
+
+export const computeAuditHash = (prevHash: string, content: AuditHashContent): string => {
+  const fields = {
+    userId: content.userId,
+    action: content.action,
+    entity: content.entity,
+    entityId: content.entityId,
+    oldValues: content.oldValues ?? null,
+    newValues: content.newValues ?? null,
+    ipAddress: content.ipAddress,
+    userAgent: content.userAgent,
+    requestId: content.requestId,
+    metadata: content.metadata ?? null,
+    createdAt: content.createdAt.toISOString(),
+  };
+  return createHash(AUDIT_HASH_ALGORITHM)
+    .update(prevHash)
+    .update(canonicalJson(fields))
+    .digest('hex');
+};
@@ -0,0 +1,66 @@
+import { createHash } from 'crypto';
+import { readFile, stat } from 'fs/promises';
+import path from 'path';
+import { config } from '../config/index.js';
+import { logger } from './logger.js';
+
+// =============================================================================
+// Breached Passwords (offline)
+// =============================================================================
+// Checks a password against a breached-password corpus on local disk
+// (BREACHED_PASSWORDS_PATH), laid out like the Pwned Passwords range API: one
+// file per 5-hex-character SHA-1 prefix (`ABCDE.txt`), each line holding the
+// remaining 35 characters and a count (`SUFFIX:COUNT`). Only the one prefix
+// file is read per check and nothing leaves the process. Without the
+// directory, checks return false and a warning is logged once.
+// =============================================================================
+
+const PREFIX_LENGTH = 5;
+
+let _available: boolean | null = null;
+
+const corpusAvailable = async (): Promise<boolean> => {
+  if (_available !== null) return _available;
+
+  try {
+    _available = (await stat(config.security.passwordPolicy.breachedPasswordsPath)).isDirectory();
+  } catch {
+    _available = false;
+  }
+  if (!_available) {
+    logger.warn(
+      { path: config.security.passwordPolicy.breachedPasswordsPath },
+      'Breached-password list unavailable — breached-password checks are disabled'
+    );
+  }
+  return _available;
+};
+
+/**
+ * How many times `password` appears in the breached-password corpus (0 if it
+ * doesn't, or if there is no corpus).
+ */
+export const breachedPasswordCount = async (password: string): Promise<number> => {
+  if (!(await corpusAvailable())) return 0;
+
+  const sha1 = createHash('sha1').update(password, 'utf8').digest('hex').toUpperCase();
+  const prefix = sha1.slice(0, PREFIX_LENGTH);
+  const suffix = sha1.slice(PREFIX_LENGTH);
+
+  let range: string;
+  try {
+    range = await readFile(
+      path.join(config.security.passwordPolicy.breachedPasswordsPath, `${prefix}.txt`),
+      'utf8'
+    );
+  } catch (err) {
+    if ((err as { code?: string }).code === 'ENOENT') return 0;
+    throw err;
+  }
+
+  for (const line of range.split('\n')) {
+    const [lineSuffix, count] = line.trim().split(':');
+    if (lineSuffix?.toUpperCase() === suffix) return Number(count) || 1;
+  }
+  return 0;
+};
@@ -209,6 +209,39 @@ export class AccountSuspendedError extends AppError {
   }
 }
 
+/**
+ * Email address not yet verified (gates payouts, KYC, etc.)
+ */
+export class EmailNotVerifiedError extends AppError {
+  constructor(message = 'Please verify your email address to continue') {
+    super(message, 'EMAIL_NOT_VERIFIED', 403, true);
+  }
+}
+
+/**
+ * Feature unavailable in the user's country (declared or by IP)
+ */
+export class RestrictedJurisdictionError extends AppError {
+  constructor(feature: string, country: string) {
+    super(
+      'This service is not available in your jurisdiction',
+      'RESTRICTED_JURISDICTION',
+      451,
+      true,
+      { feature, country }
+    );
+  }
+}
+
+/**
+ * Missing or rejected CAPTCHA token on a bot-protected form
+ */
+export class CaptchaError extends AppError {
+  constructor(message = 'CAPTCHA verification failed', details?: ErrorDetails) {
+    super(message, 'CAPTCHA_FAILED', 403, true, details);
+  }
+}
+
 /**
  * Rule violation
  */
@@ -0,0 +1,48 @@
+import { readFileSync } from 'fs';
+import { Reader, validate, type CountryResponse } from 'maxmind';
+import { config } from '../config/index.js';
+import { logger } from './logger.js';
+
+// =============================================================================
+// GeoIP (offline)
+// =============================================================================
+// IP → country from a MaxMind Country database on local disk
+// (GEOIP_DATABASE_PATH) — no lookups leave the process. The file is read on
+// first use. Without it, lookups return null and a warning is logged once;
+// callers decide what an unknown country means.
+// =============================================================================
+
+let _reader: Reader<CountryResponse> | null = null;
+let _loadFailed = false;
+
+const getReader = (): Reader<CountryResponse> | null => {
+  if (_reader || _loadFailed) return _reader;
+
+  try {
+    _reader = new Reader<CountryResponse>(readFileSync(config.jurisdiction.geoipDatabasePath));
+  } catch (err) {
+    _loadFailed = true;
+    logger.warn(
+      { err, path: config.jurisdiction.geoipDatabasePath },
+      'GeoIP database unavailable — IP country checks are disabled'
+    );
+  }
+  return _reader;
+};
+
+/**
+ * ISO 3166-1 alpha-2 code of the country `ipAddress` is registered in, or null
+ * if unknown (private/reserved address, not in the database, no database).
+ */
+export const lookupIpCountry = (ipAddress: string | undefined): string | null => {
+  if (!ipAddress) return null;
+
+  // Express reports IPv4 clients on dual-stack sockets as ::ffff:a.b.c.d.
+  const ip = ipAddress.replace(/^::ffff:/i, '');
+  if (!validate(ip)) return null;
+
+  const reader = getReader();
+  if (!reader) return null;
+
+  return reader.get(ip)?.country?.iso_code ?? null;
+};
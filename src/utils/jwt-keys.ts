@@ -0,0 +1,153 @@
+import { createPrivateKey, createPublicKey, type JsonWebKey, type KeyObject } from 'crypto';
+import jwt, { type SignOptions } from 'jsonwebtoken';
+import { config } from '../config/index.js';
+
+// =============================================================================
+// JWT Signing Keyring
+// =============================================================================
+// Every token we mint goes through `signJwt`, every token we accept through
+// `verifyJwt`. With JWT_SIGNING_KEYS configured, tokens are signed with the
+// newest active asymmetric key and carry its `kid`; verification picks the key
+// by `kid`, so a rotation only needs an overlap window:
+//
+//   1. add the new key with a future `activeFrom` — it is published in the JWKS
+//      (so other services pick it up) but doesn't sign yet;
+//   2. once it activates, give the old key an `expiresAt` past the longest
+//      token lifetime (JWT_REFRESH_EXPIRES_IN) and drop its privateKey;
+//   3. remove the old key after it expires.
+//
+// Without keys we fall back to HS256 with JWT_SECRET, exactly as before.
+// =============================================================================
+
+export type JwtSigningAlgorithm = 'RS256' | 'ES256';
+
+interface SigningKey {
+  kid: string;
+  algorithm: JwtSigningAlgorithm;
+  privateKey: KeyObject | null;
+  publicKey: KeyObject;
+  activeFrom: number;
+  expiresAt: number;
+}
+
+export interface Jwk extends JsonWebKey {
+  kid: string;
+  alg: JwtSigningAlgorithm;
+  use: 'sig';
+}
+
+let _keys: SigningKey[] = [];
+let _loadedFrom: typeof config.jwt.signingKeys | null = null;
+
+const algorithmFor = (kid: string, key: KeyObject): JwtSigningAlgorithm => {
+  if (key.asymmetricKeyType === 'rsa') return 'RS256';
+  if (key.asymmetricKeyType === 'ec' && key.asymmetricKeyDetails?.namedCurve === 'prime256v1') {
+    return 'ES256';
+  }
+  throw new Error(`JWT signing key "${kid}" must be an RSA or P-256 key`);
+};
+
+/** Parse the configured keys once (re-parsed only if the config object changes). */
+const getKeys = (): SigningKey[] => {
+  if (_loadedFrom === config.jwt.signingKeys) return _keys;
+
+  const seen = new Set<string>();
+  _keys = config.jwt.signingKeys.map((entry) => {
+    if (seen.has(entry.kid)) {
+      throw new Error(`Duplicate JWT signing key id "${entry.kid}"`);
+    }
+    seen.add(entry.kid);
+
+    const privateKey = entry.privateKey ? createPrivateKey(entry.privateKey) : null;
+    const publicKey = privateKey
+      ? createPublicKey(privateKey)
+      : createPublicKey(entry.publicKey as string);
+
+    return {
+      kid: entry.kid,
+      algorithm: algorithmFor(entry.kid, publicKey),
+      privateKey,
+      publicKey,
+      activeFrom: entry.activeFrom ? Date.parse(entry.activeFrom) : 0,
+      expiresAt: entry.expiresAt ? Date.parse(entry.expiresAt) : Infinity,
+    };
+  });
+  _loadedFrom = config.jwt.signingKeys;
+  return _keys;
+};
+
+const isUnexpired = (key: SigningKey, now: number): boolean => now < key.expiresAt;
+
+/**
+ * The key new tokens are signed with: the most recently activated unexpired
+ * key that has a private half. Null = sign with JWT_SECRET.
+ */
+const currentSigningKey = (now = Date.now()): SigningKey | null => {
+  let current: SigningKey | null = null;
+  for (const key of getKeys()) {
+    if (!key.privateKey || key.activeFrom > now || !isUnexpired(key, now)) continue;
+    if (!current || key.activeFrom > current.activeFrom) current = key;
+  }
+  return current;
+};
+
+/**
+ * Sign a token with the current key (adding its `kid` header), or with
+ * JWT_SECRET when no asymmetric key is configured.
+ */
+export const signJwt = (payload: object, options: SignOptions = {}): string => {
+  const key = currentSigningKey();
+  if (!key) {
+    return jwt.sign(payload, config.jwt.secret, { ...options, algorithm: 'HS256' });
+  }
+  return jwt.sign(payload, key.privateKey as KeyObject, {
+    ...options,
+    algorithm: key.algorithm,
+    keyid: key.kid,
+  });
+};
+
+/**
+ * Verify a token, selecting the key by its `kid` header. Each key only
+ * verifies its own algorithm, so an HS256 token can never be checked against
+ * a public key. Throws jsonwebtoken's errors, like `jwt.verify`.
+ */
+export const verifyJwt = <T = unknown>(token: string): T => {
+  const decoded = jwt.decode(token, { complete: true });
+  if (!decoded) {
+    throw new jwt.JsonWebTokenError('jwt malformed');
+  }
+
+  const kid = decoded.header.kid;
+  if (kid) {
+    const key = getKeys().find((k) => k.kid === kid && isUnexpired(k, Date.now()));
+    if (!key) {
+      throw new jwt.JsonWebTokenError('unknown signing key');
+    }
+    return jwt.verify(token, key.publicKey, { algorithms: [key.algorithm] }) as T;
+  }
+
+  // Tokens from before asymmetric keys were configured.
+  if (getKeys().length > 0 && !config.jwt.acceptLegacySecret) {
+    throw new jwt.JsonWebTokenError('token has no key id');
+  }
+  return jwt.verify(token, config.jwt.secret, { algorithms: ['HS256'] }) as T;
+};
+
+/**
+ * Public halves of every unexpired key — including ones not yet signing — for
+ * `GET /.well-known/jwks.json`.
+ */
+export const getJwks = (): { keys: Jwk[] } => {
+  const now = Date.now();
+  return {
+    keys: getKeys()
+      .filter((key) => isUnexpired(key, now))
+      .map((key) => ({
+        ...key.publicKey.export({ format: 'jwk' }),
+        kid: key.kid,
+        alg: key.algorithm,
+        use: 'sig' as const,
+      })),
+  };
+};
@@ -21,6 +21,7 @@ const createLogger = (): pino.Logger => {
       paths: [
         'req.headers.authorization',
         'req.headers.cookie',
+        'req.headers["x-csrf-token"]',
         'password',
         'passwordHash',
         'token',
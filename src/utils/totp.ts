@@ -0,0 +1,139 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+// =============================================================================
+// TOTP (RFC 6238)
+// =============================================================================
+// Minimal time-based one-time password implementation — HMAC-SHA1, 6 digits,
+// 30-second steps — which is what every mainstream authenticator app
+// (Google Authenticator, 1Password, Authy, ...) expects from an otpauth:// URI.
+// Secrets are exchanged as unpadded RFC 4648 base32.
+// =============================================================================
+
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+const TOTP_SECRET_BYTES = 20; // 160 bits, the RFC 4226 recommendation
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+// ---------------------------------------------------------------------------
+// Base32
+// ---------------------------------------------------------------------------
+
+export const base32Encode = (buf: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let out = '';
+
+  for (const byte of buf) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    out += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return out;
+};
+
+export const base32Decode = (input: string): Buffer => {
+  const clean = input.replace(/[\s=]/g, '').toUpperCase();
+  let bits = 0;
+  let value = 0;
+  const out: number[] = [];
+
+  for (const char of clean) {
+    const idx = BASE32_ALPHABET.indexOf(char);
+    if (idx === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+    value = (value << 5) | idx;
+    bits += 5;
+    if (bits >= 8) {
+      out.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(out);
+};
+
+// ---------------------------------------------------------------------------
+// Secrets & URIs
+// ---------------------------------------------------------------------------
+
+/**
+ * Generate a fresh random TOTP secret (base32).
+ */
+export const generateTotpSecret = (): string => base32Encode(randomBytes(TOTP_SECRET_BYTES));
+
+/**
+ * Build the `otpauth://` URI authenticator apps consume (usually via QR code).
+ */
+export const buildOtpauthUri = (params: {
+  secret: string;
+  accountName: string;
+  issuer: string;
+}): string => {
+  const label = encodeURIComponent(`${params.issuer}:${params.accountName}`);
+  const query = [
+    `secret=${params.secret}`,
+    `issuer=${encodeURIComponent(params.issuer)}`,
+    'algorithm=SHA1',
+    `digits=${TOTP_DIGITS}`,
+    `period=${TOTP_STEP_SECONDS}`,
+  ].join('&');
+  return `otpauth://totp/${label}?${query}`;
+};
+
+// ---------------------------------------------------------------------------
+// Code generation / verification
+// ---------------------------------------------------------------------------
+
+/** The 30-second step counter for a given instant. */
+export const totpCounter = (nowMs: number = Date.now()): number =>
+  Math.floor(nowMs / 1000 / TOTP_STEP_SECONDS);
+
+/**
+ * Compute the TOTP code for a specific step counter (RFC 4226 HOTP).
+ */
+export const generateTotpCode = (secret: string, counter: number): string => {
+  const msg = Buffer.alloc(8);
+  msg.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = createHmac('sha1', base32Decode(secret)).update(msg).digest();
+  const offset = (hmac[hmac.length - 1] as number) & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+};
+
+/**
+ * Verify a user-supplied code, tolerating ±`window` steps of clock drift.
+ *
+ * Returns the matching step counter (so callers can reject replays of the same
+ * code), or null when the code doesn't match.
+ */
+export const verifyTotpCode = (
+  secret: string,
+  code: string,
+  options: { window?: number; nowMs?: number } = {}
+): number | null => {
+  const { window = 1, nowMs = Date.now() } = options;
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d{6}$/.test(normalized)) return null;
+
+  const current = totpCounter(nowMs);
+  const given = Buffer.from(normalized);
+
+  for (let drift = -window; drift <= window; drift++) {
+    const expected = Buffer.from(generateTotpCode(secret, current + drift));
+    if (timingSafeEqual(expected, given)) {
+      return current + drift;
+    }
+  }
+
+  return null;
+};
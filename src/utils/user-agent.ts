@@ -0,0 +1,48 @@
+import { createHash } from 'crypto';
+
+// =============================================================================
+// User-Agent helpers
+// =============================================================================
+// Coarse device recognition from the User-Agent header. Only the browser family
+// and platform are considered, so a browser auto-update doesn't make a known
+// device look new.
+// =============================================================================
+
+const BROWSERS: ReadonlyArray<readonly [RegExp, string]> = [
+  [/Edg\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const PLATFORMS: ReadonlyArray<readonly [RegExp, string]> = [
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Linux/, 'Linux'],
+];
+
+/**
+ * Best-effort "Chrome on macOS"-style label. Deliberately coarse — it's for a
+ * user recognising their own devices, not for tracking them.
+ */
+export const describeDevice = (userAgent: string | null | undefined): string => {
+  if (!userAgent) return 'Unknown device';
+
+  const browser = BROWSERS.find(([re]) => re.test(userAgent))?.[1];
+  const platform = PLATFORMS.find(([re]) => re.test(userAgent))?.[1];
+
+  if (browser && platform) return `${browser} on ${platform}`;
+  return browser ?? platform ?? 'Unknown device';
+};
+
+/**
+ * Stable short hash of the device label, or null when the user agent is
+ * missing (an absent header shouldn't match every other header-less login).
+ */
+export const deviceFingerprint = (userAgent: string | null | undefined): string | null => {
+  if (!userAgent) return null;
+  return createHash('sha256').update(describeDevice(userAgent)).digest('hex').slice(0, 16);
+};
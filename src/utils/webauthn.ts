@@ -0,0 +1,410 @@
+import {
+  createHash,
+  createPublicKey,
+  timingSafeEqual,
+  verify as cryptoVerify,
+  type JsonWebKey,
+} from 'crypto';
+
+// =============================================================================
+// WebAuthn (Level 2) verification
+// =============================================================================
+// Just enough of the spec to register passkeys and verify assertions on top of
+// node's crypto: a minimal CBOR decoder, authenticator-data parsing, COSE key
+// conversion (ES256, EdDSA, RS256) and signature checks.
+//
+// We request `attestation: 'none'`, so attestation statements are not
+// verified — we never make trust decisions based on the authenticator model.
+// All binary values cross the API as base64url strings.
+// =============================================================================
+
+/** COSE algorithm identifiers we accept, in order of preference. */
+export const COSE_ALG_ES256 = -7;
+export const COSE_ALG_EDDSA = -8;
+export const COSE_ALG_RS256 = -257;
+export const SUPPORTED_COSE_ALGORITHMS = [COSE_ALG_ES256, COSE_ALG_EDDSA, COSE_ALG_RS256];
+
+/** Thrown for any malformed or non-verifying WebAuthn payload. */
+export class WebAuthnVerificationError extends Error {}
+
+const fail = (message: string): never => {
+  throw new WebAuthnVerificationError(message);
+};
+
+// ---------------------------------------------------------------------------
+// CBOR (RFC 8949) — definite-length items only, which is all authenticators emit
+// ---------------------------------------------------------------------------
+
+export type CborValue =
+  | number
+  | string
+  | Buffer
+  | boolean
+  | null
+  | undefined
+  | CborValue[]
+  | Map<CborValue, CborValue>;
+
+/**
+ * Decode the first CBOR item in `buf`. Returns the value and how many bytes
+ * it occupied (COSE keys sit in the middle of authenticator data).
+ */
+export const decodeCbor = (buf: Buffer): { value: CborValue; length: number } => {
+  let offset = 0;
+
+  const need = (bytes: number): void => {
+    if (offset + bytes > buf.length) fail('Truncated CBOR data');
+  };
+
+  const readArgument = (info: number): number => {
+    if (info < 24) return info;
+    if (info === 24) {
+      need(1);
+      return buf.readUInt8(offset++);
+    }
+    if (info === 25) {
+      need(2);
+      const value = buf.readUInt16BE(offset);
+      offset += 2;
+      return value;
+    }
+    if (info === 26) {
+      need(4);
+      const value = buf.readUInt32BE(offset);
+      offset += 4;
+      return value;
+    }
+    if (info === 27) {
+      need(8);
+      const value = buf.readBigUInt64BE(offset);
+      offset += 8;
+      if (value > BigInt(Number.MAX_SAFE_INTEGER)) fail('CBOR integer too large');
+      return Number(value);
+    }
+    return fail('Unsupported CBOR encoding');
+  };
+
+  const readItem = (depth: number): CborValue => {
+    if (depth > 16) fail('CBOR nesting too deep');
+    need(1);
+    const initial = buf.readUInt8(offset++);
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+
+    switch (major) {
+      case 0:
+        return readArgument(info);
+      case 1:
+        return -1 - readArgument(info);
+      case 2: {
+        const length = readArgument(info);
+        need(length);
+        const bytes = Buffer.from(buf.subarray(offset, offset + length));
+        offset += length;
+        return bytes;
+      }
+      case 3: {
+        const length = readArgument(info);
+        need(length);
+        const text = buf.toString('utf8', offset, offset + length);
+        offset += length;
+        return text;
+      }
+      case 4: {
+        const count = readArgument(info);
+        const items: CborValue[] = [];
+        for (let i = 0; i < count; i++) items.push(readItem(depth + 1));
+        return items;
+      }
+      case 5: {
+        const count = readArgument(info);
+        const map = new Map<CborValue, CborValue>();
+        for (let i = 0; i < count; i++) {
+          const key = readItem(depth + 1);
+          map.set(key, readItem(depth + 1));
+        }
+        return map;
+      }
+      case 7:
+        if (info === 20) return false;
+        if (info === 21) return true;
+        if (info === 22) return null;
+        if (info === 23) return undefined;
+        return fail('Unsupported CBOR simple value');
+      default:
+        return fail('Unsupported CBOR major type');
+    }
+  };
+
+  const value = readItem(0);
+  return { value, length: offset };
+};
+
+// ---------------------------------------------------------------------------
+// Authenticator data
+// ---------------------------------------------------------------------------
+
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_BACKUP_ELIGIBLE = 0x08;
+const FLAG_BACKED_UP = 0x10;
+const FLAG_ATTESTED_CREDENTIAL = 0x40;
+
+export interface AuthenticatorData {
+  rpIdHash: Buffer;
+  userPresent: boolean;
+  userVerified: boolean;
+  backupEligible: boolean;
+  backedUp: boolean;
+  signCount: number;
+  attestedCredential?:
+    | {
+        aaguid: Buffer;
+        credentialId: Buffer;
+        publicKey: Map<CborValue, CborValue>;
+      }
+    | undefined;
+}
+
+export const parseAuthenticatorData = (data: Buffer): AuthenticatorData => {
+  if (data.length < 37) fail('Authenticator data is too short');
+
+  const flags = data.readUInt8(32);
+  const parsed: AuthenticatorData = {
+    rpIdHash: data.subarray(0, 32),
+    userPresent: (flags & FLAG_USER_PRESENT) !== 0,
+    userVerified: (flags & FLAG_USER_VERIFIED) !== 0,
+    backupEligible: (flags & FLAG_BACKUP_ELIGIBLE) !== 0,
+    backedUp: (flags & FLAG_BACKED_UP) !== 0,
+    signCount: data.readUInt32BE(33),
+  };
+
+  if (flags & FLAG_ATTESTED_CREDENTIAL) {
+    if (data.length < 55) fail('Attested credential data is truncated');
+    const aaguid = data.subarray(37, 53);
+    const idLength = data.readUInt16BE(53);
+    if (data.length < 55 + idLength) fail('Credential ID is truncated');
+    const credentialId = data.subarray(55, 55 + idLength);
+
+    const { value } = decodeCbor(data.subarray(55 + idLength));
+    if (!(value instanceof Map)) fail('Credential public key is not a COSE map');
+
+    parsed.attestedCredential = {
+      aaguid,
+      credentialId,
+      publicKey: value as Map<CborValue, CborValue>,
+    };
+  }
+
+  return parsed;
+};
+
+// ---------------------------------------------------------------------------
+// COSE keys
+// ---------------------------------------------------------------------------
+
+const coseBytes = (cose: Map<CborValue, CborValue>, label: number): string => {
+  const value = cose.get(label);
+  if (!Buffer.isBuffer(value)) fail(`COSE key is missing parameter ${label}`);
+  return (value as Buffer).toString('base64url');
+};
+
+/**
+ * Convert a COSE public key to SPKI DER, which is how credentials are stored.
+ */
+export const coseKeyToSpki = (
+  cose: Map<CborValue, CborValue>
+): { publicKey: Buffer; algorithm: number } => {
+  const kty = cose.get(1);
+  const alg = cose.get(3);
+  let jwk: JsonWebKey;
+
+  if (kty === 2 && alg === COSE_ALG_ES256 && cose.get(-1) === 1) {
+    jwk = { kty: 'EC', crv: 'P-256', x: coseBytes(cose, -2), y: coseBytes(cose, -3) };
+  } else if (kty === 1 && alg === COSE_ALG_EDDSA && cose.get(-1) === 6) {
+    jwk = { kty: 'OKP', crv: 'Ed25519', x: coseBytes(cose, -2) };
+  } else if (kty === 3 && alg === COSE_ALG_RS256) {
+    jwk = { kty: 'RSA', n: coseBytes(cose, -1), e: coseBytes(cose, -2) };
+  } else {
+    return fail('Unsupported credential public key algorithm');
+  }
+
+  try {
+    const key = createPublicKey({ key: jwk, format: 'jwk' });
+    return { publicKey: key.export({ format: 'der', type: 'spki' }), algorithm: alg };
+  } catch {
+    return fail('Invalid credential public key');
+  }
+};
+
+// ---------------------------------------------------------------------------
+// Shared checks
+// ---------------------------------------------------------------------------
+
+export interface ExpectedCeremony {
+  /** base64url challenge we issued. */
+  challenge: string;
+  /** Allowed origins, e.g. https://app.example.com */
+  origins: readonly string[];
+  rpId: string;
+  requireUserVerification: boolean;
+}
+
+const decodeBase64Url = (value: unknown, field: string): Buffer => {
+  if (typeof value !== 'string' || value.length === 0) fail(`Missing ${field}`);
+  return Buffer.from(value as string, 'base64url');
+};
+
+const sha256 = (data: Buffer | string): Buffer => createHash('sha256').update(data).digest();
+
+const verifyClientData = (
+  clientDataJSON: Buffer,
+  type: 'webauthn.create' | 'webauthn.get',
+  expected: ExpectedCeremony
+): void => {
+  let clientData: { type?: unknown; challenge?: unknown; origin?: unknown };
+  try {
+    clientData = JSON.parse(clientDataJSON.toString('utf8')) as typeof clientData;
+  } catch {
+    return fail('Client data is not valid JSON');
+  }
+
+  if (clientData.type !== type) fail('Unexpected client data type');
+  if (clientData.challenge !== expected.challenge) fail('Challenge mismatch');
+  if (typeof clientData.origin !== 'string' || !expected.origins.includes(clientData.origin)) {
+    fail('Origin not allowed');
+  }
+};
+
+const verifyAuthenticatorFlags = (auth: AuthenticatorData, expected: ExpectedCeremony): void => {
+  const expectedHash = sha256(expected.rpId);
+  if (!timingSafeEqual(auth.rpIdHash, expectedHash)) fail('Relying party ID mismatch');
+  if (!auth.userPresent) fail('User presence is required');
+  if (expected.requireUserVerification && !auth.userVerified) {
+    fail('User verification is required');
+  }
+};
+
+// ---------------------------------------------------------------------------
+// Registration (navigator.credentials.create)
+// ---------------------------------------------------------------------------
+
+export interface RegistrationResponseJSON {
+  id: string;
+  type: string;
+  response: {
+    clientDataJSON: string;
+    attestationObject: string;
+    transports?: string[] | undefined;
+  };
+}
+
+export interface VerifiedRegistration {
+  /** base64url credential ID. */
+  credentialId: string;
+  /** SPKI DER public key. */
+  publicKey: Buffer;
+  algorithm: number;
+  signCount: number;
+  backupEligible: boolean;
+  backedUp: boolean;
+}
+
+export const verifyRegistrationResponse = (
+  credential: RegistrationResponseJSON,
+  expected: ExpectedCeremony
+): VerifiedRegistration => {
+  if (credential.type !== 'public-key') fail('Unexpected credential type');
+
+  const clientDataJSON = decodeBase64Url(credential.response.clientDataJSON, 'clientDataJSON');
+  verifyClientData(clientDataJSON, 'webauthn.create', expected);
+
+  const attestation = decodeCbor(
+    decodeBase64Url(credential.response.attestationObject, 'attestationObject')
+  ).value;
+  if (!(attestation instanceof Map)) fail('Attestation object is not a map');
+  const authData = (attestation as Map<CborValue, CborValue>).get('authData');
+  if (!Buffer.isBuffer(authData)) fail('Attestation object has no authenticator data');
+
+  const auth = parseAuthenticatorData(authData as Buffer);
+  verifyAuthenticatorFlags(auth, expected);
+
+  if (!auth.attestedCredential) return fail('No attested credential data');
+
+  const credentialId = auth.attestedCredential.credentialId.toString('base64url');
+  if (credentialId !== credential.id) fail('Credential ID mismatch');
+
+  const { publicKey, algorithm } = coseKeyToSpki(auth.attestedCredential.publicKey);
+
+  return {
+    credentialId,
+    publicKey,
+    algorithm,
+    signCount: auth.signCount,
+    backupEligible: auth.backupEligible,
+    backedUp: auth.backedUp,
+  };
+};
+
+// ---------------------------------------------------------------------------
+// Authentication (navigator.credentials.get)
+// ---------------------------------------------------------------------------
+
+export interface AuthenticationResponseJSON {
+  id: string;
+  type: string;
+  response: {
+    clientDataJSON: string;
+    authenticatorData: string;
+    signature: string;
+    userHandle?: string | null | undefined;
+  };
+}
+
+export interface StoredCredentialKey {
+  publicKey: Buffer;
+  algorithm: number;
+  signCount: number;
+}
+
+export interface VerifiedAuthentication {
+  signCount: number;
+  userVerified: boolean;
+  backedUp: boolean;
+}
+
+export const verifyAuthenticationResponse = (
+  credential: AuthenticationResponseJSON,
+  expected: ExpectedCeremony,
+  stored: StoredCredentialKey
+): VerifiedAuthentication => {
+  if (credential.type !== 'public-key') fail('Unexpected credential type');
+
+  const clientDataJSON = decodeBase64Url(credential.response.clientDataJSON, 'clientDataJSON');
+  verifyClientData(clientDataJSON, 'webauthn.get', expected);
+
+  const authData = decodeBase64Url(credential.response.authenticatorData, 'authenticatorData');
+  const auth = parseAuthenticatorData(authData);
+  verifyAuthenticatorFlags(auth, expected);
+
+  const signature = decodeBase64Url(credential.response.signature, 'signature');
+  const signed = Buffer.concat([authData, sha256(clientDataJSON)]);
+
+  let valid = false;
+  try {
+    const key = createPublicKey({ key: stored.publicKey, format: 'der', type: 'spki' });
+    const hash = stored.algorithm === COSE_ALG_EDDSA ? null : 'sha256';
+    valid = cryptoVerify(hash, signed, key, signature);
+  } catch {
+    valid = false;
+  }
+  if (!valid) fail('Signature verification failed');
+
+  // Authenticators that keep a counter must move it forward; one that goes
+  // backwards suggests a cloned authenticator. (Synced passkeys report 0.)
+  if ((auth.signCount > 0 || stored.signCount > 0) && auth.signCount <= stored.signCount) {
+    fail('Signature counter did not increase');
+  }
+
+  return { signCount: auth.signCount, userVerified: auth.userVerified, backedUp: auth.backedUp };
+};